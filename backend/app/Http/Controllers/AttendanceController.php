@@ -0,0 +1,278 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\AttendanceRequest;
+use App\Models\Attendance;
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Teacher;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+class AttendanceController extends Controller
+{
+    /**
+     * Teachers may only take attendance in classes they are scheduled for.
+     */
+    protected function canTake(Request $request, Subject $subject, Section $section): bool
+    {
+        $user = $request->user();
+        if ($user->role !== 'Teacher') {
+            return true;
+        }
+
+        $teacher = Teacher::forUser($user);
+
+        return $teacher !== null && $teacher->teaches($subject, $section);
+    }
+
+    protected function forbidden(): JsonResponse
+    {
+        return response()->json([
+            'success' => false,
+            'message' => 'Unauthorized. Insufficient permissions.'
+        ], 403);
+    }
+
+    /**
+     * The attendance sheet of one session: every student in the section's
+     * roster for the subject, with the mark they got that day, if any.
+     */
+    protected function sheet(Subject $subject, Section $section, string $date): array
+    {
+        $students = $subject->roster($section);
+        $marks = Attendance::query()
+            ->where('subject_id', $subject->id)
+            ->whereDate('date', $date)
+            ->whereIn('student_id', $students->pluck('id'))
+            ->get()
+            ->keyBy('student_id');
+
+        return [
+            'session' => [
+                'subject' => $subject->summary(),
+                'section' => $section->only(['id', 'name']),
+                'date' => $date,
+            ],
+            'students' => $students->map(function (Student $student) use ($marks) {
+                $mark = $marks->get($student->id);
+
+                return array_merge($student->only(['id', 'name']), $student->placementNames(), [
+                    'status' => $mark?->status,
+                    'remarks' => $mark?->remarks,
+                ]);
+            })->values(),
+            'summary' => Attendance::summarize($marks->values()),
+        ];
+    }
+
+    /**
+     * Display the attendance sheet of a section's session of a subject on
+     * one day.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'section_id' => 'required|integer|exists:sections,id',
+            'subject_id' => 'required|integer|exists:subjects,id',
+            'date' => 'required|date_format:Y-m-d',
+        ]);
+
+        $subject = Subject::findOrFail($validated['subject_id']);
+        $section = Section::findOrFail($validated['section_id']);
+        if (!$this->canTake($request, $subject, $section)) {
+            return $this->forbidden();
+        }
+
+        try {
+            return response()->json(array_merge(
+                ['success' => true],
+                $this->sheet($subject, $section, $validated['date'])
+            ));
+        } catch (\Exception $e) {
+            Log::error('Error fetching attendance: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch attendance',
+            ], 500);
+        }
+    }
+
+    /**
+     * Record the marks of one session. Students sent with a null status have
+     * their mark for the day cleared.
+     */
+    public function store(AttendanceRequest $request): JsonResponse
+    {
+        $subject = Subject::findOrFail($request->validated('subject_id'));
+        $section = Section::findOrFail($request->validated('section_id'));
+        if (!$this->canTake($request, $subject, $section)) {
+            return $this->forbidden();
+        }
+
+        if ($subject->term?->isArchived()) {
+            return $this->archivedTerm($subject->term);
+        }
+
+        // Only students of the session's class can be marked
+        $rosterIds = $subject->roster($section)->pluck('id');
+        $outside = collect($request->validated('records'))->pluck('student_id')->diff($rosterIds);
+        if ($outside->isNotEmpty()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Validation failed',
+                'errors' => ['records' => ['Some of the students are not in this class.']],
+            ], 422);
+        }
+
+        $date = $request->validated('date');
+
+        try {
+            DB::beginTransaction();
+
+            foreach ($request->validated('records') as $entry) {
+                $keys = [
+                    'student_id' => $entry['student_id'],
+                    'subject_id' => $subject->id,
+                    'date' => $date,
+                ];
+
+                if ($entry['status'] === null) {
+                    Attendance::where($keys)->delete();
+                    continue;
+                }
+
+                Attendance::updateOrCreate($keys, [
+                    'section_id' => $section->id,
+                    'status' => $entry['status'],
+                    'remarks' => $entry['remarks'] ?? null,
+                    'recorded_by' => $request->user()->id,
+                ]);
+            }
+
+            DB::commit();
+
+            return response()->json(array_merge(
+                ['success' => true, 'message' => 'Attendance saved successfully'],
+                $this->sheet($subject, $section, $date)
+            ));
+        } catch (\Exception $e) {
+            DB::rollBack();
+            Log::error('Error saving attendance: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to save attendance',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display a student's attendance: their overall rate, a breakdown per
+     * subject and every session they missed, were late to or were excused
+     * from. `from` and `to` narrow it to a date range.
+     */
+    public function student(Request $request, Student $student): JsonResponse
+    {
+        $user = $request->user();
+        if ($user->role !== 'Admin' && !($user->role === 'Student' && $student->user_id === $user->id)) {
+            return $this->forbidden();
+        }
+
+        $validated = $request->validate([
+            'from' => 'nullable|date_format:Y-m-d',
+            'to' => 'nullable|date_format:Y-m-d|after_or_equal:from',
+        ]);
+
+        try {
+            $marks = $student->attendances()
+                ->with('subject:id,name,code')
+                ->between($validated['from'] ?? null, $validated['to'] ?? null)
+                ->orderByDesc('date')
+                ->get();
+
+            $subjects = $marks->groupBy('subject_id')
+                ->map(function ($subjectMarks) {
+                    $subject = $subjectMarks->first()->subject;
+
+                    return array_merge(
+                        ['subject_id' => $subject?->id, 'name' => $subject?->name, 'code' => $subject?->code],
+                        Attendance::summarize($subjectMarks)
+                    );
+                })
+                ->sortBy('name')
+                ->values();
+
+            return response()->json([
+                'success' => true,
+                'summary' => Attendance::summarize($marks),
+                'subjects' => $subjects,
+                'records' => $marks->where('status', '!=', 'present')
+                    ->map(fn (Attendance $mark) => [
+                        'id' => $mark->id,
+                        'date' => $mark->date->toDateString(),
+                        'status' => $mark->status,
+                        'remarks' => $mark->remarks,
+                        'subject' => $mark->subject?->only(['id', 'name', 'code']),
+                    ])
+                    ->values(),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching student attendance: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch attendance',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display the attendance summary of every student in a section, across
+     * all subjects or one. `from` and `to` narrow it to a date range.
+     */
+    public function summary(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'section_id' => 'required|integer',
+            'subject_id' => 'nullable|integer',
+            'from' => 'nullable|date_format:Y-m-d',
+            'to' => 'nullable|date_format:Y-m-d|after_or_equal:from',
+        ]);
+
+        try {
+            $section = Section::find($validated['section_id']);
+            if (!$section) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Section not found',
+                ], 404);
+            }
+
+            $students = Student::where('section_id', $section->id)->orderBy('name')->get();
+            $marks = Attendance::query()
+                ->whereIn('student_id', $students->pluck('id'))
+                ->when($validated['subject_id'] ?? null, fn ($query, $subjectId) => $query->where('subject_id', $subjectId))
+                ->between($validated['from'] ?? null, $validated['to'] ?? null)
+                ->get()
+                ->groupBy('student_id');
+
+            return response()->json([
+                'success' => true,
+                'section' => $section->only(['id', 'name']),
+                'students' => $students->map(fn (Student $student) => array_merge(
+                    $student->only(['id', 'name']),
+                    ['summary' => Attendance::summarize($marks->get($student->id, collect()))]
+                ))->values(),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching attendance summary: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch attendance summary',
+            ], 500);
+        }
+    }
+}
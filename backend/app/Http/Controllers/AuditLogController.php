@@ -0,0 +1,51 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\AuditLog;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Log;
+
+class AuditLogController extends Controller
+{
+    /**
+     * Display a paginated list of audit log entries, newest first.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $request->validate([
+            'action' => 'nullable|in:' . implode(',', AuditLog::ACTIONS),
+            'entity_type' => 'nullable|in:' . implode(',', AuditLog::ENTITY_TYPES),
+            'entity_id' => 'nullable|integer',
+            'user_id' => 'nullable|integer',
+            'from' => 'nullable|date',
+            'to' => 'nullable|date',
+        ]);
+
+        try {
+            $logs = AuditLog::query()
+                ->filter($request->only(['action', 'entity_type', 'entity_id', 'user_id', 'from', 'to', 'search']))
+                ->latest()
+                ->orderByDesc('id')
+                ->paginate($request->input('limit', 20));
+
+            return response()->json([
+                'success' => true,
+                'audit_logs' => $logs->items(),
+                'pagination' => [
+                    'total' => $logs->total(),
+                    'per_page' => $logs->perPage(),
+                    'current_page' => $logs->currentPage(),
+                    'last_page' => $logs->lastPage(),
+                ],
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching audit logs: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch audit logs',
+            ], 500);
+        }
+    }
+}
@@ -2,14 +2,25 @@
 
 namespace App\Http\Controllers;
 
+use App\Models\Teacher;
 use App\Models\User;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Auth;
 use Illuminate\Support\Facades\Hash;
 use Illuminate\Validation\ValidationException;
+use Laravel\Sanctum\NewAccessToken;
 
 class AuthController extends Controller
 {
+    /**
+     * Where each role lands after signing in.
+     */
+    protected const HOME_ROUTES = [
+        'Admin' => '/admin/dashboardoverview',
+        'Student' => '/user/dashboard',
+        'Teacher' => '/teacher/dashboard',
+    ];
+
     public function register(Request $request)
     {
         $request->validate([
@@ -49,14 +60,32 @@ public function login(Request $request)
         $user = User::where('email', $request->email)->first();
         
         // Generate token for API authentication
-        $token = $user->createToken('auth-token')->plainTextToken;
+        $token = $this->issueToken($user);
 
         return response()->json([
             'success' => true,
             'message' => 'Login successful',
             'user' => $user,
-            'token' => $token,
-            'redirect_to' => $user->role === 'Admin' ? '/admin/dashboardoverview' : '/user/dashboard'
+            'token' => $token->plainTextToken,
+            'expires_at' => $token->accessToken->expires_at,
+            'redirect_to' => self::HOME_ROUTES[$user->role] ?? '/user/dashboard'
+        ]);
+    }
+
+    /**
+     * Swap the token used for this request for a fresh one, so clients that
+     * keep being used never hit the expiry.
+     */
+    public function refresh(Request $request)
+    {
+        $user = $request->user();
+        $token = $this->issueToken($user);
+        $user->currentAccessToken()->delete();
+
+        return response()->json([
+            'success' => true,
+            'token' => $token->plainTextToken,
+            'expires_at' => $token->accessToken->expires_at,
         ]);
     }
 
@@ -73,9 +102,32 @@ public function logout(Request $request)
 
     public function me(Request $request)
     {
+        $user = $request->user();
+        $userData = $user->toArray();
+
+        if ($user->role === 'Student') {
+            $userData['student_id'] = $user->student?->id;
+        }
+
+        if ($user->role === 'Teacher') {
+            $userData['teacher_id'] = Teacher::forUser($user)?->id;
+        }
+
         return response()->json([
             'success' => true,
-            'user' => $request->user()
+            'user' => $userData
         ]);
     }
+
+    /**
+     * Create an API token that expires after `sanctum.expiration` minutes.
+     * The expiry is stored on the token as well so the TypeScript API server,
+     * which reads tokens straight from the database, honours it too.
+     */
+    protected function issueToken(User $user): NewAccessToken
+    {
+        $minutes = config('sanctum.expiration');
+
+        return $user->createToken('auth-token', ['*'], $minutes ? now()->addMinutes((int) $minutes) : null);
+    }
 } 
\ No newline at end of file
@@ -2,7 +2,20 @@
 
 namespace App\Http\Controllers;
 
+use App\Models\Term;
+use Illuminate\Http\JsonResponse;
+
 abstract class Controller
 {
-    //
+    /**
+     * Refuse a change to the records of an archived term, which are kept as
+     * they were.
+     */
+    protected function archivedTerm(Term $term): JsonResponse
+    {
+        return response()->json([
+            'success' => false,
+            'message' => "{$term->label} is archived and can no longer be changed.",
+        ], 422);
+    }
 }
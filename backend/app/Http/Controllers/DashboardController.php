@@ -0,0 +1,86 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\Schedule;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Teacher;
+use App\Models\Term;
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+class DashboardController extends Controller
+{
+    /**
+     * Totals and breakdowns for the admin dashboard overview. Classes and
+     * subjects are those of the term the request works in.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        try {
+            $term = Term::fromRequest($request);
+
+            // A class is one subject taught to one section, however many
+            // weekly slots it has
+            $classes = DB::query()
+                ->fromSub(Schedule::query()->inTerm($term)->toBase()->select('subject_id', 'section_id')->distinct(), 'classes')
+                ->count();
+
+            return response()->json([
+                'success' => true,
+                'stats' => [
+                    'totals' => [
+                        'teachers' => Teacher::count(),
+                        'students' => Student::count(),
+                        'classes' => $classes,
+                        'subjects' => Subject::inTerm($term)->count(),
+                    ],
+                    'students_by_grade_level' => $this->breakdown(Student::query(), 'grade_level_id', 'Unassigned'),
+                    'students_by_strand' => $this->breakdown(Student::query(), 'strand_id', 'No Strand'),
+                    'students_by_gender' => $this->breakdown(Student::query(), 'gender', 'Not Set'),
+                    'subjects_by_status' => $this->breakdown(Subject::inTerm($term), 'status', 'Not Set'),
+                ],
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching dashboard stats: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch dashboard stats',
+            ], 500);
+        }
+    }
+
+    /**
+     * Count the query's rows per value of a column, as `{label, count}` pairs
+     * sorted by label. Grade level, strand and section ids are labelled with
+     * their names; rows without a value are counted under `$missing`.
+     */
+    protected function breakdown(Builder $query, string $column, string $missing): array
+    {
+        $counts = $query
+            ->setEagerLoads([])
+            ->toBase()
+            ->select($column . ' as value')
+            ->selectRaw('count(*) as count')
+            ->groupBy($column)
+            ->pluck('count', 'value');
+
+        $table = Student::LOOKUP_TABLES[$column] ?? null;
+        $labels = $table
+            ? DB::table($table)->whereIn('id', $counts->keys()->filter())->pluck('name', 'id')
+            : collect();
+
+        return $counts
+            ->map(fn ($count, $value) => [
+                'label' => $value === '' ? $missing : ($labels[$value] ?? (string) $value),
+                'count' => (int) $count,
+            ])
+            ->sortBy('label', SORT_NATURAL | SORT_FLAG_CASE)
+            ->values()
+            ->all();
+    }
+}
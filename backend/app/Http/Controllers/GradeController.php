@@ -0,0 +1,310 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\GradeRequest;
+use App\Models\Grade;
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Teacher;
+use App\Models\Term;
+use App\Models\User;
+use App\Notifications\GradePosted;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Notification;
+
+class GradeController extends Controller
+{
+    /**
+     * The section a gradebook request is narrowed to, if any.
+     */
+    protected function requestedSection(Request $request): ?Section
+    {
+        $sectionId = $request->input('section_id');
+
+        return $sectionId ? Section::findOrFail($sectionId) : null;
+    }
+
+    /**
+     * Teachers may only open the gradebook of one of their own classes, so
+     * they must name the section: the whole subject spans sections taught
+     * by others.
+     */
+    protected function canGrade(Request $request, Subject $subject, ?Section $section): bool
+    {
+        $user = $request->user();
+        if ($user->role !== 'Teacher') {
+            return true;
+        }
+
+        $teacher = Teacher::forUser($user);
+
+        return $teacher !== null && $section !== null && $teacher->teaches($subject, $section);
+    }
+
+    protected function forbidden(): JsonResponse
+    {
+        return response()->json([
+            'success' => false,
+            'message' => 'Unauthorized. Insufficient permissions.'
+        ], 403);
+    }
+
+    /**
+     * Quarterly scores (q1..q4), final grade and pass/fail for one student in
+     * one subject.
+     */
+    protected function summarize(Collection $grades): array
+    {
+        $quarters = [];
+        foreach (Grade::QUARTERS as $quarter) {
+            $quarters[$quarter] = optional($grades->firstWhere('quarter', $quarter))->score;
+        }
+
+        $final = Grade::computeFinal($quarters);
+
+        return [
+            'q1' => $quarters[1],
+            'q2' => $quarters[2],
+            'q3' => $quarters[3],
+            'q4' => $quarters[4],
+            'final' => $final,
+            'passed' => $final === null ? null : Grade::isPassing($final),
+        ];
+    }
+
+    /**
+     * Every subject of the term a student is enrolled in or has grades for,
+     * with quarterly and final grades, plus their general average.
+     */
+    protected function reportCard(Student $student, ?Term $term): array
+    {
+        $grades = $student->grades()->get()->groupBy('subject_id');
+        $subjects = Subject::query()
+            ->where(fn ($query) => $query
+                ->whereIn('id', $grades->keys())
+                ->orWhereIn('id', $student->subjects()->select('subjects.id')))
+            ->inTerm($term)
+            ->orderBy('name')
+            ->get();
+
+        $rows = $subjects->map(function (Subject $subject) use ($grades) {
+            return array_merge([
+                'subject_id' => $subject->id,
+                'name' => $subject->name,
+                'code' => $subject->code,
+            ], $this->summarize($grades->get($subject->id, collect())));
+        })->values();
+
+        // Only averaged once every subject has a final grade
+        $finals = $rows->pluck('final');
+        $generalAverage = $finals->isNotEmpty() && !$finals->contains(null)
+            ? round($finals->avg(), config('gradebook.precision'))
+            : null;
+
+        return [
+            'grades' => $rows,
+            'general_average' => $generalAverage,
+        ];
+    }
+
+    /**
+     * The grading settings clients need to label results.
+     */
+    protected function settings(): array
+    {
+        return [
+            'final_method' => config('gradebook.final_method'),
+            'passing_grade' => config('gradebook.passing_grade'),
+        ];
+    }
+
+    /**
+     * Display the gradebook for a subject: every student on its roster with
+     * their quarterly grades. A `section_id` narrows it to one class.
+     */
+    public function index(Request $request, Subject $subject): JsonResponse
+    {
+        $section = $this->requestedSection($request);
+        if (!$this->canGrade($request, $subject, $section)) {
+            return $this->forbidden();
+        }
+
+        try {
+            $students = $subject->roster($section);
+            $grades = $subject->grades()
+                ->whereIn('student_id', $students->pluck('id'))
+                ->get()
+                ->groupBy('student_id');
+
+            return response()->json([
+                'success' => true,
+                'subject' => $subject->summary(),
+                'students' => $students->map(function (Student $student) use ($grades) {
+                    return array_merge(
+                        $student->only(['id', 'name']),
+                        $student->placementNames(),
+                        $this->summarize($grades->get($student->id, collect()))
+                    );
+                })->values(),
+                'settings' => $this->settings(),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching gradebook: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch grades',
+            ], 500);
+        }
+    }
+
+    /**
+     * Record one quarter's grades for several students in a subject.
+     * Students sent with a null score have that quarter's grade cleared.
+     */
+    public function store(GradeRequest $request, Subject $subject): JsonResponse
+    {
+        if ($subject->term?->isArchived()) {
+            return $this->archivedTerm($subject->term);
+        }
+
+        $section = $this->requestedSection($request);
+        if (!$this->canGrade($request, $subject, $section)) {
+            return $this->forbidden();
+        }
+
+        // Teachers can only grade the students of their own classes
+        if ($request->user()->role === 'Teacher') {
+            $rosterIds = $subject->roster($section)->pluck('id');
+            $outside = collect($request->validated('grades'))->pluck('student_id')->diff($rosterIds);
+            if ($outside->isNotEmpty()) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Validation failed',
+                    'errors' => ['grades' => ['Some of the students are not in this class.']],
+                ], 422);
+            }
+        }
+
+        try {
+            DB::beginTransaction();
+
+            $quarter = $request->validated('quarter');
+            $posted = [];
+
+            foreach ($request->validated('grades') as $entry) {
+                $keys = [
+                    'student_id' => $entry['student_id'],
+                    'subject_id' => $subject->id,
+                    'quarter' => $quarter,
+                ];
+
+                if ($entry['score'] === null) {
+                    Grade::where($keys)->delete();
+                    continue;
+                }
+
+                $grade = Grade::updateOrCreate($keys, [
+                    'score' => $entry['score'],
+                    'remarks' => $entry['remarks'] ?? null,
+                    'recorded_by' => $request->user()->id,
+                ]);
+                if ($grade->wasRecentlyCreated || $grade->wasChanged('score')) {
+                    $posted[] = $entry['student_id'];
+                }
+            }
+
+            DB::commit();
+
+            // Let students with an account know their grade is in
+            rescue(fn () => Notification::send(
+                User::whereHas('student', fn ($query) => $query->whereIn('id', $posted))->get(),
+                new GradePosted($subject, $quarter)
+            ));
+
+            return $this->index($request, $subject);
+        } catch (\Exception $e) {
+            DB::rollBack();
+            Log::error('Error saving grades: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to save grades',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display a student's report card for the term the request works in:
+     * every subject they are enrolled in or have grades for, with quarterly
+     * and final grades.
+     */
+    public function student(Request $request, Student $student): JsonResponse
+    {
+        $user = $request->user();
+        if ($user->role !== 'Admin' && !($user->role === 'Student' && $student->user_id === $user->id)) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Unauthorized. Insufficient permissions.'
+            ], 403);
+        }
+
+        try {
+            return response()->json(array_merge(
+                ['success' => true],
+                $this->reportCard($student, Term::fromRequest($request)),
+                ['settings' => $this->settings()]
+            ));
+        } catch (\Exception $e) {
+            Log::error('Error fetching report card: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch grades',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display the report cards of every student in a section for the
+     * section's term, for printing them in one batch.
+     */
+    public function section(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'section_id' => 'required|integer',
+        ]);
+
+        try {
+            $section = Section::find($validated['section_id']);
+            if (!$section) {
+                return response()->json([
+                    'success' => false,
+                    'message' => 'Section not found',
+                ], 404);
+            }
+
+            $students = Student::where('section_id', $section->id)->orderBy('name')->get();
+
+            return response()->json([
+                'success' => true,
+                'section' => $section->only(['id', 'name']),
+                'report_cards' => $students->map(function (Student $student) use ($section) {
+                    return array_merge([
+                        'student' => array_merge($student->only(['id', 'name']), $student->placementNames()),
+                    ], $this->reportCard($student, $section->term));
+                })->values(),
+                'settings' => $this->settings(),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching section report cards: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch report cards',
+            ], 500);
+        }
+    }
+}
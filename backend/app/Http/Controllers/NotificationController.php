@@ -0,0 +1,106 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Notifications\DatabaseNotification;
+use Illuminate\Support\Facades\Log;
+
+class NotificationController extends Controller
+{
+    /**
+     * Display the signed-in user's notifications, newest first. Pass
+     * `unread=1` for the unread ones only.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        try {
+            $notifications = $request->user()->notifications()
+                ->when($request->boolean('unread'), fn ($query) => $query->whereNull('read_at'))
+                ->paginate($request->input('limit', 20));
+
+            return response()->json([
+                'success' => true,
+                'notifications' => collect($notifications->items())->map(fn ($notification) => $this->present($notification)),
+                'unread_count' => $request->user()->unreadNotifications()->count(),
+                'pagination' => [
+                    'total' => $notifications->total(),
+                    'per_page' => $notifications->perPage(),
+                    'current_page' => $notifications->currentPage(),
+                    'last_page' => $notifications->lastPage(),
+                ],
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching notifications: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch notifications',
+            ], 500);
+        }
+    }
+
+    /**
+     * How many of the signed-in user's notifications are unread, for the
+     * badge on the bell.
+     */
+    public function unreadCount(Request $request): JsonResponse
+    {
+        return response()->json([
+            'success' => true,
+            'unread_count' => $request->user()->unreadNotifications()->count(),
+        ]);
+    }
+
+    /**
+     * Mark one of the signed-in user's notifications as read.
+     */
+    public function markAsRead(Request $request, string $id): JsonResponse
+    {
+        $notification = $request->user()->notifications()->find($id);
+        if (!$notification) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Notification not found',
+            ], 404);
+        }
+
+        $notification->markAsRead();
+
+        return response()->json([
+            'success' => true,
+            'notification' => $this->present($notification),
+            'unread_count' => $request->user()->unreadNotifications()->count(),
+        ]);
+    }
+
+    /**
+     * Mark all of the signed-in user's notifications as read.
+     */
+    public function markAllAsRead(Request $request): JsonResponse
+    {
+        $request->user()->unreadNotifications()->update(['read_at' => now()]);
+
+        return response()->json([
+            'success' => true,
+            'unread_count' => 0,
+        ]);
+    }
+
+    /**
+     * A notification as the app shows it: its title, message and category
+     * lifted out of the stored data.
+     */
+    protected function present(DatabaseNotification $notification): array
+    {
+        return [
+            'id' => $notification->id,
+            'category' => $notification->data['category'] ?? 'general',
+            'title' => $notification->data['title'] ?? '',
+            'message' => $notification->data['message'] ?? '',
+            'data' => $notification->data,
+            'read_at' => $notification->read_at,
+            'created_at' => $notification->created_at,
+        ];
+    }
+}
@@ -0,0 +1,221 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\ScheduleRequest;
+use App\Models\Schedule;
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Term;
+use App\Notifications\ScheduleChanged;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Notification;
+
+class ScheduleController extends Controller
+{
+    /**
+     * Relations returned with every slot.
+     */
+    protected const RELATIONS = [
+        'subject:id,name,code',
+        'section:id,name',
+        'teacher:id,name',
+    ];
+
+    /**
+     * Display a paginated list of the schedule slots of the term the request
+     * works in, in weekly order.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        try {
+            $query = Schedule::query()->with(self::RELATIONS)->inTerm(Term::fromRequest($request));
+
+            // Apply filters if provided
+            foreach (['section_id', 'teacher_id', 'subject_id', 'day_of_week'] as $filter) {
+                if ($value = $request->input($filter)) {
+                    $query->where($filter, $value);
+                }
+            }
+
+            $schedules = $query->chronological()
+                            ->paginate($request->input('limit', 10));
+
+            return response()->json([
+                'success' => true,
+                'schedules' => $schedules->items(),
+                'pagination' => [
+                    'total' => $schedules->total(),
+                    'per_page' => $schedules->perPage(),
+                    'current_page' => $schedules->currentPage(),
+                    'last_page' => $schedules->lastPage(),
+                ],
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching schedules: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch schedules',
+            ], 500);
+        }
+    }
+
+    /**
+     * Store a newly created schedule slot.
+     */
+    public function store(ScheduleRequest $request): JsonResponse
+    {
+        if ($term = Term::archivedFor([$request->validated('subject_id')])) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            DB::beginTransaction();
+
+            $schedule = Schedule::create($request->validated());
+            $schedule->assignTeacher();
+
+            DB::commit();
+
+            $this->notifyAudience($schedule, 'created');
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Schedule created successfully',
+                'schedule' => $schedule->load(self::RELATIONS),
+            ], 201);
+        } catch (\Exception $e) {
+            DB::rollBack();
+            Log::error('Error creating schedule: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to create schedule',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display the specified schedule slot.
+     */
+    public function show(Schedule $schedule): JsonResponse
+    {
+        return response()->json([
+            'success' => true,
+            'schedule' => $schedule->load(self::RELATIONS),
+        ]);
+    }
+
+    /**
+     * Update the specified schedule slot.
+     */
+    public function update(ScheduleRequest $request, Schedule $schedule): JsonResponse
+    {
+        if ($term = Term::archivedFor([$schedule->subject_id, $request->validated('subject_id')])) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            DB::beginTransaction();
+
+            $schedule->update($request->validated());
+            $schedule->assignTeacher();
+
+            DB::commit();
+
+            if ($schedule->wasChanged()) {
+                $this->notifyAudience($schedule, 'updated');
+            }
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Schedule updated successfully',
+                'schedule' => $schedule->load(self::RELATIONS),
+            ]);
+        } catch (\Exception $e) {
+            DB::rollBack();
+            Log::error('Error updating schedule: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to update schedule',
+            ], 500);
+        }
+    }
+
+    /**
+     * Remove the specified schedule slot.
+     */
+    public function destroy(Schedule $schedule): JsonResponse
+    {
+        if ($term = Term::archivedFor([$schedule->subject_id])) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            $schedule->delete();
+
+            $this->notifyAudience($schedule, 'deleted');
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Schedule deleted successfully',
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error deleting schedule: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to delete schedule',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display a student's weekly timetable: every slot of the section they
+     * belong to in the term the request works in.
+     */
+    public function student(Request $request, Student $student): JsonResponse
+    {
+        $user = $request->user();
+        if ($user->role !== 'Admin' && !($user->role === 'Student' && $student->user_id === $user->id)) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Unauthorized. Insufficient permissions.'
+            ], 403);
+        }
+
+        try {
+            $section = $student->section_id ? Section::find($student->section_id) : null;
+
+            $schedules = $section
+                ? Schedule::with(self::RELATIONS)
+                    ->where('section_id', $section->id)
+                    ->inTerm(Term::fromRequest($request))
+                    ->chronological()
+                    ->get()
+                : collect();
+
+            return response()->json([
+                'success' => true,
+                'section' => $section?->only(['id', 'name']),
+                'schedules' => $schedules,
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching student schedule: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch schedule',
+            ], 500);
+        }
+    }
+
+    /**
+     * Let the slot's students and teacher know it changed. A failure to
+     * notify is logged without failing the change.
+     */
+    protected function notifyAudience(Schedule $schedule, string $change): void
+    {
+        rescue(fn () => Notification::send($schedule->audience(), new ScheduleChanged($schedule->loadMissing('subject:id,name'), $change)));
+    }
+}
@@ -2,14 +2,49 @@
 
 namespace App\Http\Controllers;
 
+use App\Http\Requests\AccountLinkRequest;
+use App\Http\Requests\StudentImportRequest;
 use App\Models\Student;
+use App\Models\Term;
 use Illuminate\Http\Request;
+use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Storage;
 use Illuminate\Support\Facades\Log;
 use Illuminate\Support\Facades\Validator;
 
 class StudentController extends Controller
 {
+    /**
+     * Fields a student may change on their own record from the dashboard.
+     */
+    protected const SELF_SERVICE_FIELDS = [
+        'email',
+        'phone',
+        'address',
+        'guardian_name',
+        'guardian_phone',
+        'guardian_relationship',
+        'avatar',
+    ];
+
+    /**
+     * Admins may touch any record; a student only their own.
+     */
+    protected function canAccess(Request $request, Student $student): bool
+    {
+        $user = $request->user();
+
+        return $user->role === 'Admin' || ($user->role === 'Student' && $student->user_id === $user->id);
+    }
+
+    protected function forbidden()
+    {
+        return response()->json([
+            'success' => false,
+            'message' => 'Unauthorized. Insufficient permissions.'
+        ], 403);
+    }
+
     public function index(Request $request)
     {
         try {
@@ -19,13 +54,18 @@ public function index(Request $request)
                 'search' => $request->input('search')
             ]);
 
-            $query = Student::query();
+            // With the account each student signs in with, if linked
+            $query = Student::query()->with('user:id,name,email');
             
             // Search functionality
             if ($request->has('search')) {
                 $query->search($request->search);
             }
 
+            // Facet filters and sorting, e.g. ?strand_id=2&sort=section,name
+            $filters = $request->only(Student::FILTERABLE);
+            $query->filter($filters)->sorted($request->input('sort'));
+
             // Pagination
             $perPage = $request->input('limit', 10);
             $students = $query->paginate($perPage);
@@ -40,7 +80,7 @@ public function index(Request $request)
 
             Log::info('Found ' . count($studentsData) . ' students');
 
-            return response()->json([
+            $response = [
                 'success' => true,
                 'students' => $studentsData,
                 'pagination' => [
@@ -49,7 +89,13 @@ public function index(Request $request)
                     'current_page' => $students->currentPage(),
                     'last_page' => $students->lastPage(),
                 ]
-            ]);
+            ];
+
+            if ($request->boolean('facets')) {
+                $response['facets'] = $this->facets($request->input('search'), $filters);
+            }
+
+            return response()->json($response);
         } catch (\Exception $e) {
             Log::error('Error in StudentController@index: ' . $e->getMessage(), [
                 'trace' => $e->getTraceAsString(),
@@ -64,15 +110,57 @@ public function index(Request $request)
         }
     }
 
+    /**
+     * Count the students per value of each filterable column. Each facet
+     * applies the search and every other active filter, but not its own, so
+     * the counts show what picking another value would return. Grade level,
+     * strand and section values are ids, labelled with the record's name.
+     */
+    protected function facets(?string $search, array $filters): array
+    {
+        $facets = [];
+
+        foreach (Student::FILTERABLE as $column) {
+            $counts = Student::query()
+                ->setEagerLoads([])
+                ->when($search, fn ($query) => $query->search($search))
+                ->filter(array_diff_key($filters, [$column => true]))
+                ->whereNotNull($column)
+                ->toBase()
+                ->select($column . ' as value')
+                ->selectRaw('count(*) as count')
+                ->groupBy($column)
+                ->pluck('count', 'value');
+
+            $table = Student::LOOKUP_TABLES[$column] ?? null;
+            $labels = $table
+                ? DB::table($table)->whereIn('id', $counts->keys())->pluck('name', 'id')
+                : $counts->keys()->combine($counts->keys());
+
+            $facets[$column] = $counts
+                ->map(fn ($count, $value) => [
+                    'value' => (string) $value,
+                    'label' => $labels[$value] ?? (string) $value,
+                    'count' => (int) $count,
+                ])
+                ->sortBy('label', SORT_NATURAL | SORT_FLAG_CASE)
+                ->values()
+                ->all();
+        }
+
+        return $facets;
+    }
+
     public function store(Request $request)
     {
         try {
             $validator = Validator::make($request->all(), [
                 'name' => 'required|string|max:255',
                 'gender' => 'required|in:Male,Female',
-                'grade_level' => 'required|string|max:255',
-                'strand' => 'required|string|max:255',
-                'section' => 'required|string|max:255',
+                // Grade levels, strands and sections are managed by the TypeScript API server
+                'grade_level_id' => 'required|integer|exists:grade_levels,id',
+                'strand_id' => 'nullable|integer|exists:strands,id,deleted_at,NULL',
+                'section_id' => 'required|integer|exists:sections,id,deleted_at,NULL',
                 'subject' => 'required|string|max:255',
                 'avatar' => 'nullable|image|mimes:jpeg,png,jpg,gif|max:2048', // max 2MB
                 'email' => 'nullable|email|unique:students,email',
@@ -111,7 +199,8 @@ public function store(Request $request)
                 }
             }
 
-            $student = Student::create($data);
+            // Fresh copy so the grade level, strand and section come along
+            $student = Student::create($data)->fresh();
             
             // Add avatar_url to the response
             $studentData = $student->toArray();
@@ -132,8 +221,100 @@ public function store(Request $request)
         }
     }
 
+    /**
+     * Create students in bulk from the rows of an uploaded CSV. Every row is
+     * validated first and nothing is created unless all of them pass. With
+     * `dry_run` the rows are only validated, for the preview.
+     */
+    public function import(StudentImportRequest $request)
+    {
+        $rows = $request->validated('students');
+
+        if ($request->boolean('dry_run')) {
+            return response()->json([
+                'success' => true,
+                'message' => count($rows) . ' students are ready to import',
+                'count' => count($rows)
+            ]);
+        }
+
+        try {
+            $rows = $this->linkImportedNames($rows, Term::fromRequest($request));
+
+            $students = DB::transaction(function () use ($rows) {
+                return collect($rows)->map(fn (array $row) => Student::create($row)->fresh());
+            });
+
+            return response()->json([
+                'success' => true,
+                'message' => $students->count() . ' students imported successfully',
+                'count' => $students->count(),
+                'students' => $students->map(function (Student $student) {
+                    $data = $student->toArray();
+                    $data['avatar_url'] = $student->avatar_url;
+                    return $data;
+                })->all()
+            ], 201);
+        } catch (\Exception $e) {
+            Log::error('Error in StudentController@import: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'An error occurred while importing students',
+                'error' => $e->getMessage()
+            ], 500);
+        }
+    }
+
+    /**
+     * Swap the grade level, strand and section names of imported rows for the
+     * ids of the records they name, taking sections from the given term. The
+     * request has already checked that every name exists.
+     */
+    protected function linkImportedNames(array $rows, ?Term $term): array
+    {
+        $ids = [];
+        foreach (Student::LOOKUP_TABLES as $column => $table) {
+            // Grade levels have no trash. Newest first so the oldest record
+            // wins when names repeat.
+            $ids[$column] = DB::table($table)
+                ->when($table !== 'grade_levels', fn ($query) => $query->whereNull('deleted_at'))
+                ->when($table === 'sections' && $term, fn ($query) => $query->where('term_id', $term->id))
+                ->orderByDesc('id')
+                ->pluck('id', 'name');
+        }
+
+        return array_map(function (array $row) use ($ids) {
+            foreach ($ids as $column => $idsByName) {
+                $name = substr($column, 0, -3);
+                $row[$column] = $idsByName[$row[$name]] ?? null;
+                unset($row[$name]);
+            }
+
+            return $row;
+        }, $rows);
+    }
+
+    public function show(Request $request, Student $student)
+    {
+        if (!$this->canAccess($request, $student)) {
+            return $this->forbidden();
+        }
+
+        $studentData = $student->toArray();
+        $studentData['avatar_url'] = $student->avatar_url;
+
+        return response()->json([
+            'success' => true,
+            'student' => $studentData
+        ]);
+    }
+
     public function update(Request $request, Student $student)
     {
+        if (!$this->canAccess($request, $student)) {
+            return $this->forbidden();
+        }
+
         try {
             Log::info('Updating student:', [
                 'student_id' => $student->id,
@@ -141,12 +322,13 @@ public function update(Request $request, Student $student)
                 'has_avatar' => $request->hasFile('avatar')
             ]);
 
-            $validator = Validator::make($request->all(), [
+            $rules = [
                 'name' => 'required|string|max:255',
                 'gender' => 'required|in:Male,Female',
-                'grade_level' => 'required|string|max:255',
-                'strand' => 'required|string|max:255',
-                'section' => 'required|string|max:255',
+                // Grade levels, strands and sections are managed by the TypeScript API server
+                'grade_level_id' => 'required|integer|exists:grade_levels,id',
+                'strand_id' => 'nullable|integer|exists:strands,id,deleted_at,NULL',
+                'section_id' => 'required|integer|exists:sections,id,deleted_at,NULL',
                 'subject' => 'required|string|max:255',
                 'avatar' => 'nullable|image|mimes:jpeg,png,jpg,gif|max:2048',
                 'email' => 'nullable|email|unique:students,email,' . $student->id,
@@ -158,7 +340,17 @@ public function update(Request $request, Student $student)
                 'guardian_relationship' => 'nullable|string|max:255',
                 'notes' => 'nullable|string',
                 'is_active' => 'boolean'
-            ]);
+            ];
+
+            // Students editing their own profile only send the fields they may change
+            if ($request->user()->role === 'Student') {
+                $rules = collect($rules)
+                    ->only(self::SELF_SERVICE_FIELDS)
+                    ->map(fn ($rule) => 'sometimes|' . $rule)
+                    ->all();
+            }
+
+            $validator = Validator::make($request->all(), $rules);
 
             if ($validator->fails()) {
                 Log::error('Validation failed:', [
@@ -267,6 +459,32 @@ public function update(Request $request, Student $student)
         }
     }
 
+    /**
+     * Link the student record to the Student account that signs in for it,
+     * or unlink it with a null `user_id`. Records are never linked by email:
+     * anyone can register an account with a student's email address.
+     */
+    public function linkAccount(AccountLinkRequest $request, Student $student)
+    {
+        try {
+            $student->forceFill(['user_id' => $request->validated('user_id')])->save();
+
+            return response()->json([
+                'success' => true,
+                'message' => $student->user_id ? 'Account linked successfully' : 'Account unlinked successfully',
+                'student' => array_merge($student->load('user:id,name,email')->toArray(), [
+                    'avatar_url' => $student->avatar_url,
+                ]),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error linking student account: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to link account',
+            ], 500);
+        }
+    }
+
     public function destroy(Student $student)
     {
         try {
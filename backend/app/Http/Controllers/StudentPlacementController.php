@@ -0,0 +1,192 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\StudentPlacementRequest;
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Term;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+class StudentPlacementController extends Controller
+{
+    /**
+     * Spread the active students of a grade level (and strand) who have no
+     * section yet across its sections in the term the request works in. With `dry_run` the placement is only
+     * worked out, so it can be previewed; otherwise the students are
+     * assigned. Students are taken in name order, so the same request gives
+     * the same placement while the records don't change.
+     */
+    public function place(StudentPlacementRequest $request): JsonResponse
+    {
+        $validated = $request->validated();
+        $criteria = $validated['balance_by'] ?? ['gender'];
+        $term = Term::fromRequest($request);
+
+        if ($term?->isArchived() && !$request->boolean('dry_run')) {
+            return $this->archivedTerm($term);
+        }
+
+        $sections = Section::query()
+            ->where('is_active', true)
+            ->inTerm($term)
+            ->when(
+                $validated['section_ids'] ?? null,
+                fn ($query, $ids) => $query->whereIn('id', $ids),
+                fn ($query) => $query
+                    ->where('grade_level_id', $validated['grade_level_id'])
+                    ->when($validated['strand_id'] ?? null, fn ($query, $strandId) => $query->where('strand_id', $strandId))
+            )
+            ->orderBy('name')
+            ->get();
+
+        if ($sections->isEmpty()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Validation failed',
+                'errors' => ['section_ids' => ['There are no active sections to place students in.']],
+            ], 422);
+        }
+
+        try {
+            $placeStudents = function () use ($validated, $sections, $criteria, $request) {
+                $students = Student::query()
+                    ->whereNull('section_id')
+                    ->where('is_active', true)
+                    ->where('grade_level_id', $validated['grade_level_id'])
+                    ->when($validated['strand_id'] ?? null, fn ($query, $strandId) => $query->where('strand_id', $strandId))
+                    ->orderBy('name')
+                    ->orderBy('id')
+                    ->when(!$request->boolean('dry_run'), fn ($query) => $query->lockForUpdate())
+                    ->get();
+
+                $plan = $this->plan($students, $sections, $criteria);
+
+                if (!$request->boolean('dry_run')) {
+                    foreach ($plan['assignments'] as $sectionId => $placed) {
+                        foreach ($placed as $student) {
+                            $student->update(['section_id' => $sectionId]);
+                        }
+                    }
+                }
+
+                return $plan;
+            };
+
+            $plan = $request->boolean('dry_run') ? $placeStudents() : DB::transaction($placeStudents);
+            $placedCount = collect($plan['assignments'])->sum(fn ($placed) => count($placed));
+
+            return response()->json([
+                'success' => true,
+                'message' => $request->boolean('dry_run')
+                    ? "{$placedCount} students can be placed across {$sections->count()} sections"
+                    : "{$placedCount} students placed across {$sections->count()} sections",
+                'balance_by' => $criteria,
+                'summary' => [
+                    'students' => $placedCount + $plan['unplaced']->count(),
+                    'placed' => $placedCount,
+                    'unplaced' => $plan['unplaced']->count(),
+                ],
+                'sections' => $sections->map(fn (Section $section) => [
+                    'id' => $section->id,
+                    'name' => $section->name,
+                    'capacity' => $section->capacity,
+                    'current_count' => $plan['counts'][$section->id] - count($plan['assignments'][$section->id]),
+                    'total_count' => $plan['counts'][$section->id],
+                    'genders' => $plan['genders'][$section->id],
+                    'students' => collect($plan['assignments'][$section->id])
+                        ->map(fn (Student $student) => $this->present($student))
+                        ->values(),
+                ])->values(),
+                'unplaced' => $plan['unplaced']->map(fn (Student $student) => $this->present($student))->values(),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error in StudentPlacementController@place: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'An error occurred while placing students',
+            ], 500);
+        }
+    }
+
+    /**
+     * Work out which section each student goes to. Students are dealt out
+     * one group at a time (a group per combination of the balanced columns,
+     * e.g. "Female"), each to the section with room that has the fewest of
+     * their group, then the fewest students, relative to its size. Students
+     * already in the sections count towards both. Sections without a
+     * capacity never fill up; students who find no room are left unplaced.
+     *
+     * @param  Collection<int, Student>  $students
+     * @param  Collection<int, Section>  $sections
+     * @param  array<int, string>  $criteria
+     */
+    protected function plan(Collection $students, Collection $sections, array $criteria): array
+    {
+        $groupOf = fn (Student $student) => implode('|', array_map(fn ($column) => (string) $student->{$column}, $criteria));
+
+        $enrolled = Student::whereIn('section_id', $sections->pluck('id'))->get(['id', 'section_id', 'gender', 'subject']);
+
+        // Sections without a capacity are weighed as if they were as big as
+        // the largest one that has one
+        $largest = $sections->max('capacity') ?: 1;
+
+        $counts = [];
+        $groups = [];
+        $genders = [];
+        $assignments = [];
+        foreach ($sections as $section) {
+            $members = $enrolled->where('section_id', $section->id);
+            $counts[$section->id] = $members->count();
+            $groups[$section->id] = $members->countBy($groupOf)->all();
+            $genders[$section->id] = $members->countBy('gender')->all();
+            $assignments[$section->id] = [];
+        }
+
+        // Interleave the groups so that when room runs out, the students left
+        // over aren't all from the same one
+        $queues = $students->groupBy($groupOf)->sortKeys()->map->values();
+        $ordered = collect();
+        for ($round = 0; $ordered->count() < $students->count(); $round++) {
+            foreach ($queues as $queue) {
+                if ($queue->has($round)) {
+                    $ordered->push($queue->get($round));
+                }
+            }
+        }
+
+        $unplaced = collect();
+        foreach ($ordered as $student) {
+            $group = $groupOf($student);
+            $section = $sections
+                ->filter(fn (Section $section) => $section->capacity === null || $counts[$section->id] < $section->capacity)
+                ->sortBy([
+                    fn (Section $a, Section $b) => ($groups[$a->id][$group] ?? 0) / ($a->capacity ?? $largest)
+                        <=> ($groups[$b->id][$group] ?? 0) / ($b->capacity ?? $largest),
+                    fn (Section $a, Section $b) => $counts[$a->id] / ($a->capacity ?? $largest)
+                        <=> $counts[$b->id] / ($b->capacity ?? $largest),
+                ])
+                ->first();
+
+            if (!$section) {
+                $unplaced->push($student);
+                continue;
+            }
+
+            $assignments[$section->id][] = $student;
+            $counts[$section->id]++;
+            $groups[$section->id][$group] = ($groups[$section->id][$group] ?? 0) + 1;
+            $genders[$section->id][$student->gender] = ($genders[$section->id][$student->gender] ?? 0) + 1;
+        }
+
+        return compact('assignments', 'counts', 'genders', 'unplaced');
+    }
+
+    protected function present(Student $student): array
+    {
+        return $student->only(['id', 'name', 'gender', 'subject']);
+    }
+}
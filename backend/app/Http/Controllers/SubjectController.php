@@ -2,22 +2,31 @@
 
 namespace App\Http\Controllers;
 
+use App\Models\GradeLevel;
+use App\Models\Strand;
+use App\Models\Student;
 use App\Models\Subject;
+use App\Models\Teacher;
+use App\Models\Term;
+use App\Models\User;
+use App\Notifications\EnrolledInSubject;
 use App\Http\Requests\SubjectRequest;
 use Illuminate\Http\Request;
 use Illuminate\Http\JsonResponse;
 use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Facades\Notification;
 
 class SubjectController extends Controller
 {
     /**
-     * Display a paginated list of subjects.
+     * Display a paginated list of the subjects offered in the term the
+     * request works in.
      */
     public function index(Request $request): JsonResponse
     {
         try {
-            $query = Subject::query();
+            $query = Subject::query()->inTerm(Term::fromRequest($request));
 
             // Apply search if provided
             if ($search = $request->input('search')) {
@@ -25,12 +34,12 @@ public function index(Request $request): JsonResponse
             }
 
             // Apply filters if provided
-            if ($gradeLevel = $request->input('grade_level')) {
-                $query->gradeLevel($gradeLevel);
+            if ($gradeLevelId = $request->input('grade_level_id')) {
+                $query->gradeLevel($gradeLevelId);
             }
 
-            if ($strand = $request->input('strand')) {
-                $query->strand($strand);
+            if ($strandId = $request->input('strand_id')) {
+                $query->strand($strandId);
             }
 
             if ($status = $request->input('status')) {
@@ -69,7 +78,7 @@ public function store(SubjectRequest $request): JsonResponse
         try {
             DB::beginTransaction();
 
-            $subject = Subject::create($request->validated());
+            $subject = Subject::create($request->validated())->fresh();
 
             DB::commit();
 
@@ -89,19 +98,35 @@ public function store(SubjectRequest $request): JsonResponse
     }
 
     /**
-     * Display the specified subject.
+     * Display the specified subject with its enrolled students (and when they
+     * enrolled), the teachers and class slots it is scheduled for and how its
+     * final grades are distributed.
      */
     public function show(Subject $subject): JsonResponse
     {
         try {
             $subject->load(['students' => function ($query) {
-                $query->select('students.id', 'name', 'grade_level', 'strand')
-                      ->withPivot('created_at');
+                $query->select('students.id', 'name', 'grade_level_id', 'strand_id', 'section_id')
+                      ->withPivot('created_at')
+                      ->orderBy('name');
             }]);
 
+            $teachers = Teacher::whereHas('assignments', fn ($query) => $query->where('subject_id', $subject->id))
+                ->orderBy('name')
+                ->get(['id', 'name', 'email', 'phone', 'image']);
+
             return response()->json([
                 'success' => true,
                 'subject' => $subject->loadCount('students'),
+                'teachers' => $teachers,
+                'schedules' => $subject->schedules()
+                    ->with(['section:id,name', 'teacher:id,name'])
+                    ->chronological()
+                    ->get(),
+                'grade_distribution' => $subject->gradeDistribution(),
+                'settings' => [
+                    'passing_grade' => config('gradebook.passing_grade'),
+                ],
             ]);
         } catch (\Exception $e) {
             Log::error('Error fetching subject: ' . $e->getMessage());
@@ -117,10 +142,15 @@ public function show(Subject $subject): JsonResponse
      */
     public function update(SubjectRequest $request, Subject $subject): JsonResponse
     {
+        if ($subject->term?->isArchived()) {
+            return $this->archivedTerm($subject->term);
+        }
+
         try {
             DB::beginTransaction();
 
             $subject->update($request->validated());
+            $subject->load(['gradeLevel:id,name', 'strand:id,name']);
 
             DB::commit();
 
@@ -144,6 +174,10 @@ public function update(SubjectRequest $request, Subject $subject): JsonResponse
      */
     public function destroy(Subject $subject): JsonResponse
     {
+        if ($subject->term?->isArchived()) {
+            return $this->archivedTerm($subject->term);
+        }
+
         try {
             DB::beginTransaction();
 
@@ -180,9 +214,7 @@ public function getGradeLevels(): JsonResponse
     {
         return response()->json([
             'success' => true,
-            'grade_levels' => [
-                'Grade 7', 'Grade 8', 'Grade 9', 'Grade 10', 'Grade 11', 'Grade 12'
-            ],
+            'grade_levels' => GradeLevel::where('is_active', true)->orderBy('id')->get(['id', 'name']),
         ]);
     }
 
@@ -193,9 +225,7 @@ public function getStrands(): JsonResponse
     {
         return response()->json([
             'success' => true,
-            'strands' => [
-                'No Strand', 'STEM', 'ABM', 'HUMSS', 'GAS', 'TVL', 'Sports', 'Arts & Design'
-            ],
+            'strands' => Strand::orderBy('name')->get(['id', 'name']),
         ]);
     }
 
@@ -204,6 +234,10 @@ public function getStrands(): JsonResponse
      */
     public function enrollStudents(Request $request, Subject $subject): JsonResponse
     {
+        if ($subject->term?->isArchived()) {
+            return $this->archivedTerm($subject->term);
+        }
+
         try {
             $request->validate([
                 'student_ids' => 'required|array',
@@ -212,14 +246,20 @@ public function enrollStudents(Request $request, Subject $subject): JsonResponse
 
             DB::beginTransaction();
 
-            // Attach students to subject
-            $subject->students()->attach($request->student_ids, [
-                'created_at' => now(),
-                'updated_at' => now(),
-            ]);
+            // Attach students to subject, skipping those already enrolled
+            $enrolled = $subject->students()->syncWithoutDetaching($request->student_ids)['attached'];
+            if (!empty($enrolled)) {
+                $subject->audit('enrolled', $this->enrollmentChanges($enrolled));
+            }
 
             DB::commit();
 
+            // Let the newly enrolled students with an account know
+            rescue(fn () => Notification::send(
+                User::whereHas('student', fn ($query) => $query->whereIn('id', $enrolled))->get(),
+                new EnrolledInSubject($subject)
+            ));
+
             return response()->json([
                 'success' => true,
                 'message' => 'Students enrolled successfully',
@@ -240,6 +280,10 @@ public function enrollStudents(Request $request, Subject $subject): JsonResponse
      */
     public function unenrollStudents(Request $request, Subject $subject): JsonResponse
     {
+        if ($subject->term?->isArchived()) {
+            return $this->archivedTerm($subject->term);
+        }
+
         try {
             $request->validate([
                 'student_ids' => 'required|array',
@@ -249,7 +293,11 @@ public function unenrollStudents(Request $request, Subject $subject): JsonRespon
             DB::beginTransaction();
 
             // Detach students from subject
-            $subject->students()->detach($request->student_ids);
+            $unenrolled = $subject->students()->whereIn('students.id', $request->student_ids)->pluck('students.id')->all();
+            $subject->students()->detach($unenrolled);
+            if (!empty($unenrolled)) {
+                $subject->audit('unenrolled', $this->enrollmentChanges($unenrolled));
+            }
 
             DB::commit();
 
@@ -267,4 +315,17 @@ public function unenrollStudents(Request $request, Subject $subject): JsonRespon
             ], 500);
         }
     }
-} 
\ No newline at end of file
+
+    /**
+     * Audit log details for an enrollment change: the students' ids and names.
+     *
+     * @param  array<int, int>  $studentIds
+     */
+    protected function enrollmentChanges(array $studentIds): array
+    {
+        return [
+            'student_ids' => array_values($studentIds),
+            'students' => Student::whereIn('id', $studentIds)->orderBy('name')->pluck('name')->all(),
+        ];
+    }
+}
@@ -2,7 +2,9 @@
 
 namespace App\Http\Controllers;
 
+use App\Http\Requests\AccountLinkRequest;
 use App\Models\Teacher;
+use App\Models\Term;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Storage;
 use Illuminate\Support\Facades\Log;
@@ -20,7 +22,8 @@ public function index(Request $request)
                 'search' => $request->input('search')
             ]);
 
-            $query = Teacher::query();
+            // With the account each teacher signs in with, if linked
+            $query = Teacher::query()->with('user:id,name,email');
             
             // Search functionality
             if ($request->has('search')) {
@@ -35,12 +38,20 @@ public function index(Request $request)
             // Pagination
             $perPage = $request->input('limit', 10);
             $teachers = $query->paginate($perPage);
+            $term = Term::fromRequest($request);
+            $teachers->load(['assignments' => fn ($query) => $query->inTerm($term)->with('subject:id,name,code')]);
+            $hours = Teacher::weeklyHours($teachers->pluck('id'), $term);
 
-            // Convert teachers to array with image_url
-            $teachersData = $teachers->through(function ($teacher) {
+            // Convert teachers to array with image_url, the subjects they are
+            // assigned this term and their weekly teaching load
+            $teachersData = $teachers->through(function ($teacher) use ($hours) {
                 $data = $teacher->toArray();
                 $data['image_url'] = $teacher->image_url;
-                return $data;
+                $data['subjects'] = $teacher->assignments->pluck('subject')->filter()->unique('id')
+                    ->map->only(['id', 'name', 'code'])->values();
+                $data['assignments_count'] = $teacher->assignments->count();
+                unset($data['assignments']);
+                return array_merge($data, Teacher::teachingLoad($hours[$teacher->id] ?? 0));
             })->items();
 
             Log::info('Found ' . count($teachersData) . ' teachers');
@@ -86,7 +97,7 @@ public function store(Request $request)
                 'name' => 'required|string|max:255',
                 'email' => 'required|email|unique:teachers,email',
                 'phone' => 'required|string|max:20',
-                'subject' => 'required|string|max:255',
+                'subject' => 'nullable|string|max:255',
                 'gender' => 'required|in:Male,Female',
                 'image' => 'nullable|image|max:2048' // max 2MB
             ]);
@@ -160,7 +171,7 @@ public function update(Request $request, Teacher $teacher)
                 'name' => 'required|string|max:255',
                 'email' => 'required|email|unique:teachers,email,' . $teacher->id,
                 'phone' => 'required|string|max:20',
-                'subject' => 'required|string|max:255',
+                'subject' => 'nullable|string|max:255',
                 'gender' => 'required|in:Male,Female',
                 'image' => 'nullable|image|mimes:jpeg,png,jpg,gif|max:2048' // max 2MB
             ]);
@@ -276,6 +287,29 @@ public function update(Request $request, Teacher $teacher)
         }
     }
 
+    /**
+     * Link the teacher record to the Teacher account that signs in for it,
+     * or unlink it with a null `user_id`.
+     */
+    public function linkAccount(AccountLinkRequest $request, Teacher $teacher)
+    {
+        try {
+            $teacher->forceFill(['user_id' => $request->validated('user_id')])->save();
+
+            return response()->json([
+                'success' => true,
+                'message' => $teacher->user_id ? 'Account linked successfully' : 'Account unlinked successfully',
+                'teacher' => $teacher->load('user:id,name,email'),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error linking teacher account: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to link account',
+            ], 500);
+        }
+    }
+
     public function destroy(Teacher $teacher)
     {
         // Delete image if exists
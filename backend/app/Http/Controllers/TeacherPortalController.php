@@ -0,0 +1,126 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Models\Schedule;
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Teacher;
+use App\Models\TeachingAssignment;
+use App\Models\Term;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Facades\Log;
+
+class TeacherPortalController extends Controller
+{
+    /**
+     * The teacher record of the signed-in account, if one is linked.
+     */
+    protected function currentTeacher(Request $request): ?Teacher
+    {
+        return Teacher::forUser($request->user());
+    }
+
+    protected function noTeacherRecord(): JsonResponse
+    {
+        return response()->json([
+            'success' => false,
+            'message' => 'No teacher record is linked to this account. Please contact the registrar.'
+        ], 404);
+    }
+
+    /**
+     * Display the teacher's classes: every subject and section pair they are
+     * assigned to this term, with the weekly slots and the number of
+     * students, and their weekly teaching load.
+     */
+    public function classes(Request $request): JsonResponse
+    {
+        $teacher = $this->currentTeacher($request);
+        if (!$teacher) {
+            return $this->noTeacherRecord();
+        }
+
+        try {
+            $term = Term::fromRequest($request);
+            $schedules = $teacher->schedules()
+                ->inTerm($term)
+                ->chronological()
+                ->get()
+                ->groupBy(fn (Schedule $slot) => $slot->subject_id . ':' . $slot->section_id);
+
+            $classes = $teacher->assignments()
+                ->inTerm($term)
+                ->with(['subject', 'section:id,name'])
+                ->get()
+                ->filter(fn (TeachingAssignment $assignment) => $assignment->subject && $assignment->section)
+                ->map(function (TeachingAssignment $assignment) use ($schedules) {
+                    $slots = $schedules->get($assignment->subject_id . ':' . $assignment->section_id, collect());
+
+                    return [
+                        'subject' => $assignment->subject->summary(),
+                        'section' => $assignment->section->only(['id', 'name']),
+                        'schedules' => $slots->map->only(['id', 'day_of_week', 'day', 'start_time', 'end_time', 'room'])->values(),
+                        'students_count' => $assignment->subject->roster($assignment->section)->count(),
+                    ];
+                })
+                ->sortBy(fn ($class) => $class['subject']['name'] . ' ' . $class['section']['name'])
+                ->values();
+
+            $hours = $schedules->flatten()->sum(fn (Schedule $slot) => $slot->hours());
+
+            return response()->json([
+                'success' => true,
+                'teacher' => $teacher->only(['id', 'name', 'email', 'subject']),
+                'classes' => $classes,
+                'load' => Teacher::teachingLoad(round($hours, 2)),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching teacher classes: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch classes',
+            ], 500);
+        }
+    }
+
+    /**
+     * Display the roster of one of the teacher's classes.
+     */
+    public function roster(Request $request, Subject $subject, Section $section): JsonResponse
+    {
+        $teacher = $this->currentTeacher($request);
+        if (!$teacher) {
+            return $this->noTeacherRecord();
+        }
+
+        if (!$teacher->teaches($subject, $section)) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Unauthorized. Insufficient permissions.'
+            ], 403);
+        }
+
+        try {
+            return response()->json([
+                'success' => true,
+                'subject' => $subject->only(['id', 'name', 'code']),
+                'section' => $section->only(['id', 'name']),
+                'students' => $subject->roster($section)
+                    ->map(fn (Student $student) => array_merge(
+                        $student->only(['id', 'name', 'gender', 'email', 'phone', 'avatar_url']),
+                        $student->placementNames()
+                    ))
+                    ->values(),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching class roster: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch class roster',
+            ], 500);
+        }
+    }
+}
@@ -0,0 +1,146 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\TeachingAssignmentRequest;
+use App\Models\Schedule;
+use App\Models\Teacher;
+use App\Models\TeachingAssignment;
+use App\Models\Term;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Http\Request;
+use Illuminate\Support\Collection;
+use Illuminate\Support\Facades\Log;
+
+class TeachingAssignmentController extends Controller
+{
+    /**
+     * Relations returned with every assignment.
+     */
+    protected const RELATIONS = ['teacher:id,name', 'subject:id,name,code', 'section:id,name'];
+
+    /**
+     * Add to each assignment the hours per week its class is scheduled for.
+     *
+     * @param  Collection<int, TeachingAssignment>  $assignments
+     */
+    protected function withHours(Collection $assignments): Collection
+    {
+        $key = fn ($class) => "{$class->teacher_id}:{$class->subject_id}:{$class->section_id}";
+        $hours = Schedule::whereIn('teacher_id', $assignments->pluck('teacher_id')->unique())
+            ->get(['teacher_id', 'subject_id', 'section_id', 'start_time', 'end_time'])
+            ->groupBy($key)
+            ->map(fn ($slots) => round($slots->sum(fn (Schedule $slot) => $slot->hours()), 2));
+
+        return $assignments->map(fn (TeachingAssignment $assignment) => array_merge(
+            $assignment->toArray(),
+            ['weekly_hours' => $hours->get($key($assignment), 0)]
+        ));
+    }
+
+    /**
+     * The weekly teaching load of a teacher in a term.
+     */
+    protected function loadOf(int $teacherId, ?Term $term): array
+    {
+        return Teacher::teachingLoad(Teacher::weeklyHours([$teacherId], $term)[$teacherId] ?? 0);
+    }
+
+    /**
+     * Display the classes of a teacher in the term the request works in, or
+     * the teachers of a subject. A teacher's list comes with their weekly
+     * teaching load.
+     */
+    public function index(Request $request): JsonResponse
+    {
+        $validated = $request->validate([
+            'teacher_id' => 'required_without:subject_id|nullable|integer',
+            'subject_id' => 'required_without:teacher_id|nullable|integer',
+        ]);
+
+        try {
+            $term = Term::fromRequest($request);
+            $assignments = TeachingAssignment::query()
+                ->with(self::RELATIONS)
+                ->inTerm($term)
+                ->when($validated['teacher_id'] ?? null, fn ($query, $teacherId) => $query->where('teacher_id', $teacherId))
+                ->when($validated['subject_id'] ?? null, fn ($query, $subjectId) => $query->where('subject_id', $subjectId))
+                ->orderBy('id')
+                ->get();
+
+            return response()->json([
+                'success' => true,
+                'assignments' => $this->withHours($assignments)->values(),
+                'load' => isset($validated['teacher_id']) ? $this->loadOf($validated['teacher_id'], $term) : null,
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching teaching assignments: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch teaching assignments',
+            ], 500);
+        }
+    }
+
+    /**
+     * Assign a teacher to a subject in a section.
+     */
+    public function store(TeachingAssignmentRequest $request): JsonResponse
+    {
+        if ($term = Term::archivedFor([$request->validated('subject_id')])) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            $assignment = TeachingAssignment::create($request->validated())->load(self::RELATIONS);
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Teacher assigned successfully',
+                'assignment' => $this->withHours(collect([$assignment]))->first(),
+                'load' => $this->loadOf($assignment->teacher_id, $assignment->subject?->term),
+            ], 201);
+        } catch (\Exception $e) {
+            Log::error('Error creating teaching assignment: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to assign teacher',
+            ], 500);
+        }
+    }
+
+    /**
+     * Remove a teacher from a class. A class the teacher is still scheduled
+     * for can't be unassigned until its schedule is changed.
+     */
+    public function destroy(TeachingAssignment $assignment): JsonResponse
+    {
+        if ($term = Term::archivedFor([$assignment->subject_id])) {
+            return $this->archivedTerm($term);
+        }
+
+        $scheduled = Schedule::where($assignment->only(['teacher_id', 'subject_id', 'section_id']))->exists();
+        if ($scheduled) {
+            return response()->json([
+                'success' => false,
+                'message' => 'The teacher is still scheduled for this class. Remove or reassign its schedule first.',
+            ], 422);
+        }
+
+        try {
+            $assignment->delete();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Teacher unassigned successfully',
+                'load' => $this->loadOf($assignment->teacher_id, $assignment->subject?->term),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error deleting teaching assignment: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to unassign teacher',
+            ], 500);
+        }
+    }
+}
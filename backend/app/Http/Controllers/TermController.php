@@ -0,0 +1,207 @@
+<?php
+
+namespace App\Http\Controllers;
+
+use App\Http\Requests\TermRequest;
+use App\Models\Subject;
+use App\Models\Term;
+use Illuminate\Http\JsonResponse;
+use Illuminate\Support\Arr;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Log;
+
+class TermController extends Controller
+{
+    /**
+     * Subject columns carried over when a term copies another's subjects.
+     */
+    protected const COPIED_SUBJECT_FIELDS = ['name', 'code', 'status', 'grade_level_id', 'strand_id', 'description'];
+
+    /**
+     * Display every term, the newest school year first, with how many
+     * subjects and sections each has.
+     */
+    public function index(): JsonResponse
+    {
+        try {
+            $terms = Term::query()
+                ->withCount(['subjects', 'sections'])
+                ->latestFirst()
+                ->get();
+
+            return response()->json([
+                'success' => true,
+                'terms' => $terms,
+                'current_term_id' => $terms->firstWhere('is_current', true)?->id,
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error fetching terms: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to fetch terms',
+            ], 500);
+        }
+    }
+
+    /**
+     * Store a new term, optionally offering the subjects of an earlier one.
+     * The first term set up becomes the current one.
+     */
+    public function store(TermRequest $request): JsonResponse
+    {
+        try {
+            DB::beginTransaction();
+
+            $term = Term::create(Arr::except($request->validated(), ['is_current', 'copy_subjects_from']));
+
+            if ($request->boolean('is_current') || !Term::where('is_current', true)->exists()) {
+                $term->makeCurrent();
+            }
+
+            if ($sourceId = $request->validated('copy_subjects_from')) {
+                Subject::where('term_id', $sourceId)->orderBy('id')->get()->each(
+                    fn (Subject $subject) => Subject::create(array_merge(
+                        $subject->only(self::COPIED_SUBJECT_FIELDS),
+                        ['term_id' => $term->id]
+                    ))
+                );
+            }
+
+            DB::commit();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Term created successfully',
+                'term' => $term->fresh()->loadCount(['subjects', 'sections']),
+            ], 201);
+        } catch (\Exception $e) {
+            DB::rollBack();
+            Log::error('Error creating term: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to create term',
+            ], 500);
+        }
+    }
+
+    /**
+     * Update the specified term's school year, name and dates.
+     */
+    public function update(TermRequest $request, Term $term): JsonResponse
+    {
+        if ($term->isArchived()) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            $term->update(Arr::except($request->validated(), ['is_current', 'copy_subjects_from']));
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Term updated successfully',
+                'term' => $term->loadCount(['subjects', 'sections']),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error updating term: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to update term',
+            ], 500);
+        }
+    }
+
+    /**
+     * Remove a term that nothing has been recorded in yet.
+     */
+    public function destroy(Term $term): JsonResponse
+    {
+        if ($term->is_current) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Cannot delete the current term',
+            ], 422);
+        }
+
+        if ($term->subjects()->withTrashed()->exists() || $term->sections()->withTrashed()->exists()) {
+            return response()->json([
+                'success' => false,
+                'message' => 'Cannot delete a term that has subjects or sections',
+            ], 422);
+        }
+
+        try {
+            $term->delete();
+
+            return response()->json([
+                'success' => true,
+                'message' => 'Term deleted successfully',
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error deleting term: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to delete term',
+            ], 500);
+        }
+    }
+
+    /**
+     * Make the specified term the one the school is in.
+     */
+    public function makeCurrent(Term $term): JsonResponse
+    {
+        if ($term->isArchived()) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            DB::transaction(fn () => $term->makeCurrent());
+
+            return response()->json([
+                'success' => true,
+                'message' => "{$term->label} is now the current term",
+                'term' => $term->loadCount(['subjects', 'sections']),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error changing the current term: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to change the current term',
+            ], 500);
+        }
+    }
+
+    /**
+     * Archive a past term. Its subjects, sections, enrollments, grades,
+     * schedules and attendance become read-only for good.
+     */
+    public function archive(Term $term): JsonResponse
+    {
+        if ($term->is_current) {
+            return response()->json([
+                'success' => false,
+                'message' => 'The current term cannot be archived. Make another term current first.',
+            ], 422);
+        }
+
+        if ($term->isArchived()) {
+            return $this->archivedTerm($term);
+        }
+
+        try {
+            $term->forceFill(['archived_at' => now()])->save();
+
+            return response()->json([
+                'success' => true,
+                'message' => "{$term->label} archived successfully",
+                'term' => $term->loadCount(['subjects', 'sections']),
+            ]);
+        } catch (\Exception $e) {
+            Log::error('Error archiving term: ' . $e->getMessage());
+            return response()->json([
+                'success' => false,
+                'message' => 'Failed to archive term',
+            ], 500);
+        }
+    }
+}
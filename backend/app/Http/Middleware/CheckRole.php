@@ -9,13 +9,14 @@
 class CheckRole
 {
     /**
-     * Handle an incoming request.
+     * Handle an incoming request. Several roles may be allowed at once,
+     * e.g. `role:Admin,Teacher`.
      *
      * @param  \Closure(\Illuminate\Http\Request): (\Symfony\Component\HttpFoundation\Response)  $next
      */
-    public function handle(Request $request, Closure $next, string $role): Response
+    public function handle(Request $request, Closure $next, string ...$roles): Response
     {
-        if (!$request->user() || $request->user()->role !== $role) {
+        if (!$request->user() || !in_array($request->user()->role, $roles, true)) {
             return response()->json([
                 'success' => false,
                 'message' => 'Unauthorized. Insufficient permissions.'
@@ -0,0 +1,57 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class AccountLinkRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        // The student or teacher record being linked, and the role its
+        // account must have
+        $record = $this->route('student') ?? $this->route('teacher');
+        $role = $this->route('student') ? 'Student' : 'Teacher';
+
+        return [
+            // null unlinks the record
+            'user_id' => [
+                'present',
+                'nullable',
+                'integer',
+                Rule::exists('users', 'id')->where('role', $role)->whereNull('deleted_at'),
+                Rule::unique($record->getTable(), 'user_id')->ignore($record->id),
+            ],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        $role = $this->route('student') ? 'Student' : 'Teacher';
+
+        return [
+            'user_id.present' => 'Choose the account to link, or none to unlink.',
+            'user_id.exists' => "The selected account does not exist or is not a {$role} account.",
+            'user_id.unique' => 'The selected account is already linked to another record.',
+        ];
+    }
+}
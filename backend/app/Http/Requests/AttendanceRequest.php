@@ -0,0 +1,56 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\Attendance;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class AttendanceRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'section_id' => ['required', 'integer', 'exists:sections,id'],
+            'subject_id' => ['required', 'integer', 'exists:subjects,id'],
+            'date' => ['required', 'date_format:Y-m-d', 'before_or_equal:today'],
+            'records' => ['required', 'array', 'min:1'],
+            'records.*.student_id' => ['required', 'integer', 'distinct', 'exists:students,id'],
+            // A null status clears the student's mark for the day
+            'records.*.status' => ['present', 'nullable', Rule::in(Attendance::STATUSES)],
+            'records.*.remarks' => ['nullable', 'string', 'max:255'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'section_id.exists' => 'The selected section does not exist.',
+            'subject_id.exists' => 'The selected subject does not exist.',
+            'date.date_format' => 'The date must be in YYYY-MM-DD format.',
+            'date.before_or_equal' => 'Attendance cannot be taken for a future date.',
+            'records.required' => 'At least one student must be marked.',
+            'records.*.student_id.exists' => 'One of the selected students does not exist.',
+            'records.*.student_id.distinct' => 'A student can only be marked once per session.',
+            'records.*.status.in' => 'Attendance must be present, absent, late or excused.',
+        ];
+    }
+}
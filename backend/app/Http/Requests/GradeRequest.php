@@ -0,0 +1,54 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\Grade;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class GradeRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'quarter' => ['required', 'integer', Rule::in(Grade::QUARTERS)],
+            'grades' => ['required', 'array', 'min:1'],
+            'grades.*.student_id' => ['required', 'integer', 'distinct', 'exists:students,id'],
+            // A null score clears the student's grade for the quarter
+            'grades.*.score' => ['present', 'nullable', 'numeric', 'min:0', 'max:100'],
+            'grades.*.remarks' => ['nullable', 'string', 'max:255'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'quarter.required' => 'The quarter is required.',
+            'quarter.in' => 'The quarter must be between 1 and 4.',
+            'grades.required' => 'At least one grade is required.',
+            'grades.*.student_id.exists' => 'One of the selected students does not exist.',
+            'grades.*.student_id.distinct' => 'A student can only be graded once per quarter.',
+            'grades.*.score.numeric' => 'Grades must be numbers.',
+            'grades.*.score.min' => 'Grades cannot be lower than 0.',
+            'grades.*.score.max' => 'Grades cannot be higher than 100.',
+        ];
+    }
+}
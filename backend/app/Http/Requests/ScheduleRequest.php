@@ -0,0 +1,100 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\Schedule;
+use App\Models\Section;
+use App\Models\Subject;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+use Illuminate\Validation\Validator;
+
+class ScheduleRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'subject_id' => ['required', 'integer', Rule::exists('subjects', 'id')->whereNull('deleted_at')],
+            'section_id' => ['required', 'integer', Rule::exists('sections', 'id')->whereNull('deleted_at')],
+            'teacher_id' => ['nullable', 'integer', 'exists:teachers,id'],
+            'room' => ['nullable', 'string', 'max:100'],
+            'day_of_week' => ['required', 'integer', Rule::in(array_keys(Schedule::DAYS))],
+            'start_time' => ['required', 'date_format:H:i'],
+            'end_time' => ['required', 'date_format:H:i', 'after:start_time'],
+        ];
+    }
+
+    /**
+     * Reject slots whose section and subject are in different terms, and
+     * slots that overlap another one for the same teacher, room or section.
+     *
+     * @return array<int, callable>
+     */
+    public function after(): array
+    {
+        return [
+            function (Validator $validator) {
+                if ($validator->errors()->isNotEmpty()) {
+                    return;
+                }
+
+                // Raw column values, so compare them as strings
+                $subjectTerm = Subject::whereKey($validator->validated()['subject_id'])->value('term_id');
+                $sectionTerm = Section::whereKey($validator->validated()['section_id'])->value('term_id');
+                if ((string) $sectionTerm !== (string) $subjectTerm) {
+                    $validator->errors()->add('section_id', 'The section is not in the same term as the subject.');
+                    return;
+                }
+
+                $labels = [
+                    'teacher_id' => 'The teacher is already scheduled for',
+                    'room' => 'The room is already booked for',
+                    'section_id' => 'The section already has',
+                ];
+                $conflicts = Schedule::conflictsFor($validator->validated(), $this->route('schedule')?->id);
+
+                foreach ($conflicts as $field => $clashes) {
+                    foreach ($clashes as $clash) {
+                        $validator->errors()->add($field, "{$labels[$field]} {$clash->describe()}.");
+                    }
+                }
+            },
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'subject_id.required' => 'The subject is required.',
+            'subject_id.exists' => 'The selected subject does not exist.',
+            'section_id.required' => 'The section is required.',
+            'section_id.exists' => 'The selected section does not exist.',
+            'teacher_id.exists' => 'The selected teacher does not exist.',
+            'day_of_week.required' => 'The day is required.',
+            'day_of_week.in' => 'Please select a valid day.',
+            'start_time.required' => 'The start time is required.',
+            'start_time.date_format' => 'The start time must be in HH:MM format.',
+            'end_time.required' => 'The end time is required.',
+            'end_time.date_format' => 'The end time must be in HH:MM format.',
+            'end_time.after' => 'The end time must be after the start time.',
+        ];
+    }
+}
@@ -0,0 +1,104 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\Term;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class StudentImportRequest extends FormRequest
+{
+    /**
+     * Most rows accepted by one import.
+     */
+    public const MAX_ROWS = 500;
+
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request. Errors come back
+     * keyed by row, e.g. "students.3.email", so the client can show them
+     * next to the offending line of the file.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        // Section names repeat from term to term; rows name those of the
+        // term the import is made in
+        $sections = Rule::exists('sections', 'name')->whereNull('deleted_at');
+        if ($term = Term::fromRequest($this)) {
+            $sections->where('term_id', $term->id);
+        }
+
+        return [
+            // Validate only, without creating anything
+            'dry_run' => ['sometimes', 'boolean'],
+            'students' => ['required', 'array', 'min:1', 'max:' . self::MAX_ROWS],
+            'students.*.name' => ['required', 'string', 'max:255'],
+            'students.*.gender' => ['required', Rule::in(['Male', 'Female'])],
+            // Grade levels, strands and sections are managed by the TypeScript API server
+            'students.*.grade_level' => ['required', 'string', Rule::exists('grade_levels', 'name')->where('is_active', true)],
+            'students.*.strand' => ['required', 'string', Rule::exists('strands', 'name')->whereNull('deleted_at')],
+            'students.*.section' => ['required', 'string', $sections],
+            'students.*.subject' => ['required', 'string', 'max:255'],
+            'students.*.email' => ['nullable', 'email', 'distinct:ignore_case', 'unique:students,email'],
+            'students.*.phone' => ['nullable', 'string', 'max:20'],
+            'students.*.address' => ['nullable', 'string', 'max:255'],
+            'students.*.birth_date' => ['nullable', 'date_format:Y-m-d', 'before:today'],
+            'students.*.guardian_name' => ['nullable', 'string', 'max:255'],
+            'students.*.guardian_phone' => ['nullable', 'string', 'max:20'],
+            'students.*.guardian_relationship' => ['nullable', 'string', 'max:255'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'students.required' => 'The file has no students to import.',
+            'students.max' => 'At most ' . self::MAX_ROWS . ' students can be imported at once.',
+            'students.*.gender.in' => 'The gender must be Male or Female.',
+            'students.*.grade_level.exists' => 'The grade level does not exist or is inactive.',
+            'students.*.strand.exists' => 'The strand does not exist.',
+            'students.*.section.exists' => 'The section does not exist in this term.',
+            'students.*.email.distinct' => 'The email appears more than once in the file.',
+            'students.*.email.unique' => 'A student with this email already exists.',
+            'students.*.birth_date.date_format' => 'The birth date must be in YYYY-MM-DD format.',
+        ];
+    }
+
+    /**
+     * Get custom attributes for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function attributes(): array
+    {
+        return [
+            'students.*.name' => 'name',
+            'students.*.gender' => 'gender',
+            'students.*.grade_level' => 'grade level',
+            'students.*.strand' => 'strand',
+            'students.*.section' => 'section',
+            'students.*.subject' => 'subject',
+            'students.*.email' => 'email',
+            'students.*.phone' => 'phone',
+            'students.*.address' => 'address',
+            'students.*.birth_date' => 'birth date',
+            'students.*.guardian_name' => 'guardian name',
+            'students.*.guardian_phone' => 'guardian phone',
+            'students.*.guardian_relationship' => 'guardian relationship',
+        ];
+    }
+}
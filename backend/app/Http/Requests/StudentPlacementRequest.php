@@ -0,0 +1,54 @@
+<?php
+
+namespace App\Http\Requests;
+
+use App\Models\Student;
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class StudentPlacementRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            // Work out the placement without assigning anyone
+            'dry_run' => ['sometimes', 'boolean'],
+            // Grade levels, strands and sections are managed by the TypeScript API server
+            'grade_level_id' => ['required', 'integer', Rule::exists('grade_levels', 'id')],
+            'strand_id' => ['nullable', 'integer', Rule::exists('strands', 'id')->whereNull('deleted_at')],
+            // Defaults to every active section of the grade level and strand
+            'section_ids' => ['sometimes', 'array', 'min:1'],
+            'section_ids.*' => ['integer', 'distinct', Rule::exists('sections', 'id')->whereNull('deleted_at')],
+            'balance_by' => ['sometimes', 'array'],
+            'balance_by.*' => ['string', 'distinct', Rule::in(Student::PLACEMENT_CRITERIA)],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'grade_level_id.exists' => 'The grade level does not exist.',
+            'strand_id.exists' => 'The strand does not exist.',
+            'section_ids.*.exists' => 'One of the sections does not exist.',
+            'balance_by.*.in' => 'Sections can only be balanced by ' . implode(' or ', Student::PLACEMENT_CRITERIA) . '.',
+        ];
+    }
+}
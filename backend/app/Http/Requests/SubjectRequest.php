@@ -2,6 +2,7 @@
 
 namespace App\Http\Requests;
 
+use App\Models\Term;
 use Illuminate\Foundation\Http\FormRequest;
 use Illuminate\Validation\Rule;
 
@@ -15,6 +16,17 @@ public function authorize(): bool
         return true; // You can add authorization logic here if needed
     }
 
+    /**
+     * New subjects are offered in the term the request works in unless
+     * another is given.
+     */
+    protected function prepareForValidation(): void
+    {
+        if (!$this->route('subject') && !$this->filled('term_id')) {
+            $this->merge(['term_id' => Term::fromRequest($this)?->id]);
+        }
+    }
+
     /**
      * Get the validation rules that apply to the request.
      *
@@ -22,23 +34,27 @@ public function authorize(): bool
      */
     public function rules(): array
     {
-        $subjectId = $this->route('subject')?->id;
+        $subject = $this->route('subject');
 
         return [
+            // A subject stays in the term it was created in
+            'term_id' => $subject
+                ? ['exclude']
+                : ['required', 'integer', Rule::exists('terms', 'id')->whereNull('archived_at')],
             'name' => ['required', 'string', 'max:255'],
             'code' => [
                 'required',
                 'string',
                 'max:50',
-                Rule::unique('subjects')->ignore($subjectId),
+                Rule::unique('subjects')
+                    ->where('term_id', $subject?->term_id ?? $this->input('term_id'))
+                    ->ignore($subject?->id),
             ],
             'status' => ['required', 'string', Rule::in(['Available', 'Unavailable'])],
-            'grade_level' => ['required', 'string', Rule::in([
-                'Grade 7', 'Grade 8', 'Grade 9', 'Grade 10', 'Grade 11', 'Grade 12'
-            ])],
-            'strand' => ['required', 'string', Rule::in([
-                'No Strand', 'STEM', 'ABM', 'HUMSS', 'GAS', 'TVL', 'Sports', 'Arts & Design'
-            ])],
+            // Grade levels and strands are managed by the TypeScript API server.
+            // Subjects without a strand are taken by every strand.
+            'grade_level_id' => ['required', 'integer', Rule::exists('grade_levels', 'id')->where('is_active', true)],
+            'strand_id' => ['nullable', 'integer', Rule::exists('strands', 'id')->whereNull('deleted_at')],
             'description' => ['nullable', 'string', 'max:1000'],
         ];
     }
@@ -53,13 +69,14 @@ public function messages(): array
         return [
             'name.required' => 'The subject name is required.',
             'code.required' => 'The subject code is required.',
-            'code.unique' => 'This subject code is already in use.',
+            'term_id.required' => 'Set up a term before adding subjects.',
+            'term_id.exists' => 'Subjects cannot be added to an archived term.',
+            'code.unique' => 'This subject code is already in use this term.',
             'status.required' => 'The subject status is required.',
             'status.in' => 'The status must be either Available or Unavailable.',
-            'grade_level.required' => 'The grade level is required.',
-            'grade_level.in' => 'Please select a valid grade level.',
-            'strand.required' => 'The strand is required.',
-            'strand.in' => 'Please select a valid strand.',
+            'grade_level_id.required' => 'The grade level is required.',
+            'grade_level_id.exists' => 'Please select a valid grade level.',
+            'strand_id.exists' => 'Please select a valid strand.',
             'description.max' => 'The description cannot exceed 1000 characters.',
         ];
     }
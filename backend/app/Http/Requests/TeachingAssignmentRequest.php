@@ -0,0 +1,56 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class TeachingAssignmentRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'teacher_id' => ['required', 'integer', 'exists:teachers,id'],
+            'subject_id' => ['required', 'integer', Rule::exists('subjects', 'id')->whereNull('deleted_at')],
+            'section_id' => [
+                'required',
+                'integer',
+                Rule::exists('sections', 'id')->whereNull('deleted_at'),
+                Rule::unique('teaching_assignments')
+                    ->where('teacher_id', $this->input('teacher_id'))
+                    ->where('subject_id', $this->input('subject_id')),
+            ],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'teacher_id.required' => 'The teacher is required.',
+            'teacher_id.exists' => 'The selected teacher does not exist.',
+            'subject_id.required' => 'The subject is required.',
+            'subject_id.exists' => 'The selected subject does not exist.',
+            'section_id.required' => 'The section is required.',
+            'section_id.exists' => 'The selected section does not exist.',
+            'section_id.unique' => 'The teacher is already assigned to this subject in this section.',
+        ];
+    }
+}
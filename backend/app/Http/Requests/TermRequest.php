@@ -0,0 +1,60 @@
+<?php
+
+namespace App\Http\Requests;
+
+use Illuminate\Foundation\Http\FormRequest;
+use Illuminate\Validation\Rule;
+
+class TermRequest extends FormRequest
+{
+    /**
+     * Determine if the user is authorized to make this request.
+     */
+    public function authorize(): bool
+    {
+        return true; // Access is handled by the role middleware on the route
+    }
+
+    /**
+     * Get the validation rules that apply to the request.
+     *
+     * @return array<string, \Illuminate\Contracts\Validation\ValidationRule|array<mixed>|string>
+     */
+    public function rules(): array
+    {
+        return [
+            'school_year' => ['required', 'string', 'regex:/^\d{4}-\d{4}$/'],
+            'name' => [
+                'required',
+                'string',
+                'max:255',
+                Rule::unique('terms')
+                    ->where('school_year', $this->input('school_year'))
+                    ->ignore($this->route('term')?->id),
+            ],
+            'starts_on' => ['nullable', 'date'],
+            'ends_on' => ['nullable', 'date', 'after_or_equal:starts_on'],
+            // Only on create: make the new term current, and offer the
+            // subjects of an earlier term in it
+            'is_current' => ['sometimes', 'boolean'],
+            'copy_subjects_from' => ['nullable', 'integer', 'exists:terms,id'],
+        ];
+    }
+
+    /**
+     * Get custom messages for validator errors.
+     *
+     * @return array<string, string>
+     */
+    public function messages(): array
+    {
+        return [
+            'school_year.required' => 'The school year is required.',
+            'school_year.regex' => 'The school year must look like 2025-2026.',
+            'name.required' => 'The term name is required.',
+            'name.unique' => 'This school year already has a term with this name.',
+            'ends_on.after_or_equal' => 'The term cannot end before it starts.',
+            'copy_subjects_from.exists' => 'The term to copy subjects from does not exist.',
+        ];
+    }
+}
@@ -0,0 +1,108 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Builder;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Collection;
+
+class Attendance extends Model
+{
+    use HasFactory;
+
+    public const STATUSES = ['present', 'absent', 'late', 'excused'];
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'student_id',
+        'subject_id',
+        'section_id',
+        'date',
+        'status',
+        'remarks',
+        'recorded_by',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'date' => 'date:Y-m-d',
+    ];
+
+    /**
+     * Get the student this mark belongs to.
+     */
+    public function student(): BelongsTo
+    {
+        return $this->belongsTo(Student::class);
+    }
+
+    /**
+     * Get the subject whose session this mark was taken in.
+     */
+    public function subject(): BelongsTo
+    {
+        return $this->belongsTo(Subject::class);
+    }
+
+    /**
+     * Get the section whose session this mark was taken in.
+     */
+    public function section(): BelongsTo
+    {
+        return $this->belongsTo(Section::class)->withTrashed();
+    }
+
+    /**
+     * Get the user who recorded this mark.
+     */
+    public function recorder(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'recorded_by');
+    }
+
+    /**
+     * Scope a query to marks taken between two dates, either end optional.
+     *
+     * @param  \Illuminate\Database\Eloquent\Builder  $query
+     * @param  string|null  $from
+     * @param  string|null  $to
+     * @return \Illuminate\Database\Eloquent\Builder
+     */
+    public function scopeBetween(Builder $query, ?string $from, ?string $to): Builder
+    {
+        return $query
+            ->when($from, fn ($query) => $query->whereDate('date', '>=', $from))
+            ->when($to, fn ($query) => $query->whereDate('date', '<=', $to));
+    }
+
+    /**
+     * Count marks by status, with the attendance rate: the share of sessions
+     * attended (present or late), leaving excused ones out. The rate is null
+     * until there is a session to count.
+     */
+    public static function summarize(Collection $marks): array
+    {
+        $counts = [];
+        foreach (self::STATUSES as $status) {
+            $counts[$status] = $marks->where('status', $status)->count();
+        }
+
+        $counted = $marks->count() - $counts['excused'];
+        $attended = $counts['present'] + $counts['late'];
+
+        return array_merge($counts, [
+            'total' => $marks->count(),
+            'rate' => $counted > 0 ? round($attended / $counted * 100, 1) : null,
+        ]);
+    }
+}
@@ -0,0 +1,103 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class AuditLog extends Model
+{
+    /**
+     * Entries are never edited once written.
+     */
+    public const UPDATED_AT = null;
+
+    public const ACTIONS = ['created', 'updated', 'deleted', 'restored', 'purged', 'enrolled', 'unenrolled'];
+
+    public const ENTITY_TYPES = ['student', 'teacher', 'subject', 'strand', 'grade_level', 'section', 'teaching_assignment', 'term', 'user'];
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'user_id',
+        'actor_name',
+        'action',
+        'entity_type',
+        'entity_id',
+        'entity_name',
+        'changes',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'changes' => 'array',
+    ];
+
+    /**
+     * Get the user who made the change.
+     */
+    public function user(): BelongsTo
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Record an action on a model, made by the signed-in user. `$changes`
+     * maps each field to its `old` and `new` value, or holds the action's
+     * details, e.g. the students enrolled.
+     */
+    public static function record(string $action, Model $entity, ?array $changes = null): self
+    {
+        $actor = auth()->user();
+
+        return static::create([
+            'user_id' => $actor?->id,
+            'actor_name' => $actor?->name,
+            'action' => $action,
+            'entity_type' => $entity->auditType(),
+            'entity_id' => $entity->getKey(),
+            'entity_name' => $entity->auditName(),
+            'changes' => $changes ?: null,
+        ]);
+    }
+
+    /**
+     * Scope the entries to the filters given, e.g. from the query string.
+     *
+     * @param  \Illuminate\Database\Eloquent\Builder  $query
+     * @param  array<string, mixed>  $filters
+     * @return \Illuminate\Database\Eloquent\Builder
+     */
+    public function scopeFilter($query, array $filters)
+    {
+        foreach (['action', 'entity_type', 'entity_id', 'user_id'] as $column) {
+            if (!empty($filters[$column])) {
+                $query->where($column, $filters[$column]);
+            }
+        }
+
+        if (!empty($filters['from'])) {
+            $query->whereDate('created_at', '>=', $filters['from']);
+        }
+        if (!empty($filters['to'])) {
+            $query->whereDate('created_at', '<=', $filters['to']);
+        }
+
+        if (!empty($filters['search'])) {
+            $search = '%' . $filters['search'] . '%';
+            $query->where(function ($query) use ($search) {
+                $query->where('entity_name', 'like', $search)
+                      ->orWhere('actor_name', 'like', $search);
+            });
+        }
+
+        return $query;
+    }
+}
@@ -0,0 +1,98 @@
+<?php
+
+namespace App\Models\Concerns;
+
+use App\Models\AuditLog;
+use Illuminate\Support\Facades\Log;
+use Illuminate\Support\Str;
+
+/**
+ * Records every create, update, delete and restore of the model in the
+ * audit log. Hidden attributes and timestamps are left out of the diffs.
+ */
+trait Auditable
+{
+    /**
+     * Register the model event listeners.
+     */
+    public static function bootAuditable(): void
+    {
+        static::created(function ($model) {
+            $filled = array_filter($model->getAttributes(), fn ($value) => $value !== null);
+            $model->audit('created', $model->auditDiff(array_keys($filled), []));
+        });
+
+        static::updated(function ($model) {
+            $diff = $model->auditDiff(array_keys($model->getChanges()), $model->getOriginal());
+            // Soft deletes and restores save the model too; they're logged as such
+            if (!empty($diff)) {
+                $model->audit('updated', $diff);
+            }
+        });
+
+        static::deleted(function ($model) {
+            $model->audit('deleted');
+        });
+
+        if (method_exists(static::class, 'restored')) {
+            static::restored(function ($model) {
+                $model->audit('restored');
+            });
+        }
+    }
+
+    /**
+     * The entity type the model is logged under, e.g. "grade_level".
+     */
+    public function auditType(): string
+    {
+        return Str::snake(class_basename($this));
+    }
+
+    /**
+     * The name the model is logged under, as it is at the time.
+     */
+    public function auditName(): ?string
+    {
+        return $this->name;
+    }
+
+    /**
+     * Write an audit entry for the model. A failure to log never fails the
+     * change itself.
+     */
+    public function audit(string $action, ?array $changes = null): void
+    {
+        try {
+            AuditLog::record($action, $this, $changes);
+        } catch (\Exception $e) {
+            Log::error('Error writing audit log: ' . $e->getMessage());
+        }
+    }
+
+    /**
+     * Old and new values of the given attributes, keyed by attribute.
+     *
+     * @param  array<int, string>  $keys
+     * @param  array<string, mixed>  $original
+     */
+    protected function auditDiff(array $keys, array $original): array
+    {
+        $ignored = array_merge($this->getHidden(), [
+            $this->getKeyName(),
+            $this->getCreatedAtColumn(),
+            $this->getUpdatedAtColumn(),
+            'deleted_at',
+        ]);
+
+        $diff = [];
+        foreach (array_diff($keys, $ignored) as $key) {
+            $diff[$key] = [
+                'old' => $original[$key] ?? null,
+                'new' => $this->getAttribute($key),
+            ];
+        }
+
+        return $diff;
+    }
+}
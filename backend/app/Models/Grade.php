@@ -0,0 +1,118 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+class Grade extends Model
+{
+    use HasFactory;
+
+    public const QUARTERS = [1, 2, 3, 4];
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'student_id',
+        'subject_id',
+        'quarter',
+        'score',
+        'remarks',
+        'recorded_by',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'quarter' => 'integer',
+        'score' => 'float',
+    ];
+
+    /**
+     * Get the student this grade belongs to.
+     */
+    public function student(): BelongsTo
+    {
+        return $this->belongsTo(Student::class);
+    }
+
+    /**
+     * Get the subject this grade was given in.
+     */
+    public function subject(): BelongsTo
+    {
+        return $this->belongsTo(Subject::class);
+    }
+
+    /**
+     * Get the user who recorded this grade.
+     */
+    public function recorder(): BelongsTo
+    {
+        return $this->belongsTo(User::class, 'recorded_by');
+    }
+
+    /**
+     * Compute a final grade from quarterly scores keyed by quarter number,
+     * following config/gradebook.php. Returns null while it can't be computed.
+     *
+     * @param  array<int, float|null>  $quarters
+     */
+    public static function computeFinal(array $quarters): ?float
+    {
+        $recorded = array_filter($quarters, fn ($score) => $score !== null);
+
+        if (empty($recorded)) {
+            return null;
+        }
+        if (config('gradebook.require_all_quarters') && count($recorded) < count(self::QUARTERS)) {
+            return null;
+        }
+
+        if (config('gradebook.final_method') === 'weighted') {
+            $weights = config('gradebook.quarter_weights');
+            $total = 0;
+            $weightSum = 0;
+            foreach ($recorded as $quarter => $score) {
+                $weight = (float) ($weights[$quarter] ?? 0);
+                $total += $score * $weight;
+                $weightSum += $weight;
+            }
+            $final = $weightSum > 0 ? $total / $weightSum : null;
+        } else {
+            $final = array_sum($recorded) / count($recorded);
+        }
+
+        return $final === null ? null : round($final, config('gradebook.precision'));
+    }
+
+    /**
+     * The descriptor band a final grade falls in, e.g. "Very Satisfactory".
+     */
+    public static function descriptor(float $final): string
+    {
+        foreach (config('gradebook.descriptors') as $band) {
+            if ($final >= $band['min']) {
+                return $band['label'];
+            }
+        }
+
+        return last(config('gradebook.descriptors'))['label'];
+    }
+
+    /**
+     * Whether a final grade counts as passed.
+     */
+    public static function isPassing(float $final): bool
+    {
+        return $final >= config('gradebook.passing_grade');
+    }
+}
@@ -0,0 +1,21 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+
+/**
+ * Grade levels are managed by the TypeScript API server (frontend/server),
+ * which owns the table; this model only reads them for students and subjects.
+ */
+class GradeLevel extends Model
+{
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'is_active' => 'boolean',
+    ];
+}
@@ -0,0 +1,210 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Support\Collection;
+
+class Schedule extends Model
+{
+    use HasFactory;
+
+    public const DAYS = [
+        1 => 'Monday',
+        2 => 'Tuesday',
+        3 => 'Wednesday',
+        4 => 'Thursday',
+        5 => 'Friday',
+        6 => 'Saturday',
+        7 => 'Sunday',
+    ];
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'subject_id',
+        'section_id',
+        'teacher_id',
+        'room',
+        'day_of_week',
+        'start_time',
+        'end_time',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'day_of_week' => 'integer',
+    ];
+
+    /**
+     * The accessors to append to the model's array form.
+     *
+     * @var array
+     */
+    protected $appends = ['day'];
+
+    /**
+     * Get the subject taught in this slot.
+     */
+    public function subject(): BelongsTo
+    {
+        return $this->belongsTo(Subject::class);
+    }
+
+    /**
+     * Get the section attending this slot.
+     */
+    public function section(): BelongsTo
+    {
+        return $this->belongsTo(Section::class);
+    }
+
+    /**
+     * Get the teacher handling this slot.
+     */
+    public function teacher(): BelongsTo
+    {
+        return $this->belongsTo(Teacher::class);
+    }
+
+    /**
+     * Get the weekday name, e.g. "Monday".
+     */
+    public function getDayAttribute(): ?string
+    {
+        return self::DAYS[$this->day_of_week] ?? null;
+    }
+
+    /**
+     * Times are stored as TIME columns; always expose them as HH:MM.
+     */
+    public function getStartTimeAttribute($value): ?string
+    {
+        return $value === null ? null : substr($value, 0, 5);
+    }
+
+    public function getEndTimeAttribute($value): ?string
+    {
+        return $value === null ? null : substr($value, 0, 5);
+    }
+
+    /**
+     * Length of the slot in hours, e.g. 1.5 for 08:00-09:30.
+     */
+    public function hours(): float
+    {
+        return (strtotime($this->end_time) - strtotime($this->start_time)) / 3600;
+    }
+
+    /**
+     * Make sure the slot's teacher is assigned to the class it schedules
+     * them for.
+     */
+    public function assignTeacher(): void
+    {
+        if ($this->teacher_id) {
+            TeachingAssignment::firstOrCreate($this->only(['teacher_id', 'subject_id', 'section_id']));
+        }
+    }
+
+    /**
+     * The accounts of everyone the slot concerns: the students of its section
+     * and its teacher, including the section and teacher it had before its
+     * last update.
+     */
+    public function audience(): Collection
+    {
+        $previous = $this->getPrevious();
+        $sectionIds = array_filter(array_unique([$this->section_id, $previous['section_id'] ?? null]));
+        $teacherIds = array_filter(array_unique([$this->teacher_id, $previous['teacher_id'] ?? null]));
+
+        return User::whereIn('id', Student::whereIn('section_id', $sectionIds)->whereNotNull('user_id')->select('user_id'))
+            ->orWhereIn('id', Teacher::whereIn('id', $teacherIds)->whereNotNull('user_id')->select('user_id'))
+            ->get();
+    }
+
+    /**
+     * Scope a query to slots on the same day whose time range overlaps
+     * [start, end). Slots that merely touch (one ends as the next starts)
+     * do not overlap.
+     */
+    public function scopeOverlapping($query, int $day, string $start, string $end)
+    {
+        return $query->where('day_of_week', $day)
+            ->where('start_time', '<', $end)
+            ->where('end_time', '>', $start);
+    }
+
+    /**
+     * Scope a query to the slots of subjects offered in a term. Without a
+     * term nothing is filtered out.
+     */
+    public function scopeInTerm($query, ?Term $term)
+    {
+        return $query->when($term, fn ($query) => $query->whereIn(
+            'schedules.subject_id',
+            Subject::withTrashed()->inTerm($term)->select('id')
+        ));
+    }
+
+    /**
+     * Scope a query to order slots through the week.
+     */
+    public function scopeChronological($query)
+    {
+        return $query->orderBy('day_of_week')->orderBy('start_time');
+    }
+
+    /**
+     * Find the slots that would clash with the given one, keyed by the field
+     * they clash on: the same teacher, room or section at an overlapping time
+     * in the same term.
+     *
+     * @param  array<string, mixed>  $slot
+     * @return array<string, \Illuminate\Support\Collection>
+     */
+    public static function conflictsFor(array $slot, ?int $ignoreId = null): array
+    {
+        $overlapping = static::query()
+            ->with(['subject:id,name,code', 'section:id,name', 'teacher:id,name'])
+            ->overlapping($slot['day_of_week'], $slot['start_time'], $slot['end_time'])
+            ->when($ignoreId, fn ($query) => $query->where('id', '!=', $ignoreId))
+            ->inTerm(Subject::find($slot['subject_id'])?->term)
+            ->get();
+
+        $room = isset($slot['room']) ? mb_strtolower(trim($slot['room'])) : '';
+
+        return array_filter([
+            'teacher_id' => empty($slot['teacher_id']) ? new Collection() : $overlapping
+                ->where('teacher_id', (int) $slot['teacher_id'])->values(),
+            'room' => $room === '' ? new Collection() : $overlapping
+                ->filter(fn (Schedule $other) => mb_strtolower(trim((string) $other->room)) === $room)->values(),
+            'section_id' => $overlapping->where('section_id', (int) $slot['section_id'])->values(),
+        ], fn (Collection $clashes) => $clashes->isNotEmpty());
+    }
+
+    /**
+     * Short description of a slot for conflict messages,
+     * e.g. "MATH7 (Section A) on Monday 08:00-09:30".
+     */
+    public function describe(): string
+    {
+        return sprintf(
+            '%s (%s) on %s %s-%s',
+            $this->subject->code ?? 'Subject #' . $this->subject_id,
+            $this->section->name ?? 'Section #' . $this->section_id,
+            $this->day,
+            $this->start_time,
+            $this->end_time
+        );
+    }
+}
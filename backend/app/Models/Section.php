@@ -0,0 +1,76 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Database\Eloquent\SoftDeletes;
+
+/**
+ * Sections are managed by the TypeScript API server (frontend/server), which
+ * owns the table; this model only reads them for schedules and students.
+ */
+class Section extends Model
+{
+    use SoftDeletes;
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'is_active' => 'boolean',
+        'capacity' => 'integer',
+    ];
+
+    /**
+     * Get the term the section belongs to.
+     */
+    public function term(): BelongsTo
+    {
+        return $this->belongsTo(Term::class);
+    }
+
+    /**
+     * Get the section's grade level.
+     */
+    public function gradeLevel(): BelongsTo
+    {
+        return $this->belongsTo(GradeLevel::class);
+    }
+
+    /**
+     * Get the section's strand, still shown once it has been trashed.
+     */
+    public function strand(): BelongsTo
+    {
+        return $this->belongsTo(Strand::class)->withTrashed();
+    }
+
+    /**
+     * Get the teacher advising the section.
+     */
+    public function adviser(): BelongsTo
+    {
+        return $this->belongsTo(Teacher::class, 'adviser_id');
+    }
+
+    /**
+     * Get the students assigned to the section.
+     */
+    public function students(): HasMany
+    {
+        return $this->hasMany(Student::class);
+    }
+
+    /**
+     * Scope a query to the sections of a term. Without a term nothing is
+     * filtered out.
+     */
+    public function scopeInTerm($query, ?Term $term)
+    {
+        return $query->when($term, fn ($query) => $query->where('sections.term_id', $term->id));
+    }
+}
@@ -0,0 +1,15 @@
+<?php
+
+namespace App\Models;
+
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\SoftDeletes;
+
+/**
+ * Strands are managed by the TypeScript API server (frontend/server), which
+ * owns the table; this model only reads them for students and subjects.
+ */
+class Strand extends Model
+{
+    use SoftDeletes;
+}
@@ -2,15 +2,44 @@
 
 namespace App\Models;
 
+use App\Models\Concerns\Auditable;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\SoftDeletes;
+use Illuminate\Support\Facades\DB;
 use Illuminate\Support\Facades\Storage;
 use Illuminate\Support\Facades\Log;
 
 class Student extends Model
 {
-    use HasFactory, SoftDeletes;
+    use Auditable, HasFactory, SoftDeletes;
+
+    /**
+     * Columns the students list can be filtered (and faceted) by.
+     */
+    public const FILTERABLE = ['grade_level_id', 'strand_id', 'section_id', 'gender', 'subject'];
+
+    /**
+     * Columns the students list can be sorted by.
+     */
+    public const SORTABLE = ['name', 'gender', 'grade_level', 'strand', 'section', 'subject', 'birth_date', 'created_at'];
+
+    /**
+     * Columns section placement can spread evenly across sections, on top
+     * of keeping sections within capacity.
+     */
+    public const PLACEMENT_CRITERIA = ['gender', 'subject'];
+
+    /**
+     * Tables the grade level, strand and section ids point into, keyed by
+     * the foreign key column.
+     */
+    public const LOOKUP_TABLES = [
+        'grade_level_id' => 'grade_levels',
+        'strand_id' => 'strands',
+        'section_id' => 'sections',
+    ];
 
     /**
      * The attributes that are mass assignable.
@@ -20,9 +49,9 @@ class Student extends Model
     protected $fillable = [
         'name',
         'gender',
-        'grade_level',
-        'strand',
-        'section',
+        'grade_level_id',
+        'strand_id',
+        'section_id',
         'subject',
         'avatar',
         'email',
@@ -64,6 +93,14 @@ class Student extends Model
      */
     protected $appends = ['avatar_url'];
 
+    /**
+     * The relationships that should always be loaded, so the grade level,
+     * strand and section names come with every student.
+     *
+     * @var array
+     */
+    protected $with = ['gradeLevel:id,name', 'strand:id,name', 'section:id,name'];
+
     /**
      * Get the URL for the student's avatar.
      *
@@ -81,6 +118,78 @@ public function getAvatarUrlAttribute()
         return null;
     }
 
+    /**
+     * Get the login account this student signs in with.
+     */
+    public function user()
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the student's grade level.
+     */
+    public function gradeLevel(): BelongsTo
+    {
+        return $this->belongsTo(GradeLevel::class);
+    }
+
+    /**
+     * Get the student's strand, still shown once it has been trashed.
+     */
+    public function strand(): BelongsTo
+    {
+        return $this->belongsTo(Strand::class)->withTrashed();
+    }
+
+    /**
+     * Get the student's section, still shown once it has been trashed.
+     */
+    public function section(): BelongsTo
+    {
+        return $this->belongsTo(Section::class)->withTrashed();
+    }
+
+    /**
+     * The names of the student's grade level, strand and section, for
+     * responses that show them as plain text.
+     *
+     * @return array<string, string|null>
+     */
+    public function placementNames(): array
+    {
+        return [
+            'grade_level' => $this->gradeLevel?->name,
+            'strand' => $this->strand?->name,
+            'section' => $this->section?->name,
+        ];
+    }
+
+    /**
+     * Get the subjects this student is enrolled in.
+     */
+    public function subjects()
+    {
+        return $this->belongsToMany(Subject::class)
+            ->withTimestamps();
+    }
+
+    /**
+     * Get the student's quarterly grades.
+     */
+    public function grades()
+    {
+        return $this->hasMany(Grade::class);
+    }
+
+    /**
+     * Get the student's attendance marks.
+     */
+    public function attendances()
+    {
+        return $this->hasMany(Attendance::class);
+    }
+
     /**
      * Scope a query to only include active students.
      *
@@ -107,4 +216,56 @@ public function scopeSearch($query, $search)
               ->orWhere('subject', 'like', "%{$search}%");
         });
     }
+
+    /**
+     * Scope a query to students matching every given column value, e.g.
+     * ['grade_level_id' => 3, 'gender' => 'Female']. Unknown columns and
+     * blank values are ignored.
+     *
+     * @param  \Illuminate\Database\Eloquent\Builder  $query
+     * @param  array<string, string|null>  $filters
+     * @return \Illuminate\Database\Eloquent\Builder
+     */
+    public function scopeFilter($query, array $filters)
+    {
+        foreach ($filters as $column => $value) {
+            if (in_array($column, self::FILTERABLE, true) && $value !== null && $value !== '') {
+                $query->where($column, $value);
+            }
+        }
+
+        return $query;
+    }
+
+    /**
+     * Scope a query to a comma separated sort, e.g. "grade_level,-name" for
+     * grade level ascending, then name descending. Grade level, strand and
+     * section sort by name. Unknown columns are ignored and the id breaks
+     * ties so pages stay stable.
+     *
+     * @param  \Illuminate\Database\Eloquent\Builder  $query
+     * @param  string|null  $sort
+     * @return \Illuminate\Database\Eloquent\Builder
+     */
+    public function scopeSorted($query, $sort)
+    {
+        foreach (array_filter(explode(',', (string) $sort)) as $field) {
+            $direction = str_starts_with($field, '-') ? 'desc' : 'asc';
+            $column = ltrim($field, '-');
+
+            if (!in_array($column, self::SORTABLE, true)) {
+                continue;
+            }
+
+            $table = self::LOOKUP_TABLES[$column . '_id'] ?? null;
+            $query->orderBy(
+                $table
+                    ? DB::table($table)->select('name')->whereColumn($table . '.id', 'students.' . $column . '_id')
+                    : $column,
+                $direction
+            );
+        }
+
+        return $query->orderBy('students.id');
+    }
 }
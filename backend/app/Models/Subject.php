@@ -2,14 +2,17 @@
 
 namespace App\Models;
 
+use App\Models\Concerns\Auditable;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Database\Eloquent\SoftDeletes;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
 use Illuminate\Database\Eloquent\Relations\BelongsToMany;
+use Illuminate\Database\Eloquent\Relations\HasMany;
 
 class Subject extends Model
 {
-    use HasFactory, SoftDeletes;
+    use Auditable, HasFactory, SoftDeletes;
 
     /**
      * The attributes that are mass assignable.
@@ -17,11 +20,12 @@ class Subject extends Model
      * @var array<int, string>
      */
     protected $fillable = [
+        'term_id',
         'name',
         'code',
         'status',
-        'grade_level',
-        'strand',
+        'grade_level_id',
+        'strand_id',
         'description',
     ];
 
@@ -36,6 +40,52 @@ class Subject extends Model
         'deleted_at' => 'datetime',
     ];
 
+    /**
+     * The relationships that should always be loaded.
+     *
+     * @var array
+     */
+    protected $with = ['gradeLevel:id,name', 'strand:id,name'];
+
+    /**
+     * Get the term the subject is offered in.
+     */
+    public function term(): BelongsTo
+    {
+        return $this->belongsTo(Term::class);
+    }
+
+    /**
+     * Get the grade level this subject is taught in.
+     */
+    public function gradeLevel(): BelongsTo
+    {
+        return $this->belongsTo(GradeLevel::class);
+    }
+
+    /**
+     * Get the strand this subject belongs to; none for subjects every strand
+     * takes.
+     */
+    public function strand(): BelongsTo
+    {
+        return $this->belongsTo(Strand::class)->withTrashed();
+    }
+
+    /**
+     * The subject's id, name and code with its grade level and strand names,
+     * for responses that show them as plain text.
+     *
+     * @return array<string, mixed>
+     */
+    public function summary(): array
+    {
+        return array_merge($this->only(['id', 'name', 'code']), [
+            'grade_level' => $this->gradeLevel?->name,
+            'strand' => $this->strand?->name,
+        ]);
+    }
+
     /**
      * Get the students enrolled in this subject.
      */
@@ -45,6 +95,79 @@ public function students(): BelongsToMany
             ->withTimestamps();
     }
 
+    /**
+     * Get the class slots this subject is taught in.
+     */
+    public function schedules(): HasMany
+    {
+        return $this->hasMany(Schedule::class);
+    }
+
+    /**
+     * Get the quarterly grades recorded for this subject.
+     */
+    public function grades(): HasMany
+    {
+        return $this->hasMany(Grade::class);
+    }
+
+    /**
+     * Students taking this subject: those enrolled in it or, while nobody is
+     * enrolled yet, every student in its grade level (and strand, if it has
+     * one). Narrowed to one section when given.
+     */
+    public function roster(?Section $section = null)
+    {
+        if ($this->students()->exists()) {
+            $query = $this->students();
+        } else {
+            $query = Student::query()->where('grade_level_id', $this->grade_level_id);
+            if ($this->strand_id) {
+                $query->where('strand_id', $this->strand_id);
+            }
+        }
+
+        if ($section) {
+            $query->where('students.section_id', $section->id);
+        }
+
+        return $query->orderBy('students.name')->get();
+    }
+
+    /**
+     * How the final grades of the subject's roster spread over the grade
+     * descriptors, plus the students still without a final grade.
+     */
+    public function gradeDistribution(): array
+    {
+        $studentIds = $this->roster()->pluck('id');
+        $grades = $this->grades()->whereIn('student_id', $studentIds)->get()->groupBy('student_id');
+
+        $finals = $studentIds
+            ->map(function ($studentId) use ($grades) {
+                $scores = $grades->get($studentId, collect());
+                $quarters = [];
+                foreach (Grade::QUARTERS as $quarter) {
+                    $quarters[$quarter] = optional($scores->firstWhere('quarter', $quarter))->score;
+                }
+
+                return Grade::computeFinal($quarters);
+            })
+            ->filter(fn ($final) => $final !== null);
+
+        $bands = $finals->countBy(fn ($final) => Grade::descriptor($final));
+
+        return [
+            'bands' => collect(config('gradebook.descriptors'))
+                ->map(fn ($band) => array_merge($band, ['count' => $bands->get($band['label'], 0)]))
+                ->all(),
+            'graded' => $finals->count(),
+            'pending' => $studentIds->count() - $finals->count(),
+            'passed' => $finals->filter(fn ($final) => Grade::isPassing($final))->count(),
+            'average' => $finals->isEmpty() ? null : round($finals->avg(), config('gradebook.precision')),
+        ];
+    }
+
     /**
      * Get the number of students enrolled in this subject.
      */
@@ -69,20 +192,29 @@ public function scopeUnavailable($query)
         return $query->where('status', 'Unavailable');
     }
 
+    /**
+     * Scope a query to the subjects offered in a term. Without a term (none
+     * has been set up yet) nothing is filtered out.
+     */
+    public function scopeInTerm($query, ?Term $term)
+    {
+        return $query->when($term, fn ($query) => $query->where('subjects.term_id', $term->id));
+    }
+
     /**
      * Scope a query to filter by grade level.
      */
-    public function scopeGradeLevel($query, $gradeLevel)
+    public function scopeGradeLevel($query, $gradeLevelId)
     {
-        return $query->where('grade_level', $gradeLevel);
+        return $query->where('grade_level_id', $gradeLevelId);
     }
 
     /**
      * Scope a query to filter by strand.
      */
-    public function scopeStrand($query, $strand)
+    public function scopeStrand($query, $strandId)
     {
-        return $query->where('strand', $strand);
+        return $query->where('strand_id', $strandId);
     }
 
     /**
@@ -2,6 +2,7 @@
 
 namespace App\Models;
 
+use App\Models\Concerns\Auditable;
 use Illuminate\Database\Eloquent\Factories\HasFactory;
 use Illuminate\Database\Eloquent\Model;
 use Illuminate\Support\Facades\Storage;
@@ -9,7 +10,7 @@
 
 class Teacher extends Model
 {
-    use HasFactory;
+    use Auditable, HasFactory;
 
     /**
      * The attributes that are mass assignable.
@@ -58,4 +59,88 @@ public function getImageUrlAttribute()
         }
         return null;
     }
+
+    /**
+     * Get the login account this teacher signs in with.
+     */
+    public function user()
+    {
+        return $this->belongsTo(User::class);
+    }
+
+    /**
+     * Get the class slots this teacher handles.
+     */
+    public function schedules()
+    {
+        return $this->hasMany(Schedule::class);
+    }
+
+    /**
+     * Get the classes this teacher is assigned to.
+     */
+    public function assignments()
+    {
+        return $this->hasMany(TeachingAssignment::class);
+    }
+
+    /**
+     * Whether the teacher handles the subject, optionally in a given section,
+     * by assignment or by schedule.
+     */
+    public function teaches(Subject $subject, ?Section $section = null): bool
+    {
+        foreach ([$this->assignments(), $this->schedules()] as $classes) {
+            $teaches = $classes
+                ->where('subject_id', $subject->id)
+                ->when($section, fn ($query) => $query->where('section_id', $section->id))
+                ->exists();
+            if ($teaches) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Hours of scheduled classes per week of each of the given teachers in a
+     * term, keyed by teacher id. Teachers with no schedule are left out.
+     *
+     * @param  iterable<int>  $teacherIds
+     * @return array<int, float>
+     */
+    public static function weeklyHours(iterable $teacherIds, ?Term $term = null): array
+    {
+        return Schedule::whereIn('teacher_id', $teacherIds)
+            ->inTerm($term)
+            ->get(['teacher_id', 'start_time', 'end_time'])
+            ->groupBy('teacher_id')
+            ->map(fn ($slots) => round($slots->sum(fn (Schedule $slot) => $slot->hours()), 2))
+            ->all();
+    }
+
+    /**
+     * A weekly teaching load measured against the configured maximum.
+     */
+    public static function teachingLoad(float $hours): array
+    {
+        $max = (float) config('teaching.max_weekly_hours');
+
+        return [
+            'weekly_hours' => $hours,
+            'max_weekly_hours' => $max,
+            'overloaded' => $hours > $max,
+        ];
+    }
+
+    /**
+     * Find the teacher record for a Teacher account. An admin links the two
+     * (see TeacherController::linkAccount); a matching email is not enough,
+     * since anyone can register an account with a teacher's email address.
+     */
+    public static function forUser(User $user): ?self
+    {
+        return $user->teacher;
+    }
 } 
\ No newline at end of file
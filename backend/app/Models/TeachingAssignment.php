@@ -0,0 +1,78 @@
+<?php
+
+namespace App\Models;
+
+use App\Models\Concerns\Auditable;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\BelongsTo;
+
+/**
+ * A teacher handling a subject in a section. Schedules say when the class
+ * meets; assignments say who it belongs to, scheduled or not.
+ */
+class TeachingAssignment extends Model
+{
+    use Auditable, HasFactory;
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'teacher_id',
+        'subject_id',
+        'section_id',
+    ];
+
+    /**
+     * Get the teacher handling the class.
+     */
+    public function teacher(): BelongsTo
+    {
+        return $this->belongsTo(Teacher::class);
+    }
+
+    /**
+     * Get the subject taught.
+     */
+    public function subject(): BelongsTo
+    {
+        return $this->belongsTo(Subject::class);
+    }
+
+    /**
+     * Get the section taught, still shown once it has been trashed.
+     */
+    public function section(): BelongsTo
+    {
+        return $this->belongsTo(Section::class)->withTrashed();
+    }
+
+    /**
+     * Scope a query to the assignments of subjects offered in a term.
+     * Without a term nothing is filtered out.
+     */
+    public function scopeInTerm($query, ?Term $term)
+    {
+        return $query->when($term, fn ($query) => $query->whereIn(
+            'teaching_assignments.subject_id',
+            Subject::withTrashed()->inTerm($term)->select('id')
+        ));
+    }
+
+    /**
+     * Name the assignment is audit logged under,
+     * e.g. "Maria Santos - MATH7 (Section A)".
+     */
+    public function getNameAttribute(): string
+    {
+        return sprintf(
+            '%s - %s (%s)',
+            $this->teacher->name ?? 'Teacher #' . $this->teacher_id,
+            $this->subject->code ?? 'Subject #' . $this->subject_id,
+            $this->section->name ?? 'Section #' . $this->section_id
+        );
+    }
+}
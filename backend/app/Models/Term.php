@@ -0,0 +1,156 @@
+<?php
+
+namespace App\Models;
+
+use App\Models\Concerns\Auditable;
+use Illuminate\Database\Eloquent\Factories\HasFactory;
+use Illuminate\Database\Eloquent\Model;
+use Illuminate\Database\Eloquent\Relations\HasMany;
+use Illuminate\Http\Request;
+
+/**
+ * A term of a school year, e.g. the first semester of 2025-2026. Subjects
+ * and sections are offered per term, so their enrollments, grades,
+ * schedules and attendance are too. Once archived, a term is read-only.
+ */
+class Term extends Model
+{
+    use Auditable, HasFactory;
+
+    /**
+     * Header the admin screens send the term they are working in with.
+     */
+    public const HEADER = 'X-Term-Id';
+
+    /**
+     * The attributes that are mass assignable.
+     *
+     * @var array<int, string>
+     */
+    protected $fillable = [
+        'school_year',
+        'name',
+        'starts_on',
+        'ends_on',
+    ];
+
+    /**
+     * The attributes that should be cast.
+     *
+     * @var array<string, string>
+     */
+    protected $casts = [
+        'starts_on' => 'date:Y-m-d',
+        'ends_on' => 'date:Y-m-d',
+        'is_current' => 'boolean',
+        'archived_at' => 'datetime',
+    ];
+
+    /**
+     * The accessors to append to the model's array form.
+     *
+     * @var array<int, string>
+     */
+    protected $appends = ['label', 'is_archived'];
+
+    /**
+     * Get the subjects offered in the term.
+     */
+    public function subjects(): HasMany
+    {
+        return $this->hasMany(Subject::class);
+    }
+
+    /**
+     * Get the sections of the term.
+     */
+    public function sections(): HasMany
+    {
+        return $this->hasMany(Section::class);
+    }
+
+    /**
+     * The term the school is in now.
+     */
+    public static function current(): ?self
+    {
+        return static::where('is_current', true)->first();
+    }
+
+    /**
+     * The term a request works in: the one its `X-Term-Id` header (or
+     * `term_id` parameter) names, or else the current term.
+     */
+    public static function fromRequest(Request $request): ?self
+    {
+        $termId = $request->header(self::HEADER) ?: $request->input('term_id');
+
+        return ($termId ? static::find($termId) : null) ?? static::current();
+    }
+
+    /**
+     * The archived term any of the given subjects is offered in, if any.
+     *
+     * @param  array<int, int|null>  $subjectIds
+     */
+    public static function archivedFor(array $subjectIds): ?self
+    {
+        return static::whereNotNull('archived_at')
+            ->whereIn('id', Subject::withTrashed()->whereIn('id', array_filter($subjectIds))->select('term_id'))
+            ->first();
+    }
+
+    /**
+     * Whether the term's records can no longer be changed.
+     */
+    public function isArchived(): bool
+    {
+        return $this->archived_at !== null;
+    }
+
+    /**
+     * Make this the current term, in place of any other.
+     */
+    public function makeCurrent(): void
+    {
+        static::where('is_current', true)->whereKeyNot($this->getKey())->update(['is_current' => false]);
+        $this->forceFill(['is_current' => true])->save();
+    }
+
+    /**
+     * e.g. "2025-2026 First Semester".
+     */
+    public function getLabelAttribute(): string
+    {
+        return "{$this->school_year} {$this->name}";
+    }
+
+    public function getIsArchivedAttribute(): bool
+    {
+        return $this->isArchived();
+    }
+
+    /**
+     * Name the term is audit logged under.
+     */
+    public function auditName(): string
+    {
+        return $this->label;
+    }
+
+    /**
+     * Scope a query to the terms that have not been archived.
+     */
+    public function scopeOpen($query)
+    {
+        return $query->whereNull('archived_at');
+    }
+
+    /**
+     * Scope a query to the newest school year first, then by start date.
+     */
+    public function scopeLatestFirst($query)
+    {
+        return $query->orderByDesc('school_year')->orderByDesc('starts_on')->orderByDesc('id');
+    }
+}
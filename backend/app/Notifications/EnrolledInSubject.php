@@ -0,0 +1,45 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\Subject;
+use Illuminate\Bus\Queueable;
+use Illuminate\Notifications\Notification;
+
+class EnrolledInSubject extends Notification
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     */
+    public function __construct(
+        protected Subject $subject,
+    ) {
+    }
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['database'];
+    }
+
+    /**
+     * Get the array representation of the notification.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        return [
+            'category' => 'enrollment',
+            'title' => 'Enrolled in a subject',
+            'message' => "You have been enrolled in {$this->subject->name} ({$this->subject->code}).",
+            'subject_id' => $this->subject->id,
+        ];
+    }
+}
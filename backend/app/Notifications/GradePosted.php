@@ -0,0 +1,47 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\Subject;
+use Illuminate\Bus\Queueable;
+use Illuminate\Notifications\Notification;
+
+class GradePosted extends Notification
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     */
+    public function __construct(
+        protected Subject $subject,
+        protected int $quarter,
+    ) {
+    }
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['database'];
+    }
+
+    /**
+     * Get the array representation of the notification.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        return [
+            'category' => 'grade',
+            'title' => 'New grade posted',
+            'message' => "Your quarter {$this->quarter} grade in {$this->subject->name} has been posted.",
+            'subject_id' => $this->subject->id,
+            'quarter' => $this->quarter,
+        ];
+    }
+}
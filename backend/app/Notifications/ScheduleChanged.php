@@ -0,0 +1,59 @@
+<?php
+
+namespace App\Notifications;
+
+use App\Models\Schedule;
+use Illuminate\Bus\Queueable;
+use Illuminate\Notifications\Notification;
+
+class ScheduleChanged extends Notification
+{
+    use Queueable;
+
+    /**
+     * Create a new notification instance.
+     *
+     * @param  string  $change  created, updated or deleted
+     */
+    public function __construct(
+        protected Schedule $schedule,
+        protected string $change,
+    ) {
+    }
+
+    /**
+     * Get the notification's delivery channels.
+     *
+     * @return array<int, string>
+     */
+    public function via(object $notifiable): array
+    {
+        return ['database'];
+    }
+
+    /**
+     * Get the array representation of the notification.
+     *
+     * @return array<string, mixed>
+     */
+    public function toArray(object $notifiable): array
+    {
+        $subject = $this->schedule->subject?->name ?? 'A class';
+        $slot = "{$this->schedule->day}, {$this->schedule->start_time}–{$this->schedule->end_time}"
+            . ($this->schedule->room ? " in room {$this->schedule->room}" : '');
+
+        $message = match ($this->change) {
+            'created' => "{$subject} was added to your schedule: {$slot}.",
+            'deleted' => "{$subject} on {$slot} was removed from your schedule.",
+            default => "{$subject} was rescheduled to {$slot}.",
+        };
+
+        return [
+            'category' => 'schedule',
+            'title' => 'Schedule changed',
+            'message' => $message,
+            'schedule_id' => $this->schedule->id,
+            'subject_id' => $this->schedule->subject_id,
+        ];
+    }
+}
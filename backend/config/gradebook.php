@@ -0,0 +1,71 @@
+<?php
+
+return [
+
+    /*
+    |--------------------------------------------------------------------------
+    | Final Grade Method
+    |--------------------------------------------------------------------------
+    |
+    | How a subject's final grade is computed from its quarterly grades.
+    | "average" takes the plain mean of the four quarters; "weighted" applies
+    | the quarter weights below (they are normalized, so they need not add up
+    | to exactly 1).
+    |
+    */
+
+    'final_method' => env('GRADEBOOK_FINAL_METHOD', 'average'),
+
+    'quarter_weights' => [
+        1 => (float) env('GRADEBOOK_Q1_WEIGHT', 0.25),
+        2 => (float) env('GRADEBOOK_Q2_WEIGHT', 0.25),
+        3 => (float) env('GRADEBOOK_Q3_WEIGHT', 0.25),
+        4 => (float) env('GRADEBOOK_Q4_WEIGHT', 0.25),
+    ],
+
+    /*
+    |--------------------------------------------------------------------------
+    | Incomplete Quarters
+    |--------------------------------------------------------------------------
+    |
+    | When true, no final grade is reported until all four quarters have been
+    | recorded. When false, the final is computed from the quarters recorded
+    | so far.
+    |
+    */
+
+    'require_all_quarters' => env('GRADEBOOK_REQUIRE_ALL_QUARTERS', true),
+
+    /*
+    |--------------------------------------------------------------------------
+    | Rounding And Passing Grade
+    |--------------------------------------------------------------------------
+    |
+    | Number of decimal places final grades are rounded to, and the lowest
+    | final grade that counts as passed.
+    |
+    */
+
+    'precision' => (int) env('GRADEBOOK_PRECISION', 0),
+
+    'passing_grade' => (float) env('GRADEBOOK_PASSING_GRADE', 75),
+
+    /*
+    |--------------------------------------------------------------------------
+    | Grade Descriptors
+    |--------------------------------------------------------------------------
+    |
+    | Bands final grades are grouped into for grade distributions, highest
+    | first. A final grade falls in the first band whose minimum it reaches.
+    |
+    */
+
+    'descriptors' => [
+        ['label' => 'Outstanding', 'min' => 90],
+        ['label' => 'Very Satisfactory', 'min' => 85],
+        ['label' => 'Satisfactory', 'min' => 80],
+        ['label' => 'Fairly Satisfactory', 'min' => 75],
+        ['label' => 'Did Not Meet Expectations', 'min' => 0],
+    ],
+
+];
@@ -46,7 +46,7 @@
     |
     */
 
-    'expiration' => null,
+    'expiration' => env('SANCTUM_EXPIRATION'),
 
     /*
     |--------------------------------------------------------------------------
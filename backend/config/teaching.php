@@ -0,0 +1,18 @@
+<?php
+
+return [
+
+    /*
+    |--------------------------------------------------------------------------
+    | Maximum Weekly Teaching Load
+    |--------------------------------------------------------------------------
+    |
+    | Hours of scheduled classes a teacher may handle in a week. Teachers
+    | above it are flagged as overloaded on the teacher screens; schedules
+    | are still saved.
+    |
+    */
+
+    'max_weekly_hours' => (float) env('TEACHING_MAX_WEEKLY_HOURS', 30),
+
+];
@@ -0,0 +1,57 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('students', function (Blueprint $table) {
+            // The login account a student signs in with
+            $table->foreignId('user_id')->nullable()->after('id')->constrained()->nullOnDelete();
+
+            // Columns the Student model already fills but the original table lacked
+            if (!Schema::hasColumn('students', 'guardian_name')) {
+                $table->string('guardian_name')->nullable();
+            }
+            if (!Schema::hasColumn('students', 'guardian_phone')) {
+                $table->string('guardian_phone')->nullable();
+            }
+            if (!Schema::hasColumn('students', 'guardian_relationship')) {
+                $table->string('guardian_relationship')->nullable();
+            }
+            if (!Schema::hasColumn('students', 'notes')) {
+                $table->text('notes')->nullable();
+            }
+            if (!Schema::hasColumn('students', 'is_active')) {
+                $table->boolean('is_active')->default(true);
+            }
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('students', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('user_id');
+        });
+
+        // The create_students_table migration has none of these, so they
+        // were all added above
+        $columns = ['guardian_name', 'guardian_phone', 'guardian_relationship', 'notes', 'is_active'];
+        $added = array_values(array_filter($columns, fn ($column) => Schema::hasColumn('students', $column)));
+
+        if ($added !== []) {
+            Schema::table('students', function (Blueprint $table) use ($added) {
+                $table->dropColumn($added);
+            });
+        }
+    }
+};
@@ -0,0 +1,38 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('schedules', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('subject_id')->constrained()->cascadeOnDelete();
+            // `sections` is created by the TypeScript API server (frontend/server/schema.sql),
+            // so it may not exist yet when this runs and can't carry a foreign key
+            $table->unsignedBigInteger('section_id')->index();
+            $table->foreignId('teacher_id')->nullable()->constrained()->nullOnDelete();
+            $table->string('room')->nullable();
+            $table->unsignedTinyInteger('day_of_week'); // 1 = Monday ... 7 = Sunday
+            $table->time('start_time');
+            $table->time('end_time');
+            $table->timestamps();
+
+            $table->index(['day_of_week', 'start_time']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('schedules');
+    }
+};
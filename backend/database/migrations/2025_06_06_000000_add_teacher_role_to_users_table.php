@@ -0,0 +1,37 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::table('users', function (Blueprint $table) {
+            $table->enum('role', ['Admin', 'Student', 'Teacher'])->default('Student')->change();
+        });
+
+        Schema::table('teachers', function (Blueprint $table) {
+            // The login account a teacher signs in with
+            $table->foreignId('user_id')->nullable()->after('id')->constrained()->nullOnDelete();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('teachers', function (Blueprint $table) {
+            $table->dropConstrainedForeignId('user_id');
+        });
+
+        Schema::table('users', function (Blueprint $table) {
+            $table->enum('role', ['Admin', 'Student'])->default('Student')->change();
+        });
+    }
+};
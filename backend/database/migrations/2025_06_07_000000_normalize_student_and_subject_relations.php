@@ -0,0 +1,137 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * The name columns replaced on each table, mapped to the table they now
+     * reference by id.
+     *
+     * @var array<string, array<string, string>>
+     */
+    protected array $relations = [
+        'students' => [
+            'grade_level' => 'grade_levels',
+            'strand' => 'strands',
+            'section' => 'sections',
+        ],
+        'subjects' => [
+            'grade_level' => 'grade_levels',
+            'strand' => 'strands',
+        ],
+    ];
+
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        foreach ($this->relations as $table => $columns) {
+            Schema::table($table, function (Blueprint $blueprint) use ($columns) {
+                // The referenced tables are created by the TypeScript API server
+                // (frontend/server/schema.sql), so they can't carry foreign keys
+                foreach (array_keys($columns) as $column) {
+                    $blueprint->unsignedBigInteger($column . '_id')->nullable()->index()->after($column);
+                }
+            });
+
+            foreach ($columns as $column => $related) {
+                $this->linkByName($table, $column, $related);
+            }
+
+            Schema::table($table, function (Blueprint $blueprint) use ($columns) {
+                $blueprint->dropColumn(array_keys($columns));
+            });
+        }
+    }
+
+    /**
+     * Point each row at the record named by its text column, creating the
+     * records that don't exist yet so no value is lost. Subjects marked
+     * "No Strand" are left without one.
+     */
+    protected function linkByName(string $table, string $column, string $related): void
+    {
+        $names = DB::table($table)
+            ->whereNotNull($column)
+            ->where($column, '!=', 'No Strand')
+            ->distinct()
+            ->pluck($column);
+
+        if ($names->isEmpty()) {
+            return;
+        }
+
+        if (!Schema::hasTable($related)) {
+            $this->createRelatedTable($related);
+        }
+
+        foreach ($names as $name) {
+            $query = DB::table($related)->where('name', $name)->orderBy('id');
+            if (Schema::hasColumn($related, 'deleted_at')) {
+                $query->orderByRaw('deleted_at is not null');
+            }
+
+            $id = $query->value('id') ?? DB::table($related)->insertGetId(['name' => $name]);
+
+            DB::table($table)->where($column, $name)->update([$column . '_id' => $id]);
+        }
+    }
+
+    /**
+     * Create a table the TypeScript API server normally owns, shaped like its
+     * CREATE TABLE in frontend/server/schema.sql. The migrations run before
+     * schema.sql, which then leaves the table alone and adds the rest.
+     */
+    protected function createRelatedTable(string $related): void
+    {
+        Schema::create($related, function (Blueprint $blueprint) use ($related) {
+            $blueprint->id();
+            $name = $blueprint->string('name');
+            if ($related !== 'sections') {
+                $name->unique();
+            }
+            $blueprint->text('description')->default('');
+            if ($related !== 'strands') {
+                $blueprint->boolean('is_active')->default(true);
+            }
+            $blueprint->timestamp('created_at')->useCurrent();
+            $blueprint->timestamp('updated_at')->useCurrent();
+            if ($related !== 'grade_levels') {
+                $blueprint->timestamp('deleted_at')->nullable();
+            }
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        foreach ($this->relations as $table => $columns) {
+            Schema::table($table, function (Blueprint $blueprint) use ($columns) {
+                foreach (array_keys($columns) as $column) {
+                    $blueprint->string($column)->nullable()->after($column . '_id');
+                }
+            });
+
+            foreach ($columns as $column => $related) {
+                if (Schema::hasTable($related)) {
+                    DB::table($table)->update([
+                        $column => DB::table($related)
+                            ->select('name')
+                            ->whereColumn($related . '.id', $table . '.' . $column . '_id'),
+                    ]);
+                }
+            }
+
+            Schema::table($table, function (Blueprint $blueprint) use ($columns) {
+                $blueprint->dropColumn(array_map(fn ($column) => $column . '_id', array_keys($columns)));
+            });
+        }
+    }
+};
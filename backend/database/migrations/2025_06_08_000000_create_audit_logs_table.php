@@ -0,0 +1,40 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        // Written by both this API and the TypeScript API server (for sections,
+        // strands, grade levels and users), so actor and entity names are kept
+        // as they were at the time rather than joined in later
+        Schema::create('audit_logs', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('user_id')->nullable()->constrained()->nullOnDelete();
+            $table->string('actor_name')->nullable();
+            $table->string('action', 32); // created, updated, deleted, restored, purged, enrolled, unenrolled
+            $table->string('entity_type', 32); // student, teacher, subject, strand, grade_level, section, user
+            $table->unsignedBigInteger('entity_id')->nullable();
+            $table->string('entity_name')->nullable();
+            $table->json('changes')->nullable();
+            $table->timestamp('created_at')->useCurrent();
+
+            $table->index(['entity_type', 'entity_id']);
+            $table->index('created_at');
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('audit_logs');
+    }
+};
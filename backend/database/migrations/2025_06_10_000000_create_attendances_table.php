@@ -0,0 +1,40 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('attendances', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('student_id')->constrained()->cascadeOnDelete();
+            $table->foreignId('subject_id')->constrained()->cascadeOnDelete();
+            // `sections` is created by the TypeScript API server (frontend/server/schema.sql),
+            // so it may not exist yet when this runs and can't carry a foreign key
+            $table->unsignedBigInteger('section_id');
+            $table->date('date');
+            $table->string('status', 16); // present, absent, late or excused
+            $table->string('remarks')->nullable();
+            $table->foreignId('recorded_by')->nullable()->constrained('users')->nullOnDelete();
+            $table->timestamps();
+
+            // One mark per student, subject and day
+            $table->unique(['student_id', 'subject_id', 'date']);
+            $table->index(['section_id', 'subject_id', 'date']);
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('attendances');
+    }
+};
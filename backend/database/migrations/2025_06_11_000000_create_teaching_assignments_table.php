@@ -0,0 +1,61 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('teaching_assignments', function (Blueprint $table) {
+            $table->id();
+            $table->foreignId('teacher_id')->constrained()->cascadeOnDelete();
+            $table->foreignId('subject_id')->constrained()->cascadeOnDelete();
+            // `sections` is created by the TypeScript API server (frontend/server/schema.sql),
+            // so it may not exist yet when this runs and can't carry a foreign key
+            $table->unsignedBigInteger('section_id')->index();
+            $table->timestamps();
+
+            $table->unique(['teacher_id', 'subject_id', 'section_id']);
+        });
+
+        // Teachers already scheduled for a class are assigned to it
+        $now = now();
+        DB::table('schedules')
+            ->whereNotNull('teacher_id')
+            ->select('teacher_id', 'subject_id', 'section_id')
+            ->distinct()
+            ->get()
+            ->each(fn ($slot) => DB::table('teaching_assignments')->insert([
+                'teacher_id' => $slot->teacher_id,
+                'subject_id' => $slot->subject_id,
+                'section_id' => $slot->section_id,
+                'created_at' => $now,
+                'updated_at' => $now,
+            ]));
+
+        // Subjects taught now come from the assignments; the old free-text
+        // subject stays as an optional specialization
+        Schema::table('teachers', function (Blueprint $table) {
+            $table->string('subject')->nullable()->change();
+        });
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::dropIfExists('teaching_assignments');
+
+        DB::table('teachers')->whereNull('subject')->update(['subject' => 'Not Assigned']);
+        Schema::table('teachers', function (Blueprint $table) {
+            $table->string('subject')->nullable(false)->change();
+        });
+    }
+};
@@ -0,0 +1,81 @@
+<?php
+
+use Illuminate\Database\Migrations\Migration;
+use Illuminate\Database\Schema\Blueprint;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Support\Facades\Schema;
+
+return new class extends Migration
+{
+    /**
+     * Run the migrations.
+     */
+    public function up(): void
+    {
+        Schema::create('terms', function (Blueprint $table) {
+            $table->id();
+            // e.g. "2025-2026"
+            $table->string('school_year', 20);
+            // e.g. "First Semester"
+            $table->string('name');
+            $table->date('starts_on')->nullable();
+            $table->date('ends_on')->nullable();
+            // The term the school is in: new records and the teacher and
+            // student screens default to it. Only one term is current.
+            $table->boolean('is_current')->default(false);
+            // Archived terms are kept read-only
+            $table->timestamp('archived_at')->nullable();
+            $table->timestamps();
+
+            $table->unique(['school_year', 'name']);
+        });
+
+        // Everything recorded so far belongs to the term the school is in now
+        $year = now()->month >= 6 ? now()->year : now()->year - 1;
+        $termId = DB::table('terms')->insertGetId([
+            'school_year' => $year . '-' . ($year + 1),
+            'name' => 'First Semester',
+            'is_current' => true,
+            'created_at' => now(),
+            'updated_at' => now(),
+        ]);
+
+        // Subject codes only need to be unique within a term, so each term
+        // can offer the same subjects
+        Schema::table('subjects', function (Blueprint $table) {
+            $table->foreignId('term_id')->nullable()->after('id')->constrained();
+            $table->dropUnique(['code']);
+        });
+
+        DB::table('subjects')->update(['term_id' => $termId]);
+
+        Schema::table('subjects', function (Blueprint $table) {
+            $table->unique(['term_id', 'code']);
+        });
+
+        // `sections.term_id` is added by the TypeScript API server
+        // (frontend/server/schema.sql); when it already exists, its sections
+        // are moved into the term here, otherwise schema.sql does it
+        if (Schema::hasColumn('sections', 'term_id')) {
+            DB::table('sections')->whereNull('term_id')->update(['term_id' => $termId]);
+        }
+    }
+
+    /**
+     * Reverse the migrations.
+     */
+    public function down(): void
+    {
+        Schema::table('subjects', function (Blueprint $table) {
+            $table->dropUnique(['term_id', 'code']);
+            $table->dropConstrainedForeignId('term_id');
+            $table->unique('code');
+        });
+
+        if (Schema::hasColumn('sections', 'term_id')) {
+            DB::table('sections')->update(['term_id' => null]);
+        }
+
+        Schema::dropIfExists('terms');
+    }
+};
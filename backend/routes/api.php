@@ -1,8 +1,18 @@
 <?php
 
+use App\Http\Controllers\AttendanceController;
+use App\Http\Controllers\AuditLogController;
 use App\Http\Controllers\AuthController;
+use App\Http\Controllers\DashboardController;
+use App\Http\Controllers\GradeController;
+use App\Http\Controllers\NotificationController;
+use App\Http\Controllers\ScheduleController;
 use App\Http\Controllers\TeacherController;
+use App\Http\Controllers\TeacherPortalController;
+use App\Http\Controllers\TeachingAssignmentController;
+use App\Http\Controllers\TermController;
 use App\Http\Controllers\StudentController;
+use App\Http\Controllers\StudentPlacementController;
 use App\Http\Controllers\SubjectController;
 use Illuminate\Http\Request;
 use Illuminate\Support\Facades\Route;
@@ -39,13 +49,24 @@
 Route::middleware('auth:sanctum')->group(function () {
     // Auth routes
     Route::post('/auth/logout', [AuthController::class, 'logout']);
+    Route::post('/auth/refresh', [AuthController::class, 'refresh']);
     Route::get('/auth/me', [AuthController::class, 'me']);
 
+    // The signed-in user's own notifications (any role)
+    Route::get('/notifications', [NotificationController::class, 'index']);
+    Route::get('/notifications/unread-count', [NotificationController::class, 'unreadCount']);
+    Route::post('/notifications/read-all', [NotificationController::class, 'markAllAsRead']);
+    Route::post('/notifications/{id}/read', [NotificationController::class, 'markAsRead']);
+
     // Admin only routes
     Route::middleware('role:Admin')->group(function () {
-        Route::get('/admin/dashboard', function () {
-            return response()->json(['message' => 'Admin dashboard data']);
-        });
+        Route::get('/admin/dashboard', [DashboardController::class, 'index']);
+        Route::get('/audit-logs', [AuditLogController::class, 'index']);
+
+        // School year terms: which one is current, and archiving past ones
+        Route::apiResource('terms', TermController::class)->except(['show']);
+        Route::post('/terms/{term}/current', [TermController::class, 'makeCurrent']);
+        Route::post('/terms/{term}/archive', [TermController::class, 'archive']);
 
         // Subject routes (Admin only)
         Route::prefix('subjects')->group(function () {
@@ -59,6 +80,48 @@
             Route::post('/{subject}/enroll', [SubjectController::class, 'enrollStudents']);
             Route::post('/{subject}/unenroll', [SubjectController::class, 'unenrollStudents']);
         });
+
+        // Class schedule routes (Admin only)
+        Route::apiResource('schedules', ScheduleController::class);
+
+        // Which teacher handles which subject in which section
+        Route::apiResource('teaching-assignments', TeachingAssignmentController::class)
+            ->only(['index', 'store', 'destroy'])
+            ->parameters(['teaching-assignments' => 'assignment']);
+
+        // Attendance rates of every student in a section
+        Route::get('/attendance/summary', [AttendanceController::class, 'summary']);
+
+        // Report cards of a whole section, for batch printing
+        Route::get('/report-cards', [GradeController::class, 'section']);
+
+        // Bulk student import from CSV
+        Route::post('/students/import', [StudentController::class, 'import']);
+
+        // Spreading unsectioned students across sections
+        Route::post('/students/placement', [StudentPlacementController::class, 'place']);
+
+        // Link a student or teacher record to the account that signs in for it
+        Route::put('/students/{student}/account', [StudentController::class, 'linkAccount']);
+        Route::put('/teachers/{teacher}/account', [TeacherController::class, 'linkAccount']);
+    });
+
+    // Grade entry (Admins and Teachers)
+    Route::middleware('role:Admin,Teacher')->group(function () {
+        Route::get('/subjects/{subject}/grades', [GradeController::class, 'index']);
+        Route::post('/subjects/{subject}/grades', [GradeController::class, 'store']);
+    });
+
+    // Attendance taking (Admins and Teachers)
+    Route::middleware('role:Admin,Teacher')->group(function () {
+        Route::get('/attendance', [AttendanceController::class, 'index']);
+        Route::post('/attendance', [AttendanceController::class, 'store']);
+    });
+
+    // Teacher only routes
+    Route::middleware('role:Teacher')->prefix('teacher')->group(function () {
+        Route::get('/classes', [TeacherPortalController::class, 'classes']);
+        Route::get('/classes/{subject}/{section}/students', [TeacherPortalController::class, 'roster']);
     });
 
     // Student only routes
@@ -75,5 +138,8 @@
     Route::delete('/teachers/{teacher}', [TeacherController::class, 'destroy']);
 
     // Student routes
+    Route::get('/students/{student}/grades', [GradeController::class, 'student']);
+    Route::get('/students/{student}/attendance', [AttendanceController::class, 'student']);
+    Route::get('/students/{student}/schedule', [ScheduleController::class, 'student']);
     Route::apiResource('students', StudentController::class);
 }); 
\ No newline at end of file
@@ -0,0 +1,138 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Term;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\DB;
+use Illuminate\Testing\TestResponse;
+use Laravel\Sanctum\Sanctum;
+use Tests\TestCase;
+
+class ArchivedTermTest extends TestCase
+{
+    use RefreshDatabase;
+
+    protected Term $archived;
+
+    protected Subject $subject;
+
+    protected Section $section;
+
+    protected int $gradeLevelId;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->createServerTables();
+
+        $this->archived = Term::create(['school_year' => '2020-2021', 'name' => 'First Semester']);
+        $this->archived->forceFill(['archived_at' => now()])->save();
+
+        $this->gradeLevelId = DB::table('grade_levels')->insertGetId(['name' => 'Grade 11']);
+        $this->subject = $this->createSubject($this->archived, 'MATH11');
+        $this->section = Section::forceCreate(['name' => 'Rizal', 'term_id' => $this->archived->id]);
+
+        Sanctum::actingAs(User::factory()->create(['role' => 'Admin']));
+    }
+
+    protected function createSubject(Term $term, string $code): Subject
+    {
+        return Subject::create([
+            'term_id' => $term->id,
+            'name' => 'General Mathematics',
+            'code' => $code,
+            'status' => 'Available',
+            'grade_level_id' => $this->gradeLevelId,
+        ]);
+    }
+
+    protected function subjectInput(array $overrides = []): array
+    {
+        return array_merge([
+            'name' => 'Statistics',
+            'code' => 'STAT11',
+            'status' => 'Available',
+            'grade_level_id' => $this->gradeLevelId,
+        ], $overrides);
+    }
+
+    protected function assertArchived(TestResponse $response): void
+    {
+        $response->assertStatus(422)
+            ->assertJson(['success' => false, 'message' => "{$this->archived->label} is archived and can no longer be changed."]);
+    }
+
+    public function test_subjects_of_an_archived_term_cannot_be_changed(): void
+    {
+        $this->assertArchived($this->putJson("/api/subjects/{$this->subject->id}", $this->subjectInput()));
+        $this->assertArchived($this->deleteJson("/api/subjects/{$this->subject->id}"));
+
+        $this->assertDatabaseHas('subjects', ['id' => $this->subject->id, 'code' => 'MATH11', 'deleted_at' => null]);
+    }
+
+    public function test_subjects_cannot_be_added_to_an_archived_term(): void
+    {
+        $this->withHeader(Term::HEADER, (string) $this->archived->id)
+            ->postJson('/api/subjects', $this->subjectInput())
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['term_id' => 'Subjects cannot be added to an archived term.']);
+
+        $this->assertDatabaseMissing('subjects', ['code' => 'STAT11']);
+    }
+
+    public function test_grades_cannot_be_recorded_in_an_archived_term(): void
+    {
+        $student = Student::create([
+            'name' => 'Juan Dela Cruz',
+            'gender' => 'Male',
+            'subject' => 'General Mathematics',
+            'grade_level_id' => $this->gradeLevelId,
+            'section_id' => $this->section->id,
+        ]);
+
+        $this->assertArchived($this->postJson("/api/subjects/{$this->subject->id}/grades", [
+            'quarter' => 1,
+            'grades' => [['student_id' => $student->id, 'score' => 90]],
+        ]));
+
+        $this->assertDatabaseCount('grades', 0);
+    }
+
+    public function test_schedules_cannot_be_added_in_an_archived_term(): void
+    {
+        $this->assertArchived($this->postJson('/api/schedules', [
+            'subject_id' => $this->subject->id,
+            'section_id' => $this->section->id,
+            'day_of_week' => 1,
+            'start_time' => '08:00',
+            'end_time' => '09:00',
+        ]));
+
+        $this->assertDatabaseCount('schedules', 0);
+    }
+
+    public function test_an_archived_term_cannot_be_changed_or_archived_again(): void
+    {
+        $this->assertArchived($this->putJson("/api/terms/{$this->archived->id}", [
+            'school_year' => '2020-2021',
+            'name' => 'Second Semester',
+        ]));
+        $this->assertArchived($this->postJson("/api/terms/{$this->archived->id}/archive"));
+
+        $this->assertSame('First Semester', $this->archived->fresh()->name);
+    }
+
+    public function test_the_current_term_still_accepts_changes(): void
+    {
+        $subject = $this->createSubject(Term::current(), 'MATH11');
+
+        $this->putJson("/api/subjects/{$subject->id}", $this->subjectInput())
+            ->assertOk()
+            ->assertJsonPath('subject.code', 'STAT11');
+    }
+}
@@ -0,0 +1,98 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Schedule;
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Term;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\DB;
+use Laravel\Sanctum\Sanctum;
+use Tests\TestCase;
+
+class ScheduleTermTest extends TestCase
+{
+    use RefreshDatabase;
+
+    protected Term $current;
+
+    protected Term $next;
+
+    protected int $gradeLevelId;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->createServerTables();
+
+        $this->current = Term::current();
+        $this->next = Term::create(['school_year' => '2099-2100', 'name' => 'First Semester']);
+        $this->gradeLevelId = DB::table('grade_levels')->insertGetId(['name' => 'Grade 11']);
+
+        Sanctum::actingAs(User::factory()->create(['role' => 'Admin']));
+    }
+
+    protected function createSubject(Term $term, string $code): Subject
+    {
+        return Subject::create([
+            'term_id' => $term->id,
+            'name' => 'General Mathematics',
+            'code' => $code,
+            'status' => 'Available',
+            'grade_level_id' => $this->gradeLevelId,
+        ]);
+    }
+
+    protected function slot(Subject $subject, Section $section, array $overrides = []): array
+    {
+        return array_merge([
+            'subject_id' => $subject->id,
+            'section_id' => $section->id,
+            'day_of_week' => 1,
+            'start_time' => '08:00',
+            'end_time' => '09:00',
+        ], $overrides);
+    }
+
+    public function test_a_slot_pairs_a_subject_and_section_of_the_same_term(): void
+    {
+        $subject = $this->createSubject($this->current, 'MATH11');
+        $ownTerm = Section::forceCreate(['name' => 'Rizal', 'term_id' => $this->current->id]);
+        $otherTerm = Section::forceCreate(['name' => 'Bonifacio', 'term_id' => $this->next->id]);
+
+        $this->postJson('/api/schedules', $this->slot($subject, $otherTerm))
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['section_id' => 'The section is not in the same term as the subject.']);
+        $this->assertDatabaseCount('schedules', 0);
+
+        $this->postJson('/api/schedules', $this->slot($subject, $ownTerm))->assertCreated();
+        $this->assertDatabaseHas('schedules', ['subject_id' => $subject->id, 'section_id' => $ownTerm->id]);
+    }
+
+    public function test_a_students_timetable_only_shows_the_requested_term(): void
+    {
+        $section = Section::forceCreate(['name' => 'Rizal', 'term_id' => $this->current->id]);
+        $student = Student::create([
+            'name' => 'Juan Dela Cruz',
+            'gender' => 'Male',
+            'subject' => 'General Mathematics',
+            'section_id' => $section->id,
+        ]);
+        $now = Schedule::create($this->slot($this->createSubject($this->current, 'MATH11'), $section));
+        $later = Schedule::create($this->slot($this->createSubject($this->next, 'MATH12'), $section));
+
+        $this->getJson("/api/students/{$student->id}/schedule")
+            ->assertOk()
+            ->assertJsonCount(1, 'schedules')
+            ->assertJsonPath('schedules.0.id', $now->id);
+
+        $this->withHeader(Term::HEADER, (string) $this->next->id)
+            ->getJson("/api/students/{$student->id}/schedule")
+            ->assertOk()
+            ->assertJsonCount(1, 'schedules')
+            ->assertJsonPath('schedules.0.id', $later->id);
+    }
+}
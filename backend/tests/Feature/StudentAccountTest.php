@@ -0,0 +1,119 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Student;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Laravel\Sanctum\Sanctum;
+use Tests\TestCase;
+
+class StudentAccountTest extends TestCase
+{
+    use RefreshDatabase;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->createServerTables();
+    }
+
+    protected function actingAsRole(string $role): User
+    {
+        $user = User::factory()->create(['role' => $role]);
+        Sanctum::actingAs($user);
+
+        return $user;
+    }
+
+    protected function createStudent(?User $account = null, ?string $email = null): Student
+    {
+        $student = Student::create([
+            'name' => 'Juan Dela Cruz',
+            'gender' => 'Male',
+            'subject' => 'General Mathematics',
+            'email' => $email,
+        ]);
+
+        return tap($student->forceFill(['user_id' => $account?->id]))->save();
+    }
+
+    public function test_registering_with_a_students_email_does_not_link_the_account(): void
+    {
+        $student = $this->createStudent(email: 'juan@example.com');
+
+        $this->postJson('/api/auth/register', [
+            'name' => 'Juan Dela Cruz',
+            'email' => 'juan@example.com',
+            'password' => 'secret123',
+            'role' => 'Student',
+        ])->assertCreated();
+
+        Sanctum::actingAs(User::where('email', 'juan@example.com')->firstOrFail());
+        $this->getJson('/api/auth/me')->assertOk()->assertJsonPath('user.student_id', null);
+        $this->getJson("/api/students/{$student->id}/grades")->assertForbidden();
+
+        $this->assertNull($student->fresh()->user_id);
+    }
+
+    public function test_only_admins_link_accounts(): void
+    {
+        $student = $this->createStudent();
+        $account = User::factory()->create(['role' => 'Student']);
+
+        $this->actingAsRole('Teacher');
+        $this->putJson("/api/students/{$student->id}/account", ['user_id' => $account->id])->assertForbidden();
+
+        $this->actingAsRole('Student');
+        $this->putJson("/api/students/{$student->id}/account", ['user_id' => $account->id])->assertForbidden();
+        $this->assertNull($student->fresh()->user_id);
+
+        $this->actingAsRole('Admin');
+        $this->putJson("/api/students/{$student->id}/account", ['user_id' => $account->id])
+            ->assertOk()
+            ->assertJsonPath('student.user.email', $account->email);
+        $this->assertSame($account->id, $student->fresh()->user_id);
+
+        $this->putJson("/api/students/{$student->id}/account", ['user_id' => null])->assertOk();
+        $this->assertNull($student->fresh()->user_id);
+    }
+
+    public function test_accounts_must_be_free_student_accounts(): void
+    {
+        $linked = $this->actingAsRole('Student');
+        $this->createStudent($linked);
+        $student = $this->createStudent();
+        $teacher = User::factory()->create(['role' => 'Teacher']);
+
+        $this->actingAsRole('Admin');
+        $this->putJson("/api/students/{$student->id}/account", ['user_id' => $teacher->id])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['user_id' => 'The selected account does not exist or is not a Student account.']);
+        $this->putJson("/api/students/{$student->id}/account", ['user_id' => $linked->id])
+            ->assertStatus(422)
+            ->assertJsonValidationErrors(['user_id' => 'The selected account is already linked to another record.']);
+    }
+
+    public function test_students_only_see_their_own_records(): void
+    {
+        $user = $this->actingAsRole('Student');
+        $own = $this->createStudent($user);
+        $other = $this->createStudent();
+
+        $this->getJson('/api/auth/me')->assertJsonPath('user.student_id', $own->id);
+        $this->getJson("/api/students/{$own->id}/schedule")->assertOk();
+        $this->getJson("/api/students/{$own->id}/grades")->assertOk();
+
+        $this->getJson("/api/students/{$other->id}/schedule")->assertForbidden();
+        $this->getJson("/api/students/{$other->id}/grades")->assertForbidden();
+    }
+
+    public function test_admins_see_every_students_records(): void
+    {
+        $student = $this->createStudent();
+
+        $this->actingAsRole('Admin');
+        $this->getJson("/api/students/{$student->id}/schedule")->assertOk();
+        $this->getJson("/api/students/{$student->id}/grades")->assertOk();
+    }
+}
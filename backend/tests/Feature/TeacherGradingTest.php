@@ -0,0 +1,182 @@
+<?php
+
+namespace Tests\Feature;
+
+use App\Models\Section;
+use App\Models\Student;
+use App\Models\Subject;
+use App\Models\Teacher;
+use App\Models\TeachingAssignment;
+use App\Models\Term;
+use App\Models\User;
+use Illuminate\Foundation\Testing\RefreshDatabase;
+use Illuminate\Support\Facades\DB;
+use Laravel\Sanctum\Sanctum;
+use Tests\TestCase;
+
+class TeacherGradingTest extends TestCase
+{
+    use RefreshDatabase;
+
+    protected Subject $subject;
+
+    protected int $gradeLevelId;
+
+    protected Section $ownSection;
+
+    protected Section $otherSection;
+
+    protected function setUp(): void
+    {
+        parent::setUp();
+        $this->createServerTables();
+
+        $term = Term::current();
+        $this->gradeLevelId = DB::table('grade_levels')->insertGetId(['name' => 'Grade 11']);
+
+        $this->subject = Subject::create([
+            'term_id' => $term->id,
+            'name' => 'General Mathematics',
+            'code' => 'MATH11',
+            'status' => 'Available',
+            'grade_level_id' => $this->gradeLevelId,
+        ]);
+        $this->ownSection = Section::forceCreate(['name' => 'Rizal', 'term_id' => $term->id]);
+        $this->otherSection = Section::forceCreate(['name' => 'Bonifacio', 'term_id' => $term->id]);
+    }
+
+    protected function actingAsRole(string $role): User
+    {
+        $user = User::factory()->create(['role' => $role]);
+        Sanctum::actingAs($user);
+
+        return $user;
+    }
+
+    protected function createTeacher(string $email = 'maria@example.com'): Teacher
+    {
+        return Teacher::create([
+            'name' => 'Maria Santos',
+            'email' => $email,
+            'phone' => '09170000000',
+            'subject' => 'Mathematics',
+            'gender' => 'Female',
+        ]);
+    }
+
+    /**
+     * A teacher account linked to a teacher record that handles the subject
+     * in $ownSection only.
+     */
+    protected function actingAsTeacherOfOwnSection(): User
+    {
+        $user = $this->actingAsRole('Teacher');
+        $teacher = $this->createTeacher();
+        $teacher->forceFill(['user_id' => $user->id])->save();
+
+        TeachingAssignment::create([
+            'teacher_id' => $teacher->id,
+            'subject_id' => $this->subject->id,
+            'section_id' => $this->ownSection->id,
+        ]);
+
+        return $user;
+    }
+
+    protected function gradebook(): string
+    {
+        return "/api/subjects/{$this->subject->id}/grades";
+    }
+
+    public function test_guests_must_sign_in(): void
+    {
+        $this->getJson($this->gradebook())->assertStatus(401);
+        $this->getJson('/api/teacher/classes')->assertStatus(401);
+    }
+
+    public function test_teachers_and_students_cannot_use_admin_routes(): void
+    {
+        $this->actingAsRole('Teacher');
+        $this->getJson('/api/subjects')->assertForbidden();
+        $this->deleteJson("/api/subjects/{$this->subject->id}")->assertForbidden();
+
+        $this->actingAsRole('Student');
+        $this->getJson('/api/subjects')->assertForbidden();
+        $this->getJson($this->gradebook())->assertForbidden();
+        $this->getJson('/api/teacher/classes')->assertForbidden();
+
+        $this->assertNotSoftDeleted($this->subject);
+    }
+
+    public function test_admins_open_every_gradebook(): void
+    {
+        $this->actingAsRole('Admin');
+
+        $this->getJson($this->gradebook())->assertOk();
+        $this->getJson("{$this->gradebook()}?section_id={$this->otherSection->id}")->assertOk();
+    }
+
+    public function test_teachers_only_open_the_gradebooks_of_their_own_sections(): void
+    {
+        $this->actingAsTeacherOfOwnSection();
+
+        $this->getJson("{$this->gradebook()}?section_id={$this->ownSection->id}")->assertOk();
+        $this->getJson("{$this->gradebook()}?section_id={$this->otherSection->id}")->assertForbidden();
+
+        // Without a section the gradebook would span sections taught by others
+        $this->getJson($this->gradebook())->assertForbidden();
+    }
+
+    public function test_teachers_only_grade_their_own_sections(): void
+    {
+        $this->actingAsTeacherOfOwnSection();
+        $student = Student::create([
+            'name' => 'Juan Dela Cruz',
+            'gender' => 'Male',
+            'subject' => 'General Mathematics',
+            'grade_level_id' => $this->gradeLevelId,
+            'section_id' => $this->ownSection->id,
+        ]);
+        $grades = ['quarter' => 1, 'grades' => [['student_id' => $student->id, 'score' => 90]]];
+
+        $this->postJson($this->gradebook(), $grades)->assertForbidden();
+        $this->postJson($this->gradebook(), $grades + ['section_id' => $this->otherSection->id])->assertForbidden();
+        $this->assertDatabaseCount('grades', 0);
+
+        $this->postJson($this->gradebook(), $grades + ['section_id' => $this->ownSection->id])->assertOk();
+        $this->assertDatabaseHas('grades', ['student_id' => $student->id, 'subject_id' => $this->subject->id, 'quarter' => 1]);
+    }
+
+    public function test_an_account_with_a_teachers_email_is_not_linked_to_them(): void
+    {
+        $user = $this->actingAsRole('Teacher');
+        $teacher = $this->createTeacher($user->email);
+        TeachingAssignment::create([
+            'teacher_id' => $teacher->id,
+            'subject_id' => $this->subject->id,
+            'section_id' => $this->ownSection->id,
+        ]);
+
+        $this->getJson('/api/auth/me')->assertOk()->assertJsonPath('user.teacher_id', null);
+        $this->getJson("{$this->gradebook()}?section_id={$this->ownSection->id}")->assertForbidden();
+
+        $this->assertNull($teacher->fresh()->user_id);
+    }
+
+    public function test_only_admins_link_teacher_accounts(): void
+    {
+        $teacher = $this->createTeacher();
+        $account = User::factory()->create(['role' => 'Teacher']);
+
+        $this->actingAsRole('Teacher');
+        $this->putJson("/api/teachers/{$teacher->id}/account", ['user_id' => $account->id])->assertForbidden();
+        $this->assertNull($teacher->fresh()->user_id);
+
+        $this->actingAsRole('Admin');
+        $this->putJson("/api/teachers/{$teacher->id}/account", ['user_id' => $account->id])->assertOk();
+        $this->assertSame($account->id, $teacher->fresh()->user_id);
+
+        Sanctum::actingAs($account);
+        $this->getJson('/api/auth/me')->assertJsonPath('user.teacher_id', $teacher->id);
+    }
+}
@@ -2,9 +2,48 @@
 
 namespace Tests;
 
+use Illuminate\Database\Schema\Blueprint;
 use Illuminate\Foundation\Testing\TestCase as BaseTestCase;
+use Illuminate\Support\Facades\Schema;
 
 abstract class TestCase extends BaseTestCase
 {
-    //
+    /**
+     * Create the sections, strands and grade_levels tables, which the
+     * TypeScript API server owns (frontend/server/schema.sql) and so the
+     * migrations leave out.
+     */
+    protected function createServerTables(): void
+    {
+        Schema::create('grade_levels', function (Blueprint $table) {
+            $table->id();
+            $table->string('name')->unique();
+            $table->text('description')->default('');
+            $table->boolean('is_active')->default(true);
+            $table->timestamps();
+        });
+
+        Schema::create('strands', function (Blueprint $table) {
+            $table->id();
+            $table->string('name')->unique();
+            $table->text('description')->default('');
+            $table->timestamps();
+            $table->softDeletes();
+        });
+
+        Schema::create('sections', function (Blueprint $table) {
+            $table->id();
+            $table->string('name');
+            $table->text('description')->default('');
+            $table->boolean('is_active')->default(true);
+            $table->unsignedBigInteger('grade_level_id')->nullable();
+            $table->unsignedBigInteger('strand_id')->nullable();
+            $table->unsignedBigInteger('adviser_id')->nullable();
+            $table->string('room')->nullable();
+            $table->integer('capacity')->nullable();
+            $table->unsignedBigInteger('term_id')->nullable();
+            $table->timestamps();
+            $table->softDeletes();
+        });
+    }
 }
@@ -3,19 +3,25 @@ import { StatusBar } from 'expo-status-bar';
 import React from 'react';
 import { ToastProvider } from 'react-native-toast-notifications';
 import { AuthProvider } from './context/AuthContext';
+import { NotificationProvider } from './context/NotificationContext';
 
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <ToastProvider>
-        <Stack>
-          <Stack.Screen name="index" options={{ headerShown: false }} />
-          <Stack.Screen name="login" options={{ headerShown: false }} />
-          <Stack.Screen name="register" options={{ headerShown: false }} />
-          <Stack.Screen name="admin" options={{ headerShown: false }} />
-        </Stack>
-        <StatusBar style="auto" />
-      </ToastProvider>
+      <NotificationProvider>
+        <ToastProvider>
+          <Stack>
+            <Stack.Screen name="index" options={{ headerShown: false }} />
+            <Stack.Screen name="login" options={{ headerShown: false }} />
+            <Stack.Screen name="register" options={{ headerShown: false }} />
+            <Stack.Screen name="admin" options={{ headerShown: false }} />
+            <Stack.Screen name="user" options={{ headerShown: false }} />
+            <Stack.Screen name="teacher" options={{ headerShown: false }} />
+            <Stack.Screen name="notifications" options={{ headerShown: false }} />
+          </Stack>
+          <StatusBar style="auto" />
+        </ToastProvider>
+      </NotificationProvider>
     </AuthProvider>
   );
 }
@@ -2,6 +2,26 @@ import { Stack } from 'expo-router';
 import React, { useState } from 'react';
 import { Dimensions, StyleSheet, View } from 'react-native';
 import AdminSidebar from '../components/AdminSidebar';
+import OfflineBanner from '../components/OfflineBanner';
+import RouteGuard from '../components/RouteGuard';
+import TermSelector from '../components/TermSelector';
+import { TermProvider, useTerm } from '../context/TermContext';
+
+// Remounted whenever another term is picked, so every screen refetches its
+// records for that term
+const TermStack = () => {
+  const { activeTerm } = useTerm();
+
+  return (
+    <Stack
+      key={activeTerm?.id ?? 'current'}
+      screenOptions={{
+        headerShown: false,
+        animation: 'fade',
+      }}
+    />
+  );
+};
 
 export default function AdminLayout() {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -13,23 +33,24 @@ export default function AdminLayout() {
   };
 
   return (
-    <View style={styles.container}>
-      <AdminSidebar 
-        isCollapsed={isSidebarCollapsed} 
-        toggleSidebar={toggleSidebar} 
-      />
-      <View style={[
-        styles.mainContent,
-        { marginLeft: isSidebarCollapsed ? 60 : 240 }
-      ]}>
-        <Stack
-          screenOptions={{
-            headerShown: false,
-            animation: 'fade',
-          }}
-        />
-      </View>
-    </View>
+    <RouteGuard roles={['Admin']}>
+      <TermProvider>
+        <View style={styles.container}>
+          <AdminSidebar 
+            isCollapsed={isSidebarCollapsed} 
+            toggleSidebar={toggleSidebar} 
+          />
+          <View style={[
+            styles.mainContent,
+            { marginLeft: isSidebarCollapsed ? 60 : 240 }
+          ]}>
+            <OfflineBanner />
+            <TermSelector />
+            <TermStack />
+          </View>
+        </View>
+      </TermProvider>
+    </RouteGuard>
   );
 }
 
@@ -0,0 +1,514 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { api, getErrorMessage, Section, SectionAttendance, StudentAttendance, Subject } from '../../config/api';
+import { ATTENDANCE_STATUSES, attendanceStatus, formatRate } from '../../constants/Attendance';
+import { formatDate } from '../../utils/time';
+import AttendanceEditor from '../components/AttendanceEditor';
+
+const OPTIONS_LIMIT = 100;
+// Recent absences shown under an expanded student
+const RECENT_RECORDS = 5;
+
+type Mode = 'take' | 'summary';
+
+type SummaryStudent = SectionAttendance['students'][number];
+
+export default function AttendanceScreen() {
+  const [mode, setMode] = useState<Mode>('take');
+  const [sections, setSections] = useState<Section[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [sectionId, setSectionId] = useState<number | null>(null);
+  const [subjectId, setSubjectId] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loadingOptions, setLoadingOptions] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // The summary covers every subject unless one is picked
+  const [summarySubjectId, setSummarySubjectId] = useState<number | null>(null);
+  const [summary, setSummary] = useState<SectionAttendance | null>(null);
+  const [loadingSummary, setLoadingSummary] = useState(false);
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [details, setDetails] = useState<Record<number, StudentAttendance>>({});
+
+  const fetchOptions = async () => {
+    try {
+      setLoadingOptions(true);
+      setError(null);
+      const [sectionPage, subjectPage] = await Promise.all([
+        api.sections.list({ limit: OPTIONS_LIMIT }),
+        api.subjects.list({ limit: OPTIONS_LIMIT }),
+      ]);
+      setSections(sectionPage.items);
+      setSubjects(subjectPage.items);
+      if (sectionPage.items.length > 0 && sectionId === null) {
+        setSectionId(sectionPage.items[0].id);
+      }
+      if (subjectPage.items.length > 0 && subjectId === null) {
+        setSubjectId(subjectPage.items[0].id);
+      }
+    } catch (error) {
+      console.error('Error fetching attendance options:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoadingOptions(false);
+    }
+  };
+
+  const fetchSummary = async () => {
+    if (sectionId === null) return;
+    try {
+      setLoadingSummary(true);
+      setSummaryError(null);
+      setSummary(await api.attendance.forSection(sectionId, summarySubjectId ?? undefined));
+      setExpandedId(null);
+      setDetails({});
+    } catch (error) {
+      console.error('Error fetching attendance summary:', error);
+      setSummaryError(getErrorMessage(error));
+    } finally {
+      setLoadingSummary(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  useEffect(() => {
+    if (mode === 'summary') {
+      fetchSummary();
+    }
+  }, [mode, sectionId, summarySubjectId]);
+
+  const toggleStudent = async (studentId: number) => {
+    if (expandedId === studentId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(studentId);
+    if (details[studentId]) return;
+
+    try {
+      const attendance = await api.attendance.forStudent(studentId);
+      setDetails(prev => ({ ...prev, [studentId]: attendance }));
+    } catch (error) {
+      console.error('Error fetching student attendance:', error);
+      setSummaryError(getErrorMessage(error));
+    }
+  };
+
+  const needle = searchQuery.trim().toLowerCase();
+  const summaryStudents = (summary?.students || []).filter(student => (
+    !needle || student.name.toLowerCase().includes(needle)
+  ));
+
+  const renderSummaryStudent = ({ item }: { item: SummaryStudent }) => {
+    const isExpanded = expandedId === item.id;
+    const attendance = details[item.id];
+
+    return (
+      <TouchableOpacity style={styles.summaryCard} onPress={() => toggleStudent(item.id)}>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryInfo}>
+            <Text style={styles.studentName}>{item.name}</Text>
+            <View style={styles.countRow}>
+              {ATTENDANCE_STATUSES.map(option => (
+                <Text key={option.value} style={[styles.countText, { color: option.color }]}>
+                  {option.label} {item.summary[option.value]}
+                </Text>
+              ))}
+            </View>
+          </View>
+          <View style={styles.rateBlock}>
+            <Text style={[
+              styles.rateValue,
+              item.summary.rate !== null && item.summary.rate < 80 && styles.rateLow,
+            ]}>
+              {formatRate(item.summary.rate)}
+            </Text>
+            <Text style={styles.rateLabel}>attendance</Text>
+          </View>
+          <MaterialIcons name={isExpanded ? 'expand-less' : 'expand-more'} size={24} color="#999" />
+        </View>
+
+        {isExpanded && (
+          <View style={styles.details}>
+            {!attendance ? (
+              <ActivityIndicator color="#1a73e8" />
+            ) : attendance.subjects.length === 0 ? (
+              <Text style={styles.detailText}>No attendance recorded yet.</Text>
+            ) : (
+              <>
+                <Text style={styles.detailTitle}>By subject</Text>
+                {attendance.subjects.map(subject => (
+                  <Text key={subject.subject_id} style={styles.detailText}>
+                    {subject.code} — {subject.name}: {formatRate(subject.rate)}
+                    {' '}({subject.absent} absent, {subject.late} late)
+                  </Text>
+                ))}
+                {attendance.records.length > 0 && (
+                  <>
+                    <Text style={[styles.detailTitle, styles.detailTitleSpaced]}>Recent</Text>
+                    {attendance.records.slice(0, RECENT_RECORDS).map(record => (
+                      <Text key={record.id} style={styles.detailText}>
+                        {formatDate(record.date)} · {record.subject?.name ?? 'Unknown subject'} ·{' '}
+                        <Text style={{ color: attendanceStatus(record.status).color }}>
+                          {attendanceStatus(record.status).label}
+                        </Text>
+                        {record.remarks ? ` — ${record.remarks}` : ''}
+                      </Text>
+                    ))}
+                  </>
+                )}
+              </>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" />
+      <View style={styles.header}>
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search students..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title}>Attendance</Text>
+        <View style={styles.modeTabs}>
+          {([['take', 'Take attendance'], ['summary', 'Summary']] as const).map(([value, label]) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.modeTab, mode === value && styles.modeTabActive]}
+              onPress={() => setMode(value)}
+            >
+              <Text style={[styles.modeTabText, mode === value && styles.modeTabTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.filters}>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={sectionId ?? undefined}
+            onValueChange={(value) => setSectionId(Number(value))}
+            enabled={!loadingOptions && sections.length > 0}
+          >
+            {sections.map(section => (
+              <Picker.Item key={section.id} label={section.name} value={section.id} />
+            ))}
+          </Picker>
+        </View>
+        <View style={styles.pickerContainer}>
+          {mode === 'take' ? (
+            <Picker
+              selectedValue={subjectId ?? undefined}
+              onValueChange={(value) => setSubjectId(Number(value))}
+              enabled={!loadingOptions && subjects.length > 0}
+            >
+              {subjects.map(subject => (
+                <Picker.Item key={subject.id} label={`${subject.code} — ${subject.name}`} value={subject.id} />
+              ))}
+            </Picker>
+          ) : (
+            <Picker
+              selectedValue={summarySubjectId ?? ''}
+              onValueChange={(value) => setSummarySubjectId(value === '' ? null : Number(value))}
+              enabled={!loadingOptions}
+            >
+              <Picker.Item label="All subjects" value="" />
+              {subjects.map(subject => (
+                <Picker.Item key={subject.id} label={`${subject.code} — ${subject.name}`} value={subject.id} />
+              ))}
+            </Picker>
+          )}
+        </View>
+      </View>
+
+      {loadingOptions ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading sections and subjects...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchOptions}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : sectionId === null || subjectId === null ? (
+        <View style={styles.emptyContainer}>
+          <MaterialIcons name="fact-check" size={48} color="#ccc" />
+          <Text style={styles.emptyText}>Add a section and a subject before taking attendance</Text>
+        </View>
+      ) : mode === 'take' ? (
+        <AttendanceEditor subjectId={subjectId} sectionId={sectionId} searchQuery={searchQuery} />
+      ) : loadingSummary ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading attendance summary...</Text>
+        </View>
+      ) : summaryError ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{summaryError}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchSummary}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={summaryStudents}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderSummaryStudent}
+          ListEmptyComponent={() => (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="people-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>
+                {needle ? 'No students match your search' : 'No students in this section yet'}
+              </Text>
+            </View>
+          )}
+          contentContainerStyle={styles.summaryList}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1a73e8',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 16,
+    color: '#333',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  modeTabs: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  modeTab: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f3f4',
+  },
+  modeTabActive: {
+    backgroundColor: '#1a73e8',
+  },
+  modeTabText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  modeTabTextActive: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+  },
+  pickerContainer: {
+    flex: 1,
+    minWidth: 170,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  summaryList: {
+    padding: 12,
+  },
+  summaryCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  summaryInfo: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  countRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  countText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  rateBlock: {
+    alignItems: 'center',
+    marginHorizontal: 12,
+  },
+  rateValue: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#4CAF50',
+  },
+  rateLow: {
+    color: '#F44336',
+  },
+  rateLabel: {
+    fontSize: 11,
+    color: '#666',
+  },
+  details: {
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  detailTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  detailTitleSpaced: {
+    marginTop: 8,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#444',
+    marginBottom: 4,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
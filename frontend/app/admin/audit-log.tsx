@@ -0,0 +1,373 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { api, AuditAction, AuditEntityType, AuditLog, getErrorMessage } from '../../config/api';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, auditAction, describeAuditChanges, describeAuditLog } from '../../constants/Audit';
+import { timeAgo } from '../../utils/time';
+
+const PAGE_SIZE = 20;
+const SEARCH_DELAY = 500;
+
+export default function AuditLogScreen() {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [expanded, setExpanded] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLogs = async (pageToLoad = 1) => {
+    try {
+      if (pageToLoad === 1) {
+        setLoading(!isRefreshing);
+        setError(null);
+      } else {
+        setIsLoadingMore(true);
+      }
+      const { items, pagination } = await api.auditLogs.list({
+        page: pageToLoad,
+        limit: PAGE_SIZE,
+        search: searchQuery.trim(),
+        entity_type: entityType,
+        action,
+      });
+      setLogs(prev => pageToLoad === 1 ? items : [...prev, ...items]);
+      setPage(pageToLoad);
+      setHasMore(pagination.current_page < pagination.last_page);
+    } catch (error) {
+      console.error('Error fetching audit logs:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  // Debounced so typing a search doesn't fetch on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => fetchLogs(1), SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [searchQuery, entityType, action]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchLogs(1);
+  };
+
+  const handleLoadMore = () => {
+    if (!loading && !isLoadingMore && hasMore) {
+      fetchLogs(page + 1);
+    }
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpanded(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  const renderLog = ({ item }: { item: AuditLog }) => {
+    const { icon, color } = auditAction(item.action);
+    const changes = describeAuditChanges(item);
+    const isExpanded = expanded.includes(item.id);
+
+    return (
+      <TouchableOpacity
+        style={styles.logCard}
+        onPress={() => toggleExpanded(item.id)}
+        disabled={changes.length === 0}
+      >
+        <View style={styles.logRow}>
+          <View style={[styles.logIcon, { backgroundColor: color + '20' }]}>
+            <MaterialIcons name={icon} size={22} color={color} />
+          </View>
+          <View style={styles.logContent}>
+            <Text style={styles.logTitle}>{describeAuditLog(item)}</Text>
+            <Text style={styles.logTime}>
+              {timeAgo(item.created_at)} · {new Date(item.created_at).toLocaleString()}
+            </Text>
+          </View>
+          {changes.length > 0 && (
+            <MaterialIcons name={isExpanded ? 'expand-less' : 'expand-more'} size={24} color="#999" />
+          )}
+        </View>
+        {isExpanded && (
+          <View style={styles.changes}>
+            {changes.map(change => (
+              <Text key={change} style={styles.changeText}>{change}</Text>
+            ))}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" />
+      <View style={styles.header}>
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search by record or user name..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title}>Audit Log</Text>
+      </View>
+
+      <View style={styles.filters}>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={entityType}
+            onValueChange={(value) => setEntityType(value as AuditEntityType | '')}
+            style={styles.picker}
+          >
+            <Picker.Item label="All records" value="" />
+            {AUDIT_ENTITY_TYPES.map(type => (
+              <Picker.Item key={type.value} label={type.label} value={type.value} />
+            ))}
+          </Picker>
+        </View>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={action}
+            onValueChange={(value) => setAction(value as AuditAction | '')}
+            style={styles.picker}
+          >
+            <Picker.Item label="All actions" value="" />
+            {AUDIT_ACTIONS.map(option => (
+              <Picker.Item key={option.value} label={option.label} value={option.value} />
+            ))}
+          </Picker>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading audit log...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchLogs(1)}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={logs}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderLog}
+          onRefresh={handleRefresh}
+          refreshing={isRefreshing}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator color="#1a73e8" style={styles.footerLoader} /> : null}
+          ListEmptyComponent={() => (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="history" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No changes recorded yet</Text>
+            </View>
+          )}
+          contentContainerStyle={styles.logList}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1a73e8',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 16,
+    color: '#333',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  filters: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    minWidth: 170,
+  },
+  picker: {
+    height: 40,
+  },
+  logList: {
+    padding: 12,
+  },
+  logCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  logIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  logContent: {
+    flex: 1,
+  },
+  logTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+    marginBottom: 4,
+  },
+  logTime: {
+    fontSize: 12,
+    color: '#666',
+  },
+  changes: {
+    marginTop: 10,
+    marginLeft: 52,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#f0f0f0',
+  },
+  changeText: {
+    fontSize: 13,
+    color: '#444',
+    marginBottom: 4,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#ff4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
@@ -1,24 +1,67 @@
 import { MaterialIcons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import { useState } from 'react';
-import { Alert, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, RefreshControl, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { api, AuditLog, DashboardStats, getErrorMessage } from '../../config/api';
+import { auditAction, describeAuditChanges, describeAuditLog } from '../../constants/Audit';
+import { timeAgo } from '../../utils/time';
+import BarChart from '../components/BarChart';
+import DonutChart from '../components/DonutChart';
+import NotificationBell from '../components/NotificationBell';
 import { useAuth } from '../context/AuthContext';
 
+const STATUS_COLORS = { Available: '#4CAF50', Unavailable: '#F44336' };
+const GENDER_COLORS = { Male: '#2196F3', Female: '#E91E63' };
+const RECENT_ACTIVITY_LIMIT = 5;
+
 export default function DashboardOverview() {
   const { user, login, updateUser, setUser } = useAuth();
   const router = useRouter();
   const [searchQuery, setSearchQuery] = useState('');
+  const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
+  const [recentActivities, setRecentActivities] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDashboard = async () => {
+    try {
+      setError(null);
+      const [stats, activities] = await Promise.all([
+        api.dashboard.stats(),
+        api.auditLogs.list({ limit: RECENT_ACTIVITY_LIMIT }),
+      ]);
+      setDashboardStats(stats);
+      setRecentActivities(activities.items);
+    } catch (error) {
+      console.error('Error fetching dashboard:', error);
+      setError(`Failed to load the dashboard. ${getErrorMessage(error)}`);
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDashboard();
+  }, []);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchDashboard();
+  };
 
   const handleSearch = (text: string) => {
     setSearchQuery(text);
     // Add your search logic here
   };
 
+  const totals = dashboardStats?.totals;
   const stats = [
-    { title: 'Total Teachers', value: '24', icon: 'school', color: '#4CAF50' },
-    { title: 'Total Students', value: '890', icon: 'people', color: '#2196F3' },
-    { title: 'Total Classes', value: '45', icon: 'class', color: '#FF9800' },
-    { title: 'Total Subjects', value: '12', icon: 'book', color: '#9C27B0' },
+    { title: 'Total Teachers', value: totals?.teachers, icon: 'school', color: '#4CAF50' },
+    { title: 'Total Students', value: totals?.students, icon: 'people', color: '#2196F3' },
+    { title: 'Total Classes', value: totals?.classes, icon: 'class', color: '#FF9800' },
+    { title: 'Total Subjects', value: totals?.subjects, icon: 'book', color: '#9C27B0' },
   ];
 
   const quickActions = [
@@ -26,13 +69,6 @@ export default function DashboardOverview() {
     { title: 'Add Student', icon: 'person-add', color: '#2196F3', route: '/admin/students' },
   ];
 
-  const recentActivities = [
-    { title: 'New teacher registration', time: '2 minutes ago', icon: 'person-add' },
-    { title: 'New student enrolled', time: '15 minutes ago', icon: 'school' },
-    { title: 'Class schedule updated', time: '1 hour ago', icon: 'update' },
-    { title: 'New subject added', time: '2 hours ago', icon: 'book' },
-  ];
-
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -44,60 +80,113 @@ export default function DashboardOverview() {
             onChangeText={handleSearch}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#333" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#333" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Dashboard Overview</Text>
       </View>
 
-      <View style={styles.statsContainer}>
-        {stats.map((stat, index) => (
-          <View key={index} style={styles.statCard}>
-            <View style={[styles.statIcon, { backgroundColor: stat.color + '20' }]}>
-              <MaterialIcons name={stat.icon as any} size={24} color={stat.color} />
-            </View>
-            <Text style={styles.statValue}>{stat.value}</Text>
-            <Text style={styles.statTitle}>{stat.title}</Text>
+      <ScrollView
+        refreshControl={<RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} colors={['#1a73e8']} />}
+      >
+        {error && (
+          <View style={styles.errorBanner}>
+            <MaterialIcons name="error-outline" size={20} color="#ff4444" />
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity onPress={handleRefresh}>
+              <Text style={styles.retryText}>Retry</Text>
+            </TouchableOpacity>
           </View>
-        ))}
-      </View>
+        )}
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Quick Actions</Text>
-        <View style={styles.actionsContainer}>
-          {quickActions.map((action, index) => (
-            <TouchableOpacity key={index} style={styles.actionCard} onPress={() => router.push(action.route as any)}>
-              <View style={[styles.actionIcon, { backgroundColor: action.color + '20' }]}>
-                <MaterialIcons name={action.icon as any} size={24} color={action.color} />
+        <View style={styles.statsContainer}>
+          {stats.map((stat, index) => (
+            <View key={index} style={styles.statCard}>
+              <View style={[styles.statIcon, { backgroundColor: stat.color + '20' }]}>
+                <MaterialIcons name={stat.icon as any} size={24} color={stat.color} />
               </View>
-              <Text style={styles.actionTitle}>{action.title}</Text>
-            </TouchableOpacity>
+              {loading ? (
+                <ActivityIndicator color={stat.color} style={styles.statLoader} />
+              ) : (
+                <Text style={styles.statValue}>{stat.value ?? '—'}</Text>
+              )}
+              <Text style={styles.statTitle}>{stat.title}</Text>
+            </View>
           ))}
         </View>
-      </View>
 
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Recent Activity</Text>
-        <View style={styles.activityContainer}>
-          {recentActivities.map((activity, index) => (
-            <TouchableOpacity key={index} style={styles.activityCard} onPress={() => Alert.alert('Activity Details', `Title: ${activity.title}\nTime: ${activity.time}`) }>
-              <View style={styles.activityIcon}>
-                <MaterialIcons name={activity.icon as any} size={24} color="#666" />
-              </View>
-              <View style={styles.activityContent}>
-                <Text style={styles.activityTitle}>{activity.title}</Text>
-                <Text style={styles.activityTime}>{activity.time}</Text>
-              </View>
+        {dashboardStats && (
+          <View style={styles.chartsContainer}>
+            <View style={styles.chartCard}>
+              <Text style={styles.chartTitle}>Students by Grade Level</Text>
+              <BarChart data={dashboardStats.students_by_grade_level} color="#2196F3" />
+            </View>
+            <View style={styles.chartCard}>
+              <Text style={styles.chartTitle}>Students by Strand</Text>
+              <BarChart data={dashboardStats.students_by_strand} color="#FF9800" />
+            </View>
+            <View style={styles.chartCard}>
+              <Text style={styles.chartTitle}>Students by Gender</Text>
+              <DonutChart data={dashboardStats.students_by_gender} colors={GENDER_COLORS} />
+            </View>
+            <View style={styles.chartCard}>
+              <Text style={styles.chartTitle}>Subjects by Availability</Text>
+              <DonutChart data={dashboardStats.subjects_by_status} colors={STATUS_COLORS} />
+            </View>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Quick Actions</Text>
+          <View style={styles.actionsContainer}>
+            {quickActions.map((action, index) => (
+              <TouchableOpacity key={index} style={styles.actionCard} onPress={() => router.push(action.route as any)}>
+                <View style={[styles.actionIcon, { backgroundColor: action.color + '20' }]}>
+                  <MaterialIcons name={action.icon as any} size={24} color={action.color} />
+                </View>
+                <Text style={styles.actionTitle}>{action.title}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent Activity</Text>
+            <TouchableOpacity onPress={() => router.push('/admin/audit-log' as any)}>
+              <Text style={styles.viewAllText}>View all</Text>
             </TouchableOpacity>
-          ))}
+          </View>
+          <View style={styles.activityContainer}>
+            {!loading && recentActivities.length === 0 && (
+              <Text style={styles.emptyActivityText}>No activity recorded yet.</Text>
+            )}
+            {recentActivities.map(activity => (
+              <TouchableOpacity
+                key={activity.id}
+                style={styles.activityCard}
+                onPress={() => Alert.alert(
+                  'Activity Details',
+                  [
+                    describeAuditLog(activity),
+                    new Date(activity.created_at).toLocaleString(),
+                    ...describeAuditChanges(activity),
+                  ].join('\n')
+                )}
+              >
+                <View style={styles.activityIcon}>
+                  <MaterialIcons name={auditAction(activity.action).icon} size={24} color={auditAction(activity.action).color} />
+                </View>
+                <View style={styles.activityContent}>
+                  <Text style={styles.activityTitle}>{describeAuditLog(activity)}</Text>
+                  <Text style={styles.activityTime}>{timeAgo(activity.created_at)}</Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+          </View>
         </View>
-      </View>
+      </ScrollView>
     </View>
   );
 }
@@ -132,26 +221,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -212,6 +281,64 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#666',
   },
+  statLoader: {
+    alignSelf: 'flex-start',
+    marginVertical: 6,
+  },
+  errorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 12,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#fdecea',
+  },
+  errorText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#ff4444',
+  },
+  retryText: {
+    marginLeft: 8,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a73e8',
+  },
+  chartsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 12,
+    gap: 12,
+  },
+  chartCard: {
+    flex: 1,
+    minWidth: 300,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  chartTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+  },
   section: {
     padding: 16,
   },
@@ -221,6 +348,21 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 15,
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  viewAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a73e8',
+  },
+  emptyActivityText: {
+    padding: 16,
+    fontSize: 14,
+    color: '#888',
+  },
   actionsContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
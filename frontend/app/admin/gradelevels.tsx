@@ -14,15 +14,10 @@ import {
   View
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
-
-interface GradeLevel {
-  id: string;
-  name: string;
-  description: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+import { api, getErrorMessage, GradeLevel } from '../../config/api';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn } from '../../utils/export';
+import NotificationBell from '../components/NotificationBell';
 
 interface FormData {
   name: string;
@@ -36,36 +31,16 @@ const INITIAL_FORM_DATA: FormData = {
   is_active: true,
 };
 
-const API_URL = process.env.EXPO_PUBLIC_API_URL || 'http://192.168.0.100:3001/api';
 const DEBOUNCE_DELAY = 1000; // 1 second delay
 const ITEMS_PER_PAGE = 10;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds
 
-// Add timeout configuration
-const fetchWithTimeout = async (url: string, options: RequestInit, timeout = 30000) => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': (options.headers as Record<string, string>)?.['Content-Type'] || 'application/json',
-      },
-    });
-    clearTimeout(id);
-    return response;
-  } catch (error: unknown) {
-    clearTimeout(id);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out. Please try again.');
-    }
-    throw error;
-  }
-};
+const GRADE_LEVEL_EXPORT_COLUMNS: ExportColumn<GradeLevel>[] = [
+  { label: 'Name', value: item => item.name },
+  { label: 'Description', value: item => item.description },
+  { label: 'Active', value: item => item.is_active ? 'Yes' : 'No' },
+];
 
 export default function GradeLevelManagement() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -131,51 +106,25 @@ export default function GradeLevelManagement() {
         search: searchQuery
       });
 
-      const response = await fetchWithTimeout(
-        `${API_URL}/grade-levels?page=${currentPage}&limit=${ITEMS_PER_PAGE}&search=${encodeURIComponent(searchQuery)}`,
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      console.log('Fetched grade levels:', data);
-      
-      if (data.success) {
-        const newData = data.data || [];
-        if (isRefresh) {
-          setGradeLevels(newData);
-        } else {
-          setGradeLevels(prev => [...prev, ...newData]);
-        }
-        setHasMore(newData.length === ITEMS_PER_PAGE);
-        setRetryCount(0);
-        if (!isRefresh) {
-          setPage(prev => prev + 1);
-        }
+      const { items } = await api.gradeLevels.list({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
+      });
+
+      if (isRefresh) {
+        setGradeLevels(items);
       } else {
-        throw new Error(data.message || 'Failed to fetch grade levels');
+        setGradeLevels(prev => [...prev, ...items]);
+      }
+      setHasMore(items.length === ITEMS_PER_PAGE);
+      setRetryCount(0);
+      if (!isRefresh) {
+        setPage(prev => prev + 1);
       }
     } catch (error: any) {
       console.error('Error fetching grade levels:', error);
-      let errorMessage = 'Could not connect to server. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check if the server is running and your internet connection is stable.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = getErrorMessage(error);
       
       setError(errorMessage);
       
@@ -231,40 +180,19 @@ export default function GradeLevelManagement() {
 
       console.log('Adding new grade level with data:', formData);
 
-      const response = await fetchWithTimeout(`${API_URL}/grade-levels`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          description: formData.description?.trim() || '',
-          is_active: formData.is_active,
-        }),
+      const saved = await api.gradeLevels.create({
+        name: formData.name.trim(),
+        description: formData.description?.trim() || '',
+        is_active: formData.is_active,
       });
 
-      const data = await response.json();
-      console.log('Add response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to add grade level');
-      }
-
-      setGradeLevels([data.data, ...gradeLevels]);
+      setGradeLevels([saved, ...gradeLevels]);
       setIsAddModalVisible(false);
       setFormData(INITIAL_FORM_DATA);
       toast.show('Grade Level added successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error adding grade level:', error);
-      let errorMessage = 'Failed to add grade level. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to add grade level. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -287,27 +215,14 @@ export default function GradeLevelManagement() {
 
       console.log('Updating grade level with data:', formData);
 
-      const response = await fetchWithTimeout(`${API_URL}/grade-levels/${selectedGrade.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          description: formData.description?.trim() || '',
-          is_active: formData.is_active,
-        }),
+      const saved = await api.gradeLevels.update(selectedGrade.id, {
+        name: formData.name.trim(),
+        description: formData.description?.trim() || '',
+        is_active: formData.is_active,
       });
 
-      const data = await response.json();
-      console.log('Update response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to update grade level');
-      }
-
       setGradeLevels(gradeLevels.map(grade => 
-        grade.id === selectedGrade.id ? data.data : grade
+        grade.id === selectedGrade.id ? saved : grade
       ));
     setIsEditModalVisible(false);
       setSelectedGrade(null);
@@ -315,15 +230,7 @@ export default function GradeLevelManagement() {
       toast.show('Grade Level updated successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error updating grade level:', error);
-      let errorMessage = 'Failed to update grade level. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to update grade level. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -338,33 +245,14 @@ export default function GradeLevelManagement() {
       setLoading(true);
       setError(null);
 
-      const response = await fetchWithTimeout(`${API_URL}/grade-levels/${selectedGrade.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to delete grade level');
-      }
+      await api.gradeLevels.remove(selectedGrade.id);
 
       setGradeLevels(gradeLevels.filter(g => g.id !== selectedGrade.id));
     setIsDeleteModalVisible(false);
       toast.show('Grade Level deleted successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error deleting grade level:', error);
-      let errorMessage = 'Failed to delete grade level. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to delete grade level. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -421,60 +309,26 @@ export default function GradeLevelManagement() {
           setLoading(true);
           if (isEdit && selectedGrade) {
             // Handle edit
-            const response = await fetchWithTimeout(`${API_URL}/grade-levels/${selectedGrade.id}`, {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Update response:', data);
-
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to update grade level');
-            }
+            const saved = await api.gradeLevels.update(selectedGrade.id, validatedData);
 
             setGradeLevels(prev => prev.map(grade => 
-              grade.id === selectedGrade.id ? data.data : grade
+              grade.id === selectedGrade.id ? saved : grade
             ));
             setIsEditModalVisible(false);
             setSelectedGrade(null);
             toast.show('Grade Level updated successfully!', { type: 'success' });
           } else {
             // Handle add
-            const response = await fetchWithTimeout(`${API_URL}/grade-levels`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Add response:', data);
+            const saved = await api.gradeLevels.create(validatedData);
 
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to add grade level');
-            }
-
-            setGradeLevels(prev => [data.data, ...prev]);
+            setGradeLevels(prev => [saved, ...prev]);
             setIsAddModalVisible(false);
             toast.show('Grade Level added successfully!', { type: 'success' });
           }
           setFormData(INITIAL_FORM_DATA);
         } catch (error: any) {
           console.error('Error submitting grade level:', error);
-          let errorMessage = `Failed to ${isEdit ? 'update' : 'add'} grade level. `;
-          
-          if (error instanceof TypeError && error.message === 'Network request failed') {
-            errorMessage += 'Please check your internet connection and try again.';
-          } else if (error.name === 'AbortError') {
-            errorMessage += 'Request timed out. Please try again.';
-          } else {
-            errorMessage += error.message || 'An unexpected error occurred.';
-          }
+          const errorMessage = `Failed to ${isEdit ? 'update' : 'add'} grade level. ${getErrorMessage(error)}`;
           
           toast.show(errorMessage, { type: 'error' });
         } finally {
@@ -554,23 +408,26 @@ export default function GradeLevelManagement() {
             onChangeText={setSearchQuery}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#fff" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#fff" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Grade Levels</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={handleAddGrade}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add Grade Level</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Grade Levels"
+            columns={GRADE_LEVEL_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.gradeLevels.list({ page, limit, search: searchQuery })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={handleAddGrade}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add Grade Level</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {loading ? (
@@ -731,26 +588,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -766,6 +603,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,825 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { api, ApiError, DayOfWeek, getErrorMessage, Schedule, Section, Subject, Teacher } from '../../config/api';
+import { formatTimeRange, WEEKDAYS } from '../../constants/Schedule';
+
+interface FormData {
+  subject_id: number | null;
+  section_id: number | null;
+  teacher_id: number | null;
+  room: string;
+  day_of_week: DayOfWeek;
+  start_time: string;
+  end_time: string;
+}
+
+const INITIAL_FORM_DATA: FormData = {
+  subject_id: null,
+  section_id: null,
+  teacher_id: null,
+  room: '',
+  day_of_week: 1,
+  start_time: '',
+  end_time: '',
+};
+
+const OPTIONS_LIMIT = 100;
+const SCHEDULES_LIMIT = 100;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export default function ScheduleManagement() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [sectionFilter, setSectionFilter] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const toast = useToast();
+
+  // Modal states
+  const [isFormVisible, setIsFormVisible] = useState(false);
+  const [isDeleteModalVisible, setIsDeleteModalVisible] = useState(false);
+  const [selectedSchedule, setSelectedSchedule] = useState<Schedule | null>(null);
+
+  // Form states
+  const [formData, setFormData] = useState<FormData>(INITIAL_FORM_DATA);
+  const [formErrors, setFormErrors] = useState<Record<string, string[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchOptions = async () => {
+    try {
+      const [subjectPage, sectionPage, teacherPage] = await Promise.all([
+        api.subjects.list({ limit: OPTIONS_LIMIT }),
+        api.sections.list({ limit: OPTIONS_LIMIT }),
+        api.teachers.list({ limit: OPTIONS_LIMIT }),
+      ]);
+      setSubjects(subjectPage.items);
+      setSections(sectionPage.items);
+      setTeachers(teacherPage.items);
+    } catch (error) {
+      console.error('Error fetching schedule options:', error);
+      toast.show(getErrorMessage(error), { type: 'danger', placement: 'top', duration: 4000 });
+    }
+  };
+
+  const fetchSchedules = async () => {
+    try {
+      setLoading(!isRefreshing);
+      setError(null);
+      const { items } = await api.schedules.list({
+        limit: SCHEDULES_LIMIT,
+        section_id: sectionFilter ?? undefined,
+      });
+      setSchedules(items);
+    } catch (error) {
+      console.error('Error fetching schedules:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [sectionFilter]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchSchedules();
+  };
+
+  const handleAddSchedule = () => {
+    setSelectedSchedule(null);
+    setFormData({ ...INITIAL_FORM_DATA, section_id: sectionFilter });
+    setFormErrors({});
+    setIsFormVisible(true);
+  };
+
+  const handleEditSchedule = (schedule: Schedule) => {
+    setSelectedSchedule(schedule);
+    setFormData({
+      subject_id: schedule.subject_id,
+      section_id: schedule.section_id,
+      teacher_id: schedule.teacher_id,
+      room: schedule.room || '',
+      day_of_week: schedule.day_of_week,
+      start_time: schedule.start_time,
+      end_time: schedule.end_time,
+    });
+    setFormErrors({});
+    setIsFormVisible(true);
+  };
+
+  const handleDeleteSchedule = (schedule: Schedule) => {
+    setSelectedSchedule(schedule);
+    setIsDeleteModalVisible(true);
+  };
+
+  const handleChange = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (formErrors[field]) {
+      setFormErrors(prev => ({ ...prev, [field]: [] }));
+    }
+  };
+
+  const validateForm = () => {
+    const errors: Record<string, string[]> = {};
+    if (!formData.subject_id) errors.subject_id = ['Subject is required'];
+    if (!formData.section_id) errors.section_id = ['Section is required'];
+    if (!TIME_PATTERN.test(formData.start_time)) errors.start_time = ['Start time must be in HH:MM format'];
+    if (!TIME_PATTERN.test(formData.end_time)) errors.end_time = ['End time must be in HH:MM format'];
+    if (!errors.start_time && !errors.end_time && formData.end_time <= formData.start_time) {
+      errors.end_time = ['End time must be after the start time'];
+    }
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    const payload = {
+      subject_id: formData.subject_id!,
+      section_id: formData.section_id!,
+      teacher_id: formData.teacher_id,
+      room: formData.room.trim() || null,
+      day_of_week: formData.day_of_week,
+      start_time: formData.start_time,
+      end_time: formData.end_time,
+    };
+
+    try {
+      setIsSaving(true);
+      if (selectedSchedule) {
+        await api.schedules.update(selectedSchedule.id, payload);
+      } else {
+        await api.schedules.create(payload);
+      }
+      toast.show(`Schedule ${selectedSchedule ? 'updated' : 'created'} successfully`, {
+        type: 'success',
+        placement: 'top',
+        duration: 3000,
+      });
+      setIsFormVisible(false);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      if (error instanceof ApiError && error.status === 422 && error.errors) {
+        // Overlapping slots come back as errors on teacher_id, room or section_id
+        setFormErrors(error.errors);
+      } else {
+        toast.show(getErrorMessage(error), { type: 'danger', placement: 'top', duration: 4000 });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!selectedSchedule) return;
+
+    try {
+      await api.schedules.remove(selectedSchedule.id);
+      toast.show('Schedule deleted successfully', { type: 'success', placement: 'top', duration: 3000 });
+      setSchedules(prev => prev.filter(schedule => schedule.id !== selectedSchedule.id));
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      toast.show(getErrorMessage(error), { type: 'danger', placement: 'top', duration: 4000 });
+    } finally {
+      setIsDeleteModalVisible(false);
+      setSelectedSchedule(null);
+    }
+  };
+
+  const hasError = (field: keyof FormData) => Boolean(formErrors[field]?.length);
+
+  const renderFieldError = (field: keyof FormData) => (
+    hasError(field) ? <Text style={styles.errorText}>{formErrors[field].join('\n')}</Text> : null
+  );
+
+  const renderSchedule = ({ item }: { item: Schedule }) => (
+    <View style={styles.scheduleCard}>
+      <View style={styles.scheduleInfo}>
+        <View style={[styles.avatar, styles.avatarPlaceholder]}>
+          <MaterialIcons name="schedule" size={30} color="#666" />
+        </View>
+        <View style={styles.scheduleDetails}>
+          <Text style={styles.scheduleName}>
+            {item.subject ? `${item.subject.code} — ${item.subject.name}` : `Subject #${item.subject_id}`}
+          </Text>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>When:</Text>
+            <Text style={styles.detailValue}>{item.day}, {formatTimeRange(item.start_time, item.end_time)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Section:</Text>
+            <Text style={styles.detailValue}>{item.section?.name || `#${item.section_id}`}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Teacher:</Text>
+            <Text style={styles.detailValue}>{item.teacher?.name || 'Unassigned'}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Room:</Text>
+            <Text style={styles.detailValue}>{item.room || 'Not set'}</Text>
+          </View>
+        </View>
+      </View>
+      <View style={styles.actionButtons}>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.editButton]}
+          onPress={() => handleEditSchedule(item)}
+        >
+          <Text style={styles.actionButtonText}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.deleteButton]}
+          onPress={() => handleDeleteSchedule(item)}
+        >
+          <Text style={styles.actionButtonText}>Delete</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" />
+      <View style={styles.header}>
+        <View style={styles.filterContainer}>
+          <Picker
+            selectedValue={sectionFilter ?? ''}
+            onValueChange={(value) => setSectionFilter(value === '' ? null : Number(value))}
+          >
+            <Picker.Item label="All sections" value="" />
+            {sections.map(section => (
+              <Picker.Item key={section.id} label={section.name} value={section.id} />
+            ))}
+          </Picker>
+        </View>
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title}>Class Schedules</Text>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={handleAddSchedule}
+        >
+          <MaterialIcons name="add" size={24} color="#fff" />
+          <Text style={styles.addButtonText}>Add Schedule</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading schedules...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={fetchSchedules}
+          >
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={schedules}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderSchedule}
+          onRefresh={handleRefresh}
+          refreshing={isRefreshing}
+          ListEmptyComponent={() => (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="event-busy" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No classes scheduled yet</Text>
+            </View>
+          )}
+          contentContainerStyle={styles.scheduleList}
+        />
+      )}
+
+      <Modal
+        visible={isFormVisible}
+        animationType="slide"
+        transparent={true}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.formContainer}>
+            <ScrollView>
+              <View style={styles.formHeader}>
+                <Text style={styles.formTitle}>{selectedSchedule ? 'Edit Schedule' : 'Add Schedule'}</Text>
+                <TouchableOpacity onPress={() => setIsFormVisible(false)}>
+                  <MaterialIcons name="close" size={24} color="#666" />
+                </TouchableOpacity>
+              </View>
+
+              <Text style={styles.inputLabel}>Subject *</Text>
+              <View style={[styles.pickerContainer, hasError('subject_id') && styles.inputError]}>
+                <Picker
+                  selectedValue={formData.subject_id ?? ''}
+                  onValueChange={(value) => handleChange('subject_id', value === '' ? null : Number(value))}
+                >
+                  <Picker.Item label="Select subject" value="" />
+                  {subjects.map(subject => (
+                    <Picker.Item key={subject.id} label={`${subject.code} — ${subject.name}`} value={subject.id} />
+                  ))}
+                </Picker>
+              </View>
+              {renderFieldError('subject_id')}
+
+              <Text style={styles.inputLabel}>Section *</Text>
+              <View style={[styles.pickerContainer, hasError('section_id') && styles.inputError]}>
+                <Picker
+                  selectedValue={formData.section_id ?? ''}
+                  onValueChange={(value) => handleChange('section_id', value === '' ? null : Number(value))}
+                >
+                  <Picker.Item label="Select section" value="" />
+                  {sections.map(section => (
+                    <Picker.Item key={section.id} label={section.name} value={section.id} />
+                  ))}
+                </Picker>
+              </View>
+              {renderFieldError('section_id')}
+
+              <Text style={styles.inputLabel}>Teacher</Text>
+              <View style={[styles.pickerContainer, hasError('teacher_id') && styles.inputError]}>
+                <Picker
+                  selectedValue={formData.teacher_id ?? ''}
+                  onValueChange={(value) => handleChange('teacher_id', value === '' ? null : Number(value))}
+                >
+                  <Picker.Item label="Unassigned" value="" />
+                  {teachers.map(teacher => (
+                    <Picker.Item key={teacher.id} label={teacher.name} value={teacher.id} />
+                  ))}
+                </Picker>
+              </View>
+              {renderFieldError('teacher_id')}
+
+              <Text style={styles.inputLabel}>Room</Text>
+              <TextInput
+                style={[styles.input, hasError('room') && styles.inputError]}
+                value={formData.room}
+                onChangeText={(text) => handleChange('room', text)}
+                placeholder="e.g. Room 204"
+              />
+              {renderFieldError('room')}
+
+              <Text style={styles.inputLabel}>Day *</Text>
+              <View style={[styles.pickerContainer, hasError('day_of_week') && styles.inputError]}>
+                <Picker
+                  selectedValue={formData.day_of_week}
+                  onValueChange={(value) => handleChange('day_of_week', Number(value) as DayOfWeek)}
+                >
+                  {WEEKDAYS.map(day => (
+                    <Picker.Item key={day.value} label={day.label} value={day.value} />
+                  ))}
+                </Picker>
+              </View>
+              {renderFieldError('day_of_week')}
+
+              <View style={styles.timeRow}>
+                <View style={styles.timeField}>
+                  <Text style={styles.inputLabel}>Start (HH:MM) *</Text>
+                  <TextInput
+                    style={[styles.input, hasError('start_time') && styles.inputError]}
+                    value={formData.start_time}
+                    onChangeText={(text) => handleChange('start_time', text.trim())}
+                    placeholder="08:00"
+                    maxLength={5}
+                  />
+                  {renderFieldError('start_time')}
+                </View>
+                <View style={styles.timeField}>
+                  <Text style={styles.inputLabel}>End (HH:MM) *</Text>
+                  <TextInput
+                    style={[styles.input, hasError('end_time') && styles.inputError]}
+                    value={formData.end_time}
+                    onChangeText={(text) => handleChange('end_time', text.trim())}
+                    placeholder="09:30"
+                    maxLength={5}
+                  />
+                  {renderFieldError('end_time')}
+                </View>
+              </View>
+
+              <View style={styles.formActions}>
+                <TouchableOpacity
+                  style={styles.cancelButton}
+                  onPress={() => setIsFormVisible(false)}
+                >
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, isSaving && styles.submitButtonDisabled]}
+                  onPress={handleSubmit}
+                  disabled={isSaving}
+                >
+                  <Text style={styles.submitButtonText}>
+                    {isSaving ? 'Saving...' : selectedSchedule ? 'Update' : 'Add'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={isDeleteModalVisible}
+        animationType="fade"
+        transparent={true}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.deleteConfirmation}>
+            <Text style={styles.deleteTitle}>Are you sure you want to delete this schedule?</Text>
+            <Text style={styles.deleteMessage}>
+              The class will be removed from the section's timetable.
+            </Text>
+            <View style={styles.deleteActions}>
+              <TouchableOpacity
+                style={[styles.deleteAction, styles.cancelDelete]}
+                onPress={() => setIsDeleteModalVisible(false)}
+              >
+                <Text style={styles.deleteActionText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.deleteAction, styles.confirmDelete]}
+                onPress={handleConfirmDelete}
+              >
+                <Text style={styles.deleteActionText}>Delete</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1a73e8',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  filterContainer: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  scheduleList: {
+    padding: 12,
+  },
+  scheduleCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  scheduleInfo: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    marginRight: 16,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scheduleDetails: {
+    flex: 1,
+  },
+  scheduleName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 6,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  detailLabel: {
+    width: 80,
+    fontSize: 13,
+    color: '#666',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  editButton: {
+    backgroundColor: '#1a73e8',
+  },
+  deleteButton: {
+    backgroundColor: '#ff4444',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  formContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 500,
+    maxHeight: '90%',
+    alignSelf: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 6px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  formHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 16,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginBottom: 16,
+    overflow: 'hidden',
+  },
+  inputError: {
+    borderColor: '#ff4444',
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 12,
+    marginTop: -12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  timeField: {
+    flex: 1,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  cancelButton: {
+    marginRight: 12,
+    padding: 12,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: '#1a73e8',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  deleteConfirmation: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    alignSelf: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 6px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  deleteTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  deleteMessage: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  deleteActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  deleteAction: {
+    padding: 12,
+    minWidth: 100,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelDelete: {
+    backgroundColor: '#f5f5f5',
+  },
+  confirmDelete: {
+    backgroundColor: '#ff4444',
+  },
+  deleteActionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,6 @@
 import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -6,6 +8,7 @@ import {
   Modal,
   Platform,
   SafeAreaView,
+  ScrollView,
   StatusBar,
   StyleSheet,
   Text,
@@ -14,59 +17,76 @@ import {
   View
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
+import { api, getErrorMessage, GradeLevel, Section, SectionInput, Strand, Teacher } from '../../config/api';
+import ExportButton from '../components/ExportButton';
+import { reportCardsHtml, sharePdf } from '../../utils/pdf';
+import TrashList, { TrashTabs } from '../components/TrashList';
+import { ExportColumn } from '../../utils/export';
+import NotificationBell from '../components/NotificationBell';
+import { formatEnrollment, isOverCapacity } from '../../constants/Section';
 
-interface Section {
-  id: number;
-  name: string;
-  description: string;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-}
-
+// Picker ids and the capacity are kept as strings while editing; "" means none
 interface FormData {
   name: string;
   description: string;
   is_active: boolean;
+  grade_level_id: string;
+  strand_id: string;
+  adviser_id: string;
+  room: string;
+  capacity: string;
 }
 
 const INITIAL_FORM_DATA: FormData = {
   name: '',
   description: '',
   is_active: true,
+  grade_level_id: '',
+  strand_id: '',
+  adviser_id: '',
+  room: '',
+  capacity: '',
 };
 
-const API_URL = 'http://192.168.0.100:3001/api';
 const DEBOUNCE_DELAY = 1000; // 1 second delay
 const ITEMS_PER_PAGE = 10;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds
+const OPTIONS_LIMIT = 100;
 
-// Add timeout configuration
-const fetchWithTimeout = async (url: string, options: RequestInit, timeout = 30000) => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': (options.headers as Record<string, string>)?.['Content-Type'] || 'application/json',
-      },
-    });
-    clearTimeout(id);
-    return response;
-  } catch (error: unknown) {
-    clearTimeout(id);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out. Please try again.');
-    }
-    throw error;
-  }
-};
+const SECTION_EXPORT_COLUMNS: ExportColumn<Section>[] = [
+  { label: 'Name', value: item => item.name },
+  { label: 'Description', value: item => item.description },
+  { label: 'Grade Level', value: item => item.grade_level?.name ?? '' },
+  { label: 'Strand', value: item => item.strand?.name ?? '' },
+  { label: 'Adviser', value: item => item.adviser?.name ?? '' },
+  { label: 'Room', value: item => item.room ?? '' },
+  { label: 'Students', value: item => item.students_count },
+  { label: 'Capacity', value: item => item.capacity ?? '' },
+  { label: 'Active', value: item => item.is_active ? 'Yes' : 'No' },
+];
+
+const toFormData = (section: Section): FormData => ({
+  name: section.name,
+  description: section.description || '',
+  is_active: section.is_active,
+  grade_level_id: section.grade_level_id ? String(section.grade_level_id) : '',
+  strand_id: section.strand_id ? String(section.strand_id) : '',
+  adviser_id: section.adviser_id ? String(section.adviser_id) : '',
+  room: section.room || '',
+  capacity: section.capacity ? String(section.capacity) : '',
+});
+
+const toSectionInput = (form: FormData): SectionInput => ({
+  name: form.name.trim(),
+  description: form.description?.trim() || '',
+  is_active: form.is_active,
+  grade_level_id: form.grade_level_id ? Number(form.grade_level_id) : null,
+  strand_id: form.strand_id ? Number(form.strand_id) : null,
+  adviser_id: form.adviser_id ? Number(form.adviser_id) : null,
+  room: form.room.trim() || null,
+  capacity: form.capacity.trim() ? Number(form.capacity) : null,
+});
 
 export default function SectionManagement() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -78,7 +98,15 @@ export default function SectionManagement() {
   const [hasMore, setHasMore] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [activeTab, setActiveTab] = useState<'active' | 'trash'>('active');
+  const [printingSectionId, setPrintingSectionId] = useState<number | null>(null);
   const toast = useToast();
+  const router = useRouter();
+
+  // Picker options for a section's grade level, strand and adviser
+  const [gradeLevels, setGradeLevels] = useState<GradeLevel[]>([]);
+  const [strands, setStrands] = useState<Strand[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
 
   // Modal states
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
@@ -102,9 +130,26 @@ export default function SectionManagement() {
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const fetchOptions = async () => {
+    try {
+      const [gradeLevelPage, strandPage, teacherPage] = await Promise.all([
+        api.gradeLevels.list({ limit: OPTIONS_LIMIT }),
+        api.strands.list({ limit: OPTIONS_LIMIT }),
+        api.teachers.list({ limit: OPTIONS_LIMIT }),
+      ]);
+      setGradeLevels(gradeLevelPage.items.filter(level => level.is_active));
+      setStrands(strandPage.items);
+      setTeachers(teacherPage.items);
+    } catch (error) {
+      console.error('Error fetching section options:', error);
+      toast.show(`Failed to load grade levels, strands and teachers. ${getErrorMessage(error)}`, { type: 'error' });
+    }
+  };
+
   // Initial fetch
   useEffect(() => {
     fetchSections(true);
+    fetchOptions();
   }, []);
 
   const fetchSections = async (isRefresh = false) => {
@@ -117,56 +162,27 @@ export default function SectionManagement() {
       }
 
       const currentPage = isRefresh ? 1 : page;
-      const url = `${API_URL}/sections?page=${currentPage}&limit=${ITEMS_PER_PAGE}&search=${encodeURIComponent(searchQuery)}`;
-      
-      console.log('Fetching sections from:', url);
-
-      const response = await fetchWithTimeout(
-        url,
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server error response:', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText
+      const { items, pagination } = await api.sections.list({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
+      });
+
+      if (isRefresh) {
+        setSections(items);
+        setPage(1);
+      } else {
+        // Filter out any potential duplicates before adding new items
+        setSections(prevSections => {
+          const existingIds = new Set(prevSections.map(section => section.id));
+          const uniqueNewSections = items.filter(section => !existingIds.has(section.id));
+          return [...prevSections, ...uniqueNewSections];
         });
-        throw new Error(`Server error: ${response.status} ${response.statusText}`);
       }
-      
-      const data = await response.json();
-      console.log('API Response:', data);
-      
-      if (data.success) {
-        console.log('Setting sections data:', data.data);
-        if (isRefresh) {
-          setSections(data.data || []);
-          setPage(1);
-        } else {
-          // Filter out any potential duplicates before adding new items
-          const newSections = data.data || [];
-          setSections(prevSections => {
-            const existingIds = new Set(prevSections.map(section => section.id));
-            const uniqueNewSections = newSections.filter((section: Section) => !existingIds.has(section.id));
-            return [...prevSections, ...uniqueNewSections];
-          });
-        }
-        setHasMore(data.totalPages > currentPage);
-        setRetryCount(0);
-        if (!isRefresh) {
-          setPage(prev => prev + 1);
-        }
-      } else {
-        console.error('API returned error:', data);
-        throw new Error(data.message || 'Failed to fetch sections');
+      setHasMore(pagination.last_page > currentPage);
+      setRetryCount(0);
+      if (!isRefresh) {
+        setPage(prev => prev + 1);
       }
     } catch (error: any) {
       console.error('Error in fetchSections:', {
@@ -175,15 +191,7 @@ export default function SectionManagement() {
         errorMessage: error instanceof Error ? error.message : String(error)
       });
       
-      let errorMessage = 'Could not connect to server. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check if the server is running and your internet connection is stable.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = getErrorMessage(error);
       
       setError(errorMessage);
       
@@ -220,14 +228,36 @@ export default function SectionManagement() {
 
   const handleEditSection = (section: Section) => {
     setSelectedSection(section);
-    setFormData({
-      name: section.name,
-      description: section.description || '',
-      is_active: section.is_active,
-    });
+    setFormData(toFormData(section));
     setIsEditModalVisible(true);
   };
 
+  const handleViewRoster = (section: Section) => {
+    router.push(`/admin/section/${section.id}` as any);
+  };
+
+  // Fetch every student's grades in the section and share them as one PDF,
+  // a page per student
+  const handlePrintReportCards = async (section: Section) => {
+    try {
+      setPrintingSectionId(section.id);
+      const { report_cards, settings } = await api.grades.forSection(section.id);
+      if (report_cards.length === 0) {
+        toast.show(`No students are assigned to ${section.name}`, { type: 'warning' });
+        return;
+      }
+      await sharePdf(
+        reportCardsHtml(`Report Cards - ${section.name}`, report_cards, settings),
+        `Share ${section.name} report cards`
+      );
+    } catch (error: any) {
+      console.error('Error printing report cards:', error);
+      toast.show(`Failed to generate report cards. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setPrintingSectionId(null);
+    }
+  };
+
   const handleDeleteSection = (section: Section) => {
     setSelectedSection(section);
     setIsDeleteModalVisible(true);
@@ -240,40 +270,15 @@ export default function SectionManagement() {
 
       console.log('Adding new section with data:', formData);
 
-      const response = await fetchWithTimeout(`${API_URL}/sections`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          description: formData.description?.trim() || '',
-          is_active: formData.is_active,
-        }),
-      });
-
-      const data = await response.json();
-      console.log('Add response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to add section');
-      }
+      const saved = await api.sections.create(toSectionInput(formData));
 
-      setSections([data.data, ...sections]);
+      setSections([saved, ...sections]);
       setIsAddModalVisible(false);
       setFormData(INITIAL_FORM_DATA);
       toast.show('Section added successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error adding section:', error);
-      let errorMessage = 'Failed to add section. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to add section. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -296,27 +301,10 @@ export default function SectionManagement() {
 
       console.log('Updating section with data:', formData);
 
-      const response = await fetchWithTimeout(`${API_URL}/sections/${selectedSection.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          description: formData.description?.trim() || '',
-          is_active: formData.is_active,
-        }),
-      });
-
-      const data = await response.json();
-      console.log('Update response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to update section');
-      }
+      const saved = await api.sections.update(selectedSection.id, toSectionInput(formData));
 
       setSections(sections.map(section => 
-        section.id === selectedSection.id ? data.data : section
+        section.id === selectedSection.id ? saved : section
       ));
     setIsEditModalVisible(false);
       setSelectedSection(null);
@@ -324,15 +312,7 @@ export default function SectionManagement() {
       toast.show('Section updated successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error updating section:', error);
-      let errorMessage = 'Failed to update section. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to update section. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -347,33 +327,14 @@ export default function SectionManagement() {
       setLoading(true);
       setError(null);
 
-      const response = await fetchWithTimeout(`${API_URL}/sections/${selectedSection.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to delete section');
-      }
+      await api.sections.remove(selectedSection.id);
 
       setSections(sections.filter(s => s.id !== selectedSection.id));
     setIsDeleteModalVisible(false);
-      toast.show('Section deleted successfully!', { type: 'success' });
+      toast.show('Section moved to trash.', { type: 'success' });
     } catch (error: any) {
       console.error('Error deleting section:', error);
-      let errorMessage = 'Failed to delete section. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to delete section. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -410,6 +371,11 @@ export default function SectionManagement() {
         errors.name = 'Section name is required';
       }
 
+      const capacity = localFormData.capacity.trim();
+      if (capacity && !/^[1-9]\d*$/.test(capacity)) {
+        errors.capacity = 'Capacity must be a whole number greater than 0';
+      }
+
       setFormErrors(errors);
       console.log('Form validation errors:', errors);
       return Object.keys(errors).length === 0;
@@ -417,12 +383,7 @@ export default function SectionManagement() {
 
     const handleSubmit = async () => {
       if (validateForm()) {
-        const validatedData = {
-          ...localFormData,
-          name: localFormData.name?.trim() || '',
-          description: localFormData.description?.trim() || '',
-          is_active: localFormData.is_active,
-        };
+        const validatedData = toSectionInput(localFormData);
         
         console.log('Submitting form data:', validatedData);
         
@@ -430,60 +391,26 @@ export default function SectionManagement() {
           setLoading(true);
           if (isEdit && selectedSection) {
             // Handle edit
-            const response = await fetchWithTimeout(`${API_URL}/sections/${selectedSection.id}`, {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Update response:', data);
-
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to update section');
-            }
+            const saved = await api.sections.update(selectedSection.id, validatedData);
 
             setSections(prev => prev.map(section => 
-              section.id === selectedSection.id ? data.data : section
+              section.id === selectedSection.id ? saved : section
             ));
             setIsEditModalVisible(false);
             setSelectedSection(null);
             toast.show('Section updated successfully!', { type: 'success' });
           } else {
             // Handle add
-            const response = await fetchWithTimeout(`${API_URL}/sections`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Add response:', data);
-
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to add section');
-            }
-
-            setSections(prev => [data.data, ...prev]);
+            const saved = await api.sections.create(validatedData);
+
+            setSections(prev => [saved, ...prev]);
             setIsAddModalVisible(false);
             toast.show('Section added successfully!', { type: 'success' });
           }
           setFormData(INITIAL_FORM_DATA);
         } catch (error: any) {
           console.error('Error submitting section:', error);
-          let errorMessage = `Failed to ${isEdit ? 'update' : 'add'} section. `;
-          
-          if (error instanceof TypeError && error.message === 'Network request failed') {
-            errorMessage += 'Please check your internet connection and try again.';
-          } else if (error.name === 'AbortError') {
-            errorMessage += 'Request timed out. Please try again.';
-          } else {
-            errorMessage += error.message || 'An unexpected error occurred.';
-          }
+          const errorMessage = `Failed to ${isEdit ? 'update' : 'add'} section. ${getErrorMessage(error)}`;
           
           toast.show(errorMessage, { type: 'error' });
         } finally {
@@ -508,24 +435,86 @@ export default function SectionManagement() {
           </TouchableOpacity>
         </View>
 
-        <Text style={styles.inputLabel}>Name *</Text>
-        <TextInput
-          style={[styles.input, formErrors.name && styles.inputError]}
-          value={localFormData.name}
-          onChangeText={(text) => handleLocalChange('name', text)}
-          placeholder="Enter section name"
-        />
-        {formErrors.name && <Text style={styles.errorText}>{formErrors.name}</Text>}
-
-        <Text style={styles.inputLabel}>Description</Text>
-        <TextInput
-          style={styles.input}
-          value={localFormData.description}
-          onChangeText={(text) => handleLocalChange('description', text)}
-          placeholder="Enter description"
-          multiline
-          numberOfLines={3}
-        />
+        <ScrollView style={styles.formBody}>
+          <Text style={styles.inputLabel}>Name *</Text>
+          <TextInput
+            style={[styles.input, formErrors.name && styles.inputError]}
+            value={localFormData.name}
+            onChangeText={(text) => handleLocalChange('name', text)}
+            placeholder="Enter section name"
+          />
+          {formErrors.name && <Text style={styles.errorText}>{formErrors.name}</Text>}
+
+          <Text style={styles.inputLabel}>Description</Text>
+          <TextInput
+            style={styles.input}
+            value={localFormData.description}
+            onChangeText={(text) => handleLocalChange('description', text)}
+            placeholder="Enter description"
+            multiline
+            numberOfLines={3}
+          />
+
+          <Text style={styles.inputLabel}>Grade Level</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={localFormData.grade_level_id}
+              onValueChange={(value) => handleLocalChange('grade_level_id', String(value))}
+              style={styles.picker}
+            >
+              <Picker.Item label="Select Grade Level" value="" />
+              {gradeLevels.map((level) => (
+                <Picker.Item key={level.id} label={level.name} value={String(level.id)} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.inputLabel}>Strand</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={localFormData.strand_id}
+              onValueChange={(value) => handleLocalChange('strand_id', String(value))}
+              style={styles.picker}
+            >
+              <Picker.Item label="Select Strand" value="" />
+              {strands.map((strand) => (
+                <Picker.Item key={strand.id} label={strand.name} value={String(strand.id)} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.inputLabel}>Adviser</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={localFormData.adviser_id}
+              onValueChange={(value) => handleLocalChange('adviser_id', String(value))}
+              style={styles.picker}
+            >
+              <Picker.Item label="Select Adviser" value="" />
+              {teachers.map((teacher) => (
+                <Picker.Item key={teacher.id} label={teacher.name} value={String(teacher.id)} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.inputLabel}>Room</Text>
+          <TextInput
+            style={styles.input}
+            value={localFormData.room}
+            onChangeText={(text) => handleLocalChange('room', text)}
+            placeholder="Enter room"
+          />
+
+          <Text style={styles.inputLabel}>Capacity</Text>
+          <TextInput
+            style={[styles.input, !!formErrors.capacity && styles.inputError]}
+            value={localFormData.capacity}
+            onChangeText={(text) => handleLocalChange('capacity', text)}
+            placeholder="Maximum number of students"
+            keyboardType="number-pad"
+          />
+          {formErrors.capacity && <Text style={styles.errorText}>{formErrors.capacity}</Text>}
+        </ScrollView>
 
         <View style={styles.formActions}>
           <TouchableOpacity
@@ -563,26 +552,39 @@ export default function SectionManagement() {
             onChangeText={setSearchQuery}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#fff" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#fff" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Sections</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={handleAddSection}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add Section</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Sections"
+            columns={SECTION_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.sections.list({ page, limit, search: searchQuery })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={handleAddSection}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add Section</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {loading ? (
+      <TrashTabs value={activeTab} onChange={setActiveTab} />
+
+      {activeTab === 'trash' ? (
+        <TrashList
+          label="section"
+          icon="school"
+          resource={api.sections}
+          searchQuery={searchQuery}
+          onRestored={(restored) => setSections(prev => [restored, ...prev])}
+        />
+      ) : loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#1a73e8" />
           <Text style={styles.loadingText}>Loading sections...</Text>
@@ -621,6 +623,26 @@ export default function SectionManagement() {
                     <Text style={styles.detailLabel}>Description:</Text>
                     <Text style={styles.detailValue}>{item.description || 'No description'}</Text>
                   </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Placement:</Text>
+                    <Text style={styles.detailValue}>
+                      {[item.grade_level?.name, item.strand?.name].filter(Boolean).join(' • ') || 'Not Set'}
+                    </Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Adviser:</Text>
+                    <Text style={styles.detailValue}>{item.adviser?.name || 'No adviser'}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Room:</Text>
+                    <Text style={styles.detailValue}>{item.room || 'Not Set'}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Students:</Text>
+                    <Text style={[styles.detailValue, isOverCapacity(item) && styles.overCapacity]}>
+                      {formatEnrollment(item)}
+                    </Text>
+                  </View>
                   <View style={styles.detailRow}>
                     <Text style={styles.detailLabel}>Status:</Text>
                     <Text style={styles.detailValue}>{item.is_active ? 'Active' : 'Inactive'}</Text>
@@ -628,6 +650,21 @@ export default function SectionManagement() {
                 </View>
               </View>
               <View style={styles.actionButtons}>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.rosterButton]}
+                  onPress={() => handleViewRoster(item)}
+                >
+                  <Text style={styles.actionButtonText}>Roster</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.actionButton, styles.printButton, printingSectionId !== null && styles.submitButtonDisabled]}
+                  onPress={() => handlePrintReportCards(item)}
+                  disabled={printingSectionId !== null}
+                >
+                  <Text style={styles.actionButtonText}>
+                    {printingSectionId === item.id ? 'Generating...' : 'Report Cards'}
+                  </Text>
+                </TouchableOpacity>
                 <TouchableOpacity
                   style={[styles.actionButton, styles.editButton]}
                   onPress={() => handleEditSection(item)}
@@ -688,7 +725,7 @@ export default function SectionManagement() {
           <View style={styles.deleteConfirmation}>
             <Text style={styles.deleteTitle}>Are you sure you want to delete this section?</Text>
             <Text style={styles.deleteMessage}>
-              This action cannot be undone. This will permanently delete the section record.
+              The section will be moved to the trash. You can restore it from the Trash tab.
             </Text>
             <View style={styles.deleteActions}>
               <TouchableOpacity
@@ -741,26 +778,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -776,6 +793,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -868,6 +889,15 @@ const styles = StyleSheet.create({
   editButton: {
     backgroundColor: '#1a73e8',
   },
+  printButton: {
+    backgroundColor: '#34a853',
+  },
+  rosterButton: {
+    backgroundColor: '#fa7b17',
+  },
+  overCapacity: {
+    color: '#ff4444',
+  },
   deleteButton: {
     backgroundColor: '#ff4444',
   },
@@ -904,6 +934,9 @@ const styles = StyleSheet.create({
       }
     }),
   },
+  formBody: {
+    maxHeight: 420,
+  },
   formHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -932,6 +965,15 @@ const styles = StyleSheet.create({
   inputError: {
     borderColor: '#ff4444',
   },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  picker: {
+    height: 50,
+  },
   errorText: {
     color: '#ff4444',
     fontSize: 12,
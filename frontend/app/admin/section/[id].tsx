@@ -0,0 +1,441 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Image,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { api, getErrorMessage, Section, Student } from '../../../config/api';
+import { formatEnrollment, isOverCapacity } from '../../../constants/Section';
+
+const PAGE_SIZE = 20;
+
+// One section's details and the students assigned to it, counted against
+// its capacity
+export default function SectionRosterScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [section, setSection] = useState<Section | null>(null);
+  const [students, setStudents] = useState<Student[]>([]);
+  const [studentCount, setStudentCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStudents = (pageToLoad: number) => api.students.list({
+    section_id: Number(id),
+    sort: 'name',
+    page: pageToLoad,
+    limit: PAGE_SIZE,
+  });
+
+  const fetchRoster = async (showLoading = true) => {
+    try {
+      if (showLoading) setLoading(true);
+      setError(null);
+      const [sectionData, { items, pagination }] = await Promise.all([
+        api.sections.get(Number(id)),
+        fetchStudents(1),
+      ]);
+      setSection(sectionData);
+      setStudents(items);
+      setStudentCount(pagination.total);
+      setPage(1);
+      setHasMore(pagination.current_page < pagination.last_page);
+    } catch (error) {
+      console.error('Error fetching section roster:', error);
+      setError(`Failed to load section. ${getErrorMessage(error)}`);
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoster();
+  }, [id]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchRoster(false);
+  };
+
+  const handleLoadMore = async () => {
+    if (loading || isLoadingMore || !hasMore) return;
+    try {
+      setIsLoadingMore(true);
+      const { items, pagination } = await fetchStudents(page + 1);
+      setStudents(prev => [...prev, ...items]);
+      setStudentCount(pagination.total);
+      setPage(page + 1);
+      setHasMore(pagination.current_page < pagination.last_page);
+    } catch (error) {
+      console.error('Error fetching more students:', error);
+      setError(`Failed to load more students. ${getErrorMessage(error)}`);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const renderHeader = (title: string) => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.canGoBack() ? router.back() : router.replace('/admin/section' as any)}
+      >
+        <MaterialIcons name="arrow-back" size={24} color="#fff" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle} numberOfLines={1}>{title}</Text>
+      <View style={styles.backButton} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        {renderHeader('Section')}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading section...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (!section) {
+    return (
+      <View style={styles.container}>
+        {renderHeader('Section')}
+        <View style={styles.centered}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error || 'Section not found'}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchRoster()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  // The roster count is the live one; the section's own may predate it
+  const enrollment = { students_count: studentCount, capacity: section.capacity };
+  const overCapacity = isOverCapacity(enrollment);
+  const fill = section.capacity ? Math.min(1, studentCount / section.capacity) : 0;
+
+  const renderOverview = () => (
+    <View>
+      <View style={styles.card}>
+        <View style={styles.titleRow}>
+          <View style={styles.titleText}>
+            <Text style={styles.sectionName}>{section.name}</Text>
+            <Text style={styles.sectionDescription}>{section.description || 'No description'}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: section.is_active ? '#4CAF50' : '#F44336' }]}>
+            <Text style={styles.statusText}>{section.is_active ? 'Active' : 'Inactive'}</Text>
+          </View>
+        </View>
+        <View style={styles.detailRow}>
+          <View style={styles.detailColumn}>
+            <Text style={styles.detailLabel}>Grade Level</Text>
+            <Text style={styles.detailValue}>{section.grade_level?.name || 'Not Set'}</Text>
+          </View>
+          <View style={styles.detailColumn}>
+            <Text style={styles.detailLabel}>Strand</Text>
+            <Text style={styles.detailValue}>{section.strand?.name || 'No Strand'}</Text>
+          </View>
+        </View>
+        <View style={styles.detailRow}>
+          <View style={styles.detailColumn}>
+            <Text style={styles.detailLabel}>Adviser</Text>
+            <Text style={styles.detailValue}>{section.adviser?.name || 'No adviser'}</Text>
+          </View>
+          <View style={styles.detailColumn}>
+            <Text style={styles.detailLabel}>Room</Text>
+            <Text style={styles.detailValue}>{section.room || 'Not Set'}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.detailLabel}>Enrollment</Text>
+        <Text style={[styles.enrollmentText, overCapacity && styles.overCapacityText]}>
+          {formatEnrollment(enrollment)}
+        </Text>
+        {section.capacity ? (
+          <View style={styles.capacityTrack}>
+            <View
+              style={[
+                styles.capacityFill,
+                { width: `${fill * 100}%`, backgroundColor: overCapacity ? '#ea4335' : fill >= 0.9 ? '#fbbc04' : '#34a853' },
+              ]}
+            />
+          </View>
+        ) : (
+          <Text style={styles.hint}>No capacity is set for this section.</Text>
+        )}
+        {overCapacity && (
+          <Text style={styles.overCapacityText}>
+            {studentCount - (section.capacity ?? 0)} student(s) over capacity
+          </Text>
+        )}
+      </View>
+
+      <Text style={styles.rosterTitle}>Roster ({studentCount})</Text>
+      {error && <Text style={styles.inlineError}>{error}</Text>}
+    </View>
+  );
+
+  const renderStudent = ({ item }: { item: Student }) => (
+    <View style={styles.studentRow}>
+      {item.avatar_url ? (
+        <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
+      ) : (
+        <View style={[styles.avatar, styles.avatarPlaceholder]}>
+          <MaterialIcons name="person" size={22} color="#666" />
+        </View>
+      )}
+      <View style={styles.studentText}>
+        <Text style={styles.studentName}>{item.name}</Text>
+        <Text style={styles.studentMeta}>
+          {[item.gender, item.grade_level?.name, item.strand?.name].filter(Boolean).join(' • ')}
+        </Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {renderHeader(section.name)}
+      <FlatList
+        data={students}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={renderStudent}
+        ListHeaderComponent={renderOverview}
+        ListEmptyComponent={() => (
+          <View style={styles.emptyContainer}>
+            <MaterialIcons name="people-outline" size={48} color="#ccc" />
+            <Text style={styles.emptyText}>No students are assigned to this section yet.</Text>
+          </View>
+        )}
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator color="#1a73e8" style={styles.footerLoader} /> : null}
+        onRefresh={handleRefresh}
+        refreshing={isRefreshing}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        contentContainerStyle={styles.content}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#1a73e8',
+    padding: 16,
+    paddingTop: (StatusBar.currentHeight || 0) + 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#ff4444',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  content: {
+    padding: 16,
+    width: '100%',
+    maxWidth: 840,
+    alignSelf: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  titleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sectionName: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  detailColumn: {
+    flex: 1,
+    marginRight: 16,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  detailValue: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  enrollmentText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  overCapacityText: {
+    color: '#ea4335',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  capacityTrack: {
+    height: 12,
+    backgroundColor: '#f1f3f4',
+    borderRadius: 6,
+    overflow: 'hidden',
+    marginBottom: 8,
+  },
+  capacityFill: {
+    height: '100%',
+    borderRadius: 6,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+  },
+  rosterTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  inlineError: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  studentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    marginRight: 12,
+  },
+  avatarPlaceholder: {
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  studentText: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 15,
+    color: '#333',
+    fontWeight: '500',
+  },
+  studentMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+});
@@ -14,15 +14,11 @@ import {
   View
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
-
-interface Strand {
-  id: number;
-  name: string;
-  description: string;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-}
+import { api, getErrorMessage, Strand } from '../../config/api';
+import TrashList, { TrashTabs } from '../components/TrashList';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn } from '../../utils/export';
+import NotificationBell from '../components/NotificationBell';
 
 interface FormData {
   name: string;
@@ -34,62 +30,15 @@ const INITIAL_FORM_DATA: FormData = {
   description: '',
 };
 
-const API_URL = 'http://192.168.0.100:3001/api';
 const DEBOUNCE_DELAY = 1000; // 1 second delay
 const ITEMS_PER_PAGE = 10;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds
 
-// Add timeout configuration
-const fetchWithTimeout = async (url: string, options: RequestInit, timeout = 30000) => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    console.log('Making request to:', url);
-    console.log('Request options:', {
-      method: options.method,
-      headers: options.headers,
-      signal: controller.signal
-    });
-
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': (options.headers as Record<string, string>)?.['Content-Type'] || 'application/json',
-      },
-    });
-
-    clearTimeout(id);
-    
-    console.log('Response received:', {
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-
-    return response;
-  } catch (error: unknown) {
-    clearTimeout(id);
-    console.error('Fetch error details:', {
-      error,
-      errorType: error instanceof Error ? error.constructor.name : typeof error,
-      errorMessage: error instanceof Error ? error.message : String(error)
-    });
-    
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request timed out. Please try again.');
-      }
-      if (error.message.includes('Failed to fetch')) {
-        throw new Error('Could not connect to the server. Please check if the server is running and accessible.');
-      }
-    }
-    throw error;
-  }
-};
+const STRAND_EXPORT_COLUMNS: ExportColumn<Strand>[] = [
+  { label: 'Name', value: item => item.name },
+  { label: 'Description', value: item => item.description },
+];
 
 export default function StrandManagement() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -101,6 +50,7 @@ export default function StrandManagement() {
   const [hasMore, setHasMore] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [activeTab, setActiveTab] = useState<'active' | 'trash'>('active');
   const toast = useToast();
 
   // Modal states
@@ -140,56 +90,27 @@ export default function StrandManagement() {
       }
 
       const currentPage = isRefresh ? 1 : page;
-      const url = `${API_URL}/strands?page=${currentPage}&limit=${ITEMS_PER_PAGE}&search=${encodeURIComponent(searchQuery)}`;
-      
-      console.log('Fetching strands from:', url);
+      const { items, pagination } = await api.strands.list({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
+      });
 
-      const response = await fetchWithTimeout(
-        url,
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server error response:', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText
+      if (isRefresh) {
+        setStrands(items);
+        setPage(1);
+      } else {
+        // Filter out any potential duplicates before adding new items
+        setStrands(prevStrands => {
+          const existingIds = new Set(prevStrands.map(strand => strand.id));
+          const uniqueNewStrands = items.filter(strand => !existingIds.has(strand.id));
+          return [...prevStrands, ...uniqueNewStrands];
         });
-        throw new Error(`Server error: ${response.status} ${response.statusText}`);
       }
-      
-      const data = await response.json();
-      console.log('API Response:', data);
-      
-      if (data.success) {
-        console.log('Setting strands data:', data.strands);
-        if (isRefresh) {
-          setStrands(data.strands || []);
-          setPage(1);
-        } else {
-          // Filter out any potential duplicates before adding new items
-          const newStrands = data.strands || [];
-          setStrands(prevStrands => {
-            const existingIds = new Set(prevStrands.map(strand => strand.id));
-            const uniqueNewStrands = newStrands.filter((strand: Strand) => !existingIds.has(strand.id));
-            return [...prevStrands, ...uniqueNewStrands];
-          });
-        }
-        setHasMore(data.total > (currentPage * ITEMS_PER_PAGE));
-        setRetryCount(0);
-        if (!isRefresh) {
-          setPage(prev => prev + 1);
-        }
-      } else {
-        console.error('API returned error:', data);
-        throw new Error(data.message || 'Failed to fetch strands');
+      setHasMore(pagination.total > (currentPage * ITEMS_PER_PAGE));
+      setRetryCount(0);
+      if (!isRefresh) {
+        setPage(prev => prev + 1);
       }
     } catch (error: any) {
       console.error('Error in fetchStrands:', {
@@ -198,15 +119,7 @@ export default function StrandManagement() {
         errorMessage: error instanceof Error ? error.message : String(error)
       });
       
-      let errorMessage = 'Could not connect to server. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check if the server is running and your internet connection is stable.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = getErrorMessage(error);
       
       setError(errorMessage);
       
@@ -268,26 +181,13 @@ export default function StrandManagement() {
         return;
       }
 
-      const response = await fetchWithTimeout(`${API_URL}/strands/${selectedStrand.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          description: formData.description.trim(),
-        }),
+      const saved = await api.strands.update(selectedStrand.id, {
+        name: formData.name.trim(),
+        description: formData.description.trim(),
       });
 
-      const data = await response.json();
-      console.log('Update response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to update strand');
-      }
-
       setStrands(strands.map(strand => 
-        strand.id === selectedStrand.id ? data.strand : strand
+        strand.id === selectedStrand.id ? saved : strand
       ));
       setIsEditModalVisible(false);
       setSelectedStrand(null);
@@ -295,15 +195,7 @@ export default function StrandManagement() {
       toast.show('Strand updated successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error updating strand:', error);
-      let errorMessage = 'Failed to update strand. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to update strand. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -321,39 +213,18 @@ export default function StrandManagement() {
         return;
       }
 
-      const response = await fetchWithTimeout(`${API_URL}/strands`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          description: formData.description.trim(),
-        }),
+      const saved = await api.strands.create({
+        name: formData.name.trim(),
+        description: formData.description.trim(),
       });
 
-      const data = await response.json();
-      console.log('Add response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to add strand');
-      }
-
-      setStrands([data.strand, ...strands]);
+      setStrands([saved, ...strands]);
       setIsAddModalVisible(false);
       setFormData(INITIAL_FORM_DATA);
       toast.show('Strand added successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error adding strand:', error);
-      let errorMessage = 'Failed to add strand. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to add strand. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -368,33 +239,14 @@ export default function StrandManagement() {
       setLoading(true);
       setError(null);
 
-      const response = await fetchWithTimeout(`${API_URL}/strands/${selectedStrand.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to delete strand');
-      }
+      await api.strands.remove(selectedStrand.id);
 
       setStrands(strands.filter(s => s.id !== selectedStrand.id));
       setIsDeleteModalVisible(false);
-      toast.show('Strand deleted successfully!', { type: 'success' });
+      toast.show('Strand moved to trash.', { type: 'success' });
     } catch (error: any) {
       console.error('Error deleting strand:', error);
-      let errorMessage = 'Failed to delete strand. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to delete strand. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -452,23 +304,10 @@ export default function StrandManagement() {
           setIsSubmitting(true);
           if (isEdit && selectedStrand) {
             // For editing existing strand
-            const response = await fetchWithTimeout(`${API_URL}/strands/${selectedStrand.id}`, {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Update response:', data);
-
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to update strand');
-            }
+            const saved = await api.strands.update(selectedStrand.id, validatedData);
 
             setStrands(strands.map(strand => 
-              strand.id === selectedStrand.id ? data.strand : strand
+              strand.id === selectedStrand.id ? saved : strand
             ));
             setIsEditModalVisible(false);
             setSelectedStrand(null);
@@ -476,22 +315,9 @@ export default function StrandManagement() {
             toast.show('Strand updated successfully!', { type: 'success' });
           } else {
             // For adding new strand
-            const response = await fetchWithTimeout(`${API_URL}/strands`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Add response:', data);
+            const saved = await api.strands.create(validatedData);
 
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to add strand');
-            }
-
-            setStrands([data.strand, ...strands]);
+            setStrands([saved, ...strands]);
             setIsAddModalVisible(false);
             setFormData(INITIAL_FORM_DATA);
             toast.show('Strand added successfully!', { type: 'success' });
@@ -576,27 +402,40 @@ export default function StrandManagement() {
             onChangeText={setSearchQuery}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#333" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#333" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Strands</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={() => setIsAddModalVisible(true)}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add Strand</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Strands"
+            columns={STRAND_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.strands.list({ page, limit, search: searchQuery })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={() => setIsAddModalVisible(true)}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add Strand</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
+      <TrashTabs value={activeTab} onChange={setActiveTab} />
+
       {/* Strand List */}
-      {loading && !isRefreshing ? (
+      {activeTab === 'trash' ? (
+        <TrashList
+          label="strand"
+          icon="category"
+          resource={api.strands}
+          searchQuery={searchQuery}
+          onRestored={(restored) => setStrands(prev => [restored, ...prev])}
+        />
+      ) : loading && !isRefreshing ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#1a73e8" />
           <Text style={styles.loadingText}>Loading strands...</Text>
@@ -703,7 +542,7 @@ export default function StrandManagement() {
           <View style={styles.deleteConfirmation}>
             <Text style={styles.deleteTitle}>Are you sure you want to delete this strand?</Text>
             <Text style={styles.deleteMessage}>
-              This action cannot be undone. This will permanently delete the strand record from the database.
+              The strand will be moved to the trash. You can restore it from the Trash tab.
             </Text>
             <View style={styles.deleteActions}>
               <TouchableOpacity
@@ -756,26 +595,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -791,6 +610,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
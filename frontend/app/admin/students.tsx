@@ -1,6 +1,7 @@
 import { MaterialIcons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
 import * as ImagePicker from 'expo-image-picker';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -20,31 +21,22 @@ import {
   Switch
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
-import { API_URL, fetchWithTimeout } from '../../config/api';
-
-interface Student {
-  id: string;
-  name: string;
-  gender: string;
-  grade_level: string;
-  strand: string;
-  section: string;
-  subject: string;
-  avatar: string | null;
-  email: string | null;
-  phone: string | null;
-  address: string | null;
-  birth_date: string | null;
-  guardian_name: string | null;
-  guardian_relationship: string | null;
-}
+import { API_BASE_URL, ApiError, api, getErrorMessage, GradeLevel, OfflineQueuedError, Section, Strand, Student, StudentFacets } from '../../config/api';
+import AccountLinkModal from '../components/AccountLinkModal';
+import StudentImportModal from '../components/StudentImportModal';
+import SectionPlacementModal from '../components/SectionPlacementModal';
+import StudentFilters, { STUDENT_FACETS, StudentFilterValues } from '../components/StudentFilters';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn } from '../../utils/export';
+import NotificationBell from '../components/NotificationBell';
 
 interface FormData {
   name: string;
   gender: string;
-  grade_level: string;
-  strand: string;
-  section: string;
+  // Ids of the picked records, as picker values
+  grade_level_id: string;
+  strand_id: string;
+  section_id: string;
   subject: string;
   avatar: string | null;
   email: string;
@@ -60,9 +52,34 @@ const DEBOUNCE_DELAY = 1000; // 1 second delay
 const ITEMS_PER_PAGE = 10;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds
+const OPTIONS_LIMIT = 100;
+
+const STUDENT_EXPORT_COLUMNS: ExportColumn<Student>[] = [
+  { label: 'ID', value: item => item.id },
+  { label: 'Name', value: item => item.name },
+  { label: 'Gender', value: item => item.gender },
+  { label: 'Grade Level', value: item => item.grade_level?.name },
+  { label: 'Strand', value: item => item.strand?.name },
+  { label: 'Section', value: item => item.section?.name },
+  { label: 'Subject', value: item => item.subject },
+  { label: 'Email', value: item => item.email },
+  { label: 'Phone', value: item => item.phone },
+  { label: 'Address', value: item => item.address },
+  { label: 'Birth Date', value: item => item.birth_date },
+  { label: 'Guardian', value: item => item.guardian_name },
+  { label: 'Guardian Relationship', value: item => item.guardian_relationship },
+];
 
 export default function StudentManagement() {
+  const router = useRouter();
+  // Filters and sort live in the URL query so a filtered view can be bookmarked
+  const params = useLocalSearchParams<Record<string, string>>();
   const [searchQuery, setSearchQuery] = useState('');
+  const [filters, setFilters] = useState<StudentFilterValues>(() => Object.fromEntries(
+    STUDENT_FACETS.filter(({ field }) => params[field]).map(({ field }) => [field, params[field]])
+  ));
+  const [sort, setSort] = useState(params.sort ?? '');
+  const [facets, setFacets] = useState<StudentFacets | null>(null);
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -77,15 +94,19 @@ export default function StudentManagement() {
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
   const [isDeleteModalVisible, setIsDeleteModalVisible] = useState(false);
+  const [isImportModalVisible, setIsImportModalVisible] = useState(false);
+  const [isPlacementModalVisible, setIsPlacementModalVisible] = useState(false);
   const [selectedStudent, setSelectedStudent] = useState<Student | null>(null);
+  // The student whose sign-in account is being linked
+  const [accountStudent, setAccountStudent] = useState<Student | null>(null);
 
   // Form states
   const [formData, setFormData] = useState<FormData>({
     name: '',
     gender: '',
-    grade_level: '',
-    strand: '',
-    section: '',
+    grade_level_id: '',
+    strand_id: '',
+    section_id: '',
     subject: '',
     avatar: null,
     email: '',
@@ -96,9 +117,10 @@ export default function StudentManagement() {
     guardian_relationship: '',
   });
 
-  const gradeLevels = ['Grade 7', 'Grade 8', 'Grade 9', 'Grade 10', 'Grade 11', 'Grade 12'];
-  const strands = ['STEM', 'ABM', 'HUMSS', 'GAS', 'TVL', 'Sports', 'Arts & Design'];
-  const sections = ['Sun Flower', 'Rose', 'Tulip', 'Daisy', 'Orchid'];
+  // Picker options, loaded from the grade level, strand and section screens' data
+  const [gradeLevels, setGradeLevels] = useState<GradeLevel[]>([]);
+  const [strands, setStrands] = useState<Strand[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
   const genders = ['Male', 'Female'];
   const subjects = [
     'Mathematics',
@@ -113,6 +135,26 @@ export default function StudentManagement() {
     'Practical Research'
   ];
 
+  const fetchOptions = async () => {
+    try {
+      const [gradeLevelPage, strandPage, sectionPage] = await Promise.all([
+        api.gradeLevels.list({ limit: OPTIONS_LIMIT }),
+        api.strands.list({ limit: OPTIONS_LIMIT }),
+        api.sections.list({ limit: OPTIONS_LIMIT }),
+      ]);
+      setGradeLevels(gradeLevelPage.items.filter(level => level.is_active));
+      setStrands(strandPage.items);
+      setSections(sectionPage.items.filter(section => section.is_active));
+    } catch (error) {
+      console.error('Error fetching student options:', error);
+      toast.show(`Failed to load grade levels, strands and sections. ${getErrorMessage(error)}`, { type: 'error' });
+    }
+  };
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
   // Debounce search query with longer delay
   useEffect(() => {
     let isMounted = true;
@@ -130,9 +172,15 @@ export default function StudentManagement() {
     };
   }, [searchQuery]);
 
-  // Initial fetch with loading state
+  // Initial fetch with loading state, repeated whenever the filters or sort change
   useEffect(() => {
     let isMounted = true;
+    // Undefined drops the key from the URL
+    router.setParams({
+      ...Object.fromEntries(STUDENT_FACETS.map(({ field }) => [field, filters[field]])),
+      sort: sort || undefined,
+    } as Record<string, string>);
+
     const initialFetch = async () => {
       try {
         if (isMounted) {
@@ -154,7 +202,7 @@ export default function StudentManagement() {
     return () => {
       isMounted = false;
     };
-  }, []);
+  }, [filters, sort]);
 
   const fetchStudents = async (isRefresh = false) => {
     if (loading && !isRefresh) return; // Prevent multiple simultaneous requests
@@ -172,33 +220,24 @@ export default function StudentManagement() {
       // Add delay between requests
       await new Promise(resolve => setTimeout(resolve, 500));
       
-      const response = await fetchWithTimeout(`${API_URL}/students?page=${currentPage}&limit=${ITEMS_PER_PAGE}&search=${searchQuery}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
+      const { items, facets: facetCounts } = await api.students.browse({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
+        ...filters,
+        sort,
       });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.success) {
-        if (isRefresh) {
-          setStudents(data.students);
-        } else {
-          setStudents(prev => [...prev, ...data.students]);
-        }
-        setHasMore(data.students.length === ITEMS_PER_PAGE);
-        setRetryCount(0);
-        if (!isRefresh) {
-          setPage(prev => prev + 1);
-        }
+
+      if (isRefresh) {
+        setStudents(items);
+        setFacets(facetCounts);
       } else {
-        throw new Error(data.message || 'Failed to fetch students');
+        setStudents(prev => [...prev, ...items]);
+      }
+      setHasMore(items.length === ITEMS_PER_PAGE);
+      setRetryCount(0);
+      if (!isRefresh) {
+        setPage(prev => prev + 1);
       }
     } catch (error: any) {
       // Only log errors that aren't network related or are unexpected
@@ -206,15 +245,7 @@ export default function StudentManagement() {
         console.error('Error fetching students:', error);
       }
       
-      let errorMessage = 'Could not connect to server. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check if the server is running and your internet connection is stable.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += 'An unexpected error occurred.';
-      }
+      const errorMessage = getErrorMessage(error);
       
       setError(errorMessage);
       
@@ -249,9 +280,9 @@ export default function StudentManagement() {
     setFormData({
       name: '',
       gender: '',
-      grade_level: '',
-      strand: '',
-      section: '',
+      grade_level_id: '',
+      strand_id: '',
+      section_id: '',
       subject: '',
       avatar: null,
       email: '',
@@ -269,9 +300,9 @@ export default function StudentManagement() {
     setFormData({
       name: student.name,
       gender: student.gender,
-      grade_level: student.grade_level,
-      strand: student.strand,
-      section: student.section,
+      grade_level_id: student.grade_level_id ? String(student.grade_level_id) : '',
+      strand_id: student.strand_id ? String(student.strand_id) : '',
+      section_id: student.section_id ? String(student.section_id) : '',
       subject: student.subject || '',
       avatar: student.avatar,
       email: student.email || '',
@@ -322,9 +353,9 @@ export default function StudentManagement() {
       const jsonData = {
         name: formData.name.trim(),
         gender: formData.gender.trim(),
-        grade_level: formData.grade_level.trim(),
-        strand: formData.strand.trim(),
-        section: formData.section.trim(),
+        grade_level_id: Number(formData.grade_level_id),
+        strand_id: Number(formData.strand_id),
+        section_id: Number(formData.section_id),
         subject: formData.subject.trim(),
         email: formData.email.trim(),
         phone: formData.phone.trim(),
@@ -366,63 +397,17 @@ export default function StudentManagement() {
       console.log('Final FormData object:', formDataToSend);
       console.log('JSON data being sent:', jsonData);
 
-      const response = await fetchWithTimeout(`${API_URL}/students`, {
-        method: 'POST',
-        body: formDataToSend,
-        headers: {
-          'Accept': 'application/json'
-        },
-      });
-
-      // Log the raw response
-      console.log('Response status:', response.status);
-      const responseText = await response.text();
-      console.log('Raw response:', responseText);
-
-      let data;
-      try {
-        data = JSON.parse(responseText);
-      } catch (e) {
-        console.error('Error parsing response:', e);
-        throw new Error('Invalid response from server');
-      }
-
-      if (!response.ok) {
-        if (response.status === 422 && data.errors) {
-          // Format validation errors for display
-          const formattedErrors = Object.entries(data.errors)
-            .map(([field, messages]) => {
-              const fieldName = field.split('_').map(word => 
-                word.charAt(0).toUpperCase() + word.slice(1)
-              ).join(' ');
-              return `${fieldName}: ${(messages as string[]).join(', ')}`;
-            })
-            .join('\n\n');
-          
-          console.log('Validation errors:', data.errors);
-          Alert.alert(
-            'Validation Error',
-            formattedErrors,
-            [{ text: 'OK' }]
-          );
-          return;
-        }
-        throw new Error(data.message || `HTTP error! status: ${response.status}`);
-      }
-
-      if (!data.success) {
-        throw new Error(data.message || 'Failed to add student');
-      }
+      const student = await api.students.create(formDataToSend);
 
       // Success handling
-      setStudents([data.student, ...students]);
+      setStudents([student, ...students]);
       setIsAddModalVisible(false);
       setFormData({
         name: '',
         gender: '',
-        grade_level: '',
-        strand: '',
-        section: '',
+        grade_level_id: '',
+        strand_id: '',
+        section_id: '',
         subject: '',
         avatar: null,
         email: '',
@@ -434,16 +419,23 @@ export default function StudentManagement() {
       });
       toast.show('Student added successfully!', { type: 'success' });
     } catch (error: any) {
-      console.error('Error adding student:', error);
-      let errorMessage = 'Failed to add student. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
+      if (error instanceof OfflineQueuedError) {
+        setIsAddModalVisible(false);
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
+      if (error instanceof ApiError && error.status === 422 && error.errors) {
+        console.log('Validation errors:', error.errors);
+        Alert.alert(
+          'Validation Error',
+          getErrorMessage(error),
+          [{ text: 'OK' }]
+        );
+        return;
+      }
+
+      console.error('Error adding student:', error);
+      const errorMessage = `Failed to add student. ${getErrorMessage(error)}`;
       
       Alert.alert('Error', errorMessage);
     } finally {
@@ -452,7 +444,7 @@ export default function StudentManagement() {
   };
 
   const handleSubmitEdit = async () => {
-    if (!formData.name || !formData.gender || !formData.grade_level || !formData.strand || !formData.section || !formData.subject) {
+    if (!formData.name || !formData.gender || !formData.grade_level_id || !formData.strand_id || !formData.section_id || !formData.subject) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
@@ -463,9 +455,9 @@ export default function StudentManagement() {
       const formDataToSend = new FormData();
       formDataToSend.append('name', formData.name);
       formDataToSend.append('gender', formData.gender);
-      formDataToSend.append('grade_level', formData.grade_level);
-      formDataToSend.append('strand', formData.strand);
-      formDataToSend.append('section', formData.section);
+      formDataToSend.append('grade_level_id', formData.grade_level_id);
+      formDataToSend.append('strand_id', formData.strand_id);
+      formDataToSend.append('section_id', formData.section_id);
       formDataToSend.append('subject', formData.subject);
       
       if (formData.avatar) {
@@ -488,43 +480,21 @@ export default function StudentManagement() {
       formDataToSend.append('guardian_name', formData.guardian_name.trim());
       formDataToSend.append('guardian_relationship', formData.guardian_relationship.trim());
 
-      const response = await fetchWithTimeout(
-        `${API_URL}/students/${selectedStudent.id}`,
-        {
-          method: 'PUT',
-          body: formDataToSend,
-          headers: {
-            'Accept': 'application/json'
-          },
-        }
+      const updated = await api.students.update(selectedStudent.id, formDataToSend);
+      const updatedStudents = students.map((student) =>
+        student.id === selectedStudent.id ? updated : student
       );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      if (data.success) {
-        const updatedStudents = students.map((student) =>
-          student.id === selectedStudent.id ? data.student : student
-        );
-        setStudents(updatedStudents);
+      setStudents(updatedStudents);
+      setIsEditModalVisible(false);
+      toast.show('Student updated successfully!', { type: 'success' });
+    } catch (error: any) {
+      if (error instanceof OfflineQueuedError) {
         setIsEditModalVisible(false);
-        toast.show('Student updated successfully!', { type: 'success' });
-      } else {
-        throw new Error(data.message || 'Failed to update student');
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
-    } catch (error: any) {
       console.error('Error updating student:', error);
-      let errorMessage = 'Failed to update student. ';
-      
-      if (error.message.includes('timed out')) {
-        errorMessage += 'Request timed out. Please try again.';
-      } else if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to update student. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     }
@@ -534,34 +504,22 @@ export default function StudentManagement() {
     if (!selectedStudent) return;
 
     try {
-      const response = await fetchWithTimeout(`${API_URL}/students/${selectedStudent.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        const updatedStudents = students.filter(
-          (student) => student.id !== selectedStudent.id
-        );
-        setStudents(updatedStudents);
+      await api.students.remove(selectedStudent.id);
+      const updatedStudents = students.filter(
+        (student) => student.id !== selectedStudent.id
+      );
+      setStudents(updatedStudents);
+      setIsDeleteModalVisible(false);
+      toast.show('Student deleted successfully!', { type: 'success' });
+    } catch (error: any) {
+      if (error instanceof OfflineQueuedError) {
+        setStudents(students.filter(student => student.id !== selectedStudent.id));
         setIsDeleteModalVisible(false);
-        toast.show('Student deleted successfully!', { type: 'success' });
-      } else {
-        throw new Error(data.message);
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
-    } catch (error: any) {
       console.error('Error deleting student:', error);
-      let errorMessage = 'Failed to delete student. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      }
+      const errorMessage = `Failed to delete student. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     }
@@ -571,7 +529,7 @@ export default function StudentManagement() {
     if (!avatar) return null;
     if (avatar.startsWith('http')) return avatar;
     // Remove /api prefix since the backend serves uploads directly
-    return `${API_URL.replace('/api', '')}${avatar}`;
+    return `${API_BASE_URL}${avatar}`;
   };
 
   const StudentForm = ({ isEdit }: { isEdit: boolean }) => {
@@ -601,14 +559,14 @@ export default function StudentManagement() {
       if (!formData.gender?.trim()) {
         errors.gender = 'Gender is required';
       }
-      if (!formData.grade_level?.trim()) {
-        errors.grade_level = 'Grade level is required';
+      if (!formData.grade_level_id) {
+        errors.grade_level_id = 'Grade level is required';
       }
-      if (!formData.strand?.trim()) {
-        errors.strand = 'Strand is required';
+      if (!formData.strand_id) {
+        errors.strand_id = 'Strand is required';
       }
-      if (!formData.section?.trim()) {
-        errors.section = 'Section is required';
+      if (!formData.section_id) {
+        errors.section_id = 'Section is required';
       }
       if (!formData.subject?.trim()) {
         errors.subject = 'Subject is required';
@@ -674,49 +632,49 @@ export default function StudentManagement() {
             {formErrors.gender && <Text style={styles.errorText}>{formErrors.gender}</Text>}
 
             <Text style={styles.inputLabel}>Grade Level *</Text>
-            <View style={[styles.pickerContainer, formErrors.grade_level && styles.inputError]}>
+            <View style={[styles.pickerContainer, formErrors.grade_level_id && styles.inputError]}>
               <Picker
-                selectedValue={formData.grade_level}
-                onValueChange={(value) => handleChange('grade_level', value)}
+                selectedValue={formData.grade_level_id}
+                onValueChange={(value) => handleChange('grade_level_id', String(value))}
                 style={styles.picker}
               >
                 <Picker.Item label="Select Grade Level" value="" />
                 {gradeLevels.map((level) => (
-                  <Picker.Item key={level} label={level} value={level} />
+                  <Picker.Item key={level.id} label={level.name} value={String(level.id)} />
                 ))}
               </Picker>
             </View>
-            {formErrors.grade_level && <Text style={styles.errorText}>{formErrors.grade_level}</Text>}
+            {formErrors.grade_level_id && <Text style={styles.errorText}>{formErrors.grade_level_id}</Text>}
 
             <Text style={styles.inputLabel}>Strand *</Text>
-            <View style={[styles.pickerContainer, formErrors.strand && styles.inputError]}>
+            <View style={[styles.pickerContainer, formErrors.strand_id && styles.inputError]}>
               <Picker
-                selectedValue={formData.strand}
-                onValueChange={(value) => handleChange('strand', value)}
+                selectedValue={formData.strand_id}
+                onValueChange={(value) => handleChange('strand_id', String(value))}
                 style={styles.picker}
               >
                 <Picker.Item label="Select Strand" value="" />
                 {strands.map((strand) => (
-                  <Picker.Item key={strand} label={strand} value={strand} />
+                  <Picker.Item key={strand.id} label={strand.name} value={String(strand.id)} />
                 ))}
               </Picker>
             </View>
-            {formErrors.strand && <Text style={styles.errorText}>{formErrors.strand}</Text>}
+            {formErrors.strand_id && <Text style={styles.errorText}>{formErrors.strand_id}</Text>}
 
             <Text style={styles.inputLabel}>Section *</Text>
-            <View style={[styles.pickerContainer, formErrors.section && styles.inputError]}>
+            <View style={[styles.pickerContainer, formErrors.section_id && styles.inputError]}>
               <Picker
-                selectedValue={formData.section}
-                onValueChange={(value) => handleChange('section', value)}
+                selectedValue={formData.section_id}
+                onValueChange={(value) => handleChange('section_id', String(value))}
                 style={styles.picker}
               >
                 <Picker.Item label="Select Section" value="" />
                 {sections.map((section) => (
-                  <Picker.Item key={section} label={section} value={section} />
+                  <Picker.Item key={section.id} label={section.name} value={String(section.id)} />
                 ))}
               </Picker>
             </View>
-            {formErrors.section && <Text style={styles.errorText}>{formErrors.section}</Text>}
+            {formErrors.section_id && <Text style={styles.errorText}>{formErrors.section_id}</Text>}
 
             <Text style={styles.inputLabel}>Subject *</Text>
             <View style={[styles.pickerContainer, formErrors.subject && styles.inputError]}>
@@ -846,24 +804,49 @@ export default function StudentManagement() {
             onChangeText={setSearchQuery}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#fff" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#fff" />
       </View>
       {/* Title and Add Button */}
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Students</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={handleAddStudent}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add Student</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Students"
+            columns={STUDENT_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.students.list({ page, limit, search: searchQuery, ...filters, sort })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity
+            style={[styles.addButton, styles.importButton]}
+            onPress={() => setIsImportModalVisible(true)}
+          >
+            <MaterialIcons name="upload-file" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Import CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.addButton, styles.placementButton]}
+            onPress={() => setIsPlacementModalVisible(true)}
+          >
+            <MaterialIcons name="group-work" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Place in Sections</Text>
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={handleAddStudent}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add Student</Text>
+          </TouchableOpacity>
+        </View>
       </View>
+      {/* Facet Filters and Sort */}
+      <StudentFilters
+        filters={filters}
+        facets={facets}
+        sort={sort}
+        onFiltersChange={setFilters}
+        onSortChange={setSort}
+      />
       {/* Student List with Pull to Refresh and Infinite Scroll */}
       {loading ? (
         <View style={styles.loadingContainer}>
@@ -888,7 +871,7 @@ export default function StudentManagement() {
       ) : (
         <FlatList
           data={students}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.id.toString()}
           renderItem={({ item }) => (
             <View style={styles.studentCard}>
               <View style={styles.studentInfo}>
@@ -917,19 +900,29 @@ export default function StudentManagement() {
                   </View>
                   <View style={styles.detailRow}>
                     <Text style={styles.detailLabel}>Grade:</Text>
-                    <Text style={styles.detailValue}>{item.grade_level}</Text>
+                    <Text style={styles.detailValue}>{item.grade_level?.name || 'Not Set'}</Text>
                   </View>
                   <View style={styles.detailRow}>
                     <Text style={styles.detailLabel}>Strand:</Text>
-                    <Text style={styles.detailValue}>{item.strand}</Text>
+                    <Text style={styles.detailValue}>{item.strand?.name || 'Not Set'}</Text>
                   </View>
                   <View style={styles.detailRow}>
                     <Text style={styles.detailLabel}>Section:</Text>
-                    <Text style={styles.detailValue}>{item.section}</Text>
+                    <Text style={styles.detailValue}>{item.section?.name || 'Not Set'}</Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <Text style={styles.detailLabel}>Account:</Text>
+                    <Text style={styles.detailValue}>{item.user?.email || 'Not Linked'}</Text>
                   </View>
                 </View>
               </View>
               <View style={styles.actionButtons}>
+                <TouchableOpacity 
+                  style={[styles.actionButton, styles.accountButton]}
+                  onPress={() => setAccountStudent(item)}
+                >
+                  <Text style={styles.actionButtonText}>Account</Text>
+                </TouchableOpacity>
                 <TouchableOpacity 
                   style={[styles.actionButton, styles.editButton]}
                   onPress={() => handleEditStudent(item)}
@@ -980,6 +973,33 @@ export default function StudentManagement() {
           <StudentForm isEdit={true} />
         </View>
       </Modal>
+      {/* CSV Import Modal */}
+      <StudentImportModal
+        visible={isImportModalVisible}
+        onClose={() => setIsImportModalVisible(false)}
+        onImported={(imported) => setStudents(prev => [...imported, ...prev])}
+      />
+      {/* Section Placement Modal */}
+      <SectionPlacementModal
+        visible={isPlacementModalVisible}
+        onClose={() => setIsPlacementModalVisible(false)}
+        gradeLevels={gradeLevels}
+        strands={strands}
+        onPlaced={() => fetchStudents(true)}
+      />
+      {/* Account Link Modal */}
+      <AccountLinkModal
+        visible={accountStudent !== null}
+        onClose={() => setAccountStudent(null)}
+        role="Student"
+        recordName={accountStudent?.name ?? ''}
+        account={accountStudent?.user ?? null}
+        onLink={async (userId) => {
+          if (!accountStudent) return;
+          const updated = await api.students.linkAccount(accountStudent.id, userId);
+          setStudents(prev => prev.map(student => (student.id === updated.id ? { ...student, ...updated } : student)));
+        }}
+      />
       {/* Delete Confirmation Modal */}
       <Modal
         visible={isDeleteModalVisible}
@@ -1047,26 +1067,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1090,6 +1090,18 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     borderRadius: 8,
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  importButton: {
+    backgroundColor: '#34a853',
+    marginRight: 8,
+  },
+  placementButton: {
+    backgroundColor: '#fa7b17',
+    marginRight: 8,
+  },
   addButtonText: {
     color: '#fff',
     fontSize: 16,
@@ -1194,6 +1206,9 @@ const styles = StyleSheet.create({
   editButton: {
     backgroundColor: '#1a73e8',
   },
+  accountButton: {
+    backgroundColor: '#5f6368',
+  },
   deleteButton: {
     backgroundColor: '#FF3B30',
   },
@@ -1,5 +1,6 @@
 import { MaterialIcons } from '@expo/vector-icons';
 import { Picker } from '@react-native-picker/picker';
+import { useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -14,50 +15,52 @@ import {
   View
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
-import { fetchWithTimeout } from '../../config/api';
+import { api, getErrorMessage, GradeLevel, OfflineQueuedError, Strand, Subject } from '../../config/api';
+import ExportButton from '../components/ExportButton';
+import NotificationBell from '../components/NotificationBell';
 import { useAuth } from '../context/AuthContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { env } from '../../config/env';
-
-interface Subject {
-  id: number;
-  name: string;
-  code: string;
-  status: 'Available' | 'Unavailable';
-  grade_level: string;
-  strand: string;
-  students: number;
-  description: string;
-}
+import { ExportColumn } from '../../utils/export';
 
 interface FormData {
   name: string;
   code: string;
   status: 'Available' | 'Unavailable';
-  grade_level: string;
-  strand: string;
+  // Ids of the picked records, as picker values
+  grade_level_id: string;
+  strand_id: string;
   description: string;
 }
 
-// Use environment configuration
-const API_URL = env.API_URL;
-
 // Add debounce delay constant
 const DEBOUNCE_DELAY = 1000; // 1 second delay
 const ITEMS_PER_PAGE = 10;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds
+const OPTIONS_LIMIT = 100;
+// Picker value for subjects taken by every strand
+const NO_STRAND = 'none';
 
 // Add this constant at the top of the file, after the interfaces
 const INITIAL_FORM_DATA: FormData = {
   name: '',
   code: '',
   status: 'Available' as const,
-  grade_level: '',
-  strand: '',
+  grade_level_id: '',
+  strand_id: '',
   description: '',
 };
 
+// The request body for creating or updating a subject from the form
+const toSubjectInput = (data: FormData) => ({
+  name: data.name.trim(),
+  code: data.code.trim(),
+  status: data.status || 'Available',
+  grade_level_id: Number(data.grade_level_id),
+  strand_id: data.strand_id === NO_STRAND ? null : Number(data.strand_id),
+  description: data.description?.trim() || '',
+});
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case 'Available':
@@ -69,6 +72,16 @@ const getStatusColor = (status: string) => {
   }
 };
 
+const SUBJECT_EXPORT_COLUMNS: ExportColumn<Subject>[] = [
+  { label: 'Code', value: item => item.code },
+  { label: 'Name', value: item => item.name },
+  { label: 'Grade Level', value: item => item.grade_level?.name },
+  { label: 'Strand', value: item => item.strand?.name ?? 'No Strand' },
+  { label: 'Status', value: item => item.status },
+  { label: 'Students', value: item => item.students_count ?? item.students },
+  { label: 'Description', value: item => item.description },
+];
+
 const SubjectsScreen = () => {
   const { user } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
@@ -81,19 +94,20 @@ const SubjectsScreen = () => {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const toast = useToast();
+  const router = useRouter();
 
   // Modal states
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
   const [isDeleteModalVisible, setIsDeleteModalVisible] = useState(false);
-  const [isViewModalVisible, setIsViewModalVisible] = useState(false);
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
 
   // Form states
   const [formData, setFormData] = useState<FormData>(INITIAL_FORM_DATA);
 
-  const gradeLevels = ['Grade 7', 'Grade 8', 'Grade 9', 'Grade 10', 'Grade 11', 'Grade 12'];
-  const strands = ['No Strand', 'STEM', 'ABM', 'HUMSS', 'GAS', 'TVL', 'Sports', 'Arts & Design'];
+  // Picker options, loaded from the grade level and strand screens' data
+  const [gradeLevels, setGradeLevels] = useState<GradeLevel[]>([]);
+  const [strands, setStrands] = useState<Strand[]>([]);
   const statuses = ['Available', 'Unavailable'];
 
   // Add debug logging for auth state
@@ -114,6 +128,24 @@ const SubjectsScreen = () => {
     checkAuth();
   }, [user]);
 
+  const fetchOptions = async () => {
+    try {
+      const [gradeLevelPage, strandPage] = await Promise.all([
+        api.gradeLevels.list({ limit: OPTIONS_LIMIT }),
+        api.strands.list({ limit: OPTIONS_LIMIT }),
+      ]);
+      setGradeLevels(gradeLevelPage.items.filter(level => level.is_active));
+      setStrands(strandPage.items);
+    } catch (error) {
+      console.error('Error fetching subject options:', error);
+      toast.show(`Failed to load grade levels and strands. ${getErrorMessage(error)}`, { type: 'error' });
+    }
+  };
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
   // Debounce search query
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -137,103 +169,20 @@ const SubjectsScreen = () => {
       setLoading(true);
       setError(null);
       
-      // Debug log before making the request
-      const token = await AsyncStorage.getItem('auth-token');
-      const requestUrl = `${API_URL}/subjects?page=${page}&limit=${ITEMS_PER_PAGE}&search=${encodeURIComponent(searchQuery)}`;
-      console.log('Making subjects request:', {
-        hasToken: !!token,
-        tokenLength: token?.length,
-        url: requestUrl,
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-          'Authorization': token ? `Bearer ${token}` : 'No token'
-        }
-      });
-
-      // Test the server connection first
-      try {
-        const testResponse = await fetch(`${API_URL}/up`);
-        if (!testResponse.ok) {
-          throw new Error(`Server health check failed: ${testResponse.status} ${testResponse.statusText}`);
-        }
-        console.log('Server health check:', {
-          status: testResponse.status,
-          ok: testResponse.ok,
-          statusText: testResponse.statusText
-        });
-      } catch (testError) {
-        console.error('Server health check failed:', testError);
-        throw new Error('Server is not responding. Please try again later.');
-      }
-      
       const pageNum = isRefresh ? 1 : page;
-      const response = await fetchWithTimeout(
-        requestUrl,
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-        }
-      );
-
-      // Debug log the response
-      console.log('Subjects API Response:', {
-        status: response.status,
-        statusText: response.statusText,
-        ok: response.ok,
-        headers: Object.fromEntries(response.headers.entries())
-      });
-
-      if (!response.ok) {
-        const contentType = response.headers.get('content-type');
-        let errorMessage = 'Failed to fetch subjects';
-        
-        if (response.status === 401) {
-          errorMessage = 'Please login to access this resource';
-        } else if (contentType && contentType.includes('application/json')) {
-          try {
-            const errorData = await response.json();
-            errorMessage = errorData.message || errorMessage;
-          } catch (e) {
-            console.error('Error parsing error response:', e);
-          }
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        throw new Error('Invalid response format from server');
-      }
-
-      const data = await response.json();
-      console.log('Subjects API Success Response:', {
-        success: data.success,
-        subjectsCount: data.subjects?.length,
-        hasMore: data.subjects?.length === ITEMS_PER_PAGE
+      const { items } = await api.subjects.list({
+        page: pageNum,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
       });
-      
-      if (!data.success) {
-        throw new Error(data.message || 'Failed to fetch subjects');
-      }
 
-      if (!Array.isArray(data.subjects)) {
-        throw new Error('Invalid subjects data format');
-      }
-
-      setSubjects(isRefresh ? data.subjects : [...subjects, ...data.subjects]);
-      setHasMore(data.subjects.length === ITEMS_PER_PAGE);
+      setSubjects(isRefresh ? items : [...subjects, ...items]);
+      setHasMore(items.length === ITEMS_PER_PAGE);
       setPage(pageNum);
       setRetryCount(0);
     } catch (error) {
       console.error('Error fetching subjects:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch subjects');
+      setError(getErrorMessage(error));
       
       // Only retry on network errors or server errors
       if (retryCount < MAX_RETRIES && 
@@ -245,7 +194,7 @@ const SubjectsScreen = () => {
           fetchSubjects(isRefresh);
         }, RETRY_DELAY);
       } else {
-        toast.show(error instanceof Error ? error.message : 'Failed to fetch subjects', {
+        toast.show(getErrorMessage(error), {
           type: 'error',
           placement: 'top',
           duration: 4000,
@@ -286,8 +235,8 @@ const SubjectsScreen = () => {
       name: subject.name,
       code: subject.code,
       status: subject.status,
-      grade_level: subject.grade_level,
-      strand: subject.strand,
+      grade_level_id: String(subject.grade_level_id),
+      strand_id: subject.strand_id ? String(subject.strand_id) : NO_STRAND,
       description: subject.description,
     });
     setIsEditModalVisible(true);
@@ -299,8 +248,7 @@ const SubjectsScreen = () => {
   };
 
   const handleViewSubject = (subject: Subject) => {
-    setSelectedSubject(subject);
-    setIsViewModalVisible(true);
+    router.push(`/admin/subjects/${subject.id}` as any);
   };
 
   const handleSubmitAdd = async () => {
@@ -309,50 +257,27 @@ const SubjectsScreen = () => {
       setError(null);
 
       // Validate required fields before submission
-      if (!formData.name?.trim() || !formData.code?.trim() || !formData.grade_level?.trim() || !formData.strand?.trim()) {
+      if (!formData.name?.trim() || !formData.code?.trim() || !formData.grade_level_id || !formData.strand_id) {
         toast.show('Please fill in all required fields', { type: 'error' });
         return;
       }
 
       console.log('Adding new subject with data:', formData);
 
-      const response = await fetchWithTimeout(`${API_URL}/subjects`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          code: formData.code.trim(),
-          status: formData.status || 'Available',
-          gradeLevel: formData.grade_level.trim(),
-          strand: formData.strand.trim(),
-          description: formData.description?.trim() || '',
-        }),
-      });
-
-      const data = await response.json();
-      console.log('Add response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to add subject');
-      }
+      const subject = await api.subjects.create(toSubjectInput(formData));
 
-      setSubjects([data.subject, ...subjects]);
+      setSubjects([subject, ...subjects]);
       setIsAddModalVisible(false);
       setFormData(INITIAL_FORM_DATA);
       toast.show('Subject added successfully!', { type: 'success' });
     } catch (error: any) {
-      console.error('Error adding subject:', error);
-      let errorMessage = 'Failed to add subject. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
+      if (error instanceof OfflineQueuedError) {
+        setIsAddModalVisible(false);
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
+      console.error('Error adding subject:', error);
+      const errorMessage = `Failed to add subject. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -368,44 +293,18 @@ const SubjectsScreen = () => {
       setError(null);
 
       // Validate required fields before submission
-      if (!formData.name?.trim() || !formData.code?.trim() || !formData.grade_level?.trim() || !formData.strand?.trim()) {
+      if (!formData.name?.trim() || !formData.code?.trim() || !formData.grade_level_id || !formData.strand_id) {
         toast.show('Please fill in all required fields', { type: 'error' });
         return;
       }
 
       console.log('Updating subject with data:', formData);
 
-      const response = await fetchWithTimeout(`${API_URL}/subjects/${selectedSubject.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name.trim(),
-          code: formData.code.trim(),
-          status: formData.status,
-          gradeLevel: formData.grade_level.trim(),
-          strand: formData.strand.trim(),
-          description: formData.description?.trim() || '',
-        }),
-      });
-
-      const data = await response.json();
-      console.log('Update response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to update subject');
-      }
+      const subject = await api.subjects.update(selectedSubject.id, toSubjectInput(formData));
 
       // Update the subjects list with the new data
       setSubjects(prevSubjects => 
-        prevSubjects.map(s => s.id === selectedSubject.id ? {
-          ...data.subject,
-          status: formData.status,
-          grade_level: formData.grade_level,
-          strand: formData.strand,
-          description: formData.description?.trim() || '',
-        } : s)
+        prevSubjects.map(s => s.id === selectedSubject.id ? subject : s)
       );
       
       setIsEditModalVisible(false);
@@ -413,16 +312,13 @@ const SubjectsScreen = () => {
       setFormData(INITIAL_FORM_DATA);
       toast.show('Subject updated successfully!', { type: 'success' });
     } catch (error: any) {
-      console.error('Error updating subject:', error);
-      let errorMessage = 'Failed to update subject. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
+      if (error instanceof OfflineQueuedError) {
+        setIsEditModalVisible(false);
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
+      console.error('Error updating subject:', error);
+      const errorMessage = `Failed to update subject. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -437,25 +333,20 @@ const SubjectsScreen = () => {
       setLoading(true);
       setError(null);
 
-      const response = await fetchWithTimeout(`${API_URL}/subjects/${selectedSubject.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to delete subject');
-      }
+      await api.subjects.remove(selectedSubject.id);
 
       setSubjects(subjects.filter(s => s.id !== selectedSubject.id));
       setIsDeleteModalVisible(false);
       toast.show('Subject deleted successfully!', { type: 'success' });
     } catch (error) {
+      if (error instanceof OfflineQueuedError) {
+        setSubjects(subjects.filter(s => s.id !== selectedSubject.id));
+        setIsDeleteModalVisible(false);
+        toast.show(error.message, { type: 'warning' });
+        return;
+      }
       console.error('Error deleting subject:', error);
-      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete subject');
+      Alert.alert('Error', getErrorMessage(error));
     } finally {
       setLoading(false);
     }
@@ -493,11 +384,11 @@ const SubjectsScreen = () => {
       if (!localFormData.code?.trim()) {
         errors.code = 'Subject code is required';
       }
-      if (!localFormData.grade_level?.trim()) {
-        errors.grade_level = 'Grade level is required';
+      if (!localFormData.grade_level_id) {
+        errors.grade_level_id = 'Grade level is required';
       }
-      if (!localFormData.strand?.trim()) {
-        errors.strand = 'Strand is required';
+      if (!localFormData.strand_id) {
+        errors.strand_id = 'Strand is required';
       }
 
       setFormErrors(errors);
@@ -509,14 +400,7 @@ const SubjectsScreen = () => {
       console.log('Current form data:', localFormData);
       
       if (validateForm()) {
-        const validatedData = {
-          name: localFormData.name?.trim() || '',
-          code: localFormData.code?.trim() || '',
-          status: localFormData.status,
-          gradeLevel: localFormData.grade_level?.trim() || '',
-          strand: localFormData.strand?.trim() || '',
-          description: localFormData.description?.trim() || '',
-        };
+        const validatedData = toSubjectInput(localFormData);
         
         console.log('Submitting form data:', validatedData);
         
@@ -524,30 +408,11 @@ const SubjectsScreen = () => {
           setIsSubmitting(true);
           if (isEdit && selectedSubject) {
             // For editing existing subject
-            const response = await fetchWithTimeout(`${API_URL}/subjects/${selectedSubject.id}`, {
-              method: 'PUT',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Update response:', data);
-
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to update subject');
-            }
+            const subject = await api.subjects.update(selectedSubject.id, validatedData);
 
             // Update the subjects list with the new data
             setSubjects(prevSubjects => 
-              prevSubjects.map(s => s.id === selectedSubject.id ? {
-                ...data.subject,
-                status: formData.status,
-                grade_level: formData.grade_level,
-                strand: formData.strand,
-                description: formData.description?.trim() || '',
-              } : s)
+              prevSubjects.map(s => s.id === selectedSubject.id ? subject : s)
             );
             setIsEditModalVisible(false);
             setSelectedSubject(null);
@@ -555,25 +420,11 @@ const SubjectsScreen = () => {
             toast.show('Subject updated successfully!', { type: 'success' });
           } else {
             // For adding new subject
-            const response = await fetchWithTimeout(`${API_URL}/subjects`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify(validatedData),
-            });
-
-            const data = await response.json();
-            console.log('Add response:', data);
-
-            if (!response.ok || !data.success) {
-              throw new Error(data.message || 'Failed to add subject');
-            }
+            const subject = await api.subjects.create(validatedData);
 
             // Transform the response data to match our frontend structure
             const newSubject = {
-              ...data.subject,
-              grade_level: data.subject.gradeLevel,
+              ...subject,
               students: 0, // Initialize with 0 students
             };
 
@@ -583,8 +434,14 @@ const SubjectsScreen = () => {
             toast.show('Subject added successfully!', { type: 'success' });
           }
         } catch (error) {
+          if (error instanceof OfflineQueuedError) {
+            setIsAddModalVisible(false);
+            setIsEditModalVisible(false);
+            toast.show(error.message, { type: 'warning' });
+            return;
+          }
           console.error('Error submitting form:', error);
-          toast.show('Failed to submit form. Please try again.', { type: 'error' });
+          toast.show(`Failed to submit form. ${getErrorMessage(error)}`, { type: 'error' });
         } finally {
           setIsSubmitting(false);
         }
@@ -639,34 +496,35 @@ const SubjectsScreen = () => {
         </View>
 
         <Text style={styles.inputLabel}>Grade Level *</Text>
-        <View style={[styles.pickerContainer, formErrors.grade_level && styles.inputError]}>
+        <View style={[styles.pickerContainer, formErrors.grade_level_id && styles.inputError]}>
           <Picker
-            selectedValue={localFormData.grade_level}
-            onValueChange={(value: string) => handleLocalChange('grade_level', value)}
+            selectedValue={localFormData.grade_level_id}
+            onValueChange={(value: string) => handleLocalChange('grade_level_id', String(value))}
             style={styles.picker}
           >
             <Picker.Item label="Select Grade Level" value="" />
             {gradeLevels.map((level) => (
-              <Picker.Item key={level} label={level} value={level} />
+              <Picker.Item key={level.id} label={level.name} value={String(level.id)} />
             ))}
           </Picker>
         </View>
-        {formErrors.grade_level && <Text style={styles.formErrorText}>{formErrors.grade_level}</Text>}
+        {formErrors.grade_level_id && <Text style={styles.formErrorText}>{formErrors.grade_level_id}</Text>}
 
         <Text style={styles.inputLabel}>Strand *</Text>
-        <View style={[styles.pickerContainer, formErrors.strand && styles.inputError]}>
+        <View style={[styles.pickerContainer, formErrors.strand_id && styles.inputError]}>
           <Picker
-            selectedValue={localFormData.strand}
-            onValueChange={(value: string) => handleLocalChange('strand', value)}
+            selectedValue={localFormData.strand_id}
+            onValueChange={(value: string) => handleLocalChange('strand_id', String(value))}
             style={styles.picker}
           >
             <Picker.Item label="Select Strand" value="" />
+            <Picker.Item label="No Strand" value={NO_STRAND} />
             {strands.map((strand) => (
-              <Picker.Item key={strand} label={strand} value={strand} />
+              <Picker.Item key={strand.id} label={strand.name} value={String(strand.id)} />
             ))}
           </Picker>
         </View>
-        {formErrors.strand && <Text style={styles.formErrorText}>{formErrors.strand}</Text>}
+        {formErrors.strand_id && <Text style={styles.formErrorText}>{formErrors.strand_id}</Text>}
 
         <Text style={styles.inputLabel}>Description</Text>
         <TextInput
@@ -712,23 +570,26 @@ const SubjectsScreen = () => {
             onChangeText={handleSearch}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#333" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#333" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Subjects</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={() => setIsAddModalVisible(true)}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add Subject</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Subjects"
+            columns={SUBJECT_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.subjects.list({ page, limit, search: searchQuery })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={() => setIsAddModalVisible(true)}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add Subject</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Subject List */}
@@ -766,15 +627,15 @@ const SubjectsScreen = () => {
                 </View>
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>Grade Level:</Text>
-                  <Text style={styles.detailValue}>{item.grade_level || 'Not Set'}</Text>
+                  <Text style={styles.detailValue}>{item.grade_level?.name || 'Not Set'}</Text>
                 </View>
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>Strand:</Text>
-                  <Text style={styles.detailValue}>{item.strand || 'Not Set'}</Text>
+                  <Text style={styles.detailValue}>{item.strand?.name || 'No Strand'}</Text>
                 </View>
                 <View style={styles.detailRow}>
                   <Text style={styles.detailLabel}>Students:</Text>
-                  <Text style={styles.detailValue}>{item.students || 0}</Text>
+                  <Text style={styles.detailValue}>{item.students_count ?? 0}</Text>
                 </View>
               </View>
               <View style={styles.actionButtons}>
@@ -864,80 +725,6 @@ const SubjectsScreen = () => {
           </View>
         </View>
       </Modal>
-      {/* View Subject Modal */}
-      <Modal
-        visible={isViewModalVisible}
-        animationType="slide"
-        transparent={true}
-      >
-        <View style={styles.modalContainer}>
-          {selectedSubject && (
-            <View style={[styles.formContainer, { maxWidth: 400, alignSelf: 'center' }]}> 
-              <View style={styles.formHeader}>
-                <Text style={styles.formTitle}>Subject Details</Text>
-                <TouchableOpacity onPress={() => setIsViewModalVisible(false)}>
-                  <MaterialIcons name="close" size={24} color="#666" />
-                </TouchableOpacity>
-              </View>
-
-              <View style={styles.viewDetailsContainer}>
-                <Text style={styles.viewSubjectName}>{selectedSubject.name || 'No Name'}</Text>
-                
-                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(selectedSubject.status) }]}>
-                  <Text style={styles.statusText}>{selectedSubject.status}</Text>
-                </View>
-
-                <View style={styles.viewDetailRow}>
-                  <View style={styles.viewDetailColumn}>
-                    <Text style={styles.viewDetailLabel}>ID</Text>
-                    <Text style={styles.viewDetailValue}>{selectedSubject.id || 'N/A'}</Text>
-                  </View>
-                  <View style={styles.viewDetailColumn}>
-                    <Text style={styles.viewDetailLabel}>Subject Code</Text>
-                    <Text style={styles.viewDetailValue}>{selectedSubject.code || 'Not Set'}</Text>
-                  </View>
-                </View>
-
-                <View style={styles.viewDetailRow}>
-                  <View style={styles.viewDetailColumn}>
-                    <Text style={styles.viewDetailLabel}>Grade Level</Text>
-                    <Text style={styles.viewDetailValue}>{selectedSubject.grade_level || 'Not Set'}</Text>
-                  </View>
-                  <View style={styles.viewDetailColumn}>
-                    <Text style={styles.viewDetailLabel}>Strand</Text>
-                    <Text style={styles.viewDetailValue}>{selectedSubject.strand || 'Not Set'}</Text>
-                  </View>
-                </View>
-
-                <View style={styles.viewDetailRow}>
-                  <View style={styles.viewDetailColumn}>
-                    <Text style={styles.viewDetailLabel}>Enrolled Students</Text>
-                    <Text style={styles.viewDetailValue}>{selectedSubject.students || 0} students</Text>
-                  </View>
-                  <View style={styles.viewDetailColumn}>
-                    <Text style={styles.viewDetailLabel}>Status</Text>
-                    <Text style={styles.viewDetailValue}>{selectedSubject.status || 'Not Set'}</Text>
-                  </View>
-                </View>
-
-                <View style={styles.viewDescriptionContainer}>
-                  <Text style={styles.viewDetailLabel}>Description</Text>
-                  <Text style={styles.viewDescriptionText}>
-                    {selectedSubject.description || 'No description available'}
-                  </Text>
-                </View>
-
-                <TouchableOpacity 
-                  style={[styles.submitButton, { marginTop: 16 }]} 
-                  onPress={() => setIsViewModalVisible(false)}
-                >
-                  <Text style={styles.submitButtonText}>Close</Text>
-                </TouchableOpacity>
-              </View>
-            </View>
-          )}
-        </View>
-      </Modal>
     </View>
   );
 };
@@ -972,26 +759,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1007,6 +774,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1308,44 +1079,6 @@ const styles = StyleSheet.create({
     marginTop: -8,
     marginBottom: 8,
   },
-  viewDetailsContainer: {
-    padding: 16,
-  },
-  viewSubjectName: {
-    fontSize: 24,
-    fontWeight: '600',
-    color: '#333',
-    marginBottom: 8,
-  },
-  viewDetailRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 16,
-  },
-  viewDetailColumn: {
-    flex: 1,
-    marginRight: 16,
-  },
-  viewDetailLabel: {
-    fontSize: 14,
-    color: '#666',
-    marginBottom: 4,
-  },
-  viewDetailValue: {
-    fontSize: 16,
-    color: '#333',
-    fontWeight: '500',
-  },
-  viewDescriptionContainer: {
-    marginTop: 8,
-    marginBottom: 16,
-  },
-  viewDescriptionText: {
-    fontSize: 14,
-    color: '#333',
-    lineHeight: 20,
-    marginTop: 4,
-  },
 });
 
 export default SubjectsScreen;
@@ -0,0 +1,377 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { api, getErrorMessage, Subject, SubjectDetail } from '../../../config/api';
+import SubjectEnrollmentPanel from '../../components/SubjectEnrollmentPanel';
+import TeachingAssignmentsPanel from '../../components/TeachingAssignmentsPanel';
+
+const getStatusColor = (status: string) => (
+  status === 'Available' ? '#4CAF50' : status === 'Unavailable' ? '#F44336' : '#666'
+);
+
+// Bar colours for the descriptor bands, highest band first
+const BAND_COLORS = ['#1e8e3e', '#34a853', '#fbbc04', '#fa7b17', '#ea4335'];
+
+// Everything about one subject: its details, who teaches it and when, how
+// its students are doing and who is enrolled
+export default function SubjectDetailScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [detail, setDetail] = useState<SubjectDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDetail = async (showLoading = true) => {
+    try {
+      if (showLoading) setLoading(true);
+      setError(null);
+      setDetail(await api.subjects.detail(Number(id)));
+    } catch (error) {
+      console.error('Error fetching subject:', error);
+      setError(`Failed to load subject. ${getErrorMessage(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDetail();
+  }, [id]);
+
+  // Enrollment changes the roster the grade distribution is drawn from
+  const handleEnrollmentChange = (subject: Subject) => {
+    setDetail(prev => prev && { ...prev, subject });
+    fetchDetail(false);
+  };
+
+  const renderHeader = (title: string) => (
+    <View style={styles.header}>
+      <TouchableOpacity
+        style={styles.backButton}
+        onPress={() => router.canGoBack() ? router.back() : router.replace('/admin/subjects' as any)}
+      >
+        <MaterialIcons name="arrow-back" size={24} color="#fff" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle} numberOfLines={1}>{title}</Text>
+      <View style={styles.backButton} />
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.container}>
+        {renderHeader('Subject')}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading subject...</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (error || !detail) {
+    return (
+      <View style={styles.container}>
+        {renderHeader('Subject')}
+        <View style={styles.centered}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error || 'Subject not found'}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchDetail()}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const { subject, schedules, grade_distribution: distribution, settings } = detail;
+  const largestBand = Math.max(1, ...distribution.bands.map(band => band.count));
+
+  return (
+    <View style={styles.container}>
+      {renderHeader(subject.name)}
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <View style={styles.titleRow}>
+            <View style={styles.titleText}>
+              <Text style={styles.subjectName}>{subject.name}</Text>
+              <Text style={styles.subjectCode}>{subject.code}</Text>
+            </View>
+            <View style={[styles.statusBadge, { backgroundColor: getStatusColor(subject.status) }]}>
+              <Text style={styles.statusText}>{subject.status}</Text>
+            </View>
+          </View>
+          <View style={styles.detailRow}>
+            <View style={styles.detailColumn}>
+              <Text style={styles.detailLabel}>Grade Level</Text>
+              <Text style={styles.detailValue}>{subject.grade_level?.name || 'Not Set'}</Text>
+            </View>
+            <View style={styles.detailColumn}>
+              <Text style={styles.detailLabel}>Strand</Text>
+              <Text style={styles.detailValue}>{subject.strand?.name || 'No Strand'}</Text>
+            </View>
+            <View style={styles.detailColumn}>
+              <Text style={styles.detailLabel}>Enrolled Students</Text>
+              <Text style={styles.detailValue}>{subject.students_count ?? 0}</Text>
+            </View>
+          </View>
+          <Text style={styles.detailLabel}>Description</Text>
+          <Text style={styles.description}>{subject.description || 'No description available'}</Text>
+        </View>
+
+        <View style={styles.card}>
+          <TeachingAssignmentsPanel subjectId={subject.id} onChange={() => fetchDetail(false)} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Schedule ({schedules.length})</Text>
+          {schedules.length === 0 ? (
+            <Text style={styles.emptyText}>No class sessions are scheduled for this subject.</Text>
+          ) : (
+            schedules.map(schedule => (
+              <View key={schedule.id} style={styles.listRow}>
+                <MaterialIcons name="schedule" size={22} color="#1a73e8" />
+                <View style={styles.listRowText}>
+                  <Text style={styles.listPrimary}>
+                    {schedule.day} {schedule.start_time}–{schedule.end_time}
+                  </Text>
+                  <Text style={styles.listSecondary}>
+                    {[
+                      schedule.section?.name ?? 'No section',
+                      schedule.teacher?.name ?? 'No teacher',
+                      schedule.room ? `Room ${schedule.room}` : null,
+                    ].filter(Boolean).join(' • ')}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Grade Distribution</Text>
+          <Text style={styles.hint}>
+            {distribution.graded} with a final grade
+            {distribution.average !== null ? `, averaging ${distribution.average}` : ''}
+            {distribution.graded > 0 ? `; ${distribution.passed} passed (${settings.passing_grade} and above)` : ''}
+          </Text>
+          {distribution.bands.map((band, index) => (
+            <View key={band.label} style={styles.barRow}>
+              <Text style={styles.barLabel} numberOfLines={1}>{band.label}</Text>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.barFill,
+                    { width: `${(band.count / largestBand) * 100}%`, backgroundColor: BAND_COLORS[index] ?? '#1a73e8' },
+                  ]}
+                />
+              </View>
+              <Text style={styles.barCount}>{band.count}</Text>
+            </View>
+          ))}
+          {distribution.pending > 0 && (
+            <Text style={styles.hint}>{distribution.pending} student(s) are still missing a quarter grade.</Text>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <SubjectEnrollmentPanel subject={subject} onSubjectChange={handleEnrollmentChange} />
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    backgroundColor: '#1a73e8',
+    padding: 16,
+    paddingTop: (StatusBar.currentHeight || 0) + 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#ff4444',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  content: {
+    padding: 16,
+    width: '100%',
+    maxWidth: 840,
+    alignSelf: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  titleText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  subjectName: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#333',
+  },
+  subjectCode: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  detailColumn: {
+    flex: 1,
+    marginRight: 16,
+  },
+  detailLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 4,
+  },
+  detailValue: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  description: {
+    fontSize: 14,
+    color: '#333',
+    lineHeight: 20,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  listRowText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  listPrimary: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  listSecondary: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 8,
+  },
+  barRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  barLabel: {
+    width: 170,
+    fontSize: 13,
+    color: '#333',
+  },
+  barTrack: {
+    flex: 1,
+    height: 16,
+    backgroundColor: '#f1f3f4',
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  barCount: {
+    width: 36,
+    textAlign: 'right',
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '500',
+  },
+});
@@ -10,6 +10,7 @@ import {
   Modal,
   Platform,
   SafeAreaView,
+  ScrollView,
   StatusBar,
   StyleSheet,
   Text,
@@ -18,22 +19,13 @@ import {
   View
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
-import { env } from '../../config/env';
-import { fetchWithTimeout } from '../../config/api';
-
-// Remove the API_URL import and use env.API_URL instead
-const API_URL = env.API_URL;
-
-interface Teacher {
-  id: string;
-  name: string;
-  email: string;
-  subject: string;
-  gender: string;
-  image: string | null;
-  image_url: string | null;
-  phone?: string;
-}
+import { API_BASE_URL, api, getErrorMessage, OfflineQueuedError, Teacher, TeachingAssignment, TeachingLoad } from '../../config/api';
+import { formatLoad } from '../../constants/Schedule';
+import AccountLinkModal from '../components/AccountLinkModal';
+import ExportButton from '../components/ExportButton';
+import { ExportColumn } from '../../utils/export';
+import NotificationBell from '../components/NotificationBell';
+import TeachingAssignmentsPanel from '../components/TeachingAssignmentsPanel';
 
 interface FormData {
   name: string;
@@ -60,6 +52,22 @@ const INITIAL_FORM_DATA: FormData = {
   image: null,
 };
 
+const TEACHER_EXPORT_COLUMNS: ExportColumn<Teacher>[] = [
+  { label: 'ID', value: item => item.id },
+  { label: 'Name', value: item => item.name },
+  { label: 'Gender', value: item => item.gender },
+  { label: 'Email', value: item => item.email },
+  { label: 'Phone', value: item => item.phone },
+  { label: 'Specialization', value: item => item.subject },
+  { label: 'Subjects', value: item => (item.subjects || []).map(subject => subject.code).join(', ') },
+  { label: 'Weekly Hours', value: item => item.weekly_hours },
+];
+
+const formatSubjects = (teacher: Teacher) =>
+  teacher.subjects && teacher.subjects.length > 0
+    ? teacher.subjects.map(subject => subject.code).join(', ')
+    : 'No classes assigned';
+
 export default function TeacherManagement() {
   const [searchQuery, setSearchQuery] = useState('');
   const [teachers, setTeachers] = useState<Teacher[]>([]);
@@ -76,6 +84,9 @@ export default function TeacherManagement() {
   const [isAddModalVisible, setIsAddModalVisible] = useState(false);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
   const [isDeleteModalVisible, setIsDeleteModalVisible] = useState(false);
+  const [classesTeacher, setClassesTeacher] = useState<Teacher | null>(null);
+  // The teacher whose sign-in account is being linked
+  const [accountTeacher, setAccountTeacher] = useState<Teacher | null>(null);
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
 
   // Form states
@@ -113,45 +124,25 @@ export default function TeacherManagement() {
 
       const currentPage = isRefresh ? 1 : page;
       
-      const response = await fetchWithTimeout(`${API_URL}/teachers?page=${currentPage}&limit=${ITEMS_PER_PAGE}&search=${searchQuery}`, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
+      const { items } = await api.teachers.list({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
       });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data.success) {
-        if (isRefresh) {
-          setTeachers(data.teachers);
-        } else {
-          setTeachers(prev => [...prev, ...data.teachers]);
-        }
-        setHasMore(data.teachers.length === ITEMS_PER_PAGE);
-        setRetryCount(0);
-        if (!isRefresh) {
-          setPage(prev => prev + 1);
-        }
+
+      if (isRefresh) {
+        setTeachers(items);
       } else {
-        throw new Error(data.message || 'Failed to fetch teachers');
+        setTeachers(prev => [...prev, ...items]);
+      }
+      setHasMore(items.length === ITEMS_PER_PAGE);
+      setRetryCount(0);
+      if (!isRefresh) {
+        setPage(prev => prev + 1);
       }
     } catch (error: any) {
       console.error('Error fetching teachers:', error);
-      let errorMessage = 'Could not connect to server. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check if the server is running and your internet connection is stable.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += 'An unexpected error occurred.';
-      }
+      const errorMessage = getErrorMessage(error);
       
       setError(errorMessage);
       
@@ -193,7 +184,7 @@ export default function TeacherManagement() {
       name: teacher.name,
       email: teacher.email,
       phone: teacher.phone || '',
-      subject: teacher.subject,
+      subject: teacher.subject || 'Not Assigned',
       gender: teacher.gender,
       image: teacher.image_url || teacher.image || null,
     });
@@ -225,7 +216,7 @@ export default function TeacherManagement() {
   };
 
   const handleSubmitAdd = async () => {
-    if (!formData.name || !formData.email || !formData.phone || !formData.subject) {
+    if (!formData.name || !formData.email || !formData.phone) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
@@ -277,64 +268,27 @@ export default function TeacherManagement() {
         hasImage: !!formData.image
       });
 
-      const response = await fetchWithTimeout(`${API_URL}/teachers`, {
-        method: 'POST',
-        body: formDataToSend,
-      });
-
-      const responseText = await response.text();
-      console.log('Server response:', responseText);
-
-      if (!response.ok) {
-        let errorMessage = 'Failed to add teacher';
-        try {
-          const errorData = JSON.parse(responseText);
-          if (errorData.errors) {
-            // Format validation errors into a readable message
-            const errorMessages = Object.entries(errorData.errors)
-              .map(([field, messages]) => `${field}: ${(messages as string[]).join(', ')}`)
-              .join('\n');
-            errorMessage = `Validation failed:\n${errorMessages}`;
-          } else {
-            errorMessage = errorData.message || errorMessage;
-          }
-          if (errorData.error) {
-            console.error('Detailed error:', errorData.error);
-          }
-        } catch (e) {
-          console.error('Error parsing response:', e);
-        }
-        throw new Error(errorMessage);
-      }
-
-      const data = JSON.parse(responseText);
-      if (data.success) {
-        setTeachers([...teachers, data.teacher]);
+      const teacher = await api.teachers.create(formDataToSend);
+      setTeachers([...teachers, teacher]);
+      setIsAddModalVisible(false);
+      toast.show('Teacher added successfully!', { type: 'success' });
+      // Clear form data
+      setFormData(INITIAL_FORM_DATA);
+    } catch (error: any) {
+      if (error instanceof OfflineQueuedError) {
         setIsAddModalVisible(false);
-        toast.show('Teacher added successfully!', { type: 'success' });
-        // Clear form data
-        setFormData(INITIAL_FORM_DATA);
-      } else {
-        throw new Error(data.message || 'Failed to add teacher');
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
-    } catch (error: any) {
       console.error('Error adding teacher:', error);
-      let errorMessage = 'Failed to add teacher. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to add teacher. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     }
   };
 
   const handleSubmitEdit = async () => {
-    if (!formData.name || !formData.email || !formData.phone || !formData.subject) {
+    if (!formData.name || !formData.email || !formData.phone) {
       Alert.alert('Error', 'Please fill in all required fields');
       return;
     }
@@ -344,9 +298,6 @@ export default function TeacherManagement() {
     try {
       const formDataToSend = new FormData();
       
-      // Add _method=PUT for Laravel's form method spoofing
-      formDataToSend.append('_method', 'PUT');
-      
       // Log the form data before sending
       console.log('Form data before sending:', formData);
       
@@ -402,84 +353,61 @@ export default function TeacherManagement() {
         console.log(pair[0] + ': ' + (pair[1] instanceof Blob ? 'Blob data' : pair[1]));
       }
 
-      console.log('Sending update request to:', `${API_URL}/teachers/${selectedTeacher.id}`);
-
-      const response = await fetchWithTimeout(`${API_URL}/teachers/${selectedTeacher.id}`, {
-        method: 'POST', // Change to POST since we're using _method=PUT
-        body: formDataToSend,
-        headers: {
-          'Accept': 'application/json',
-          // Remove Content-Type header to let the browser set it with the boundary
-        },
-      });
-
-      console.log('Response status:', response.status);
-      const responseText = await response.text();
-      console.log('Response text:', responseText);
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}, response: ${responseText}`);
-      }
-
-      const data = JSON.parse(responseText);
-      if (data.success) {
-        const updatedTeachers = teachers.map((teacher) =>
-          teacher.id === selectedTeacher.id ? data.teacher : teacher
-        );
-        setTeachers(updatedTeachers);
+      // The client sends multipart updates as POST with _method=PUT for Laravel
+      const updated = await api.teachers.update(selectedTeacher.id, formDataToSend);
+      const updatedTeachers = teachers.map((teacher) =>
+        teacher.id === selectedTeacher.id ? { ...teacher, ...updated } : teacher
+      );
+      setTeachers(updatedTeachers);
+      setIsEditModalVisible(false);
+      toast.show('Teacher updated successfully!', { type: 'success' });
+    } catch (error: any) {
+      if (error instanceof OfflineQueuedError) {
         setIsEditModalVisible(false);
-        toast.show('Teacher updated successfully!', { type: 'success' });
-      } else {
-        throw new Error(data.message || 'Failed to update teacher');
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
-    } catch (error: any) {
       console.error('Error updating teacher:', error);
-      let errorMessage = 'Failed to update teacher. ';
-      
-      if (error.message.includes('timed out')) {
-        errorMessage += 'Request timed out. Please try again.';
-      } else if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to update teacher. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     }
   };
 
+  // Keeps the card's subjects and load in step with the classes modal
+  const handleAssignmentsChange = (assignments: TeachingAssignment[], load: TeachingLoad | null) => {
+    if (!classesTeacher) return;
+    const subjects = assignments
+      .map(assignment => assignment.subject)
+      .filter((subject, index, all): subject is NonNullable<typeof subject> =>
+        subject !== null && all.findIndex(other => other?.id === subject.id) === index);
+    setTeachers(current => current.map(teacher =>
+      teacher.id === classesTeacher.id
+        ? { ...teacher, ...load, subjects, assignments_count: assignments.length }
+        : teacher
+    ));
+  };
+
   const handleConfirmDelete = async () => {
     if (!selectedTeacher) return;
 
     try {
-      const response = await fetchWithTimeout(`${API_URL}/teachers/${selectedTeacher.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Accept': 'application/json',
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-      if (data.success) {
-        const updatedTeachers = teachers.filter(
-          (teacher) => teacher.id !== selectedTeacher.id
-        );
-        setTeachers(updatedTeachers);
+      await api.teachers.remove(selectedTeacher.id);
+      const updatedTeachers = teachers.filter(
+        (teacher) => teacher.id !== selectedTeacher.id
+      );
+      setTeachers(updatedTeachers);
+      setIsDeleteModalVisible(false);
+      toast.show('Teacher deleted successfully!', { type: 'success' });
+    } catch (error: any) {
+      if (error instanceof OfflineQueuedError) {
+        setTeachers(teachers.filter(teacher => teacher.id !== selectedTeacher.id));
         setIsDeleteModalVisible(false);
-        toast.show('Teacher deleted successfully!', { type: 'success' });
-      } else {
-        throw new Error(data.message);
+        toast.show(error.message, { type: 'warning' });
+        return;
       }
-    } catch (error: any) {
       console.error('Error deleting teacher:', error);
-      let errorMessage = 'Failed to delete teacher. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      }
+      const errorMessage = `Failed to delete teacher. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     }
@@ -521,9 +449,6 @@ export default function TeacherManagement() {
       if (!localFormData.phone?.trim()) {
         errors.phone = 'Phone number is required';
       }
-      if (!localFormData.subject?.trim()) {
-        errors.subject = 'Subject is required';
-      }
       if (!localFormData.gender?.trim()) {
         errors.gender = 'Gender is required';
       }
@@ -586,8 +511,8 @@ export default function TeacherManagement() {
         />
         {formErrors.phone && <Text style={styles.errorText}>{formErrors.phone}</Text>}
 
-        <Text style={styles.inputLabel}>Subject *</Text>
-        <View style={[styles.pickerContainer, formErrors.subject && styles.inputError]}>
+        <Text style={styles.inputLabel}>Specialization</Text>
+        <View style={styles.pickerContainer}>
           <Picker
             selectedValue={localFormData.subject}
             onValueChange={(value) => handleLocalChange('subject', value)}
@@ -598,7 +523,6 @@ export default function TeacherManagement() {
             ))}
           </Picker>
         </View>
-        {formErrors.subject && <Text style={styles.errorText}>{formErrors.subject}</Text>}
 
         <Text style={styles.inputLabel}>Gender *</Text>
         <View style={[styles.pickerContainer, formErrors.gender && styles.inputError]}>
@@ -662,9 +586,7 @@ export default function TeacherManagement() {
       if (teacher.image.startsWith('http')) return teacher.image;
       if (teacher.image.startsWith('data:')) return teacher.image;
       if (teacher.image.startsWith('file:')) return teacher.image;
-      // Remove /api prefix and ensure proper URL construction
-      const baseUrl = API_URL.replace('/api', '');
-      return `${baseUrl}/storage/${teacher.image}`;
+      return `${API_BASE_URL}/storage/${teacher.image}`;
     }
     return null;
   };
@@ -706,12 +628,41 @@ export default function TeacherManagement() {
               <Text style={styles.detailValue}>{item.email}</Text>
             </View>
             <View style={styles.detailRow}>
-              <Text style={styles.detailLabel}>Subject:</Text>
-              <Text style={styles.detailValue}>{item.subject}</Text>
+              <Text style={styles.detailLabel}>Account:</Text>
+              <Text style={styles.detailValue}>{item.user?.email || 'Not Linked'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Specialization:</Text>
+              <Text style={styles.detailValue}>{item.subject || 'Not Assigned'}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Subjects:</Text>
+              <Text style={styles.detailValue}>{formatSubjects(item)}</Text>
             </View>
+            {item.weekly_hours !== undefined && item.max_weekly_hours !== undefined && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Load:</Text>
+                <Text style={[styles.detailValue, item.overloaded && styles.overloadedText]}>
+                  {formatLoad({ weekly_hours: item.weekly_hours, max_weekly_hours: item.max_weekly_hours })}
+                  {item.overloaded ? ' (over maximum)' : ''}
+                </Text>
+              </View>
+            )}
           </View>
         </View>
         <View style={styles.actionButtons}>
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.classesButton]}
+            onPress={() => setClassesTeacher(item)}
+          >
+            <Text style={styles.actionButtonText}>Classes</Text>
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={[styles.actionButton, styles.accountButton]}
+            onPress={() => setAccountTeacher(item)}
+          >
+            <Text style={styles.actionButtonText}>Account</Text>
+          </TouchableOpacity>
           <TouchableOpacity 
             style={[styles.actionButton, styles.editButton]}
             onPress={() => handleEditTeacher(item)}
@@ -741,23 +692,26 @@ export default function TeacherManagement() {
             onChangeText={setSearchQuery}
           />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#333" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#333" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Teachers</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={() => setIsAddModalVisible(true)}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add Teacher</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Teachers"
+            columns={TEACHER_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.teachers.list({ page, limit, search: searchQuery })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={() => setIsAddModalVisible(true)}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add Teacher</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Teacher List with Pull to Refresh and Infinite Scroll */}
@@ -784,7 +738,7 @@ export default function TeacherManagement() {
       ) : (
         <FlatList
           data={teachers}
-          keyExtractor={(item) => item.id}
+          keyExtractor={(item) => item.id.toString()}
           renderItem={renderTeacherItem}
           onRefresh={handleRefresh}
           refreshing={isRefreshing}
@@ -824,6 +778,44 @@ export default function TeacherManagement() {
         </View>
       </Modal>
 
+      {/* Classes Modal */}
+      <Modal
+        visible={classesTeacher !== null}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setClassesTeacher(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.formContainer}>
+            <View style={styles.formHeader}>
+              <Text style={styles.formTitle}>{classesTeacher?.name}'s Classes</Text>
+              <TouchableOpacity onPress={() => setClassesTeacher(null)}>
+                <MaterialIcons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+            {classesTeacher && (
+              <ScrollView style={styles.classesBody}>
+                <TeachingAssignmentsPanel teacherId={classesTeacher.id} onChange={handleAssignmentsChange} />
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Account Link Modal */}
+      <AccountLinkModal
+        visible={accountTeacher !== null}
+        onClose={() => setAccountTeacher(null)}
+        role="Teacher"
+        recordName={accountTeacher?.name ?? ''}
+        account={accountTeacher?.user ?? null}
+        onLink={async (userId) => {
+          if (!accountTeacher) return;
+          const updated = await api.teachers.linkAccount(accountTeacher.id, userId);
+          setTeachers(prev => prev.map(teacher => (teacher.id === updated.id ? { ...teacher, ...updated } : teacher)));
+        }}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal
         visible={isDeleteModalVisible}
@@ -887,26 +879,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -922,6 +894,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1038,6 +1014,19 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: '#ff4444',
   },
+  classesButton: {
+    backgroundColor: '#34a853',
+  },
+  accountButton: {
+    backgroundColor: '#5f6368',
+  },
+  overloadedText: {
+    color: '#ff4444',
+    fontWeight: '600',
+  },
+  classesBody: {
+    maxHeight: 480,
+  },
   actionButtonText: {
     color: '#fff',
     fontSize: 14,
@@ -0,0 +1,815 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { api, getErrorMessage, Term } from '../../config/api';
+import NotificationBell from '../components/NotificationBell';
+import { useTerm } from '../context/TermContext';
+
+interface FormData {
+  school_year: string;
+  name: string;
+  starts_on: string;
+  ends_on: string;
+  is_current: boolean;
+  copy_subjects_from: string;
+}
+
+const INITIAL_FORM_DATA: FormData = {
+  school_year: '',
+  name: '',
+  starts_on: '',
+  ends_on: '',
+  is_current: false,
+  copy_subjects_from: '',
+};
+
+// Changes that need a confirmation first
+type TermAction = 'archive' | 'delete';
+
+const formatRange = (term: Term) => (
+  term.starts_on || term.ends_on ? `${term.starts_on || '?'} to ${term.ends_on || '?'}` : 'No dates set'
+);
+
+export default function TermManagement() {
+  const toast = useToast();
+  const { refreshTerms } = useTerm();
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Modal states
+  const [isFormVisible, setIsFormVisible] = useState(false);
+  const [editingTerm, setEditingTerm] = useState<Term | null>(null);
+  const [formData, setFormData] = useState<FormData>(INITIAL_FORM_DATA);
+  const [formErrors, setFormErrors] = useState<Partial<Record<keyof FormData, string>>>({});
+  const [pendingAction, setPendingAction] = useState<{ action: TermAction; term: Term } | null>(null);
+
+  const fetchTerms = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const { terms: list } = await api.terms.list();
+      setTerms(list);
+    } catch (error) {
+      console.error('Error fetching terms:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTerms();
+  }, []);
+
+  // Keeps this list and the term selector above every admin screen in step
+  const afterChange = async () => {
+    await Promise.all([fetchTerms(), refreshTerms()]);
+  };
+
+  const handleAdd = () => {
+    setEditingTerm(null);
+    setFormData(INITIAL_FORM_DATA);
+    setFormErrors({});
+    setIsFormVisible(true);
+  };
+
+  const handleEdit = (term: Term) => {
+    setEditingTerm(term);
+    setFormData({
+      ...INITIAL_FORM_DATA,
+      school_year: term.school_year,
+      name: term.name,
+      starts_on: term.starts_on || '',
+      ends_on: term.ends_on || '',
+    });
+    setFormErrors({});
+    setIsFormVisible(true);
+  };
+
+  const handleChange = (field: keyof FormData, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (formErrors[field]) {
+      setFormErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateForm = () => {
+    const errors: Partial<Record<keyof FormData, string>> = {};
+
+    if (!/^\d{4}-\d{4}$/.test(formData.school_year.trim())) {
+      errors.school_year = 'The school year must look like 2025-2026';
+    }
+    if (!formData.name.trim()) {
+      errors.name = 'Term name is required';
+    }
+    (['starts_on', 'ends_on'] as const).forEach(field => {
+      if (formData[field].trim() && !/^\d{4}-\d{2}-\d{2}$/.test(formData[field].trim())) {
+        errors[field] = 'Use the YYYY-MM-DD format';
+      }
+    });
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) {
+      toast.show('Please fill in all required fields correctly', { type: 'error' });
+      return;
+    }
+
+    const body = {
+      school_year: formData.school_year.trim(),
+      name: formData.name.trim(),
+      starts_on: formData.starts_on.trim() || null,
+      ends_on: formData.ends_on.trim() || null,
+    };
+
+    try {
+      setSaving(true);
+      if (editingTerm) {
+        await api.terms.update(editingTerm.id, body);
+        toast.show('Term updated successfully!', { type: 'success' });
+      } else {
+        await api.terms.create({
+          ...body,
+          is_current: formData.is_current,
+          copy_subjects_from: formData.copy_subjects_from ? Number(formData.copy_subjects_from) : null,
+        });
+        toast.show('Term added successfully!', { type: 'success' });
+      }
+      setIsFormVisible(false);
+      setEditingTerm(null);
+      await afterChange();
+    } catch (error) {
+      console.error('Error saving term:', error);
+      toast.show(`Failed to ${editingTerm ? 'update' : 'add'} term. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMakeCurrent = async (term: Term) => {
+    try {
+      setSaving(true);
+      await api.terms.makeCurrent(term.id);
+      toast.show(`${term.label} is now the current term`, { type: 'success' });
+      await afterChange();
+    } catch (error) {
+      console.error('Error changing the current term:', error);
+      toast.show(`Failed to change the current term. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { action, term } = pendingAction;
+
+    try {
+      setSaving(true);
+      if (action === 'archive') {
+        await api.terms.archive(term.id);
+        toast.show(`${term.label} archived successfully!`, { type: 'success' });
+      } else {
+        await api.terms.remove(term.id);
+        toast.show('Term deleted successfully!', { type: 'success' });
+      }
+      setPendingAction(null);
+      await afterChange();
+    } catch (error) {
+      console.error(`Error trying to ${action} term:`, error);
+      toast.show(`Failed to ${action} term. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderTerm = ({ item }: { item: Term }) => (
+    <View style={[styles.card, item.is_archived && styles.cardArchived]}>
+      <View style={styles.cardInfo}>
+        <View style={[styles.avatar, item.is_current && styles.avatarCurrent]}>
+          <MaterialIcons
+            name={item.is_archived ? 'lock' : 'event'}
+            size={28}
+            color={item.is_current ? '#fff' : '#666'}
+          />
+        </View>
+        <View style={styles.details}>
+          <View style={styles.nameRow}>
+            <Text style={styles.termName}>{item.label}</Text>
+            {item.is_current && <Text style={[styles.badge, styles.badgeCurrent]}>Current</Text>}
+            {item.is_archived && <Text style={[styles.badge, styles.badgeArchived]}>Archived</Text>}
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Dates:</Text>
+            <Text style={styles.detailValue}>{formatRange(item)}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Subjects:</Text>
+            <Text style={styles.detailValue}>{item.subjects_count ?? 0}</Text>
+          </View>
+          <View style={styles.detailRow}>
+            <Text style={styles.detailLabel}>Sections:</Text>
+            <Text style={styles.detailValue}>{item.sections_count ?? 0}</Text>
+          </View>
+        </View>
+      </View>
+      {!item.is_archived && (
+        <View style={styles.actionButtons}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.editButton]}
+            onPress={() => handleEdit(item)}
+            disabled={saving}
+          >
+            <Text style={styles.actionButtonText}>Edit</Text>
+          </TouchableOpacity>
+          {!item.is_current && (
+            <>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.currentButton]}
+                onPress={() => handleMakeCurrent(item)}
+                disabled={saving}
+              >
+                <Text style={styles.actionButtonText}>Make Current</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.archiveButton]}
+                onPress={() => setPendingAction({ action: 'archive', term: item })}
+                disabled={saving}
+              >
+                <Text style={styles.actionButtonText}>Archive</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.deleteButton]}
+                onPress={() => setPendingAction({ action: 'delete', term: item })}
+                disabled={saving}
+              >
+                <Text style={styles.actionButtonText}>Delete</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" />
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>School Years and Terms</Text>
+        <NotificationBell color="#fff" />
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title}>Terms</Text>
+        <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+          <MaterialIcons name="add" size={24} color="#fff" />
+          <Text style={styles.addButtonText}>Add Term</Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading terms...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorMessage}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchTerms}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={terms}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderTerm}
+          ListEmptyComponent={<Text style={styles.emptyText}>No terms yet. Add the school year's first term.</Text>}
+          contentContainerStyle={styles.list}
+        />
+      )}
+
+      <Modal visible={isFormVisible} animationType="slide" transparent={true}>
+        <View style={styles.modalContainer}>
+          <View style={styles.formContainer}>
+            <View style={styles.formHeader}>
+              <Text style={styles.formTitle}>{editingTerm ? 'Edit Term' : 'Add Term'}</Text>
+              <TouchableOpacity onPress={() => setIsFormVisible(false)}>
+                <MaterialIcons name="close" size={24} color="#666" />
+              </TouchableOpacity>
+            </View>
+
+            <Text style={styles.inputLabel}>School Year *</Text>
+            <TextInput
+              style={[styles.input, !!formErrors.school_year && styles.inputError]}
+              value={formData.school_year}
+              onChangeText={(text) => handleChange('school_year', text)}
+              placeholder="2025-2026"
+            />
+            {formErrors.school_year && <Text style={styles.errorText}>{formErrors.school_year}</Text>}
+
+            <Text style={styles.inputLabel}>Term *</Text>
+            <TextInput
+              style={[styles.input, !!formErrors.name && styles.inputError]}
+              value={formData.name}
+              onChangeText={(text) => handleChange('name', text)}
+              placeholder="First Semester"
+            />
+            {formErrors.name && <Text style={styles.errorText}>{formErrors.name}</Text>}
+
+            <View style={styles.dateRow}>
+              <View style={styles.dateField}>
+                <Text style={styles.inputLabel}>Starts On</Text>
+                <TextInput
+                  style={[styles.input, !!formErrors.starts_on && styles.inputError]}
+                  value={formData.starts_on}
+                  onChangeText={(text) => handleChange('starts_on', text)}
+                  placeholder="YYYY-MM-DD"
+                />
+                {formErrors.starts_on && <Text style={styles.errorText}>{formErrors.starts_on}</Text>}
+              </View>
+              <View style={styles.dateField}>
+                <Text style={styles.inputLabel}>Ends On</Text>
+                <TextInput
+                  style={[styles.input, !!formErrors.ends_on && styles.inputError]}
+                  value={formData.ends_on}
+                  onChangeText={(text) => handleChange('ends_on', text)}
+                  placeholder="YYYY-MM-DD"
+                />
+                {formErrors.ends_on && <Text style={styles.errorText}>{formErrors.ends_on}</Text>}
+              </View>
+            </View>
+
+            {!editingTerm && (
+              <>
+                <Text style={styles.inputLabel}>Copy Subjects From</Text>
+                <View style={styles.pickerContainer}>
+                  <Picker
+                    selectedValue={formData.copy_subjects_from}
+                    onValueChange={(value) => handleChange('copy_subjects_from', String(value))}
+                    style={styles.picker}
+                  >
+                    <Picker.Item label="Don't copy subjects" value="" />
+                    {terms.map(term => (
+                      <Picker.Item key={term.id} label={term.label} value={String(term.id)} />
+                    ))}
+                  </Picker>
+                </View>
+
+                <View style={styles.switchRow}>
+                  <Text style={styles.switchLabel}>Make this the current term</Text>
+                  <Switch
+                    value={formData.is_current}
+                    onValueChange={(value) => handleChange('is_current', value)}
+                  />
+                </View>
+              </>
+            )}
+
+            <View style={styles.formActions}>
+              <TouchableOpacity style={styles.cancelButton} onPress={() => setIsFormVisible(false)}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.submitButton, saving && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={saving}
+              >
+                <Text style={styles.submitButtonText}>
+                  {saving ? 'Saving...' : editingTerm ? 'Update' : 'Add'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={pendingAction !== null} animationType="fade" transparent={true}>
+        <View style={styles.modalContainer}>
+          <View style={styles.confirmation}>
+            <Text style={styles.confirmTitle}>
+              {pendingAction?.action === 'archive'
+                ? `Archive ${pendingAction.term.label}?`
+                : `Delete ${pendingAction?.term.label}?`}
+            </Text>
+            <Text style={styles.confirmMessage}>
+              {pendingAction?.action === 'archive'
+                ? 'Its subjects, sections, enrollments, grades, schedules and attendance become read-only. Archiving cannot be undone.'
+                : 'Only terms without subjects or sections can be deleted. This action cannot be undone.'}
+            </Text>
+            <View style={styles.confirmActions}>
+              <TouchableOpacity
+                style={[styles.confirmAction, styles.cancelConfirm]}
+                onPress={() => setPendingAction(null)}
+              >
+                <Text style={styles.cancelConfirmText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmAction, pendingAction?.action === 'archive' ? styles.archiveButton : styles.deleteButton]}
+                onPress={handleConfirmAction}
+                disabled={saving}
+              >
+                <Text style={styles.confirmActionText}>
+                  {pendingAction?.action === 'archive' ? 'Archive' : 'Delete'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1a73e8',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  list: {
+    padding: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  cardArchived: {
+    opacity: 0.75,
+  },
+  cardInfo: {
+    flexDirection: 'row',
+  },
+  avatar: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    marginRight: 16,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarCurrent: {
+    backgroundColor: '#1a73e8',
+  },
+  details: {
+    flex: 1,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  termName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 8,
+  },
+  badge: {
+    fontSize: 12,
+    fontWeight: '600',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+    marginRight: 6,
+  },
+  badgeCurrent: {
+    backgroundColor: '#e6f4ea',
+    color: '#137333',
+  },
+  badgeArchived: {
+    backgroundColor: '#f1f3f4',
+    color: '#5f6368',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  detailLabel: {
+    width: 80,
+    fontSize: 13,
+    color: '#666',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    flexWrap: 'wrap',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+    marginTop: 16,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  editButton: {
+    backgroundColor: '#1a73e8',
+  },
+  currentButton: {
+    backgroundColor: '#34a853',
+  },
+  archiveButton: {
+    backgroundColor: '#5f6368',
+  },
+  deleteButton: {
+    backgroundColor: '#ff4444',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    textAlign: 'center',
+    fontSize: 16,
+    color: '#666',
+    marginTop: 24,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  formContainer: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 500,
+    alignSelf: 'center',
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 3,
+      },
+      web: {
+        boxShadow: '0px 2px 6px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  formHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  formTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 16,
+  },
+  inputError: {
+    borderColor: '#ff4444',
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 12,
+    marginTop: -12,
+    marginBottom: 8,
+    marginLeft: 4,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    marginHorizontal: -6,
+  },
+  dateField: {
+    flex: 1,
+    marginHorizontal: 6,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  picker: {
+    height: 50,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    fontSize: 14,
+    color: '#333',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 20,
+  },
+  cancelButton: {
+    marginRight: 12,
+    padding: 12,
+  },
+  cancelButtonText: {
+    color: '#666',
+    fontSize: 16,
+  },
+  submitButton: {
+    backgroundColor: '#1a73e8',
+    padding: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
+  confirmation: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+    alignSelf: 'center',
+  },
+  confirmTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  confirmMessage: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  confirmActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  confirmAction: {
+    padding: 12,
+    minWidth: 100,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelConfirm: {
+    backgroundColor: '#f5f5f5',
+  },
+  cancelConfirmText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#666',
+  },
+  confirmActionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorMessage: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#ff4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -15,18 +15,13 @@ import {
   View
 } from 'react-native';
 import { useToast } from 'react-native-toast-notifications';
+import { api, getErrorMessage, User } from '../../config/api';
+import TrashList, { TrashTabs } from '../components/TrashList';
+import ExportButton from '../components/ExportButton';
 import { Button } from '../../components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '../../components/ui/dialog';
-
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  role: string;
-  created_at: string;
-  updated_at: string;
-  deleted_at: string | null;
-}
+import { ExportColumn } from '../../utils/export';
+import NotificationBell from '../components/NotificationBell';
 
 interface UserFormData {
   name: string;
@@ -42,62 +37,17 @@ const INITIAL_FORM_DATA: UserFormData = {
   role: 'Student'
 };
 
-const API_URL = 'http://192.168.0.100:3001/api';
 const DEBOUNCE_DELAY = 1000; // 1 second delay
 const ITEMS_PER_PAGE = 10;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 2000; // 2 seconds
 
-// Add timeout configuration
-const fetchWithTimeout = async (url: string, options: RequestInit, timeout = 30000) => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    console.log('Making request to:', url);
-    console.log('Request options:', {
-      method: options.method,
-      headers: options.headers,
-      signal: controller.signal
-    });
-
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': (options.headers as Record<string, string>)?.['Content-Type'] || 'application/json',
-      },
-    });
-
-    clearTimeout(id);
-    
-    console.log('Response received:', {
-      status: response.status,
-      statusText: response.statusText,
-      headers: Object.fromEntries(response.headers.entries())
-    });
-
-    return response;
-  } catch (error: unknown) {
-    clearTimeout(id);
-    console.error('Fetch error details:', {
-      error,
-      errorType: error instanceof Error ? error.constructor.name : typeof error,
-      errorMessage: error instanceof Error ? error.message : String(error)
-    });
-    
-    if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request timed out. Please try again.');
-      }
-      if (error.message.includes('Failed to fetch')) {
-        throw new Error('Could not connect to the server. Please check if the server is running and accessible.');
-      }
-    }
-    throw error;
-  }
-};
+const USER_EXPORT_COLUMNS: ExportColumn<User>[] = [
+  { label: 'Name', value: item => item.name },
+  { label: 'Email', value: item => item.email },
+  { label: 'Role', value: item => item.role },
+  { label: 'Created', value: item => new Date(item.created_at).toLocaleDateString() },
+];
 
 export default function UserManagement() {
   const [searchQuery, setSearchQuery] = useState('');
@@ -109,6 +59,7 @@ export default function UserManagement() {
   const [hasMore, setHasMore] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [activeTab, setActiveTab] = useState<'active' | 'trash'>('active');
   const toast = useToast();
 
   // Modal states
@@ -150,56 +101,27 @@ export default function UserManagement() {
       }
 
       const currentPage = isRefresh ? 1 : page;
-      const url = `${API_URL}/users?page=${currentPage}&limit=${ITEMS_PER_PAGE}&search=${encodeURIComponent(searchQuery)}`;
-      
-      console.log('Fetching users from:', url);
+      const { items } = await api.users.list({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
+      });
 
-      const response = await fetchWithTimeout(
-        url,
-        {
-          method: 'GET',
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Server error response:', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorText
+      if (isRefresh) {
+        setUsers(items);
+        setPage(1);
+      } else {
+        // Filter out any potential duplicates before adding new items
+        setUsers(prevUsers => {
+          const existingIds = new Set(prevUsers.map(user => user.id));
+          const uniqueNewUsers = items.filter(user => !existingIds.has(user.id));
+          return [...prevUsers, ...uniqueNewUsers];
         });
-        throw new Error(`Server error: ${response.status} ${response.statusText}`);
       }
-      
-      const data = await response.json();
-      console.log('API Response:', data);
-      
-      if (data.success) {
-        console.log('Setting users data:', data.data);
-        if (isRefresh) {
-          setUsers(data.data || []);
-          setPage(1);
-        } else {
-          // Filter out any potential duplicates before adding new items
-          const newUsers = data.data || [];
-          setUsers(prevUsers => {
-            const existingIds = new Set(prevUsers.map(user => user.id));
-            const uniqueNewUsers = newUsers.filter((user: User) => !existingIds.has(user.id));
-            return [...prevUsers, ...uniqueNewUsers];
-          });
-        }
-        setHasMore((data.data || []).length === ITEMS_PER_PAGE);
-        setRetryCount(0);
-        if (!isRefresh) {
-          setPage(prev => prev + 1);
-        }
-      } else {
-        console.error('API returned error:', data);
-        throw new Error(data.message || 'Failed to fetch users');
+      setHasMore(items.length === ITEMS_PER_PAGE);
+      setRetryCount(0);
+      if (!isRefresh) {
+        setPage(prev => prev + 1);
       }
     } catch (error: any) {
       console.error('Error in fetchUsers:', {
@@ -208,15 +130,7 @@ export default function UserManagement() {
         errorMessage: error instanceof Error ? error.message : String(error)
       });
       
-      let errorMessage = 'Could not connect to server. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check if the server is running and your internet connection is stable.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = getErrorMessage(error);
       
       setError(errorMessage);
       
@@ -255,43 +169,28 @@ export default function UserManagement() {
   const handleEditUser = async (user: User) => {
     try {
       setLoading(true);
-      const response = await fetchWithTimeout(`${API_URL}/users/${user.id}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          name: formData.name,
-          email: formData.email,
-          password: formData.password || undefined,
-          role: formData.role
-        }),
+      await api.users.update(user.id, {
+        name: formData.name,
+        email: formData.email,
+        password: formData.password || undefined,
+        role: formData.role
       });
 
-      const data = await response.json();
-      console.log('Edit response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to update user');
-      }
-
-      if (data.success) {
-        setIsEditModalVisible(false);
-        setFormData({
-          name: '',
-          email: '',
-          password: '',
-          role: 'Student'
-        });
-        // Reset page and fetch fresh data
-        setPage(1);
-        setUsers([]);
-        fetchUsers(true);
-        toast.show('User updated successfully!', { type: 'success' });
-      }
+      setIsEditModalVisible(false);
+      setFormData({
+        name: '',
+        email: '',
+        password: '',
+        role: 'Student'
+      });
+      // Reset page and fetch fresh data
+      setPage(1);
+      setUsers([]);
+      fetchUsers(true);
+      toast.show('User updated successfully!', { type: 'success' });
     } catch (error: any) {
       console.error('Error updating user:', error);
-      toast.show(error.message || 'Failed to update user. Please try again later.', { type: 'error' });
+      toast.show(`Failed to update user. ${getErrorMessage(error)}`, { type: 'error' });
     } finally {
       setLoading(false);
     }
@@ -337,63 +236,41 @@ export default function UserManagement() {
         return;
       }
 
-      let response;
       if (selectedUser) {
         // Update existing user
-        response = await fetchWithTimeout(`${API_URL}/users/${selectedUser.id}`, {
-          method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: formData.name,
-            email: formData.email,
-            password: formData.password || undefined, // Only include password if it's provided
-            role: formData.role
-          }),
+        await api.users.update(selectedUser.id, {
+          name: formData.name,
+          email: formData.email,
+          password: formData.password || undefined, // Only include password if it's provided
+          role: formData.role
         });
       } else {
         // Create new user
-        response = await fetchWithTimeout(`${API_URL}/auth/register`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            name: formData.name,
-            email: formData.email,
-            password: formData.password,
-            role: formData.role
-          }),
+        await api.users.create({
+          name: formData.name,
+          email: formData.email,
+          password: formData.password,
+          role: formData.role
         });
       }
 
-      const data = await response.json();
-      console.log('Add/Edit response:', data);
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || `Failed to ${selectedUser ? 'update' : 'create'} user`);
-      }
-
-      if (data.success) {
-        setIsAddModalVisible(false);
-        setIsEditModalVisible(false);
-        setFormData({
-          name: '',
-          email: '',
-          password: '',
-          role: 'Student'
-        });
-        setSelectedUser(null);
-        // Reset page and fetch fresh data
-        setPage(1);
-        setUsers([]);
-        fetchUsers(true);
-        toast.show(`User ${selectedUser ? 'updated' : 'added'} successfully!`, { type: 'success' });
-      }
+      setIsAddModalVisible(false);
+      setIsEditModalVisible(false);
+      setFormData({
+        name: '',
+        email: '',
+        password: '',
+        role: 'Student'
+      });
+      setSelectedUser(null);
+      // Reset page and fetch fresh data
+      setPage(1);
+      setUsers([]);
+      fetchUsers(true);
+      toast.show(`User ${selectedUser ? 'updated' : 'added'} successfully!`, { type: 'success' });
     } catch (error: any) {
       console.error('Error submitting user:', error);
-      toast.show(error.message || `Failed to ${selectedUser ? 'update' : 'create'} user. Please try again later.`, { type: 'error' });
+      toast.show(`Failed to ${selectedUser ? 'update' : 'create'} user. ${getErrorMessage(error)}`, { type: 'error' });
     } finally {
       setLoading(false);
     }
@@ -406,33 +283,14 @@ export default function UserManagement() {
       setLoading(true);
       setError(null);
 
-      const response = await fetchWithTimeout(`${API_URL}/users/${selectedUser.id}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to delete user');
-      }
+      await api.users.remove(selectedUser.id);
 
       setUsers(users.filter(u => u.id !== selectedUser.id));
       setIsDeleteModalVisible(false);
-      toast.show('User deleted successfully!', { type: 'success' });
+      toast.show('User moved to trash.', { type: 'success' });
     } catch (error: any) {
       console.error('Error deleting user:', error);
-      let errorMessage = 'Failed to delete user. ';
-      
-      if (error instanceof TypeError && error.message === 'Network request failed') {
-        errorMessage += 'Please check your internet connection and try again.';
-      } else if (error.name === 'AbortError') {
-        errorMessage += 'Request timed out. Please try again.';
-      } else {
-        errorMessage += error.message || 'An unexpected error occurred.';
-      }
+      const errorMessage = `Failed to delete user. ${getErrorMessage(error)}`;
       
       toast.show(errorMessage, { type: 'error' });
     } finally {
@@ -452,26 +310,45 @@ export default function UserManagement() {
           onChangeText={setSearchQuery}
         />
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <MaterialIcons name="notifications" size={24} color="#fff" />
-          <View style={styles.notificationBadge}>
-            <Text style={styles.notificationBadgeText}>3</Text>
-          </View>
-        </TouchableOpacity>
+        <NotificationBell color="#fff" />
       </View>
 
       <View style={styles.titleContainer}>
         <Text style={styles.title}>Users</Text>
-        <TouchableOpacity 
-          style={styles.addButton}
-          onPress={handleAddUser}
-        >
-          <MaterialIcons name="add" size={24} color="#fff" />
-          <Text style={styles.addButtonText}>Add User</Text>
-        </TouchableOpacity>
+        <View style={styles.titleActions}>
+          <ExportButton
+            title="Users"
+            columns={USER_EXPORT_COLUMNS}
+            fetchPage={(page, limit) => api.users.list({ page, limit, search: searchQuery })}
+            searchQuery={searchQuery}
+          />
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={handleAddUser}
+          >
+            <MaterialIcons name="add" size={24} color="#fff" />
+            <Text style={styles.addButtonText}>Add User</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
-      {loading ? (
+      <TrashTabs value={activeTab} onChange={setActiveTab} />
+
+      {activeTab === 'trash' ? (
+        <TrashList
+          label="user"
+          icon="person"
+          resource={api.users}
+          searchQuery={searchQuery}
+          renderDetails={(user) => (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Email:</Text>
+              <Text style={styles.detailValue}>{user.email}</Text>
+            </View>
+          )}
+          onRestored={(restored) => setUsers(prev => [restored, ...prev])}
+        />
+      ) : loading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#1a73e8" />
           <Text style={styles.loadingText}>Loading users...</Text>
@@ -677,30 +554,21 @@ export default function UserManagement() {
               />
               <Text style={styles.inputLabel}>Role</Text>
               <View style={styles.roleContainer}>
-                <TouchableOpacity
-                  style={[
-                    styles.roleButton,
-                    formData.role === 'Student' && styles.roleButtonActive
-                  ]}
-                  onPress={() => setFormData({ ...formData, role: 'Student' })}
-                >
-                  <Text style={[
-                    styles.roleButtonText,
-                    formData.role === 'Student' && styles.roleButtonTextActive
-                  ]}>Student</Text>
-                </TouchableOpacity>
-                <TouchableOpacity
-                  style={[
-                    styles.roleButton,
-                    formData.role === 'Admin' && styles.roleButtonActive
-                  ]}
-                  onPress={() => setFormData({ ...formData, role: 'Admin' })}
-                >
-                  <Text style={[
-                    styles.roleButtonText,
-                    formData.role === 'Admin' && styles.roleButtonTextActive
-                  ]}>Admin</Text>
-                </TouchableOpacity>
+                {roles.map((role) => (
+                  <TouchableOpacity
+                    key={role}
+                    style={[
+                      styles.roleButton,
+                      formData.role === role && styles.roleButtonActive
+                    ]}
+                    onPress={() => setFormData({ ...formData, role })}
+                  >
+                    <Text style={[
+                      styles.roleButtonText,
+                      formData.role === role && styles.roleButtonTextActive
+                    ]}>{role}</Text>
+                  </TouchableOpacity>
+                ))}
               </View>
               <View style={styles.formActions}>
                 <Button
@@ -728,7 +596,7 @@ export default function UserManagement() {
           <View style={styles.deleteConfirmation}>
             <Text style={styles.deleteTitle}>Are you sure you want to delete this user?</Text>
             <Text style={styles.deleteMessage}>
-              This action cannot be undone. This will permanently delete the user record.
+              The user will be moved to the trash and signed out. You can restore them from the Trash tab.
             </Text>
             <View style={styles.deleteActions}>
               <TouchableOpacity
@@ -781,26 +649,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#333',
   },
-  notificationButton: {
-    padding: 8,
-    position: 'relative',
-  },
-  notificationBadge: {
-    position: 'absolute',
-    top: 0,
-    right: 0,
-    backgroundColor: '#FF3B30',
-    borderRadius: 10,
-    minWidth: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   titleContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -816,6 +664,10 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#333',
   },
+  titleActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
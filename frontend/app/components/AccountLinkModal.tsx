@@ -0,0 +1,230 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { AccountRef, api, getErrorMessage, User } from '../../config/api';
+
+interface AccountLinkModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // The role the linked account must have
+  role: 'Student' | 'Teacher';
+  // Name of the student or teacher record being linked
+  recordName: string;
+  account: AccountRef | null;
+  // Links the record to the account, or unlinks it with null
+  onLink: (userId: number | null) => Promise<void>;
+}
+
+const SEARCH_DELAY = 500;
+const RESULTS_LIMIT = 20;
+
+// Picks the login account a student or teacher record signs in with.
+// Records are only ever linked here, by an admin: an account registered
+// with the same email address is not enough.
+const AccountLinkModal = ({ visible, onClose, role, recordName, account, onLink }: AccountLinkModalProps) => {
+  const toast = useToast();
+  const [search, setSearch] = useState('');
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setLoading(true);
+        const { items } = await api.users.list({ search, limit: RESULTS_LIMIT });
+        setUsers(items.filter(user => user.role === role));
+      } catch (error) {
+        console.error('Error fetching accounts:', error);
+        toast.show(`Failed to load accounts. ${getErrorMessage(error)}`, { type: 'error' });
+      } finally {
+        setLoading(false);
+      }
+    }, SEARCH_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [visible, search, role]);
+
+  const handleClose = () => {
+    setSearch('');
+    onClose();
+  };
+
+  const handleLink = async (userId: number | null) => {
+    try {
+      setSaving(true);
+      await onLink(userId);
+      toast.show(userId ? 'Account linked successfully!' : 'Account unlinked successfully!', { type: 'success' });
+      handleClose();
+    } catch (error) {
+      console.error('Error linking account:', error);
+      toast.show(`Failed to ${userId ? 'link' : 'unlink'} account. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Account for {recordName}</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <MaterialIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.current}>
+            <MaterialIcons name={account ? 'link' : 'link-off'} size={20} color={account ? '#1a73e8' : '#888'} />
+            <Text style={styles.currentText}>
+              {account ? `Signs in as ${account.name} (${account.email})` : 'No account linked yet'}
+            </Text>
+            {account && (
+              <TouchableOpacity onPress={() => handleLink(null)} disabled={saving}>
+                <Text style={styles.unlinkText}>Unlink</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          <TextInput
+            style={styles.searchInput}
+            value={search}
+            onChangeText={setSearch}
+            placeholder={`Search ${role.toLowerCase()} accounts by name or email`}
+          />
+
+          <ScrollView style={styles.results}>
+            {loading ? (
+              <ActivityIndicator color="#1a73e8" style={styles.loader} />
+            ) : users.length === 0 ? (
+              <Text style={styles.emptyText}>No {role.toLowerCase()} accounts found.</Text>
+            ) : (
+              users.map(user => (
+                <TouchableOpacity
+                  key={user.id}
+                  style={[styles.row, user.id === account?.id && styles.rowLinked]}
+                  onPress={() => handleLink(user.id)}
+                  disabled={saving || user.id === account?.id}
+                >
+                  <MaterialIcons name="person" size={22} color="#1a73e8" />
+                  <View style={styles.rowText}>
+                    <Text style={styles.primary}>{user.name}</Text>
+                    <Text style={styles.secondary}>{user.email}</Text>
+                  </View>
+                  {user.id === account?.id && <MaterialIcons name="check" size={20} color="#34a853" />}
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 500,
+    maxHeight: '80%',
+    alignSelf: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#333',
+  },
+  current: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  currentText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  unlinkText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  results: {
+    maxHeight: 320,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowLinked: {
+    backgroundColor: '#e8f0fe',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  primary: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  secondary: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+});
+
+export default AccountLinkModal;
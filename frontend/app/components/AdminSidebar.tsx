@@ -80,10 +80,15 @@ const AdminSidebar = ({ isCollapsed, toggleSidebar }: AdminSidebarProps) => {
               { icon: '👨‍🏫', text: 'Teachers', route: '/admin/teachers' },
               { icon: '🎓', text: 'Students', route: '/admin/students' },
               { icon: '📚', text: 'Subjects', route: '/admin/subjects' },
+              { icon: '📝', text: 'Grades', route: '/admin/grades' },
+              { icon: '✅', text: 'Attendance', route: '/admin/attendance' },
+              { icon: '🗓️', text: 'Schedules', route: '/admin/schedules' },
               { icon: '📊', text: 'Strands', route: '/admin/strands' },
               { icon: '📈', text: 'Grades Level', route: '/admin/gradelevels' },
               { icon: '🗂️', text: 'Section', route: '/admin/section' },
+              { icon: '📅', text: 'Terms', route: '/admin/terms' },
               { icon: '👤', text: 'Users', route: '/admin/users' },
+              { icon: '🧾', text: 'Audit Log', route: '/admin/audit-log' },
               { icon: '⚙️', text: 'Settings', route: '/admin/settings' },
             ].map(({ icon, text, route }) => (
               <TouchableOpacity 
@@ -108,7 +113,7 @@ const AdminSidebar = ({ isCollapsed, toggleSidebar }: AdminSidebarProps) => {
       {isCollapsed && (
         <View style={styles.collapsedMenu}>
           {[
-            '🏠', '👨‍🏫', '🎓', '📚', '📊', '📈', '🗂️', '👤', '⚙️',
+            '🏠', '👨‍🏫', '🎓', '📚', '✅', '📊', '📈', '🗂️', '📅', '👤', '🧾', '⚙️',
           ].map((icon, index) => (
             <TouchableOpacity
               key={icon}
@@ -119,10 +124,13 @@ const AdminSidebar = ({ isCollapsed, toggleSidebar }: AdminSidebarProps) => {
                   '/admin/teachers',
                   '/admin/students',
                   '/admin/subjects',
+                  '/admin/attendance',
                   '/admin/strands',
                   '/admin/gradelevels',
                   '/admin/section',
+                  '/admin/terms',
                   '/admin/users',
+                  '/admin/audit-log',
                   '/admin/settings',
                 ][index] && styles.activeCollapsedMenuItem
               ]}
@@ -131,10 +139,13 @@ const AdminSidebar = ({ isCollapsed, toggleSidebar }: AdminSidebarProps) => {
                 '/admin/teachers',
                 '/admin/students',
                 '/admin/subjects',
+                '/admin/attendance',
                 '/admin/strands',
                 '/admin/gradelevels',
                 '/admin/section',
+                '/admin/terms',
                 '/admin/users',
+                '/admin/audit-log',
                 '/admin/settings',
               ][index])}
             >
@@ -0,0 +1,453 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import {
+  api,
+  AttendanceEntry,
+  AttendanceSheet,
+  AttendanceSheetStudent,
+  AttendanceStatus,
+  getErrorMessage
+} from '../../config/api';
+import { ATTENDANCE_STATUSES, formatRate } from '../../constants/Attendance';
+import { addDays, formatDate, toDateString } from '../../utils/time';
+
+interface AttendanceEditorProps {
+  subjectId: number;
+  sectionId: number;
+  // Filters the roster by student name
+  searchQuery?: string;
+}
+
+interface Draft {
+  status: AttendanceStatus | null;
+  remarks: string;
+}
+
+// Marks as chosen on screen, keyed by student id
+const toDrafts = (sheet: AttendanceSheet) => {
+  const drafts: Record<number, Draft> = {};
+  sheet.students.forEach(student => {
+    drafts[student.id] = { status: student.status, remarks: student.remarks ?? '' };
+  });
+  return drafts;
+};
+
+// Day-by-day attendance taking for one section's sessions of a subject,
+// shared by the admin Attendance screen and the teacher portal
+const AttendanceEditor = ({ subjectId, sectionId, searchQuery = '' }: AttendanceEditorProps) => {
+  const [date, setDate] = useState(toDateString());
+  const [sheet, setSheet] = useState<AttendanceSheet | null>(null);
+  const [drafts, setDrafts] = useState<Record<number, Draft>>({});
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const toast = useToast();
+  const today = toDateString();
+
+  // Unsaved marks are dropped when switching days
+  const fetchSheet = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.attendance.sheet(subjectId, sectionId, date);
+      setSheet(data);
+      setDrafts(toDrafts(data));
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSheet();
+  }, [subjectId, sectionId, date]);
+
+  const filteredStudents = useMemo(() => {
+    const needle = searchQuery.trim().toLowerCase();
+    const students = sheet?.students || [];
+    return needle ? students.filter(student => student.name.toLowerCase().includes(needle)) : students;
+  }, [sheet, searchQuery]);
+
+  const updateDraft = (studentId: number, changes: Partial<Draft>) => {
+    setDrafts(prev => ({ ...prev, [studentId]: { ...prev[studentId], ...changes } }));
+  };
+
+  // Everyone not marked yet is marked present
+  const handleMarkAllPresent = () => {
+    setDrafts(prev => {
+      const next = { ...prev };
+      Object.keys(next).forEach(id => {
+        if (next[Number(id)].status === null) {
+          next[Number(id)] = { ...next[Number(id)], status: 'present' };
+        }
+      });
+      return next;
+    });
+  };
+
+  // Entries whose mark differs from what is saved for the day
+  const changedEntries = (): AttendanceEntry[] => {
+    if (!sheet) return [];
+    return sheet.students
+      .filter(student => {
+        const draft = drafts[student.id];
+        return draft && (draft.status !== student.status || draft.remarks.trim() !== (student.remarks ?? ''));
+      })
+      .map(student => {
+        const draft = drafts[student.id];
+        return { student_id: student.id, status: draft.status, remarks: draft.remarks.trim() || null };
+      });
+  };
+
+  const handleSave = async () => {
+    if (!sheet) return;
+
+    const entries = changedEntries();
+    if (entries.length === 0) {
+      toast.show('No changes to save', { type: 'normal', placement: 'top', duration: 2000 });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const data = await api.attendance.save(subjectId, sectionId, date, entries);
+      setSheet(data);
+      setDrafts(toDrafts(data));
+      toast.show(`Saved attendance for ${entries.length} student${entries.length === 1 ? '' : 's'}`, {
+        type: 'success',
+        placement: 'top',
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error saving attendance:', error);
+      toast.show(getErrorMessage(error), { type: 'danger', placement: 'top', duration: 4000 });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderStudent = ({ item }: { item: AttendanceSheetStudent }) => {
+    const draft = drafts[item.id] ?? { status: null, remarks: '' };
+
+    return (
+      <View style={styles.studentCard}>
+        <View style={styles.studentDetails}>
+          <Text style={styles.studentName}>{item.name}</Text>
+          <Text style={styles.studentMeta}>
+            {[item.grade_level, item.strand, item.section].filter(Boolean).join(' • ')}
+          </Text>
+        </View>
+        <View style={styles.statusRow}>
+          {ATTENDANCE_STATUSES.map(option => {
+            const selected = draft.status === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.statusButton,
+                  { borderColor: option.color },
+                  selected && { backgroundColor: option.color },
+                ]}
+                // Tapping the chosen status again clears the mark
+                onPress={() => updateDraft(item.id, { status: selected ? null : option.value })}
+              >
+                <Text style={[styles.statusButtonText, { color: selected ? '#fff' : option.color }]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <TextInput
+          style={styles.remarksInput}
+          value={draft.remarks}
+          onChangeText={(text) => updateDraft(item.id, { remarks: text })}
+          placeholder="Remarks (optional)"
+          maxLength={255}
+        />
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.dateRow}>
+          <TouchableOpacity style={styles.dateButton} onPress={() => setDate(addDays(date, -1))}>
+            <MaterialIcons name="chevron-left" size={24} color="#1a73e8" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.dateLabel} onPress={() => setDate(today)} disabled={date === today}>
+            <Text style={styles.dateText}>{formatDate(date)}</Text>
+            {date !== today && <Text style={styles.todayLink}>Back to today</Text>}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.dateButton, date >= today && styles.dateButtonDisabled]}
+            onPress={() => setDate(addDays(date, 1))}
+            disabled={date >= today}
+          >
+            <MaterialIcons name="chevron-right" size={24} color="#1a73e8" />
+          </TouchableOpacity>
+        </View>
+        <View style={styles.actionsRow}>
+          <TouchableOpacity
+            style={[styles.secondaryButton, !sheet && styles.saveButtonDisabled]}
+            onPress={handleMarkAllPresent}
+            disabled={!sheet}
+          >
+            <MaterialIcons name="done-all" size={20} color="#1a73e8" />
+            <Text style={styles.secondaryButtonText}>Mark all present</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.saveButton, (isSaving || !sheet) && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving || !sheet}
+          >
+            <MaterialIcons name="save" size={20} color="#fff" />
+            <Text style={styles.saveButtonText}>{isSaving ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+        {sheet && sheet.summary.total > 0 && (
+          <Text style={styles.summaryText}>
+            {ATTENDANCE_STATUSES.map(option => `${option.label}: ${sheet.summary[option.value]}`).join(' • ')}
+            {' • '}Rate: {formatRate(sheet.summary.rate)}
+          </Text>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading attendance...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchSheet}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredStudents}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderStudent}
+          ListEmptyComponent={() => (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="people-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>
+                {searchQuery ? 'No students match your search' : 'No students in this class yet'}
+              </Text>
+            </View>
+          )}
+          contentContainerStyle={styles.studentList}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  dateButton: {
+    padding: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+  },
+  dateButtonDisabled: {
+    opacity: 0.4,
+  },
+  dateLabel: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dateText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  todayLink: {
+    fontSize: 12,
+    color: '#1a73e8',
+    marginTop: 2,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginBottom: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#1a73e8',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  secondaryButtonText: {
+    color: '#1a73e8',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  studentList: {
+    padding: 12,
+  },
+  studentCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  studentDetails: {
+    marginBottom: 10,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  studentMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+  },
+  statusButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    marginRight: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  statusButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  remarksInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#333',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
+
+export default AttendanceEditor;
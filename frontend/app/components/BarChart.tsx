@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { LayoutChangeEvent, StyleSheet, Text, View } from 'react-native';
+import Svg, { Rect, Text as SvgText } from 'react-native-svg';
+import { StatCount } from '../../config/api';
+
+interface BarChartProps {
+  data: StatCount[];
+  color?: string;
+}
+
+const ROW_HEIGHT = 28;
+const BAR_HEIGHT = 16;
+const LABEL_WIDTH = 110;
+const COUNT_WIDTH = 40;
+
+const truncate = (label: string, length = 16) => (
+  label.length > length ? `${label.slice(0, length - 1)}…` : label
+);
+
+// Horizontal bar per label, scaled against the largest count
+export default function BarChart({ data, color = '#1a73e8' }: BarChartProps) {
+  const [width, setWidth] = useState(0);
+  const largest = Math.max(1, ...data.map(item => item.count));
+  const trackWidth = Math.max(0, width - LABEL_WIDTH - COUNT_WIDTH);
+
+  if (data.length === 0) {
+    return <Text style={styles.emptyText}>No data yet.</Text>;
+  }
+
+  return (
+    <View onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}>
+      {width > 0 && (
+        <Svg width={width} height={data.length * ROW_HEIGHT}>
+          {data.map((item, index) => {
+            const y = index * ROW_HEIGHT;
+            const barWidth = (item.count / largest) * trackWidth;
+            return (
+              <React.Fragment key={item.label}>
+                <SvgText x={0} y={y + ROW_HEIGHT / 2 + 4} fontSize={12} fill="#333">
+                  {truncate(item.label)}
+                </SvgText>
+                <Rect
+                  x={LABEL_WIDTH}
+                  y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                  width={trackWidth}
+                  height={BAR_HEIGHT}
+                  rx={4}
+                  fill="#f1f3f4"
+                />
+                <Rect
+                  x={LABEL_WIDTH}
+                  y={y + (ROW_HEIGHT - BAR_HEIGHT) / 2}
+                  width={barWidth}
+                  height={BAR_HEIGHT}
+                  rx={4}
+                  fill={color}
+                />
+                <SvgText
+                  x={width}
+                  y={y + ROW_HEIGHT / 2 + 4}
+                  fontSize={12}
+                  fontWeight="600"
+                  fill="#333"
+                  textAnchor="end"
+                >
+                  {item.count}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+});
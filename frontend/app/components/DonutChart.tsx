@@ -0,0 +1,109 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Svg, { Circle, G, Text as SvgText } from 'react-native-svg';
+import { StatCount } from '../../config/api';
+
+interface DonutChartProps {
+  data: StatCount[];
+  // Slice colours by label; labels without one take the palette in order
+  colors?: Record<string, string>;
+  size?: number;
+}
+
+const PALETTE = ['#1a73e8', '#e91e63', '#4CAF50', '#FF9800', '#9C27B0', '#00BCD4'];
+const STROKE_WIDTH = 24;
+
+// Share of each label drawn as a ring, with the total in the middle and a legend
+export default function DonutChart({ data, colors = {}, size = 140 }: DonutChartProps) {
+  const total = data.reduce((sum, item) => sum + item.count, 0);
+  const radius = (size - STROKE_WIDTH) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const colorOf = (label: string, index: number) => colors[label] ?? PALETTE[index % PALETTE.length];
+
+  if (total === 0) {
+    return <Text style={styles.emptyText}>No data yet.</Text>;
+  }
+
+  // Each slice is a dashed stroke starting where the previous one ended
+  let offset = 0;
+  const slices = data.map((item, index) => {
+    const length = (item.count / total) * circumference;
+    const slice = { ...item, color: colorOf(item.label, index), length, offset };
+    offset += length;
+    return slice;
+  });
+
+  return (
+    <View style={styles.container}>
+      <Svg width={size} height={size}>
+        <G rotation={-90} origin={`${size / 2}, ${size / 2}`}>
+          {slices.map(slice => (
+            <Circle
+              key={slice.label}
+              cx={size / 2}
+              cy={size / 2}
+              r={radius}
+              stroke={slice.color}
+              strokeWidth={STROKE_WIDTH}
+              strokeDasharray={`${slice.length} ${circumference - slice.length}`}
+              strokeDashoffset={-slice.offset}
+              fill="none"
+            />
+          ))}
+        </G>
+        <SvgText x={size / 2} y={size / 2 + 6} fontSize={18} fontWeight="bold" fill="#333" textAnchor="middle">
+          {total}
+        </SvgText>
+      </Svg>
+
+      <View style={styles.legend}>
+        {slices.map(slice => (
+          <View key={slice.label} style={styles.legendRow}>
+            <View style={[styles.legendSwatch, { backgroundColor: slice.color }]} />
+            <Text style={styles.legendLabel} numberOfLines={1}>{slice.label}</Text>
+            <Text style={styles.legendCount}>
+              {slice.count} ({Math.round((slice.count / total) * 100)}%)
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legend: {
+    flex: 1,
+    marginLeft: 16,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 8,
+  },
+  legendLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  legendCount: {
+    fontSize: 13,
+    color: '#666',
+    marginLeft: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+});
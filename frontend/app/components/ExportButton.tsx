@@ -0,0 +1,169 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useState } from 'react';
+import { ActivityIndicator, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { getErrorMessage, Paginated } from '../../config/api';
+import { ExportColumn, ExportFormat, exportList, fetchAllPages } from '../../utils/export';
+
+interface ExportButtonProps<T> {
+  // Plural name of the records, used for the document title and file name
+  title: string;
+  columns: ExportColumn<T>[];
+  // Fetches one page of the list with the screen's current search and filters
+  fetchPage: (page: number, limit: number) => Promise<Paginated<T>>;
+  // Active search, noted on the exported document
+  searchQuery?: string;
+}
+
+const FORMATS: { value: ExportFormat; label: string; icon: React.ComponentProps<typeof MaterialIcons>['name'] }[] = [
+  { value: 'csv', label: 'CSV spreadsheet', icon: 'table-chart' },
+  { value: 'pdf', label: 'PDF table', icon: 'picture-as-pdf' },
+];
+
+// "Export" action for admin lists: fetches every page matching the current
+// search and shares it as a CSV file or a printable PDF
+export default function ExportButton<T>({ title, columns, fetchPage, searchQuery }: ExportButtonProps<T>) {
+  const toast = useToast();
+  const [isMenuVisible, setIsMenuVisible] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const subtitle = searchQuery?.trim() ? `Matching "${searchQuery.trim()}"` : undefined;
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setProgress('Fetching records...');
+      const items = await fetchAllPages(fetchPage, (page, lastPage) => {
+        setProgress(`Fetched page ${page} of ${lastPage}...`);
+      });
+      setProgress(`Preparing ${items.length} records...`);
+      await exportList(format, title, columns, items, subtitle);
+      setIsMenuVisible(false);
+    } catch (error) {
+      console.error(`Error exporting ${title}:`, error);
+      toast.show(`Failed to export ${title.toLowerCase()}. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.exportButton} onPress={() => setIsMenuVisible(true)}>
+        <MaterialIcons name="file-download" size={24} color="#1a73e8" />
+        <Text style={styles.exportButtonText}>Export</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isMenuVisible}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => !progress && setIsMenuVisible(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalContent}>
+            <Text style={styles.modalTitle}>Export {title}</Text>
+            {subtitle && <Text style={styles.modalSubtitle}>{subtitle}</Text>}
+
+            {progress ? (
+              <View style={styles.progress}>
+                <ActivityIndicator size="large" color="#1a73e8" />
+                <Text style={styles.progressText}>{progress}</Text>
+              </View>
+            ) : (
+              <>
+                {FORMATS.map(format => (
+                  <TouchableOpacity
+                    key={format.value}
+                    style={styles.option}
+                    onPress={() => handleExport(format.value)}
+                  >
+                    <MaterialIcons name={format.icon} size={22} color="#1a73e8" />
+                    <Text style={styles.optionText}>{format.label}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity style={styles.cancelButton} onPress={() => setIsMenuVisible(false)}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#1a73e8',
+    paddingHorizontal: 12,
+    paddingVertical: 7,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  exportButtonText: {
+    color: '#1a73e8',
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 360,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 4,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  optionText: {
+    marginLeft: 12,
+    fontSize: 16,
+    color: '#333',
+  },
+  cancelButton: {
+    marginTop: 16,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f4',
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  progress: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  progressText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#666',
+  },
+});
@@ -0,0 +1,442 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { api, Gradebook, GradebookStudent, GradeEntry, getErrorMessage, Quarter } from '../../config/api';
+
+interface GradebookEditorProps {
+  subjectId: number;
+  // Narrows the roster to one class; teachers always pass it
+  sectionId?: number;
+  // Filters the roster by student name
+  searchQuery?: string;
+}
+
+const QUARTERS: Quarter[] = [1, 2, 3, 4];
+
+const quarterKey = (quarter: Quarter) => `q${quarter}` as 'q1' | 'q2' | 'q3' | 'q4';
+
+const formatScore = (score: number | null) => (score === null ? '' : String(score));
+
+// Scores as typed in the inputs, keyed by student id
+const toDrafts = (gradebook: Gradebook, quarter: Quarter) => {
+  const drafts: Record<number, string> = {};
+  gradebook.students.forEach(student => {
+    drafts[student.id] = formatScore(student[quarterKey(quarter)]);
+  });
+  return drafts;
+};
+
+const isValidScore = (value: string) => {
+  if (value.trim() === '') return true;
+  const score = Number(value);
+  return !Number.isNaN(score) && score >= 0 && score <= 100;
+};
+
+// Quarter-by-quarter grade entry for one subject's roster, shared by the
+// admin Grades screen and the teacher portal
+const GradebookEditor = ({ subjectId, sectionId, searchQuery = '' }: GradebookEditorProps) => {
+  const [quarter, setQuarter] = useState<Quarter>(1);
+  const [gradebook, setGradebook] = useState<Gradebook | null>(null);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const toast = useToast();
+
+  const fetchGradebook = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.grades.forSubject(subjectId, sectionId);
+      setGradebook(data);
+      setDrafts(toDrafts(data, quarter));
+    } catch (error) {
+      console.error('Error fetching grades:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchGradebook();
+  }, [subjectId, sectionId]);
+
+  // Unsaved scores are dropped when switching quarters
+  useEffect(() => {
+    if (gradebook) {
+      setDrafts(toDrafts(gradebook, quarter));
+    }
+  }, [quarter]);
+
+  const filteredStudents = useMemo(() => {
+    const needle = searchQuery.trim().toLowerCase();
+    const students = gradebook?.students || [];
+    return needle ? students.filter(student => student.name.toLowerCase().includes(needle)) : students;
+  }, [gradebook, searchQuery]);
+
+  // Entries whose score differs from what is saved for the quarter
+  const changedEntries = (): GradeEntry[] => {
+    if (!gradebook) return [];
+    return gradebook.students
+      .filter(student => (drafts[student.id] ?? '').trim() !== formatScore(student[quarterKey(quarter)]))
+      .map(student => {
+        const value = (drafts[student.id] ?? '').trim();
+        return { student_id: student.id, score: value === '' ? null : Number(value) };
+      });
+  };
+
+  const hasInvalidScores = Object.values(drafts).some(value => !isValidScore(value));
+
+  const handleSave = async () => {
+    if (!gradebook) return;
+
+    if (hasInvalidScores) {
+      toast.show('Grades must be numbers between 0 and 100', { type: 'danger', placement: 'top', duration: 3000 });
+      return;
+    }
+
+    const entries = changedEntries();
+    if (entries.length === 0) {
+      toast.show('No changes to save', { type: 'normal', placement: 'top', duration: 2000 });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const data = await api.grades.save(subjectId, quarter, entries, sectionId);
+      setGradebook(data);
+      setDrafts(toDrafts(data, quarter));
+      toast.show(`Saved ${entries.length} Q${quarter} grade${entries.length === 1 ? '' : 's'}`, {
+        type: 'success',
+        placement: 'top',
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error saving grades:', error);
+      toast.show(getErrorMessage(error), { type: 'danger', placement: 'top', duration: 4000 });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderStudent = ({ item }: { item: GradebookStudent }) => {
+    const draft = drafts[item.id] ?? '';
+    const invalid = !isValidScore(draft);
+
+    return (
+      <View style={styles.studentCard}>
+        <View style={styles.studentInfo}>
+          <View style={styles.studentDetails}>
+            <Text style={styles.studentName}>{item.name}</Text>
+            <Text style={styles.studentMeta}>
+              {[item.grade_level, item.strand, item.section].filter(Boolean).join(' • ')}
+            </Text>
+          </View>
+          <View style={styles.scoreInputContainer}>
+            <Text style={styles.inputLabel}>Q{quarter}</Text>
+            <TextInput
+              style={[styles.scoreInput, invalid && styles.inputError]}
+              value={draft}
+              onChangeText={(text) => setDrafts(prev => ({ ...prev, [item.id]: text }))}
+              placeholder="—"
+              keyboardType="numeric"
+              maxLength={6}
+            />
+          </View>
+        </View>
+        <View style={styles.quarterRow}>
+          {QUARTERS.map(q => (
+            <View key={q} style={[styles.quarterBlock, q === quarter && styles.quarterBlockActive]}>
+              <Text style={styles.quarterLabel}>Q{q}</Text>
+              <Text style={styles.quarterValue}>{formatScore(item[quarterKey(q)]) || '—'}</Text>
+            </View>
+          ))}
+          <View style={[styles.quarterBlock, styles.finalBlock]}>
+            <Text style={styles.quarterLabel}>Final</Text>
+            <Text style={[
+              styles.quarterValue,
+              item.passed === false && styles.failingValue,
+            ]}>
+              {formatScore(item.final) || '—'}
+            </Text>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <View style={styles.quarterTabs}>
+          {QUARTERS.map(q => (
+            <TouchableOpacity
+              key={q}
+              style={[styles.quarterTab, q === quarter && styles.quarterTabActive]}
+              onPress={() => setQuarter(q)}
+            >
+              <Text style={[styles.quarterTabText, q === quarter && styles.quarterTabTextActive]}>Q{q}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.saveButton, (isSaving || !gradebook) && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving || !gradebook}
+          >
+            <MaterialIcons name="save" size={20} color="#fff" />
+            <Text style={styles.saveButtonText}>{isSaving ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+        {gradebook && (
+          <Text style={styles.settingsText}>
+            Final grade: {gradebook.settings.final_method === 'weighted' ? 'weighted quarters' : 'average of quarters'}
+            {' • '}Passing grade: {gradebook.settings.passing_grade}
+          </Text>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading grades...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchGradebook}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={filteredStudents}
+          keyExtractor={(item) => item.id.toString()}
+          renderItem={renderStudent}
+          ListEmptyComponent={() => (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="people-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>
+                {searchQuery ? 'No students match your search' : 'No students are enrolled in this subject'}
+              </Text>
+            </View>
+          )}
+          contentContainerStyle={styles.studentList}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  toolbar: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  quarterTabs: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  quarterTab: {
+    flex: 1,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    alignItems: 'center',
+  },
+  quarterTabActive: {
+    backgroundColor: '#1a73e8',
+    borderColor: '#1a73e8',
+  },
+  quarterTabText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#666',
+  },
+  quarterTabTextActive: {
+    color: '#fff',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 16,
+    borderRadius: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  settingsText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  studentList: {
+    padding: 12,
+  },
+  studentCard: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  studentInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  studentDetails: {
+    flex: 1,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  studentMeta: {
+    fontSize: 13,
+    color: '#666',
+  },
+  scoreInputContainer: {
+    alignItems: 'center',
+    marginLeft: 12,
+  },
+  inputLabel: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+  },
+  scoreInput: {
+    width: 72,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 8,
+    fontSize: 16,
+    color: '#333',
+    textAlign: 'center',
+  },
+  inputError: {
+    borderColor: '#ff4444',
+  },
+  quarterRow: {
+    flexDirection: 'row',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+  },
+  quarterBlock: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginRight: 6,
+    borderRadius: 6,
+    backgroundColor: '#f5f5f5',
+  },
+  quarterBlockActive: {
+    backgroundColor: '#e8f0fe',
+  },
+  finalBlock: {
+    marginRight: 0,
+    backgroundColor: '#e6f4ea',
+  },
+  quarterLabel: {
+    fontSize: 11,
+    color: '#666',
+  },
+  quarterValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  failingValue: {
+    color: '#ff4444',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
+
+export default GradebookEditor;
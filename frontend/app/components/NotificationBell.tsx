@@ -0,0 +1,58 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { useNotifications } from '../context/NotificationContext';
+
+interface NotificationBellProps {
+  color?: string;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+  // Replaces the default bell icon, e.g. with the screen's own icon set
+  children?: React.ReactNode;
+}
+
+// Bell with the live unread count that opens the notifications screen
+export default function NotificationBell({ color = '#fff', size = 24, style, children }: NotificationBellProps) {
+  const router = useRouter();
+  const { unreadCount } = useNotifications();
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={() => router.push('/notifications' as any)}
+      accessibilityLabel={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+    >
+      {children ?? <MaterialIcons name="notifications" size={size} color={color} />}
+      {unreadCount > 0 && (
+        <View style={styles.badge}>
+          <Text style={styles.badgeText}>{unreadCount > 99 ? '99+' : unreadCount}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    padding: 8,
+    position: 'relative',
+  },
+  badge: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    backgroundColor: '#FF3B30',
+    borderRadius: 10,
+    minWidth: 20,
+    height: 20,
+    paddingHorizontal: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,93 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { dismissConflict, getOfflineStatus, OfflineStatus, subscribeOfflineStatus } from '../../config/offline';
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Connectivity strip shown above the admin screens: offline state, changes
+// waiting to sync and any queued changes the server refused
+const OfflineBanner = () => {
+  const [status, setStatus] = useState<OfflineStatus>(getOfflineStatus());
+
+  useEffect(() => subscribeOfflineStatus(setStatus), []);
+
+  const { online, syncing, pending, conflicts } = status;
+
+  if (online && !syncing && pending === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      {!online ? (
+        <View style={[styles.banner, styles.offline]}>
+          <MaterialIcons name="cloud-off" size={18} color="#8a4b00" />
+          <Text style={styles.offlineText}>
+            You are offline. Showing saved data
+            {pending > 0 ? `; ${pluralize(pending, 'change')} will sync when the connection is back.` : '.'}
+          </Text>
+        </View>
+      ) : (syncing || pending > 0) && (
+        <View style={[styles.banner, styles.syncing]}>
+          <ActivityIndicator size="small" color="#1a73e8" />
+          <Text style={styles.syncingText}>Syncing {pluralize(pending, 'offline change')}...</Text>
+        </View>
+      )}
+
+      {conflicts.map(({ mutation, message }) => (
+        <View key={mutation.id} style={[styles.banner, styles.conflict]}>
+          <MaterialIcons name="sync-problem" size={18} color="#c62828" />
+          <Text style={styles.conflictText}>
+            {mutation.label} could not be synced: {message}
+          </Text>
+          <TouchableOpacity onPress={() => dismissConflict(mutation.id)}>
+            <MaterialIcons name="close" size={18} color="#c62828" />
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  offline: {
+    backgroundColor: '#fff4e5',
+    borderBottomColor: '#ffb74d',
+  },
+  offlineText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#8a4b00',
+  },
+  syncing: {
+    backgroundColor: '#e8f0fe',
+    borderBottomColor: '#c6dafc',
+  },
+  syncingText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#1a73e8',
+  },
+  conflict: {
+    backgroundColor: '#ffebee',
+    borderBottomColor: '#ef9a9a',
+  },
+  conflictText: {
+    flex: 1,
+    marginHorizontal: 8,
+    fontSize: 14,
+    color: '#c62828',
+  },
+});
+
+export default OfflineBanner;
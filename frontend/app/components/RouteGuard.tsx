@@ -0,0 +1,64 @@
+import { Redirect, useGlobalSearchParams, usePathname } from 'expo-router';
+import React from 'react';
+import { ActivityIndicator, StyleSheet, View } from 'react-native';
+import { useAuth } from '../context/AuthContext';
+
+type Role = 'Admin' | 'Student' | 'Teacher';
+
+// Where each role lands after signing in (mirrors `redirect_to` from the API)
+export const HOME_ROUTES: Record<Role, string> = {
+  Admin: '/admin/dashboardoverview',
+  Student: '/user/dashboard',
+  Teacher: '/teacher/dashboard',
+};
+
+interface RouteGuardProps {
+  // Roles allowed to see the wrapped route group
+  roles: Role[];
+  children: React.ReactNode;
+}
+
+// Gate for a route group: waits for the stored session to load, sends signed-out
+// users to /login and users of another role to their own home. When the session
+// expired, /login is told where to return to once the user signs in again.
+const RouteGuard = ({ roles, children }: RouteGuardProps) => {
+  const { user, loading, sessionExpired } = useAuth();
+  const pathname = usePathname();
+  const params = useGlobalSearchParams();
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#1a73e8" />
+      </View>
+    );
+  }
+
+  if (!user) {
+    if (!sessionExpired) {
+      return <Redirect href="/login" />;
+    }
+    const query = Object.entries(params)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+    const redirect = query ? `${pathname}?${query}` : pathname;
+    return <Redirect href={{ pathname: '/login', params: { expired: '1', redirect } }} />;
+  }
+
+  if (!roles.includes(user.role)) {
+    return <Redirect href={(HOME_ROUTES[user.role] || '/login') as any} />;
+  }
+
+  return <>{children}</>;
+};
+
+const styles = StyleSheet.create({
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+  },
+});
+
+export default RouteGuard;
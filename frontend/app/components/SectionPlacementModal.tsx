@@ -0,0 +1,444 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import {
+  api,
+  getErrorMessage,
+  GradeLevel,
+  PlacedStudent,
+  PlacementCriterion,
+  PlacementParams,
+  SectionPlacement,
+  Strand,
+  StudentPlacement
+} from '../../config/api';
+
+interface SectionPlacementModalProps {
+  visible: boolean;
+  onClose: () => void;
+  gradeLevels: GradeLevel[];
+  strands: Strand[];
+  // Called once students have been assigned to sections
+  onPlaced: () => void;
+}
+
+const CRITERIA: { value: PlacementCriterion; label: string }[] = [
+  { value: 'gender', label: 'Gender' },
+  { value: 'subject', label: 'Subject' },
+];
+
+// Names shown per section before the rest are summed up
+const PREVIEW_NAMES = 8;
+
+const listNames = (students: PlacedStudent[]) => (
+  students.length > PREVIEW_NAMES
+    ? `${students.slice(0, PREVIEW_NAMES).map(student => student.name).join(', ')} and ${students.length - PREVIEW_NAMES} more`
+    : students.map(student => student.name).join(', ')
+);
+
+// Previews, then applies, the placement of a grade level's unsectioned
+// students across its sections
+const SectionPlacementModal = ({ visible, onClose, gradeLevels, strands, onPlaced }: SectionPlacementModalProps) => {
+  const toast = useToast();
+  const [gradeLevelId, setGradeLevelId] = useState('');
+  const [strandId, setStrandId] = useState('');
+  const [balanceBy, setBalanceBy] = useState<PlacementCriterion[]>(['gender']);
+  const [preview, setPreview] = useState<StudentPlacement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const busy = previewing || applying;
+
+  const params = (): PlacementParams => ({
+    grade_level_id: Number(gradeLevelId),
+    strand_id: strandId ? Number(strandId) : null,
+    balance_by: balanceBy,
+  });
+
+  // Any change to what is placed makes the last preview stale
+  const clearPreview = () => {
+    setPreview(null);
+    setError(null);
+  };
+
+  const reset = () => {
+    setGradeLevelId('');
+    setStrandId('');
+    setBalanceBy(['gender']);
+    clearPreview();
+  };
+
+  const handleClose = () => {
+    if (busy) return;
+    reset();
+    onClose();
+  };
+
+  const toggleCriterion = (criterion: PlacementCriterion) => {
+    setBalanceBy(prev => prev.includes(criterion)
+      ? prev.filter(value => value !== criterion)
+      : [...prev, criterion]);
+    clearPreview();
+  };
+
+  const handlePreview = async () => {
+    if (!gradeLevelId) {
+      setError('Select a grade level to place.');
+      return;
+    }
+    try {
+      setPreviewing(true);
+      setError(null);
+      setPreview(await api.students.place(params(), true));
+    } catch (error) {
+      console.error('Error previewing placement:', error);
+      setPreview(null);
+      setError(getErrorMessage(error));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview || preview.summary.placed === 0) return;
+    try {
+      setApplying(true);
+      const result = await api.students.place(params());
+      toast.show(result.message, { type: 'success' });
+      onPlaced();
+      reset();
+      onClose();
+    } catch (error) {
+      console.error('Error placing students:', error);
+      setError(getErrorMessage(error));
+      toast.show(`Failed to place students. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const renderSection = (section: SectionPlacement) => {
+    const over = section.capacity !== null && section.total_count > section.capacity;
+
+    return (
+      <View key={section.id} style={styles.sectionCard}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionName}>{section.name}</Text>
+          <Text style={[styles.sectionCount, over && styles.overCapacity]}>
+            {section.current_count} → {section.total_count}
+            {section.capacity !== null ? ` / ${section.capacity}` : ''}
+          </Text>
+        </View>
+        <Text style={styles.sectionMeta}>
+          +{section.students.length} placed
+          {Object.keys(section.genders).length > 0
+            ? ` · ${Object.entries(section.genders).map(([gender, count]) => `${gender} ${count}`).join(' · ')}`
+            : ''}
+        </Text>
+        {section.students.length > 0 && (
+          <Text style={styles.sectionStudents}>{listNames(section.students)}</Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={handleClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Place Students in Sections</Text>
+            <TouchableOpacity onPress={handleClose} disabled={busy}>
+              <MaterialIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.hint}>
+            Active students of the grade level (and strand) without a section are spread across its active
+            sections, keeping each within capacity.
+          </Text>
+
+          <Text style={styles.inputLabel}>Grade Level *</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={gradeLevelId}
+              onValueChange={(value) => { setGradeLevelId(String(value)); clearPreview(); }}
+              style={styles.picker}
+              enabled={!busy}
+            >
+              <Picker.Item label="Select Grade Level" value="" />
+              {gradeLevels.map((level) => (
+                <Picker.Item key={level.id} label={level.name} value={String(level.id)} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.inputLabel}>Strand</Text>
+          <View style={styles.pickerContainer}>
+            <Picker
+              selectedValue={strandId}
+              onValueChange={(value) => { setStrandId(String(value)); clearPreview(); }}
+              style={styles.picker}
+              enabled={!busy}
+            >
+              <Picker.Item label="Any strand" value="" />
+              {strands.map((strand) => (
+                <Picker.Item key={strand.id} label={strand.name} value={String(strand.id)} />
+              ))}
+            </Picker>
+          </View>
+
+          <Text style={styles.inputLabel}>Balance by</Text>
+          <View style={styles.chips}>
+            {CRITERIA.map(({ value, label }) => {
+              const active = balanceBy.includes(value);
+              return (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => toggleCriterion(value)}
+                  disabled={busy}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {previewing ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#1a73e8" />
+              <Text style={styles.loadingText}>Working out the placement...</Text>
+            </View>
+          ) : preview && (
+            <>
+              <Text style={styles.summary}>
+                {preview.summary.students === 0
+                  ? 'There are no unsectioned students to place.'
+                  : `${preview.summary.placed} of ${preview.summary.students} students placed`
+                    + (preview.summary.unplaced > 0 ? ` · ${preview.summary.unplaced} left without a section` : '')}
+              </Text>
+              <ScrollView style={styles.preview}>
+                {preview.sections.map(renderSection)}
+                {preview.unplaced.length > 0 && (
+                  <View style={[styles.sectionCard, styles.unplacedCard]}>
+                    <Text style={styles.sectionName}>No room ({preview.unplaced.length})</Text>
+                    <Text style={styles.sectionStudents}>{listNames(preview.unplaced)}</Text>
+                  </View>
+                )}
+              </ScrollView>
+            </>
+          )}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={handleClose} disabled={busy}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            {preview && preview.summary.placed > 0 ? (
+              <TouchableOpacity
+                style={[styles.modalButton, styles.primaryButton, busy && styles.buttonDisabled]}
+                onPress={handleApply}
+                disabled={busy}
+              >
+                {applying ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>
+                    Place {preview.summary.placed} {preview.summary.placed === 1 ? 'student' : 'students'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.modalButton, styles.primaryButton, (busy || !gradeLevelId) && styles.buttonDisabled]}
+                onPress={handlePreview}
+                disabled={busy || !gradeLevelId}
+              >
+                <Text style={styles.primaryButtonText}>Preview</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 700,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginBottom: 12,
+  },
+  picker: {
+    height: 50,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f3f4',
+  },
+  chipActive: {
+    backgroundColor: '#1a73e8',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+    marginBottom: 8,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  preview: {
+    flexGrow: 0,
+  },
+  sectionCard: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  unplacedCard: {
+    borderColor: '#fbbc04',
+    backgroundColor: '#fffbea',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionCount: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  overCapacity: {
+    color: '#ff4444',
+  },
+  sectionMeta: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  sectionStudents: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 12,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f3f4',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    backgroundColor: '#1a73e8',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default SectionPlacementModal;
@@ -0,0 +1,207 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { StudentFacetField, StudentFacets } from '../../config/api';
+
+export type StudentFilterValues = Partial<Record<StudentFacetField, string>>;
+
+interface StudentFiltersProps {
+  filters: StudentFilterValues;
+  // Values in use with their counts; null until the first page has loaded
+  facets: StudentFacets | null;
+  // Comma separated sort, e.g. "grade_level,-name"
+  sort: string;
+  onFiltersChange: (filters: StudentFilterValues) => void;
+  onSortChange: (sort: string) => void;
+}
+
+export const STUDENT_FACETS: { field: StudentFacetField; label: string }[] = [
+  { field: 'grade_level_id', label: 'Grade Level' },
+  { field: 'strand_id', label: 'Strand' },
+  { field: 'section_id', label: 'Section' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'subject', label: 'Subject' },
+];
+
+const SORT_FIELDS = [
+  { field: 'name', label: 'Name' },
+  { field: 'grade_level', label: 'Grade Level' },
+  { field: 'strand', label: 'Strand' },
+  { field: 'section', label: 'Section' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'subject', label: 'Subject' },
+  { field: 'birth_date', label: 'Birth Date' },
+  { field: 'created_at', label: 'Date Added' },
+];
+
+interface SortKey {
+  field: string;
+  descending: boolean;
+}
+
+const parseSort = (sort: string): SortKey[] => sort
+  .split(',')
+  .filter(Boolean)
+  .map(key => ({ field: key.replace(/^-/, ''), descending: key.startsWith('-') }));
+
+const formatSort = (keys: SortKey[]) => keys
+  .filter(key => key.field)
+  .map(key => `${key.descending ? '-' : ''}${key.field}`)
+  .join(',');
+
+// Facet pickers and a two level sort for the students list. Each option shows
+// how many students it would leave given the other active filters.
+export default function StudentFilters({ filters, facets, sort, onFiltersChange, onSortChange }: StudentFiltersProps) {
+  const sortKeys = parseSort(sort);
+  const activeCount = Object.values(filters).filter(Boolean).length;
+
+  const setFilter = (field: StudentFacetField, value: string) => {
+    onFiltersChange({ ...filters, [field]: value || undefined });
+  };
+
+  // Level 0 is the primary sort, level 1 breaks its ties
+  const setSortKey = (level: number, key: SortKey | null) => {
+    const keys = [...sortKeys];
+    if (key) {
+      keys[level] = key;
+    } else {
+      keys.splice(level);
+    }
+    onSortChange(formatSort(keys));
+  };
+
+  const renderSortLevel = (level: number, placeholder: string) => {
+    const key = sortKeys[level];
+    return (
+      <View style={styles.sortLevel}>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={key?.field ?? ''}
+            onValueChange={(value) => setSortKey(level, value ? { field: String(value), descending: key?.descending ?? false } : null)}
+            style={styles.picker}
+          >
+            <Picker.Item label={placeholder} value="" />
+            {SORT_FIELDS
+              .filter(option => option.field === key?.field || !sortKeys.some(other => other.field === option.field))
+              .map(option => (
+                <Picker.Item key={option.field} label={option.label} value={option.field} />
+              ))}
+          </Picker>
+        </View>
+        {key && (
+          <TouchableOpacity
+            style={styles.directionButton}
+            onPress={() => setSortKey(level, { ...key, descending: !key.descending })}
+          >
+            <MaterialIcons name={key.descending ? 'arrow-downward' : 'arrow-upward'} size={20} color="#1a73e8" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+        {STUDENT_FACETS.map(({ field, label }) => {
+          const selected = filters[field] ?? '';
+          const options = facets?.[field] ?? [];
+          return (
+            <View key={field} style={[styles.pickerContainer, selected !== '' && styles.pickerActive]}>
+              <Picker
+                selectedValue={selected}
+                onValueChange={(value) => setFilter(field, String(value))}
+                style={styles.picker}
+              >
+                <Picker.Item label={`Any ${label.toLowerCase()}`} value="" />
+                {/* Keep a bookmarked value selectable even when nothing matches it */}
+                {selected !== '' && !options.some(option => option.value === selected) && (
+                  <Picker.Item label={`${field.endsWith('_id') ? `#${selected}` : selected} (0)`} value={selected} />
+                )}
+                {options.map(option => (
+                  <Picker.Item key={option.value} label={`${option.label} (${option.count})`} value={option.value} />
+                ))}
+              </Picker>
+            </View>
+          );
+        })}
+        {activeCount > 0 && (
+          <TouchableOpacity style={styles.clearButton} onPress={() => onFiltersChange({})}>
+            <MaterialIcons name="clear" size={18} color="#666" />
+            <Text style={styles.clearButtonText}>Clear filters ({activeCount})</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      <View style={styles.row}>
+        <Text style={styles.sortLabel}>Sort by</Text>
+        {renderSortLevel(0, 'Default')}
+        {sortKeys.length > 0 && (
+          <>
+            <Text style={styles.sortLabel}>then</Text>
+            {renderSortLevel(1, 'None')}
+          </>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginRight: 8,
+    minWidth: 150,
+  },
+  pickerActive: {
+    borderColor: '#1a73e8',
+    backgroundColor: '#e8f0fe',
+  },
+  picker: {
+    height: 40,
+  },
+  clearButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#f1f3f4',
+  },
+  clearButtonText: {
+    marginLeft: 4,
+    fontSize: 14,
+    color: '#666',
+  },
+  sortLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginRight: 8,
+  },
+  sortLevel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  directionButton: {
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1a73e8',
+  },
+});
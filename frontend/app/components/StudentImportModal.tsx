@@ -0,0 +1,434 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { api, ApiError, getErrorMessage, Student, StudentImportRow } from '../../config/api';
+import { mapCsvColumns, parseCsv } from '../../utils/csv';
+
+interface StudentImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Receives the students created by the import
+  onImported: (students: Student[]) => void;
+}
+
+const FIELDS = [
+  'name',
+  'gender',
+  'grade_level',
+  'strand',
+  'section',
+  'subject',
+  'email',
+  'phone',
+  'address',
+  'birth_date',
+  'guardian_name',
+  'guardian_phone',
+  'guardian_relationship',
+] as const;
+
+type ImportField = typeof FIELDS[number];
+
+const REQUIRED_FIELDS: ImportField[] = ['name', 'gender', 'grade_level', 'strand', 'section', 'subject'];
+
+// Other header names accepted for a column, after normalizing to snake_case
+const COLUMN_ALIASES: Partial<Record<ImportField, string[]>> = {
+  name: ['full_name', 'student_name'],
+  gender: ['sex'],
+  grade_level: ['grade', 'year_level'],
+  email: ['e_mail', 'email_address'],
+  phone: ['phone_number', 'contact_number', 'mobile'],
+  birth_date: ['birthday', 'birthdate', 'date_of_birth', 'dob'],
+  guardian_name: ['guardian', 'parent_name'],
+  guardian_phone: ['guardian_contact', 'parent_phone'],
+};
+
+// Matches StudentImportRequest::MAX_ROWS on the server
+const MAX_ROWS = 500;
+
+const CSV_TYPES = ['text/csv', 'text/comma-separated-values', 'application/vnd.ms-excel'];
+
+type RowErrors = Record<number, Partial<Record<ImportField, string[]>>>;
+
+// "male" and "MALE" are accepted for Male
+const normalizeRow = (row: StudentImportRow): StudentImportRow => ({
+  ...row,
+  ...(row.gender ? { gender: row.gender.charAt(0).toUpperCase() + row.gender.slice(1).toLowerCase() } : {}),
+});
+
+// Splits the import endpoint's "students.<index>.<field>" errors by row.
+// `indexes` maps the position in the request back to the row in the file.
+const groupRowErrors = (errors: Record<string, string[]>, indexes: number[]) => {
+  const rows: RowErrors = {};
+  const general: string[] = [];
+
+  Object.entries(errors).forEach(([key, messages]) => {
+    const match = /^students\.(\d+)\.(\w+)$/.exec(key);
+    if (!match) {
+      general.push(...messages);
+      return;
+    }
+    const row = indexes[Number(match[1])];
+    const field = match[2] as ImportField;
+    rows[row] = { ...rows[row], [field]: messages };
+  });
+
+  return { rows, general };
+};
+
+const StudentImportModal = ({ visible, onClose, onImported }: StudentImportModalProps) => {
+  const toast = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [records, setRecords] = useState<StudentImportRow[]>([]);
+  const [rowErrors, setRowErrors] = useState<RowErrors>({});
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [unknownColumns, setUnknownColumns] = useState<string[]>([]);
+  const [validating, setValidating] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const validIndexes = records.map((_, index) => index).filter(index => !rowErrors[index]);
+  const invalidCount = records.length - validIndexes.length;
+  const busy = validating || importing;
+
+  const reset = () => {
+    setFileName(null);
+    setRecords([]);
+    setRowErrors({});
+    setFileErrors([]);
+    setUnknownColumns([]);
+  };
+
+  const handleClose = () => {
+    if (busy) return;
+    reset();
+    onClose();
+  };
+
+  const applyErrors = (error: unknown, indexes: number[]) => {
+    if (error instanceof ApiError && error.status === 422 && error.errors) {
+      const { rows, general } = groupRowErrors(error.errors, indexes);
+      setRowErrors(rows);
+      setFileErrors(general);
+      return;
+    }
+    setFileErrors([getErrorMessage(error)]);
+  };
+
+  const validate = async (rows: StudentImportRow[]) => {
+    try {
+      setValidating(true);
+      setRowErrors({});
+      setFileErrors([]);
+      await api.students.import(rows, true);
+    } catch (error) {
+      console.error('Error validating student import:', error);
+      applyErrors(error, rows.map((_, index) => index));
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ type: CSV_TYPES, copyToCacheDirectory: true });
+      if (result.canceled) return;
+
+      const asset = result.assets[0];
+      reset();
+      setFileName(asset.name);
+
+      const text = await (await fetch(asset.uri)).text();
+      const mapping = mapCsvColumns(parseCsv(text), FIELDS, REQUIRED_FIELDS, COLUMN_ALIASES);
+      setUnknownColumns(mapping.unknownColumns);
+
+      if (mapping.missingColumns.length > 0) {
+        setFileErrors([`Missing columns: ${mapping.missingColumns.join(', ')}`]);
+        return;
+      }
+      if (mapping.records.length === 0) {
+        setFileErrors(['The file has no students to import.']);
+        return;
+      }
+      if (mapping.records.length > MAX_ROWS) {
+        setFileErrors([`At most ${MAX_ROWS} students can be imported at once. Split the file and try again.`]);
+        return;
+      }
+
+      const rows = mapping.records.map(normalizeRow);
+      setRecords(rows);
+      await validate(rows);
+    } catch (error) {
+      console.error('Error reading CSV file:', error);
+      setFileErrors([`Could not read the file. ${getErrorMessage(error)}`]);
+    }
+  };
+
+  // Rows with errors are left out; the server checks the rest again
+  const handleImport = async () => {
+    if (validIndexes.length === 0) return;
+
+    try {
+      setImporting(true);
+      const { students } = await api.students.import(validIndexes.map(index => records[index]));
+      onImported(students);
+      toast.show(`${students.length} students imported successfully!`, { type: 'success' });
+      reset();
+      onClose();
+    } catch (error) {
+      console.error('Error importing students:', error);
+      applyErrors(error, validIndexes);
+      toast.show(`Failed to import students. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const renderRow = ({ item, index }: { item: StudentImportRow; index: number }) => {
+    const errors = rowErrors[index];
+
+    return (
+      <View style={[styles.rowCard, errors && styles.rowCardInvalid]}>
+        <View style={styles.rowHeader}>
+          <MaterialIcons
+            name={errors ? 'error-outline' : 'check-circle'}
+            size={18}
+            color={errors ? '#ff4444' : '#34a853'}
+          />
+          <Text style={styles.rowTitle}>Row {index + 1}: {item.name || 'No name'}</Text>
+        </View>
+        <Text style={styles.rowDetails}>
+          {[item.gender, item.grade_level, item.strand, item.section, item.email].filter(Boolean).join(' · ')}
+        </Text>
+        {errors && Object.entries(errors).map(([field, messages]) => (
+          <Text key={field} style={styles.rowError}>• {messages?.join(' ')}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={handleClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>Import Students</Text>
+            <TouchableOpacity onPress={handleClose} disabled={busy}>
+              <MaterialIcons name="close" size={24} color="#666" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.hint}>
+            Upload a CSV file with a header row. Required columns: {REQUIRED_FIELDS.join(', ')}.
+            Optional: {FIELDS.filter(field => !REQUIRED_FIELDS.includes(field)).join(', ')}.
+            Birth dates use the YYYY-MM-DD format.
+          </Text>
+
+          <TouchableOpacity style={styles.pickButton} onPress={handlePickFile} disabled={busy}>
+            <MaterialIcons name="upload-file" size={20} color="#1a73e8" />
+            <Text style={styles.pickButtonText}>{fileName || 'Choose CSV file'}</Text>
+          </TouchableOpacity>
+
+          {unknownColumns.length > 0 && (
+            <Text style={styles.warningText}>Ignored columns: {unknownColumns.join(', ')}</Text>
+          )}
+          {fileErrors.map(message => (
+            <Text key={message} style={styles.errorText}>{message}</Text>
+          ))}
+
+          {validating ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color="#1a73e8" />
+              <Text style={styles.loadingText}>Checking {records.length} rows...</Text>
+            </View>
+          ) : records.length > 0 && (
+            <>
+              <Text style={styles.summary}>
+                {records.length} rows · {validIndexes.length} ready
+                {invalidCount > 0 ? ` · ${invalidCount} with errors (skipped)` : ''}
+              </Text>
+              <FlatList
+                data={records}
+                renderItem={renderRow}
+                keyExtractor={(_, index) => index.toString()}
+                style={styles.preview}
+              />
+            </>
+          )}
+
+          <View style={styles.modalActions}>
+            <TouchableOpacity style={[styles.modalButton, styles.cancelButton]} onPress={handleClose} disabled={busy}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.importButton, (busy || validIndexes.length === 0) && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={busy || validIndexes.length === 0}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.importButtonText}>
+                  Import {validIndexes.length} {validIndexes.length === 1 ? 'student' : 'students'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 16,
+  },
+  modalContent: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 20,
+    width: '100%',
+    maxWidth: 700,
+    maxHeight: '90%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 12,
+  },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#1a73e8',
+    borderRadius: 8,
+    paddingVertical: 14,
+    marginBottom: 12,
+  },
+  pickButtonText: {
+    marginLeft: 8,
+    fontSize: 16,
+    color: '#1a73e8',
+    fontWeight: '500',
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#8a4b00',
+    marginBottom: 8,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#ff4444',
+    marginBottom: 8,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  summary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  preview: {
+    flexGrow: 0,
+  },
+  rowCard: {
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  rowCardInvalid: {
+    borderColor: '#ff4444',
+    backgroundColor: '#fff5f5',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    marginLeft: 6,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  rowDetails: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 4,
+  },
+  rowError: {
+    fontSize: 13,
+    color: '#ff4444',
+    marginTop: 4,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  modalButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    marginLeft: 12,
+    minWidth: 100,
+    alignItems: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f3f4',
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  importButton: {
+    backgroundColor: '#1a73e8',
+  },
+  importButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default StudentImportModal;
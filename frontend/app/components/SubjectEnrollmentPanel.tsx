@@ -0,0 +1,274 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { api, EnrolledStudent, getErrorMessage, Student, Subject } from '../../config/api';
+
+interface SubjectEnrollmentPanelProps {
+  subject: Subject;
+  // Receives the subject with its updated `students_count` after each change
+  onSubjectChange: (subject: Subject) => void;
+}
+
+const SEARCH_DELAY = 500;
+const CANDIDATES_LIMIT = 20;
+
+const toggle = (ids: number[], id: number) => (
+  ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]
+);
+
+const placement = (student: Pick<Student, 'grade_level' | 'strand' | 'section'>) => (
+  [student.grade_level?.name, student.strand?.name, student.section?.name].filter(Boolean).join(' • ')
+);
+
+const enrolledOn = (student: EnrolledStudent) => (
+  student.pivot?.created_at ? `Enrolled ${new Date(student.pivot.created_at).toLocaleDateString()}` : ''
+);
+
+// Enrollment for the subject detail view: search the students of the
+// subject's grade level and strand to enroll them, and unenroll from the
+// current roster, both in bulk
+export default function SubjectEnrollmentPanel({ subject, onSubjectChange }: SubjectEnrollmentPanelProps) {
+  const toast = useToast();
+  const [roster, setRoster] = useState<EnrolledStudent[]>([]);
+  const [candidates, setCandidates] = useState<Student[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [toEnroll, setToEnroll] = useState<number[]>([]);
+  const [toUnenroll, setToUnenroll] = useState<number[]>([]);
+  const [loadingRoster, setLoadingRoster] = useState(true);
+  const [searching, setSearching] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRoster = async () => {
+    try {
+      setLoadingRoster(true);
+      setRoster(await api.subjects.enrolled(subject.id));
+    } catch (error) {
+      console.error('Error fetching enrolled students:', error);
+      toast.show(`Failed to load enrolled students. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setLoadingRoster(false);
+    }
+  };
+
+  const fetchCandidates = async () => {
+    try {
+      setSearching(true);
+      const { items } = await api.students.list({
+        limit: CANDIDATES_LIMIT,
+        search: searchQuery.trim(),
+        grade_level_id: subject.grade_level_id,
+        // Subjects without a strand are open to every strand
+        strand_id: subject.strand_id ?? undefined,
+        sort: 'name',
+      });
+      setCandidates(items);
+    } catch (error) {
+      console.error('Error searching students:', error);
+      toast.show(`Failed to search students. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  useEffect(() => {
+    setToEnroll([]);
+    setToUnenroll([]);
+    fetchRoster();
+  }, [subject.id]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchCandidates, SEARCH_DELAY);
+    return () => clearTimeout(timer);
+  }, [subject.id, searchQuery]);
+
+  const handleEnroll = async () => {
+    try {
+      setSaving(true);
+      const updated = await api.subjects.enroll(subject.id, toEnroll);
+      onSubjectChange({ ...subject, students_count: updated.students_count });
+      toast.show(`${toEnroll.length} student(s) enrolled in ${subject.name}`, { type: 'success' });
+      setToEnroll([]);
+      await fetchRoster();
+    } catch (error) {
+      console.error('Error enrolling students:', error);
+      toast.show(`Failed to enroll students. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnenroll = async () => {
+    try {
+      setSaving(true);
+      const updated = await api.subjects.unenroll(subject.id, toUnenroll);
+      onSubjectChange({ ...subject, students_count: updated.students_count });
+      setRoster(prev => prev.filter(student => !toUnenroll.includes(student.id)));
+      toast.show(`${toUnenroll.length} student(s) unenrolled from ${subject.name}`, { type: 'success' });
+      setToUnenroll([]);
+    } catch (error) {
+      console.error('Error unenrolling students:', error);
+      toast.show(`Failed to unenroll students. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const enrolledIds = roster.map(student => student.id);
+  const available = candidates.filter(student => !enrolledIds.includes(student.id));
+
+  const renderRow = (student: EnrolledStudent, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity key={student.id} style={styles.row} onPress={onPress} disabled={saving}>
+      <MaterialIcons
+        name={selected ? 'check-box' : 'check-box-outline-blank'}
+        size={22}
+        color={selected ? '#1a73e8' : '#999'}
+      />
+      <View style={styles.rowText}>
+        <Text style={styles.studentName}>{student.name}</Text>
+        <Text style={styles.studentMeta}>{placement(student) || 'No grade level or section'}</Text>
+        {enrolledOn(student) !== '' && <Text style={styles.studentMeta}>{enrolledOn(student)}</Text>}
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionTitle}>Enrolled ({subject.students_count ?? roster.length})</Text>
+        {toUnenroll.length > 0 && (
+          <TouchableOpacity style={[styles.actionButton, styles.unenrollButton]} onPress={handleUnenroll} disabled={saving}>
+            <Text style={styles.actionButtonText}>Unenroll {toUnenroll.length}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {loadingRoster ? (
+        <ActivityIndicator color="#1a73e8" style={styles.loader} />
+      ) : roster.length === 0 ? (
+        <Text style={styles.emptyText}>No students are enrolled yet.</Text>
+      ) : (
+        roster.map(student => renderRow(
+          student,
+          toUnenroll.includes(student.id),
+          () => setToUnenroll(prev => toggle(prev, student.id))
+        ))
+      )}
+
+      <View style={[styles.sectionHeader, styles.addHeader]}>
+        <Text style={styles.sectionTitle}>Add Students</Text>
+        {toEnroll.length > 0 && (
+          <TouchableOpacity style={[styles.actionButton, styles.enrollButton]} onPress={handleEnroll} disabled={saving}>
+            <Text style={styles.actionButtonText}>Enroll {toEnroll.length}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.hint}>
+        Showing {subject.grade_level?.name || 'all grade levels'}
+        {subject.strand ? `, ${subject.strand.name}` : ', every strand'}
+      </Text>
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search students by name or email"
+        value={searchQuery}
+        onChangeText={setSearchQuery}
+      />
+      {searching ? (
+        <ActivityIndicator color="#1a73e8" style={styles.loader} />
+      ) : available.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {searchQuery.trim() ? 'No matching students to enroll.' : 'Every matching student is already enrolled.'}
+        </Text>
+      ) : (
+        available.map(student => renderRow(
+          student,
+          toEnroll.includes(student.id),
+          () => setToEnroll(prev => toggle(prev, student.id))
+        ))
+      )}
+      {saving && <ActivityIndicator color="#1a73e8" style={styles.loader} />}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  addHeader: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#888',
+    marginBottom: 8,
+  },
+  searchInput: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    height: 40,
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  studentName: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  studentMeta: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  enrollButton: {
+    backgroundColor: '#1a73e8',
+  },
+  unenrollButton: {
+    backgroundColor: '#FF3B30',
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+});
@@ -0,0 +1,306 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import {
+  api,
+  getErrorMessage,
+  Section,
+  Subject,
+  Teacher,
+  TeachingAssignment,
+  TeachingLoad
+} from '../../config/api';
+import { formatLoad } from '../../constants/Schedule';
+
+// Exactly one of teacherId and subjectId is given: the panel lists that
+// teacher's classes, or that subject's teachers
+interface TeachingAssignmentsPanelProps {
+  teacherId?: number;
+  subjectId?: number;
+  // Receives the assignments after each change, with the teacher's load when
+  // listing by teacher
+  onChange?: (assignments: TeachingAssignment[], load: TeachingLoad | null) => void;
+}
+
+const OPTIONS_LIMIT = 100;
+
+// Assigns teachers to subjects per section, from either side: a teacher's
+// classes with their weekly load, or the teachers of a subject
+export default function TeachingAssignmentsPanel({ teacherId, subjectId, onChange }: TeachingAssignmentsPanelProps) {
+  const toast = useToast();
+  const byTeacher = teacherId !== undefined;
+  const [assignments, setAssignments] = useState<TeachingAssignment[]>([]);
+  const [load, setLoad] = useState<TeachingLoad | null>(null);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [teachers, setTeachers] = useState<Teacher[]>([]);
+  const [sections, setSections] = useState<Section[]>([]);
+  const [pickedId, setPickedId] = useState('');
+  const [sectionId, setSectionId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAssignments = async () => {
+    try {
+      setLoading(true);
+      const data = await api.teachingAssignments.list(byTeacher ? { teacher_id: teacherId } : { subject_id: subjectId });
+      setAssignments(data.assignments);
+      setLoad(data.load);
+    } catch (error) {
+      console.error('Error fetching teaching assignments:', error);
+      toast.show(`Failed to load assignments. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchOptions = async () => {
+    try {
+      const [optionPage, sectionPage] = await Promise.all([
+        byTeacher ? api.subjects.list({ limit: OPTIONS_LIMIT }) : api.teachers.list({ limit: OPTIONS_LIMIT }),
+        api.sections.list({ limit: OPTIONS_LIMIT }),
+      ]);
+      if (byTeacher) {
+        setSubjects(optionPage.items as Subject[]);
+      } else {
+        setTeachers(optionPage.items as Teacher[]);
+      }
+      setSections(sectionPage.items.filter(section => section.is_active));
+    } catch (error) {
+      console.error('Error fetching assignment options:', error);
+      toast.show(`Failed to load subjects, teachers and sections. ${getErrorMessage(error)}`, { type: 'error' });
+    }
+  };
+
+  useEffect(() => {
+    setPickedId('');
+    setSectionId('');
+    fetchAssignments();
+    fetchOptions();
+  }, [teacherId, subjectId]);
+
+  const update = (next: TeachingAssignment[], nextLoad: TeachingLoad | null) => {
+    setAssignments(next);
+    setLoad(nextLoad);
+    onChange?.(next, nextLoad);
+  };
+
+  const handleAssign = async () => {
+    if (!pickedId || !sectionId) return;
+    try {
+      setSaving(true);
+      const { assignment, load: teacherLoad } = await api.teachingAssignments.create({
+        teacher_id: byTeacher ? teacherId! : Number(pickedId),
+        subject_id: byTeacher ? Number(pickedId) : subjectId!,
+        section_id: Number(sectionId),
+      });
+      update([...assignments, assignment], byTeacher ? teacherLoad : null);
+      setPickedId('');
+      setSectionId('');
+      toast.show('Teacher assigned successfully!', { type: 'success' });
+      if (teacherLoad.overloaded) {
+        toast.show(
+          `${assignment.teacher?.name ?? 'The teacher'} is over the weekly maximum (${formatLoad(teacherLoad)})`,
+          { type: 'warning' }
+        );
+      }
+    } catch (error) {
+      console.error('Error assigning teacher:', error);
+      toast.show(`Failed to assign teacher. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (assignment: TeachingAssignment) => {
+    try {
+      setSaving(true);
+      const teacherLoad = await api.teachingAssignments.remove(assignment.id);
+      update(assignments.filter(other => other.id !== assignment.id), byTeacher ? teacherLoad : null);
+      toast.show('Teacher unassigned successfully!', { type: 'success' });
+    } catch (error) {
+      console.error('Error unassigning teacher:', error);
+      toast.show(`Failed to unassign teacher. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderAssignment = (assignment: TeachingAssignment) => (
+    <View key={assignment.id} style={styles.row}>
+      <MaterialIcons name={byTeacher ? 'class' : 'person'} size={22} color="#1a73e8" />
+      <View style={styles.rowText}>
+        <Text style={styles.primary}>
+          {byTeacher
+            ? `${assignment.subject?.code ?? ''} ${assignment.subject?.name ?? 'Unknown subject'}`.trim()
+            : assignment.teacher?.name ?? 'Unknown teacher'}
+        </Text>
+        <Text style={styles.secondary}>
+          {assignment.section?.name ?? 'Unknown section'} •{' '}
+          {assignment.weekly_hours > 0 ? `${assignment.weekly_hours} hrs per week` : 'Not scheduled yet'}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => handleRemove(assignment)} disabled={saving}>
+        <MaterialIcons name="remove-circle-outline" size={22} color="#FF3B30" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View>
+      {byTeacher && load && (
+        <View style={[styles.loadBanner, load.overloaded && styles.loadBannerOver]}>
+          <MaterialIcons
+            name={load.overloaded ? 'warning' : 'schedule'}
+            size={20}
+            color={load.overloaded ? '#B71C1C' : '#1a73e8'}
+          />
+          <Text style={[styles.loadText, load.overloaded && styles.loadTextOver]}>
+            {load.overloaded ? 'Over the maximum: ' : 'Weekly load: '}{formatLoad(load)}
+          </Text>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>
+        {byTeacher ? 'Classes' : 'Teachers'} ({assignments.length})
+      </Text>
+      {loading ? (
+        <ActivityIndicator color="#1a73e8" style={styles.loader} />
+      ) : assignments.length === 0 ? (
+        <Text style={styles.emptyText}>
+          {byTeacher ? 'This teacher is not assigned to any class yet.' : 'No teacher is assigned to this subject yet.'}
+        </Text>
+      ) : (
+        assignments.map(renderAssignment)
+      )}
+
+      <Text style={[styles.sectionTitle, styles.addTitle]}>{byTeacher ? 'Assign a Class' : 'Assign a Teacher'}</Text>
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={pickedId}
+          onValueChange={(value) => setPickedId(String(value))}
+          style={styles.picker}
+          enabled={!saving}
+        >
+          <Picker.Item label={byTeacher ? 'Select Subject' : 'Select Teacher'} value="" />
+          {byTeacher
+            ? subjects.map(subject => (
+              <Picker.Item key={subject.id} label={`${subject.code} - ${subject.name}`} value={String(subject.id)} />
+            ))
+            : teachers.map(teacher => (
+              <Picker.Item key={teacher.id} label={teacher.name} value={String(teacher.id)} />
+            ))}
+        </Picker>
+      </View>
+      <View style={styles.pickerContainer}>
+        <Picker
+          selectedValue={sectionId}
+          onValueChange={(value) => setSectionId(String(value))}
+          style={styles.picker}
+          enabled={!saving}
+        >
+          <Picker.Item label="Select Section" value="" />
+          {sections.map(section => (
+            <Picker.Item key={section.id} label={section.name} value={String(section.id)} />
+          ))}
+        </Picker>
+      </View>
+      <TouchableOpacity
+        style={[styles.assignButton, (saving || !pickedId || !sectionId) && styles.buttonDisabled]}
+        onPress={handleAssign}
+        disabled={saving || !pickedId || !sectionId}
+      >
+        {saving ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.assignButtonText}>Assign</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loadBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#e8f0fe',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  loadBannerOver: {
+    backgroundColor: '#fdecea',
+  },
+  loadText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#1a73e8',
+    fontWeight: '500',
+  },
+  loadTextOver: {
+    color: '#B71C1C',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  addTitle: {
+    marginTop: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  primary: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+  },
+  secondary: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#888',
+    paddingVertical: 8,
+  },
+  loader: {
+    marginVertical: 12,
+  },
+  pickerContainer: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  picker: {
+    height: 50,
+  },
+  assignButton: {
+    backgroundColor: '#1a73e8',
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  assignButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
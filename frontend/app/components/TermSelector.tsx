@@ -0,0 +1,96 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { Picker } from '@react-native-picker/picker';
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Term } from '../../config/api';
+import { useTerm } from '../context/TermContext';
+
+const termLabel = (term: Term) => (
+  `${term.label}${term.is_current ? ' (Current)' : ''}${term.is_archived ? ' (Archived)' : ''}`
+);
+
+// Strip above the admin screens for picking the term they work in, with a
+// notice while that term is archived and so read-only
+const TermSelector = () => {
+  const { terms, activeTerm, selectTerm, isReadOnly } = useTerm();
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      <View style={styles.bar}>
+        <MaterialIcons name="event" size={18} color="#1a73e8" />
+        <Text style={styles.label}>Term</Text>
+        <View style={styles.pickerContainer}>
+          <Picker
+            selectedValue={activeTerm ? String(activeTerm.id) : ''}
+            onValueChange={(value) => value && selectTerm(Number(value))}
+            style={styles.picker}
+          >
+            {!activeTerm && <Picker.Item label="Select Term" value="" />}
+            {terms.map(term => (
+              <Picker.Item key={term.id} label={termLabel(term)} value={String(term.id)} />
+            ))}
+          </Picker>
+        </View>
+      </View>
+
+      {isReadOnly && (
+        <View style={styles.archived}>
+          <MaterialIcons name="lock" size={18} color="#5f6368" />
+          <Text style={styles.archivedText}>
+            {activeTerm?.label} is archived. Its records can be viewed but no longer changed.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  label: {
+    marginLeft: 8,
+    marginRight: 12,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  pickerContainer: {
+    flex: 1,
+    maxWidth: 360,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+  },
+  picker: {
+    height: 40,
+  },
+  archived: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#f1f3f4',
+    borderBottomWidth: 1,
+    borderBottomColor: '#dadce0',
+  },
+  archivedText: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#5f6368',
+  },
+});
+
+export default TermSelector;
@@ -0,0 +1,455 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useToast } from 'react-native-toast-notifications';
+import { getErrorMessage, TrashApi } from '../../config/api';
+
+type TrashTab = 'active' | 'trash';
+
+interface TrashTabsProps {
+  value: TrashTab;
+  onChange: (tab: TrashTab) => void;
+}
+
+// "Active | Trash" switch shown above the list on screens that soft-delete
+export const TrashTabs = ({ value, onChange }: TrashTabsProps) => (
+  <View style={styles.tabs}>
+    {(['active', 'trash'] as const).map(tab => (
+      <TouchableOpacity
+        key={tab}
+        style={[styles.tab, value === tab && styles.tabActive]}
+        onPress={() => onChange(tab)}
+      >
+        <MaterialIcons
+          name={tab === 'active' ? 'list' : 'delete-outline'}
+          size={18}
+          color={value === tab ? '#1a73e8' : '#666'}
+        />
+        <Text style={[styles.tabText, value === tab && styles.tabTextActive]}>
+          {tab === 'active' ? 'Active' : 'Trash'}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+interface TrashListProps<T extends { id: number; name: string; deleted_at: string | null }> {
+  // Singular, lower-case record name used in messages, e.g. "section"
+  label: string;
+  icon: React.ComponentProps<typeof MaterialIcons>['name'];
+  resource: TrashApi<T>;
+  searchQuery: string;
+  renderDetails?: (item: T) => React.ReactNode;
+  // Called after a restore so the screen can put the record back in its list
+  onRestored?: (item: T) => void;
+}
+
+const ITEMS_PER_PAGE = 10;
+const DEBOUNCE_DELAY = 1000;
+
+const formatDeletedAt = (value: string | null) => (
+  value ? new Date(value).toLocaleString() : 'Unknown'
+);
+
+export default function TrashList<T extends { id: number; name: string; deleted_at: string | null }>({
+  label,
+  icon,
+  resource,
+  searchQuery,
+  renderDetails,
+  onRestored,
+}: TrashListProps<T>) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<T | null>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    const timer = setTimeout(() => fetchTrash(true), searchQuery ? DEBOUNCE_DELAY : 0);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const fetchTrash = async (isRefresh = false) => {
+    try {
+      if (isRefresh) {
+        setLoading(true);
+        setError(null);
+      } else {
+        setIsLoadingMore(true);
+      }
+
+      const currentPage = isRefresh ? 1 : page + 1;
+      const { items: trashed, pagination } = await resource.trash({
+        page: currentPage,
+        limit: ITEMS_PER_PAGE,
+        search: searchQuery,
+      });
+
+      setItems(prev => {
+        if (isRefresh) return trashed;
+        const existingIds = new Set(prev.map(item => item.id));
+        return [...prev, ...trashed.filter(item => !existingIds.has(item.id))];
+      });
+      setPage(currentPage);
+      setHasMore(pagination.last_page > currentPage);
+    } catch (error) {
+      console.error(`Error fetching trashed ${label}s:`, error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleRestore = async (item: T) => {
+    try {
+      setBusyId(item.id);
+      const restored = await resource.restore(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+      onRestored?.(restored);
+      toast.show(`${item.name} restored successfully!`, { type: 'success' });
+    } catch (error) {
+      console.error(`Error restoring ${label}:`, error);
+      toast.show(`Failed to restore ${label}. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!purgeTarget) return;
+
+    try {
+      setBusyId(purgeTarget.id);
+      await resource.purge(purgeTarget.id);
+      setItems(prev => prev.filter(i => i.id !== purgeTarget.id));
+      toast.show(`${purgeTarget.name} permanently deleted.`, { type: 'success' });
+    } catch (error) {
+      console.error(`Error purging ${label}:`, error);
+      toast.show(`Failed to delete ${label}. ${getErrorMessage(error)}`, { type: 'error' });
+    } finally {
+      setBusyId(null);
+      setPurgeTarget(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color="#1a73e8" />
+        <Text style={styles.mutedText}>Loading trash...</Text>
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+        <Text style={styles.errorText}>{error}</Text>
+        <TouchableOpacity style={styles.retryButton} onPress={() => fetchTrash(true)}>
+          <Text style={styles.buttonText}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => item.id.toString()}
+        renderItem={({ item }) => (
+          <View style={styles.card}>
+            <View style={styles.cardInfo}>
+              <View style={styles.avatar}>
+                <MaterialIcons name={icon} size={30} color="#999" />
+              </View>
+              <View style={styles.cardDetails}>
+                <Text style={styles.cardTitle}>{item.name}</Text>
+                {renderDetails?.(item)}
+                <View style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>Deleted:</Text>
+                  <Text style={styles.detailValue}>{formatDeletedAt(item.deleted_at)}</Text>
+                </View>
+              </View>
+            </View>
+            <View style={styles.actionButtons}>
+              {busyId === item.id ? (
+                <ActivityIndicator size="small" color="#1a73e8" />
+              ) : (
+                <>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.restoreButton]}
+                    onPress={() => handleRestore(item)}
+                  >
+                    <Text style={styles.buttonText}>Restore</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, styles.purgeButton]}
+                    onPress={() => setPurgeTarget(item)}
+                  >
+                    <Text style={styles.buttonText}>Delete Forever</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          </View>
+        )}
+        ListEmptyComponent={() => (
+          <View style={styles.centered}>
+            <MaterialIcons name="delete-outline" size={48} color="#ccc" />
+            <Text style={styles.mutedText}>Trash is empty</Text>
+          </View>
+        )}
+        onRefresh={() => {
+          setIsRefreshing(true);
+          fetchTrash(true);
+        }}
+        refreshing={isRefreshing}
+        onEndReached={() => {
+          if (!isLoadingMore && hasMore) fetchTrash();
+        }}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={() => (
+          isLoadingMore ? (
+            <View style={styles.loadingMore}>
+              <ActivityIndicator size="small" color="#1a73e8" />
+            </View>
+          ) : null
+        )}
+        contentContainerStyle={styles.list}
+      />
+
+      <Modal visible={purgeTarget !== null} animationType="fade" transparent={true}>
+        <View style={styles.modalContainer}>
+          <View style={styles.confirmation}>
+            <Text style={styles.confirmTitle}>Permanently delete this {label}?</Text>
+            <Text style={styles.confirmMessage}>
+              {purgeTarget?.name} will be removed for good. This action cannot be undone.
+            </Text>
+            <View style={styles.confirmActions}>
+              <TouchableOpacity
+                style={[styles.confirmAction, styles.cancelAction]}
+                onPress={() => setPurgeTarget(null)}
+              >
+                <Text style={styles.cancelActionText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.confirmAction, styles.purgeButton]}
+                onPress={handleConfirmPurge}
+              >
+                <Text style={styles.buttonText}>Delete Forever</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  tab: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#1a73e8',
+  },
+  tabText: {
+    marginLeft: 6,
+    fontSize: 15,
+    color: '#666',
+  },
+  tabTextActive: {
+    color: '#1a73e8',
+    fontWeight: '600',
+  },
+  list: {
+    padding: 12,
+    flexGrow: 1,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  cardInfo: {
+    flexDirection: 'row',
+    marginBottom: 16,
+  },
+  avatar: {
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    marginRight: 16,
+    backgroundColor: '#f0f0f0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardDetails: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    marginBottom: 4,
+  },
+  detailLabel: {
+    width: 80,
+    fontSize: 13,
+    color: '#666',
+  },
+  detailValue: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  actionButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: 12,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    marginLeft: 8,
+  },
+  restoreButton: {
+    backgroundColor: '#34A853',
+  },
+  purgeButton: {
+    backgroundColor: '#ff4444',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  mutedText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 14,
+    color: '#ff4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  loadingMore: {
+    padding: 12,
+    alignItems: 'center',
+  },
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  confirmation: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 24,
+    width: '90%',
+    maxWidth: 400,
+  },
+  confirmTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  confirmMessage: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 20,
+    textAlign: 'center',
+  },
+  confirmActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+  },
+  confirmAction: {
+    padding: 12,
+    minWidth: 100,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginHorizontal: 8,
+  },
+  cancelAction: {
+    backgroundColor: '#f5f5f5',
+  },
+  cancelActionText: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#666',
+  },
+});
@@ -1,13 +1,14 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter } from 'expo-router';
 import React, { createContext, useContext, useEffect, useState } from 'react';
-import { API_URL } from '../../config/api';
+import { api, API_URL, onSessionExpired, syncOfflineQueue } from '../../config/api';
+import { clearOfflineData } from '../../config/offline';
 
 interface User {
   id: number;
   name: string;
   email: string;
-  role: 'Admin' | 'Student';
+  role: 'Admin' | 'Student' | 'Teacher';
 }
 
 interface AuthContextType {
@@ -16,6 +17,8 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   loading: boolean;
+  // True once the server rejected the stored token, until the next sign-in
+  sessionExpired: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -23,8 +26,22 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const router = useRouter();
 
+  // The API client clears the stored credentials on a 401; signing the user out
+  // here lets the route guards send them to /login
+  useEffect(() => onSessionExpired(() => {
+    setSessionExpired(true);
+    setUser(null);
+  }), []);
+
+  useEffect(() => {
+    if (user) {
+      setSessionExpired(false);
+    }
+  }, [user]);
+
   useEffect(() => {
     // Check for stored token and user data on app start
     const loadStoredAuth = async () => {
@@ -34,6 +51,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         
         if (token && userData) {
           setUser(JSON.parse(userData));
+          // Extend the session while the app is in use (a revoked token comes
+          // back as a 401, which signs the user out), then send any changes
+          // queued offline during an earlier run
+          api.auth.refresh()
+            .catch(error => console.error('Error refreshing auth token:', error))
+            .finally(syncOfflineQueue);
         }
       } catch (error) {
         console.error('Error loading auth data:', error);
@@ -88,13 +111,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     } finally {
       await AsyncStorage.removeItem('auth-token');
       await AsyncStorage.removeItem('user');
+      await clearOfflineData();
       setUser(null);
       router.replace('/login');
     }
   };
 
   return (
-    <AuthContext.Provider value={{ user, setUser, login, logout, loading }}>
+    <AuthContext.Provider value={{ user, setUser, login, logout, loading, sessionExpired }}>
       {children}
     </AuthContext.Provider>
   );
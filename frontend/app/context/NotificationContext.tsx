@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { api, NetworkError } from '../../config/api';
+import { useAuth } from './AuthContext';
+
+// How often the unread count is checked while signed in
+const POLL_INTERVAL = 30 * 1000;
+
+interface NotificationContextType {
+  unreadCount: number;
+  setUnreadCount: (count: number) => void;
+  refreshUnreadCount: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+// Keeps the signed-in user's unread notification count current for every
+// bell in the app: polled while the app is in the foreground, and set
+// directly by the notifications screen as items are read
+export function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refreshUnreadCount = async () => {
+    try {
+      setUnreadCount(await api.notifications.unreadCount());
+    } catch (error) {
+      // Offline is expected; the next poll catches up
+      if (!(error instanceof NetworkError)) {
+        console.error('Error fetching unread notifications:', error);
+      }
+    }
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    refreshUnreadCount();
+    const timer = setInterval(() => {
+      if (AppState.currentState === 'active') refreshUnreadCount();
+    }, POLL_INTERVAL);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') refreshUnreadCount();
+    });
+
+    return () => {
+      clearInterval(timer);
+      subscription.remove();
+    };
+  }, [user?.id]);
+
+  return (
+    <NotificationContext.Provider value={{ unreadCount, setUnreadCount, refreshUnreadCount }}>
+      {children}
+    </NotificationContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
+
+export default NotificationProvider;
@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { api, NetworkError, setActiveTermId, Term } from '../../config/api';
+
+// Where the admin's chosen term is remembered between sessions
+const STORAGE_KEY = 'active-term-id';
+
+interface TermContextType {
+  terms: Term[];
+  // The term the admin screens are working in; null until terms are set up
+  activeTerm: Term | null;
+  selectTerm: (termId: number) => Promise<void>;
+  refreshTerms: () => Promise<void>;
+  // Whether the active term is archived, so its records can't be changed
+  isReadOnly: boolean;
+}
+
+const TermContext = createContext<TermContextType | undefined>(undefined);
+
+// The term the admin screens read and write: every request carries it (see
+// setActiveTermId). Defaults to the school's current term, and holds back
+// the screens until the remembered choice is known so none of them fetch
+// another term's records first.
+export function TermProvider({ children }: { children: React.ReactNode }) {
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [activeTermId, setActiveTermIdState] = useState<number | null>(null);
+  const [ready, setReady] = useState(false);
+
+  const activate = (termId: number | null) => {
+    setActiveTermId(termId);
+    setActiveTermIdState(termId);
+  };
+
+  // Keeps the chosen term when it still exists, else falls back to the current one
+  const refreshTerms = async () => {
+    try {
+      const [{ terms: list, currentTermId }, stored] = await Promise.all([
+        api.terms.list(),
+        AsyncStorage.getItem(STORAGE_KEY),
+      ]);
+      const chosen = list.find(term => String(term.id) === (activeTermId !== null ? String(activeTermId) : stored));
+      setTerms(list);
+      activate(chosen?.id ?? currentTermId);
+    } catch (error) {
+      // Offline is expected; keep working in the remembered term
+      if (!(error instanceof NetworkError)) {
+        console.error('Error fetching terms:', error);
+      }
+      if (activeTermId === null) {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        activate(stored ? Number(stored) : null);
+      }
+    }
+  };
+
+  const selectTerm = async (termId: number) => {
+    activate(termId);
+    await AsyncStorage.setItem(STORAGE_KEY, String(termId));
+  };
+
+  useEffect(() => {
+    refreshTerms().finally(() => setReady(true));
+    // Requests made after leaving the admin screens go back to the current term
+    return () => setActiveTermId(null);
+  }, []);
+
+  const activeTerm = terms.find(term => term.id === activeTermId) ?? null;
+
+  if (!ready) {
+    return null;
+  }
+
+  return (
+    <TermContext.Provider
+      value={{ terms, activeTerm, selectTerm, refreshTerms, isReadOnly: activeTerm?.is_archived ?? false }}
+    >
+      {children}
+    </TermContext.Provider>
+  );
+}
+
+export function useTerm() {
+  const context = useContext(TermContext);
+  if (context === undefined) {
+    throw new Error('useTerm must be used within a TermProvider');
+  }
+  return context;
+}
+
+export default TermProvider;
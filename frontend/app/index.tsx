@@ -1,5 +1,20 @@
 import { Redirect } from 'expo-router';
+import React from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { HOME_ROUTES } from './components/RouteGuard';
+import { useAuth } from './context/AuthContext';
 
 export default function Index() {
-  return <Redirect href="/login" />;
-} 
\ No newline at end of file
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+        <ActivityIndicator size="large" color="#1a73e8" />
+      </View>
+    );
+  }
+
+  // Signed-in users skip the login screen
+  return <Redirect href={(user ? HOME_ROUTES[user.role] : '/login') as any} />;
+}
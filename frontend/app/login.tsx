@@ -1,4 +1,4 @@
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useState } from 'react';
 import {
   ActivityIndicator,
@@ -17,6 +17,7 @@ import {
 } from 'react-native';
 import { useAuth } from './context/AuthContext';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SESSION_EXPIRED_MESSAGE } from '../config/api';
 import { env } from '../config/env';
 
 const API_URL = env.API_URL;
@@ -27,6 +28,9 @@ export default function Login() {
   const [errors, setErrors] = useState<{ email?: string; password?: string }>({});
   const [loading, setLoading] = useState(false);
   const router = useRouter();
+  // Set by the route guards when the session expired: `redirect` is the screen
+  // the user was on, reopened after signing in so it can reload its data
+  const { expired, redirect } = useLocalSearchParams<{ expired?: string; redirect?: string }>();
   const { setUser } = useAuth();
 
   const validateForm = () => {
@@ -83,8 +87,9 @@ export default function Login() {
       console.log('Parsed response:', data);
       
       if (data.success) {
-        // Store the token in AsyncStorage
+        // Store the token and user in AsyncStorage
         await AsyncStorage.setItem('auth-token', data.token);
+        await AsyncStorage.setItem('user', JSON.stringify(data.user));
         
         // Update user context
         setUser(data.user);
@@ -93,8 +98,12 @@ export default function Login() {
         setEmail('');
         setPassword('');
         
-        // Redirect based on role using the redirect_to from the server
-        router.replace(data.redirect_to);
+        // Return to the screen the session expired on, otherwise redirect based
+        // on role using the redirect_to from the server. The route guards send
+        // a different user on to their own home. Only in-app paths are
+        // followed: '//host' would leave the app for another site.
+        const isAppPath = !!redirect && redirect.startsWith('/') && !redirect.startsWith('//');
+        router.replace(isAppPath ? (redirect as any) : data.redirect_to);
       } else {
         Alert.alert(
           'Login Failed',
@@ -134,6 +143,11 @@ export default function Login() {
           >
             <View style={styles.formWrapper}>
               <Text style={styles.title}>Welcome Back</Text>
+              {expired && (
+                <View style={styles.sessionBanner}>
+                  <Text style={styles.sessionBannerText}>{SESSION_EXPIRED_MESSAGE}</Text>
+                </View>
+              )}
               <View style={styles.inputContainer}>
                 <Text style={styles.label}>Email</Text>
                 <TextInput
@@ -233,6 +247,20 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     color: '#333',
   },
+  sessionBanner: {
+    backgroundColor: '#fff4e5',
+    borderColor: '#ffb74d',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: -16,
+    marginBottom: 24,
+  },
+  sessionBannerText: {
+    color: '#8a4b00',
+    fontSize: 14,
+    textAlign: 'center',
+  },
   inputContainer: {
     marginBottom: 24,
   },
@@ -0,0 +1,396 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { api, AppNotification, getErrorMessage, NotificationCategory } from '../config/api';
+import RouteGuard from './components/RouteGuard';
+import { useNotifications } from './context/NotificationContext';
+import { timeAgo } from '../utils/time';
+
+const PAGE_SIZE = 20;
+
+const CATEGORY_ICONS: Record<NotificationCategory, { icon: keyof typeof MaterialIcons.glyphMap; color: string }> = {
+  grade: { icon: 'grade', color: '#4CAF50' },
+  schedule: { icon: 'event', color: '#FF9800' },
+  enrollment: { icon: 'school', color: '#1a73e8' },
+  general: { icon: 'notifications', color: '#666' },
+};
+
+function NotificationList() {
+  const router = useRouter();
+  const { unreadCount, setUnreadCount } = useNotifications();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = async (pageToLoad = 1) => {
+    try {
+      if (pageToLoad === 1) {
+        setLoading(!isRefreshing);
+        setError(null);
+      } else {
+        setIsLoadingMore(true);
+      }
+      const { items, pagination, unreadCount } = await api.notifications.list({
+        page: pageToLoad,
+        limit: PAGE_SIZE,
+        unread: unreadOnly ? 1 : undefined,
+      });
+      setNotifications(prev => pageToLoad === 1 ? items : [...prev, ...items]);
+      setUnreadCount(unreadCount);
+      setPage(pageToLoad);
+      setHasMore(pagination.current_page < pagination.last_page);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+      setIsRefreshing(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchNotifications(1);
+  }, [unreadOnly]);
+
+  const handleRefresh = () => {
+    setIsRefreshing(true);
+    fetchNotifications(1);
+  };
+
+  const handleLoadMore = () => {
+    if (!loading && !isLoadingMore && hasMore) {
+      fetchNotifications(page + 1);
+    }
+  };
+
+  const markRead = (id: string, readAt: string) => {
+    setNotifications(prev => prev
+      .map(notification => notification.id === id ? { ...notification, read_at: readAt } : notification)
+      .filter(notification => !unreadOnly || !notification.read_at));
+  };
+
+  const handleOpen = async (notification: AppNotification) => {
+    if (notification.read_at) return;
+    try {
+      const remaining = await api.notifications.markRead(notification.id);
+      markRead(notification.id, new Date().toISOString());
+      setUnreadCount(remaining);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      setError(getErrorMessage(error));
+    }
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      const remaining = await api.notifications.markAllRead();
+      const readAt = new Date().toISOString();
+      setNotifications(prev => unreadOnly ? [] : prev.map(notification => ({
+        ...notification,
+        read_at: notification.read_at ?? readAt,
+      })));
+      setUnreadCount(remaining);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      setError(getErrorMessage(error));
+    }
+  };
+
+  const renderNotification = ({ item }: { item: AppNotification }) => {
+    const { icon, color } = CATEGORY_ICONS[item.category] ?? CATEGORY_ICONS.general;
+    const isUnread = !item.read_at;
+
+    return (
+      <TouchableOpacity
+        style={[styles.notificationCard, isUnread && styles.unreadCard]}
+        onPress={() => handleOpen(item)}
+      >
+        <View style={[styles.notificationIcon, { backgroundColor: color + '20' }]}>
+          <MaterialIcons name={icon} size={22} color={color} />
+        </View>
+        <View style={styles.notificationContent}>
+          <Text style={[styles.notificationTitle, isUnread && styles.unreadTitle]}>{item.title}</Text>
+          <Text style={styles.notificationMessage}>{item.message}</Text>
+          <Text style={styles.notificationTime}>{timeAgo(item.created_at)}</Text>
+        </View>
+        {isUnread && <View style={styles.unreadDot} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <MaterialIcons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Notifications</Text>
+      </View>
+
+      <View style={styles.titleContainer}>
+        <View style={styles.filters}>
+          <TouchableOpacity
+            style={[styles.filterChip, !unreadOnly && styles.filterChipActive]}
+            onPress={() => setUnreadOnly(false)}
+          >
+            <Text style={[styles.filterChipText, !unreadOnly && styles.filterChipTextActive]}>All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.filterChip, unreadOnly && styles.filterChipActive]}
+            onPress={() => setUnreadOnly(true)}
+          >
+            <Text style={[styles.filterChipText, unreadOnly && styles.filterChipTextActive]}>
+              Unread{unreadCount > 0 ? ` (${unreadCount})` : ''}
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <TouchableOpacity onPress={handleMarkAllRead} disabled={unreadCount === 0}>
+          <Text style={[styles.markAllText, unreadCount === 0 && styles.markAllTextDisabled]}>
+            Mark all as read
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading notifications...</Text>
+        </View>
+      ) : error && notifications.length === 0 ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchNotifications(1)}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={notifications}
+          keyExtractor={(item) => item.id}
+          renderItem={renderNotification}
+          onRefresh={handleRefresh}
+          refreshing={isRefreshing}
+          onEndReached={handleLoadMore}
+          onEndReachedThreshold={0.5}
+          ListHeaderComponent={error ? <Text style={styles.inlineError}>{error}</Text> : null}
+          ListFooterComponent={isLoadingMore ? <ActivityIndicator color="#1a73e8" style={styles.footerLoader} /> : null}
+          ListEmptyComponent={() => (
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="notifications-none" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>
+                {unreadOnly ? 'You are all caught up' : 'No notifications yet'}
+              </Text>
+            </View>
+          )}
+          contentContainerStyle={styles.notificationList}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+// Shared by every role, so it sits outside the role route groups
+export default function NotificationsScreen() {
+  return (
+    <RouteGuard roles={['Admin', 'Teacher', 'Student']}>
+      <NotificationList />
+    </RouteGuard>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1a73e8',
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  titleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  filters: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f3f4',
+  },
+  filterChipActive: {
+    backgroundColor: '#1a73e8',
+  },
+  filterChipText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  filterChipTextActive: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  markAllText: {
+    fontSize: 14,
+    color: '#1a73e8',
+    fontWeight: '500',
+  },
+  markAllTextDisabled: {
+    color: '#aaa',
+  },
+  notificationList: {
+    padding: 12,
+  },
+  notificationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+      web: {
+        boxShadow: '0px 2px 4px rgba(0, 0, 0, 0.1)',
+      }
+    }),
+  },
+  unreadCard: {
+    backgroundColor: '#e8f0fe',
+  },
+  notificationIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  notificationContent: {
+    flex: 1,
+  },
+  notificationTitle: {
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 2,
+  },
+  unreadTitle: {
+    fontWeight: 'bold',
+  },
+  notificationMessage: {
+    fontSize: 14,
+    color: '#555',
+    marginBottom: 4,
+  },
+  notificationTime: {
+    fontSize: 12,
+    color: '#888',
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#1a73e8',
+    marginLeft: 8,
+  },
+  inlineError: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  footerLoader: {
+    marginVertical: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#ff4444',
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
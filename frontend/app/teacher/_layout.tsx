@@ -0,0 +1,15 @@
+import { Stack } from 'expo-router';
+import React from 'react';
+import RouteGuard from '../components/RouteGuard';
+
+export default function TeacherLayout() {
+  return (
+    <RouteGuard roles={['Teacher']}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+        }}
+      />
+    </RouteGuard>
+  );
+}
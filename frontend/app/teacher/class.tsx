@@ -0,0 +1,299 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { api, ClassRoster, getErrorMessage } from '../../config/api';
+import AttendanceEditor from '../components/AttendanceEditor';
+import GradebookEditor from '../components/GradebookEditor';
+
+type ClassTab = 'roster' | 'attendance' | 'grades';
+
+const TABS: { value: ClassTab; label: string; icon: React.ComponentProps<typeof MaterialIcons>['name'] }[] = [
+  { value: 'roster', label: 'Roster', icon: 'people' },
+  { value: 'attendance', label: 'Attendance', icon: 'fact-check' },
+  { value: 'grades', label: 'Grades', icon: 'grade' },
+];
+
+type RosterStudent = ClassRoster['students'][number];
+
+export default function TeacherClassScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ subjectId: string; sectionId: string }>();
+  const subjectId = Number(params.subjectId);
+  const sectionId = Number(params.sectionId);
+
+  const [roster, setRoster] = useState<ClassRoster | null>(null);
+  const [tab, setTab] = useState<ClassTab>('roster');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRoster = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setRoster(await api.teacherPortal.roster(subjectId, sectionId));
+    } catch (error) {
+      console.error('Error fetching class roster:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoster();
+  }, [subjectId, sectionId]);
+
+  const query = searchQuery.trim().toLowerCase();
+  const students = (roster?.students || []).filter(student => (
+    !query || student.name.toLowerCase().includes(query)
+  ));
+
+  const renderStudent = ({ item }: { item: RosterStudent }) => (
+    <View style={styles.studentCard}>
+      <MaterialIcons name="person" size={24} color="#1a73e8" />
+      <View style={styles.studentInfo}>
+        <Text style={styles.studentName}>{item.name}</Text>
+        <Text style={styles.studentDetails}>
+          {[item.gender, item.email, item.phone].filter(Boolean).join(' · ')}
+        </Text>
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <MaterialIcons name="arrow-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <View style={styles.searchContainer}>
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search students..."
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+        </View>
+      </View>
+
+      <View style={styles.titleContainer}>
+        <Text style={styles.title}>{roster?.subject.name || 'Class'}</Text>
+        {roster && (
+          <Text style={styles.subtitle}>{roster.subject.code} · {roster.section.name}</Text>
+        )}
+      </View>
+
+      <View style={styles.tabs}>
+        {TABS.map(({ value, label, icon }) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.tab, tab === value && styles.tabActive]}
+            onPress={() => setTab(value)}
+          >
+            <MaterialIcons name={icon} size={18} color={tab === value ? '#1a73e8' : '#666'} />
+            <Text style={[styles.tabText, tab === value && styles.tabTextActive]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === 'grades' ? (
+        <GradebookEditor subjectId={subjectId} sectionId={sectionId} searchQuery={searchQuery} />
+      ) : tab === 'attendance' ? (
+        <AttendanceEditor subjectId={subjectId} sectionId={sectionId} searchQuery={searchQuery} />
+      ) : loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading students...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchRoster}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={students}
+          renderItem={renderStudent}
+          keyExtractor={item => item.id.toString()}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="people-outline" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>
+                {query ? 'No students match your search' : 'No students in this section yet'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#1a73e8',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  backButton: {
+    marginRight: 12,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    fontSize: 16,
+    color: '#333',
+  },
+  titleContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#1a73e8',
+    marginTop: 4,
+  },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e0e0e0',
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 2,
+    borderBottomColor: 'transparent',
+  },
+  tabActive: {
+    borderBottomColor: '#1a73e8',
+  },
+  tabText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#666',
+  },
+  tabTextActive: {
+    color: '#1a73e8',
+    fontWeight: '500',
+  },
+  listContainer: {
+    padding: 16,
+  },
+  studentCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  studentInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  studentName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  studentDetails: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 2,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
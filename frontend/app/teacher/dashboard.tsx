@@ -0,0 +1,255 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { api, getErrorMessage, TeacherClass, TeachingLoad } from '../../config/api';
+import { formatLoad, formatTimeRange } from '../../constants/Schedule';
+import { useAuth } from '../context/AuthContext';
+
+export default function TeacherDashboard() {
+  const router = useRouter();
+  const { user, logout } = useAuth();
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [load, setLoad] = useState<TeachingLoad | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClasses = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.teacherPortal.classes();
+      setClasses(data.classes);
+      setLoad(data.load);
+    } catch (error) {
+      console.error('Error fetching classes:', error);
+      setError(getErrorMessage(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchClasses();
+  }, []);
+
+  const handleLogout = () => {
+    Alert.alert(
+      'Logout',
+      'Are you sure you want to logout?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Logout', style: 'destructive', onPress: logout },
+      ]
+    );
+  };
+
+  const openClass = (item: TeacherClass) => {
+    router.push({
+      pathname: '/teacher/class',
+      params: { subjectId: String(item.subject.id), sectionId: String(item.section.id) },
+    });
+  };
+
+  const renderClass = ({ item }: { item: TeacherClass }) => (
+    <TouchableOpacity style={styles.classCard} onPress={() => openClass(item)}>
+      <View style={styles.classHeader}>
+        <View style={styles.classTitle}>
+          <Text style={styles.subjectName}>{item.subject.name}</Text>
+          <Text style={styles.subjectCode}>{item.subject.code} · {item.section.name}</Text>
+        </View>
+        <MaterialIcons name="chevron-right" size={24} color="#999" />
+      </View>
+
+      {item.schedules.map(slot => (
+        <View key={slot.id} style={styles.slotRow}>
+          <MaterialIcons name="schedule" size={16} color="#666" />
+          <Text style={styles.slotText}>
+            {slot.day} {formatTimeRange(slot.start_time, slot.end_time)}
+            {slot.room ? ` · ${slot.room}` : ''}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.slotRow}>
+        <MaterialIcons name="people" size={16} color="#666" />
+        <Text style={styles.slotText}>
+          {item.students_count} {item.students_count === 1 ? 'student' : 'students'}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" />
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.headerTitle}>Hello, {user?.name || 'Teacher'}!</Text>
+          <Text style={styles.headerSubtitle}>
+            Your classes this school year{load ? ` · ${formatLoad(load)}` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
+          <MaterialIcons name="logout" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#1a73e8" />
+          <Text style={styles.loadingText}>Loading classes...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <MaterialIcons name="error-outline" size={48} color="#ff4444" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchClasses}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={classes}
+          renderItem={renderClass}
+          keyExtractor={item => `${item.subject.id}-${item.section.id}`}
+          contentContainerStyle={styles.listContainer}
+          onRefresh={fetchClasses}
+          refreshing={loading}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <MaterialIcons name="class" size={48} color="#ccc" />
+              <Text style={styles.emptyText}>No classes are assigned to you yet</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 20,
+    backgroundColor: '#1a73e8',
+  },
+  headerTitle: {
+    color: '#fff',
+    fontSize: 22,
+    fontWeight: 'bold',
+  },
+  headerSubtitle: {
+    color: '#fff',
+    opacity: 0.9,
+    fontSize: 14,
+    marginTop: 2,
+  },
+  logoutButton: {
+    padding: 8,
+  },
+  listContainer: {
+    padding: 16,
+  },
+  classCard: {
+    backgroundColor: '#fff',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  classHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  classTitle: {
+    flex: 1,
+  },
+  subjectName: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  subjectCode: {
+    fontSize: 14,
+    color: '#1a73e8',
+    marginTop: 2,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  slotText: {
+    marginLeft: 6,
+    fontSize: 14,
+    color: '#666',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    backgroundColor: '#1a73e8',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,15 @@
+import { Stack } from 'expo-router';
+import React from 'react';
+import RouteGuard from '../components/RouteGuard';
+
+export default function UserLayout() {
+  return (
+    <RouteGuard roles={['Student']}>
+      <Stack
+        screenOptions={{
+          headerShown: false,
+        }}
+      />
+    </RouteGuard>
+  );
+}
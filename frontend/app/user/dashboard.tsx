@@ -1,15 +1,41 @@
 import * as ImagePicker from 'expo-image-picker';
 import { useRouter } from 'expo-router';
-import { Bell, Clock, GraduationCap, LogOut, X } from "lucide-react-native";
-import React, { useState } from "react";
-import { Alert, Image, ScrollView, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from "react-native";
+import { Bell, CalendarCheck, Clock, GraduationCap, LogOut, X } from "lucide-react-native";
+import React, { useEffect, useState } from "react";
+import { ActivityIndicator, Alert, Image, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View, useWindowDimensions } from "react-native";
 import { Button } from "../../components/ui/button";
 import { Card, CardContent } from "../../components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../components/ui/dialog";
 import { Input } from "../../components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "../../components/ui/tabs";
+import { api, ApiError, getErrorMessage, ReportCard, Student, StudentAttendance, StudentSchedule } from '../../config/api';
+import { ATTENDANCE_STATUSES, attendanceStatus, formatRate } from '../../constants/Attendance';
+import { formatTimeRange, WEEKDAYS } from '../../constants/Schedule';
+import { reportCardHtml, scheduleHtml, sharePdf } from '../../utils/pdf';
+import { formatDate } from '../../utils/time';
+import NotificationBell from '../components/NotificationBell';
 import { useAuth } from '../context/AuthContext';
 
+interface ProfileForm {
+  email: string;
+  phone: string;
+  address: string;
+  guardian_name: string;
+  guardian_phone: string;
+  guardian_relationship: string;
+}
+
+const PLACEHOLDER_AVATAR = "https://images.pexels.com/photos/2379005/pexels-photo-2379005.jpeg";
+
+const toProfileForm = (student: Student): ProfileForm => ({
+  email: student.email || '',
+  phone: student.phone || '',
+  address: student.address || '',
+  guardian_name: student.guardian_name || '',
+  guardian_phone: student.guardian_phone || '',
+  guardian_relationship: student.guardian_relationship || '',
+});
+
 declare namespace JSX {
   interface Element {}
 }
@@ -18,39 +44,133 @@ export default function Dashboard(): JSX.Element {
   const [isEditProfileOpen, setIsEditProfileOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("profile");
   const [profileImage, setProfileImage] = useState<string | null>(null);
+  const [student, setStudent] = useState<Student | null>(null);
+  const [loadingProfile, setLoadingProfile] = useState(true);
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [profileForm, setProfileForm] = useState<ProfileForm | null>(null);
+  const [formErrors, setFormErrors] = useState<Record<string, string[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [reportCard, setReportCard] = useState<ReportCard | null>(null);
+  const [loadingGrades, setLoadingGrades] = useState(true);
+  const [gradesError, setGradesError] = useState<string | null>(null);
+  const [timetable, setTimetable] = useState<StudentSchedule | null>(null);
+  const [loadingSchedule, setLoadingSchedule] = useState(true);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  const [classSearch, setClassSearch] = useState('');
+  const [attendance, setAttendance] = useState<StudentAttendance | null>(null);
+  const [loadingAttendance, setLoadingAttendance] = useState(true);
+  const [attendanceError, setAttendanceError] = useState<string | null>(null);
   const { width } = useWindowDimensions();
-  const { setUser } = useAuth();
+  const { user, setUser } = useAuth();
   const router = useRouter();
 
   // Responsive helpers
   const isSmallScreen = width < 400;
   const isMediumScreen = width < 700;
 
+  // Load the signed-in student's own record
+  const loadProfile = async () => {
+    try {
+      setLoadingProfile(true);
+      setProfileError(null);
+      const me = await api.auth.me();
+      if (!me.student_id) {
+        throw new Error('No student record is linked to this account. Please contact the registrar.');
+      }
+      setStudent(await api.students.get(me.student_id));
+      loadGrades(me.student_id);
+      loadSchedule(me.student_id);
+      loadAttendance(me.student_id);
+    } catch (error) {
+      console.error('Error loading student profile:', error);
+      setProfileError(getErrorMessage(error));
+      setGradesError(getErrorMessage(error));
+      setLoadingGrades(false);
+      setScheduleError(getErrorMessage(error));
+      setLoadingSchedule(false);
+      setAttendanceError(getErrorMessage(error));
+      setLoadingAttendance(false);
+    } finally {
+      setLoadingProfile(false);
+    }
+  };
+
+  // Load the student's quarterly and final grades
+  const loadGrades = async (studentId: number) => {
+    try {
+      setLoadingGrades(true);
+      setGradesError(null);
+      setReportCard(await api.grades.forStudent(studentId));
+    } catch (error) {
+      console.error('Error loading grades:', error);
+      setGradesError(getErrorMessage(error));
+    } finally {
+      setLoadingGrades(false);
+    }
+  };
+
+  // Load the student's attendance rate and missed sessions
+  const loadAttendance = async (studentId: number) => {
+    try {
+      setLoadingAttendance(true);
+      setAttendanceError(null);
+      setAttendance(await api.attendance.forStudent(studentId));
+    } catch (error) {
+      console.error('Error loading attendance:', error);
+      setAttendanceError(getErrorMessage(error));
+    } finally {
+      setLoadingAttendance(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfile();
+  }, []);
+
   const studentInfo = {
-    name: "Alex Chen",
-    email: "alex.chen@student.edu",
-    gender: "Male",
-    birthplace: "San Francisco, CA",
-    birthdate: "2007-08-15",
-    grade: "Grade 10",
-    section: "Section A",
-    studentId: "ST-001",
-    enrollmentDate: "2023-06-15",
-    lastLogin: "2025-04-01 03:45 PM",
-    status: "Active",
+    name: student?.name || user?.name || '',
+    email: student?.email || user?.email || '',
+    gender: student?.gender || '—',
+    address: student?.address || 'Not set',
+    grade: student?.grade_level?.name || '—',
+    section: student?.section?.name || '—',
+    studentId: student ? `ST-${String(student.id).padStart(3, '0')}` : '—',
+    avatar: student?.avatar_url || PLACEHOLDER_AVATAR,
     guardian: {
-      name: "Wei Chen",
-      contact: "+1-555-123-4567",
-      relationship: "Father"
+      name: student?.guardian_name || 'Not set',
+      contact: student?.guardian_phone || 'Not set',
+      relationship: student?.guardian_relationship || 'Not set'
+    }
+  };
+
+  // Load the weekly timetable of the student's section
+  const loadSchedule = async (studentId: number) => {
+    try {
+      setLoadingSchedule(true);
+      setScheduleError(null);
+      setTimetable(await api.schedules.forStudent(studentId));
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+      setScheduleError(getErrorMessage(error));
+    } finally {
+      setLoadingSchedule(false);
     }
   };
 
-  const subjects = [
-    { name: "Mathematics", q1: 92, q2: 88, q3: 90, q4: 94, final: 91, teacher: "Mrs. Johnson", time: "8:00 AM - 9:30AM" },
-    { name: "Science", q1: 85, q2: 82, q3: 88, q4: 86, final: 85, teacher: "Mr. Williams", time: "9:45 AM - 11:15 AM" },
-    { name: "English", q1: 95, q2: 94, q3: 92, q4: 96, final: 94, teacher: "Ms. Davis", time: "1:00 PM - 2:30 PM" },
-    { name: "History", q1: 89, q2: 91, q3: 87, q4: 90, final: 89, teacher: "Mr. Brown", time: "2:45 PM - 4:15 PM" }
-  ];
+  // Classes matching the search, grouped by weekday in week order
+  const classSearchNeedle = classSearch.trim().toLowerCase();
+  const classesByDay = WEEKDAYS.map(day => ({
+    ...day,
+    classes: (timetable?.schedules || []).filter(slot =>
+      slot.day_of_week === day.value && (
+        !classSearchNeedle ||
+        [slot.subject?.name, slot.subject?.code, slot.teacher?.name, slot.room]
+          .some(value => value?.toLowerCase().includes(classSearchNeedle))
+      )
+    ),
+  })).filter(day => day.classes.length > 0);
+
+  const formatGrade = (grade: number | null) => (grade === null ? '—' : String(grade));
 
   // Handler for picking a new profile image
   const handleChangePhoto = async () => {
@@ -65,6 +185,74 @@ export default function Dashboard(): JSX.Element {
     }
   };
 
+  const handleOpenEditProfile = () => {
+    if (!student) return;
+    setProfileForm(toProfileForm(student));
+    setProfileImage(null);
+    setFormErrors({});
+    setIsEditProfileOpen(true);
+  };
+
+  const handleCloseEditProfile = () => {
+    setIsEditProfileOpen(false);
+    setProfileImage(null);
+    setFormErrors({});
+  };
+
+  const handleProfileChange = (field: keyof ProfileForm, value: string) => {
+    setProfileForm(prev => prev && { ...prev, [field]: value });
+    if (formErrors[field]) {
+      setFormErrors(prev => ({ ...prev, [field]: [] }));
+    }
+  };
+
+  // Persist contact info, guardian details and a newly picked photo
+  const handleSaveProfile = async () => {
+    if (!student || !profileForm) return;
+
+    try {
+      setIsSaving(true);
+      setFormErrors({});
+
+      const formDataToSend = new FormData();
+      (Object.keys(profileForm) as (keyof ProfileForm)[]).forEach(field => {
+        formDataToSend.append(field, profileForm[field].trim());
+      });
+
+      if (profileImage) {
+        const filename = profileImage.split('/').pop() || 'avatar.jpg';
+        const match = /\.(\w+)$/.exec(filename);
+        const type = match ? `image/${match[1]}` : 'image/jpeg';
+
+        if (Platform.OS === 'web') {
+          const blob = await (await fetch(profileImage)).blob();
+          formDataToSend.append('avatar', blob, filename);
+        } else {
+          formDataToSend.append('avatar', { uri: profileImage, name: filename, type } as any);
+        }
+      }
+
+      const updated = await api.students.update(student.id, formDataToSend);
+      setStudent(updated);
+      setIsEditProfileOpen(false);
+      setProfileImage(null);
+      Alert.alert('Profile Updated', 'Your changes have been saved.');
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      if (error instanceof ApiError && error.status === 422 && error.errors) {
+        setFormErrors(error.errors);
+      } else {
+        Alert.alert('Error', `Failed to save profile. ${getErrorMessage(error)}`);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderFieldError = (field: keyof ProfileForm | 'avatar') => (
+    formErrors[field]?.length ? <Text style={styles.fieldError}>{formErrors[field].join(' ')}</Text> : null
+  );
+
   // Handler for logout
   const handleLogout = () => {
     Alert.alert(
@@ -89,9 +277,32 @@ export default function Dashboard(): JSX.Element {
     );
   };
 
-  // Add the handler at the top of the component
-  const handleDownloadSchedule = () => {
-    alert('Download Schedule button pressed!');
+  const pdfStudent = {
+    name: studentInfo.name,
+    grade_level: student?.grade_level?.name,
+    strand: student?.strand?.name,
+    section: timetable?.section?.name || student?.section?.name,
+  };
+
+  // Render the weekly timetable to a PDF and open the share sheet
+  const handleDownloadSchedule = async () => {
+    if (!timetable) return;
+    try {
+      await sharePdf(scheduleHtml(pdfStudent, timetable.schedules), 'Share class schedule');
+    } catch (error) {
+      console.error('Error exporting schedule:', error);
+      Alert.alert('Error', `Failed to create the schedule PDF. ${getErrorMessage(error)}`);
+    }
+  };
+
+  const handleDownloadReportCard = async () => {
+    if (!reportCard) return;
+    try {
+      await sharePdf(reportCardHtml(pdfStudent, reportCard), 'Share report card');
+    } catch (error) {
+      console.error('Error exporting report card:', error);
+      Alert.alert('Error', `Failed to create the report card PDF. ${getErrorMessage(error)}`);
+    }
   };
 
   return (
@@ -104,10 +315,9 @@ export default function Dashboard(): JSX.Element {
             <Text style={[styles.headerSubtitle, isSmallScreen && { fontSize: 12 }]}>Welcome to your student dashboard</Text>
           </View>
           <View style={styles.headerIcons}>
-            <TouchableOpacity style={styles.notificationButton}>
-              <View style={styles.notificationBadge}><Text style={styles.notificationBadgeText}>3</Text></View>
+            <NotificationBell>
               <Bell size={isSmallScreen ? 20 : 24} color="#fff" />
-            </TouchableOpacity>
+            </NotificationBell>
             <TouchableOpacity style={[styles.notificationButton, { marginLeft: 8 }]} onPress={handleLogout}>
               <LogOut size={isSmallScreen ? 20 : 24} color="#fff" />
             </TouchableOpacity>
@@ -125,7 +335,7 @@ export default function Dashboard(): JSX.Element {
                 </View>
                 <View>
                   <Text style={[styles.statsLabel, isSmallScreen && { fontSize: 12 }]}>Subjects Enrolled</Text>
-                  <Text style={[styles.statsValue, isSmallScreen && { fontSize: 16 }]}>4</Text>
+                  <Text style={[styles.statsValue, isSmallScreen && { fontSize: 16 }]}>{reportCard ? reportCard.grades.length : '—'}</Text>
                 </View>
               </View>
             </CardContent>
@@ -138,7 +348,20 @@ export default function Dashboard(): JSX.Element {
                 </View>
                 <View>
                   <Text style={[styles.statsLabel, isSmallScreen && { fontSize: 12 }]}>Current Grade</Text>
-                  <Text style={[styles.statsValue, isSmallScreen && { fontSize: 16 }]}>Grade 10</Text>
+                  <Text style={[styles.statsValue, isSmallScreen && { fontSize: 16 }]}>{studentInfo.grade}</Text>
+                </View>
+              </View>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent>
+              <View style={styles.statsCardContent}>
+                <View style={[styles.iconCircle, { backgroundColor: '#FEF3C7' }, isSmallScreen && { padding: 8 }]}> 
+                  <CalendarCheck size={isSmallScreen ? 18 : 24} color="#F59E0B" />
+                </View>
+                <View>
+                  <Text style={[styles.statsLabel, isSmallScreen && { fontSize: 12 }]}>Attendance Rate</Text>
+                  <Text style={[styles.statsValue, isSmallScreen && { fontSize: 16 }]}>{attendance ? formatRate(attendance.summary.rate) : '—'}</Text>
                 </View>
               </View>
             </CardContent>
@@ -150,13 +373,26 @@ export default function Dashboard(): JSX.Element {
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="classes">Classes</TabsTrigger>
             <TabsTrigger value="grades">Grades</TabsTrigger>
+            <TabsTrigger value="attendance">Attendance</TabsTrigger>
           </TabsList>
           <TabsContent value="profile">
             <Card>
               <CardContent>
+                {loadingProfile ? (
+                  <View style={styles.profileStatus}>
+                    <ActivityIndicator size="large" color="#3B82F6" />
+                    <Text style={styles.profileStatusText}>Loading your profile...</Text>
+                  </View>
+                ) : profileError ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileErrorText}>{profileError}</Text>
+                    <Button title="Retry" variant="outline" onPress={loadProfile} />
+                  </View>
+                ) : (
+                <>
                 <View style={[styles.profileRow, isSmallScreen && { flexDirection: 'column', alignItems: 'flex-start', gap: 8 }]}>
                   <Image
-                    source={{ uri: profileImage || "https://images.pexels.com/photos/2379005/pexels-photo-2379005.jpeg" }}
+                    source={{ uri: studentInfo.avatar }}
                     style={[styles.profileImage, isSmallScreen && { width: 60, height: 60, borderRadius: 30, marginRight: 0, marginBottom: 8 }]}
                   />
                   <View style={{ flex: 1 }}>
@@ -168,9 +404,10 @@ export default function Dashboard(): JSX.Element {
                   <View style={[styles.infoBlock, styles.profileInfoCard]}>
                     <Text style={[styles.infoTitle, isSmallScreen && { fontSize: 14 }]}>Personal Information</Text>
                     <View style={styles.infoItem}><Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Gender: </Text><Text>{studentInfo.gender}</Text></View>
-                    <View style={styles.infoItem}><Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Birthplace: </Text><Text>{studentInfo.birthplace}</Text></View>
+                    <View style={styles.infoItem}><Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Address: </Text><Text>{studentInfo.address}</Text></View>
                     <View style={styles.infoItem}><Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Student ID: </Text><Text>{studentInfo.studentId}</Text></View>
-                    <Button onPress={() => setIsEditProfileOpen(true)} title="Edit Profile" variant="default" />
+                    <View style={styles.infoItem}><Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Section: </Text><Text>{studentInfo.section}</Text></View>
+                    <Button onPress={handleOpenEditProfile} title="Edit Profile" variant="default" />
                   </View>
                   <View style={[styles.infoBlock, styles.profileInfoCard]}>
                     <Text style={[styles.infoTitle, isSmallScreen && { fontSize: 14 }]}>Guardian Information</Text>
@@ -179,6 +416,8 @@ export default function Dashboard(): JSX.Element {
                     <View style={styles.infoItem}><Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Relationship: </Text><Text>{studentInfo.guardian.relationship}</Text></View>
                   </View>
                 </View>
+                </>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -187,27 +426,54 @@ export default function Dashboard(): JSX.Element {
               <CardContent>
                 <View style={styles.sectionHeaderRow}>
                   <Text style={[styles.sectionHeader, isSmallScreen && { fontSize: 14 }]}>Class Schedule</Text>
-                  <Input placeholder="Search classes or teachers..." />
+                  <Input placeholder="Search classes or teachers..." value={classSearch} onChangeText={setClassSearch} />
                 </View>
-                <Button title="Download Schedule" variant="outline" onPress={handleDownloadSchedule} />
-                {subjects.map((subject, index) => (
-                  <Card key={index}>
-                    <CardContent>
-                      <View style={[styles.classRow, isSmallScreen && { flexDirection: 'column', alignItems: 'flex-start', gap: 4 }]}> 
-                        <View>
-                          <Text style={[styles.className, isSmallScreen && { fontSize: 14 }]}>{subject.name}</Text>
-                          <View style={styles.classTimeRow}>
-                            <Clock size={isSmallScreen ? 12 : 16} color="#6B7280" />
-                            <Text style={[styles.classTime, isSmallScreen && { fontSize: 11 }]}>{subject.time}</Text>
+                <Button title="Download Schedule" variant="outline" onPress={handleDownloadSchedule} disabled={!timetable} />
+                {loadingSchedule ? (
+                  <View style={styles.profileStatus}>
+                    <ActivityIndicator size="large" color="#3B82F6" />
+                    <Text style={styles.profileStatusText}>Loading your schedule...</Text>
+                  </View>
+                ) : scheduleError ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileErrorText}>{scheduleError}</Text>
+                    <Button title="Retry" variant="outline" onPress={() => (student ? loadSchedule(student.id) : loadProfile())} />
+                  </View>
+                ) : classesByDay.length === 0 ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileStatusText}>
+                      {classSearchNeedle
+                        ? 'No classes match your search.'
+                        : timetable?.section
+                          ? `No classes have been scheduled for ${timetable.section.name} yet.`
+                          : 'You have not been assigned to a section yet.'}
+                    </Text>
+                  </View>
+                ) : classesByDay.map(day => (
+                  <View key={day.value}>
+                    <Text style={[styles.classDay, isSmallScreen && { fontSize: 13 }]}>{day.label}</Text>
+                    {day.classes.map(slot => (
+                      <Card key={slot.id}>
+                        <CardContent>
+                          <View style={[styles.classRow, isSmallScreen && { flexDirection: 'column', alignItems: 'flex-start', gap: 4 }]}> 
+                            <View>
+                              <Text style={[styles.className, isSmallScreen && { fontSize: 14 }]}>{slot.subject?.name}</Text>
+                              <View style={styles.classTimeRow}>
+                                <Clock size={isSmallScreen ? 12 : 16} color="#6B7280" />
+                                <Text style={[styles.classTime, isSmallScreen && { fontSize: 11 }]}>
+                                  {formatTimeRange(slot.start_time, slot.end_time)}{slot.room ? ` • ${slot.room}` : ''}
+                                </Text>
+                              </View>
+                            </View>
+                            <View style={{ alignItems: isSmallScreen ? 'flex-start' : 'flex-end', marginTop: isSmallScreen ? 4 : 0 }}>
+                              <Text style={[styles.classTeacherLabel, isSmallScreen && { fontSize: 11 }]}>Teacher</Text>
+                              <Text>{slot.teacher?.name || 'TBA'}</Text>
+                            </View>
                           </View>
-                        </View>
-                        <View style={{ alignItems: isSmallScreen ? 'flex-start' : 'flex-end', marginTop: isSmallScreen ? 4 : 0 }}>
-                          <Text style={[styles.classTeacherLabel, isSmallScreen && { fontSize: 11 }]}>Teacher</Text>
-                          <Text>{subject.teacher}</Text>
-                        </View>
-                      </View>
-                    </CardContent>
-                  </Card>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </View>
                 ))}
               </CardContent>
             </Card>
@@ -217,65 +483,160 @@ export default function Dashboard(): JSX.Element {
               <CardContent>
                 <View style={styles.sectionHeaderRow}>
                   <Text style={[styles.sectionHeader, isSmallScreen && { fontSize: 14 }]}>Report Card</Text>
-                  <Button title="Download Report Card" variant="outline" onPress={() => {}} size={isSmallScreen ? 'sm' : 'md'} />
+                  <Button title="Download Report Card" variant="outline" onPress={handleDownloadReportCard} disabled={!reportCard} size={isSmallScreen ? 'sm' : 'md'} />
                 </View>
-                {subjects.map((subject, index) => (
-                  <Card key={index}>
+                {loadingGrades ? (
+                  <View style={styles.profileStatus}>
+                    <ActivityIndicator size="large" color="#3B82F6" />
+                    <Text style={styles.profileStatusText}>Loading your grades...</Text>
+                  </View>
+                ) : gradesError ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileErrorText}>{gradesError}</Text>
+                    <Button title="Retry" variant="outline" onPress={() => (student ? loadGrades(student.id) : loadProfile())} />
+                  </View>
+                ) : !reportCard || reportCard.grades.length === 0 ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileStatusText}>No grades have been recorded yet.</Text>
+                  </View>
+                ) : (
+                <>
+                {reportCard.grades.map(subject => (
+                  <Card key={subject.subject_id}>
                     <CardContent>
                       <View style={styles.gradeCard}>
                         <View style={styles.gradeHeader}>
                           <Text style={[styles.gradeSubject, isSmallScreen && { fontSize: 14 }]}>{subject.name}</Text>
-                          <Text style={[styles.gradeTeacher, isSmallScreen && { fontSize: 11 }]}>{subject.teacher}</Text>
+                          <Text style={[styles.gradeTeacher, isSmallScreen && { fontSize: 11 }]}>{subject.code}</Text>
                         </View>
                         <View style={[styles.gradeGrid, isSmallScreen && { gap: 4 }]}>
-                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q1</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{subject.q1}</Text></View>
-                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q2</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{subject.q2}</Text></View>
-                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q3</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{subject.q3}</Text></View>
-                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q4</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{subject.q4}</Text></View>
-                          <View style={[styles.gradeBlockFinal, isSmallScreen && { width: '64%', padding: 8 }]}><Text style={[styles.gradeLabelFinal, isSmallScreen && { fontSize: 11 } ]}>Final Grade</Text><Text style={[styles.gradeValueFinal, isSmallScreen && { fontSize: 16 }]}>{subject.final}</Text></View>
+                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q1</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{formatGrade(subject.q1)}</Text></View>
+                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q2</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{formatGrade(subject.q2)}</Text></View>
+                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q3</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{formatGrade(subject.q3)}</Text></View>
+                          <View style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}><Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 } ]}>Q4</Text><Text style={[styles.gradeValue, isSmallScreen && { fontSize: 14 }]}>{formatGrade(subject.q4)}</Text></View>
+                          <View style={[styles.gradeBlockFinal, isSmallScreen && { width: '64%', padding: 8 }]}><Text style={[styles.gradeLabelFinal, isSmallScreen && { fontSize: 11 } ]}>Final Grade</Text><Text style={[styles.gradeValueFinal, isSmallScreen && { fontSize: 16 }, subject.passed === false && styles.gradeValueFailed]}>{formatGrade(subject.final)}</Text></View>
                         </View>
                       </View>
                     </CardContent>
                   </Card>
                 ))}
+                <View style={styles.generalAverageRow}>
+                  <Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>General Average: </Text>
+                  <Text style={[styles.generalAverageValue, isSmallScreen && { fontSize: 16 }]}>{formatGrade(reportCard.general_average)}</Text>
+                </View>
+                </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="attendance">
+            <Card>
+              <CardContent>
+                <View style={styles.sectionHeaderRow}>
+                  <Text style={[styles.sectionHeader, isSmallScreen && { fontSize: 14 }]}>Attendance</Text>
+                </View>
+                {loadingAttendance ? (
+                  <View style={styles.profileStatus}>
+                    <ActivityIndicator size="large" color="#3B82F6" />
+                    <Text style={styles.profileStatusText}>Loading your attendance...</Text>
+                  </View>
+                ) : attendanceError ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileErrorText}>{attendanceError}</Text>
+                    <Button title="Retry" variant="outline" onPress={() => (student ? loadAttendance(student.id) : loadProfile())} />
+                  </View>
+                ) : !attendance || attendance.summary.total === 0 ? (
+                  <View style={styles.profileStatus}>
+                    <Text style={styles.profileStatusText}>No attendance has been recorded yet.</Text>
+                  </View>
+                ) : (
+                <>
+                <View style={[styles.gradeGrid, isSmallScreen && { gap: 4 }]}>
+                  {ATTENDANCE_STATUSES.map(option => (
+                    <View key={option.value} style={[styles.gradeBlock, isSmallScreen && { width: '30%', padding: 8 }]}>
+                      <Text style={[styles.gradeLabel, isSmallScreen && { fontSize: 10 }]}>{option.label}</Text>
+                      <Text style={[styles.gradeValue, { color: option.color }, isSmallScreen && { fontSize: 14 }]}>{attendance.summary[option.value]}</Text>
+                    </View>
+                  ))}
+                </View>
+                {attendance.subjects.map(subject => (
+                  <View key={subject.subject_id} style={styles.attendanceRow}>
+                    <Text style={[styles.gradeSubject, isSmallScreen && { fontSize: 14 }]}>{subject.name}</Text>
+                    <Text style={[styles.attendanceRate, subject.rate !== null && subject.rate < 80 && styles.gradeValueFailed]}>{formatRate(subject.rate)}</Text>
+                  </View>
+                ))}
+                <Text style={[styles.classDay, isSmallScreen && { fontSize: 13 }]}>Absences and Late Arrivals</Text>
+                {attendance.records.length === 0 ? (
+                  <Text style={styles.profileStatusText}>You have not missed a class. Keep it up!</Text>
+                ) : attendance.records.map(record => (
+                  <View key={record.id} style={styles.attendanceRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text>{record.subject?.name || 'Unknown subject'}</Text>
+                      <Text style={[styles.classTime, isSmallScreen && { fontSize: 11 }]}>
+                        {formatDate(record.date)}{record.remarks ? ` • ${record.remarks}` : ''}
+                      </Text>
+                    </View>
+                    <Text style={{ color: attendanceStatus(record.status).color, fontWeight: '600' }}>
+                      {attendanceStatus(record.status).label}
+                    </Text>
+                  </View>
+                ))}
+                <View style={styles.generalAverageRow}>
+                  <Text style={[styles.infoLabel, isSmallScreen && { fontSize: 12 }]}>Attendance Rate: </Text>
+                  <Text style={[styles.generalAverageValue, isSmallScreen && { fontSize: 16 }]}>{formatRate(attendance.summary.rate)}</Text>
+                </View>
+                </>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
         </Tabs>
       </ScrollView>
       {/* Edit Profile Modal */}
-      <Dialog visible={isEditProfileOpen} onClose={() => setIsEditProfileOpen(false)}>
+      <Dialog visible={isEditProfileOpen} onClose={handleCloseEditProfile}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Edit Profile</DialogTitle>
-            <TouchableOpacity onPress={() => setIsEditProfileOpen(false)} style={styles.closeButton}>
+            <TouchableOpacity onPress={handleCloseEditProfile} style={styles.closeButton}>
               <X size={20} color="#6B7280" />
             </TouchableOpacity>
           </DialogHeader>
           <View style={styles.editProfileImageBlock}>
             <Image
-              source={{ uri: profileImage || "https://images.pexels.com/photos/2379005/pexels-photo-2379005.jpeg" }}
+              source={{ uri: profileImage || studentInfo.avatar }}
               style={[styles.editProfileImage, isSmallScreen && { width: 72, height: 72, borderRadius: 36 }]}
             />
             <Button title="Change Photo" variant="outline" size={isSmallScreen ? 'sm' : 'md'} onPress={handleChangePhoto} />
+            {renderFieldError('avatar')}
           </View>
-          <View style={styles.editProfileForm}>
+          {profileForm && (
+          <ScrollView style={styles.editProfileForm}>
             <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Full Name</Text>
-            <Input defaultValue={studentInfo.name} />
+            <Text style={styles.readOnlyValue}>{studentInfo.name}</Text>
             <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Email</Text>
-            <Input defaultValue={studentInfo.email} />
-            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Gender</Text>
-            <Input defaultValue={studentInfo.gender} />
-            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Birthplace</Text>
-            <Input defaultValue={studentInfo.birthplace} />
-            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Birthdate</Text>
-            <Input defaultValue={studentInfo.birthdate} />
-            {/* File upload and other web-only features omitted for RN */}
+            <Input value={profileForm.email} onChangeText={(text) => handleProfileChange('email', text)} keyboardType="email-address" autoCapitalize="none" />
+            {renderFieldError('email')}
+            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Phone</Text>
+            <Input value={profileForm.phone} onChangeText={(text) => handleProfileChange('phone', text)} keyboardType="phone-pad" />
+            {renderFieldError('phone')}
+            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Address</Text>
+            <Input value={profileForm.address} onChangeText={(text) => handleProfileChange('address', text)} />
+            {renderFieldError('address')}
+            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Guardian Name</Text>
+            <Input value={profileForm.guardian_name} onChangeText={(text) => handleProfileChange('guardian_name', text)} />
+            {renderFieldError('guardian_name')}
+            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Guardian Contact</Text>
+            <Input value={profileForm.guardian_phone} onChangeText={(text) => handleProfileChange('guardian_phone', text)} keyboardType="phone-pad" />
+            {renderFieldError('guardian_phone')}
+            <Text style={[styles.inputLabel, isSmallScreen && { fontSize: 12 }]}>Relationship</Text>
+            <Input value={profileForm.guardian_relationship} onChangeText={(text) => handleProfileChange('guardian_relationship', text)} />
+            {renderFieldError('guardian_relationship')}
             <View style={[styles.editProfileActions, isSmallScreen && { gap: 8 }]}>
-              <Button title="Cancel" variant="outline" onPress={() => setIsEditProfileOpen(false)} size={isSmallScreen ? 'sm' : 'md'} />
-              <Button title="Save changes" onPress={() => setIsEditProfileOpen(false)} size={isSmallScreen ? 'sm' : 'md'} />
+              <Button title="Cancel" variant="outline" onPress={handleCloseEditProfile} size={isSmallScreen ? 'sm' : 'md'} />
+              <Button title={isSaving ? "Saving..." : "Save changes"} onPress={handleSaveProfile} disabled={isSaving} size={isSmallScreen ? 'sm' : 'md'} />
             </View>
-          </View>
+          </ScrollView>
+          )}
         </DialogContent>
       </Dialog>
     </View>
@@ -322,23 +683,6 @@ const styles = StyleSheet.create({
     padding: 8,
     position: 'relative',
   },
-  notificationBadge: {
-    position: 'absolute',
-    top: -4,
-    right: -4,
-    backgroundColor: '#EF4444',
-    borderRadius: 10,
-    width: 20,
-    height: 20,
-    justifyContent: 'center',
-    alignItems: 'center',
-    zIndex: 1,
-  },
-  notificationBadgeText: {
-    color: '#fff',
-    fontSize: 12,
-    fontWeight: 'bold',
-  },
   scrollContent: {
     padding: 16,
   },
@@ -454,6 +798,13 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginLeft: 4,
   },
+  classDay: {
+    fontWeight: 'bold',
+    fontSize: 15,
+    color: '#2563EB',
+    marginTop: 12,
+    marginBottom: 4,
+  },
   classTeacherLabel: {
     color: '#6B7280',
     fontSize: 13,
@@ -518,6 +869,33 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     color: '#2563EB',
   },
+  gradeValueFailed: {
+    color: '#DC2626',
+  },
+  attendanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  attendanceRate: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  generalAverageRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  generalAverageValue: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#111827',
+  },
   closeButton: {
     position: 'absolute',
     right: 16,
@@ -544,6 +922,30 @@ const styles = StyleSheet.create({
     marginBottom: 2,
     color: '#374151',
   },
+  readOnlyValue: {
+    fontSize: 16,
+    color: '#6B7280',
+    paddingVertical: 10,
+  },
+  fieldError: {
+    color: '#EF4444',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  profileStatus: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    gap: 12,
+  },
+  profileStatusText: {
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  profileErrorText: {
+    fontSize: 14,
+    color: '#EF4444',
+    textAlign: 'center',
+  },
   editProfileActions: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -1,9 +1,567 @@
-import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { env } from './env';
+import {
+  deserializeBody,
+  enqueue,
+  getOfflineStatus,
+  loadQueue,
+  readCache,
+  saveQueue,
+  serializeBody,
+  SyncConflict,
+  updateOfflineStatus,
+  writeCache,
+} from './offline';
 
 // API Configuration
-export const API_BASE_URL = 'http://localhost:8000';
-export const API_URL = `${API_BASE_URL}/api`;
+export const API_URL = env.API_URL;
+export const API_BASE_URL = API_URL.replace(/\/api\/?$/, '');
+
+export interface Pagination {
+  total: number;
+  per_page: number;
+  current_page: number;
+  last_page: number;
+}
+
+export interface Paginated<T> {
+  items: T[];
+  pagination: Pagination;
+}
+
+export interface ListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  [key: string]: string | number | boolean | undefined;
+}
+
+// A grade level, strand, section or teacher as embedded in other records
+export interface NamedRef {
+  id: number;
+  name: string;
+}
+
+// Grade level, strand and section names as plain text, as gradebooks,
+// rosters and report cards send them
+export interface PlacementNames {
+  grade_level: string | null;
+  strand: string | null;
+  section: string | null;
+}
+
+// The login account a student or teacher record signs in with
+export type AccountRef = Pick<User, 'id' | 'name' | 'email'>;
+
+export interface Student {
+  id: number;
+  // Linked by an admin; null until then
+  user_id?: number | null;
+  user?: AccountRef | null;
+  name: string;
+  gender: string;
+  grade_level_id: number | null;
+  grade_level: NamedRef | null;
+  strand_id: number | null;
+  strand: NamedRef | null;
+  section_id: number | null;
+  section: NamedRef | null;
+  subject: string;
+  avatar: string | null;
+  avatar_url?: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  birth_date: string | null;
+  guardian_name: string | null;
+  guardian_phone?: string | null;
+  guardian_relationship: string | null;
+  notes?: string | null;
+  is_active?: boolean;
+}
+
+// One CSV row of a bulk student import; blank cells are sent as empty strings
+export type StudentImportRow = Partial<Record<
+  | 'name' | 'gender' | 'grade_level' | 'strand' | 'section' | 'subject' | 'email' | 'phone'
+  | 'address' | 'birth_date' | 'guardian_name' | 'guardian_phone' | 'guardian_relationship',
+  string
+>>;
+
+// Columns section placement can balance across sections, besides capacity
+export type PlacementCriterion = 'gender' | 'subject';
+
+// Which unsectioned students to place and where. Sections default to every
+// active one of the grade level and strand; balancing defaults to gender.
+export interface PlacementParams {
+  grade_level_id: number;
+  strand_id?: number | null;
+  section_ids?: number[];
+  balance_by?: PlacementCriterion[];
+}
+
+export type PlacedStudent = Pick<Student, 'id' | 'name' | 'gender' | 'subject'>;
+
+export interface SectionPlacement {
+  id: number;
+  name: string;
+  capacity: number | null;
+  // Students in the section before placement, and after it
+  current_count: number;
+  total_count: number;
+  // Students per gender after placement
+  genders: Record<string, number>;
+  // Students placed into the section
+  students: PlacedStudent[];
+}
+
+export interface StudentPlacement {
+  message: string;
+  balance_by: PlacementCriterion[];
+  summary: { students: number; placed: number; unplaced: number };
+  sections: SectionPlacement[];
+  // Students no section had room for
+  unplaced: PlacedStudent[];
+}
+
+// Columns the students list can be filtered by; each facet lists the values in
+// use with how many students match them alongside the other active filters.
+// Grade level, strand and section values are ids, labelled with their names.
+export type StudentFacetField = 'grade_level_id' | 'strand_id' | 'section_id' | 'gender' | 'subject';
+
+export type StudentFacets = Record<StudentFacetField, { value: string; label: string; count: number }[]>;
+
+// Hours of scheduled classes a teacher has per week, against the maximum
+export interface TeachingLoad {
+  weekly_hours: number;
+  max_weekly_hours: number;
+  overloaded: boolean;
+}
+
+// The teachers list adds the subjects each teacher is assigned and their load
+export interface Teacher extends Partial<TeachingLoad> {
+  id: number;
+  // Linked by an admin; null until then
+  user_id?: number | null;
+  user?: AccountRef | null;
+  name: string;
+  email: string;
+  // Optional specialization; the subjects taught come from assignments
+  subject: string | null;
+  gender: string;
+  image: string | null;
+  image_url: string | null;
+  phone?: string;
+  subjects?: Pick<Subject, 'id' | 'name' | 'code'>[];
+  assignments_count?: number;
+}
+
+export interface Subject {
+  id: number;
+  // The term the subject is offered in
+  term_id: number;
+  name: string;
+  code: string;
+  status: 'Available' | 'Unavailable';
+  grade_level_id: number;
+  grade_level: NamedRef | null;
+  // Subjects without a strand are taken by every strand
+  strand_id: number | null;
+  strand: NamedRef | null;
+  students: number;
+  students_count?: number;
+  description: string;
+}
+
+export type EnrolledStudent = Pick<Student, 'id' | 'name' | 'grade_level' | 'strand' | 'section'> & {
+  // When the student was enrolled in the subject
+  pivot?: { created_at: string | null };
+};
+
+// A subject with its grade level and strand names as plain text
+export type SubjectSummary = Pick<Subject, 'id' | 'name' | 'code'> & Omit<PlacementNames, 'section'>;
+
+export interface Strand {
+  id: number;
+  name: string;
+  description: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+export interface GradeLevel {
+  id: number;
+  name: string;
+  description: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Section {
+  id: number;
+  name: string;
+  description: string;
+  is_active: boolean;
+  grade_level_id: number | null;
+  strand_id: number | null;
+  adviser_id: number | null;
+  room: string | null;
+  // Most students the section takes; null for no limit
+  capacity: number | null;
+  // Set by the server from the active term when the section is created
+  term_id: number | null;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  grade_level?: NamedRef | null;
+  strand?: NamedRef | null;
+  adviser?: NamedRef | null;
+  students_count?: number;
+}
+
+export type SectionInput = Pick<
+  Section,
+  'name' | 'description' | 'is_active' | 'grade_level_id' | 'strand_id' | 'adviser_id' | 'room' | 'capacity'
+>;
+
+// A term of a school year. Subjects and sections (and with them enrollments,
+// grades, schedules and attendance) belong to one; archived terms are read-only.
+export interface Term {
+  id: number;
+  // e.g. "2025-2026"
+  school_year: string;
+  // e.g. "First Semester"
+  name: string;
+  // "2025-2026 First Semester"
+  label: string;
+  starts_on: string | null;
+  ends_on: string | null;
+  is_current: boolean;
+  is_archived: boolean;
+  archived_at: string | null;
+  subjects_count?: number;
+  sections_count?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TermInput = Pick<Term, 'school_year' | 'name' | 'starts_on' | 'ends_on'> & {
+  // Only on create
+  is_current?: boolean;
+  copy_subjects_from?: number | null;
+};
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+// ISO weekday: 1 = Monday ... 7 = Sunday
+export type DayOfWeek = 1 | 2 | 3 | 4 | 5 | 6 | 7;
+
+export interface Schedule {
+  id: number;
+  subject_id: number;
+  section_id: number;
+  teacher_id: number | null;
+  room: string | null;
+  day_of_week: DayOfWeek;
+  day: string;
+  // HH:MM, 24-hour
+  start_time: string;
+  end_time: string;
+  subject?: Pick<Subject, 'id' | 'name' | 'code'>;
+  section?: Pick<Section, 'id' | 'name'> | null;
+  teacher?: Pick<Teacher, 'id' | 'name'> | null;
+}
+
+// Final grades of a subject's roster grouped by descriptor band, highest first
+export interface GradeDistribution {
+  bands: { label: string; min: number; count: number }[];
+  graded: number;
+  // Students still missing a quarter grade
+  pending: number;
+  passed: number;
+  average: number | null;
+}
+
+// Its enrolled students come from `enrolled`
+export interface SubjectDetail {
+  subject: Subject;
+  teachers: Pick<Teacher, 'id' | 'name' | 'email' | 'phone' | 'image_url'>[];
+  schedules: Schedule[];
+  grade_distribution: GradeDistribution;
+  settings: { passing_grade: number };
+}
+
+export type ScheduleInput = Pick<
+  Schedule,
+  'subject_id' | 'section_id' | 'teacher_id' | 'room' | 'day_of_week' | 'start_time' | 'end_time'
+>;
+
+// One slice of a dashboard breakdown, e.g. the students of one grade level
+export interface StatCount {
+  label: string;
+  count: number;
+}
+
+export interface DashboardStats {
+  totals: Record<'teachers' | 'students' | 'classes' | 'subjects', number>;
+  students_by_grade_level: StatCount[];
+  students_by_strand: StatCount[];
+  students_by_gender: StatCount[];
+  subjects_by_status: StatCount[];
+}
+
+export type AuditAction = 'created' | 'updated' | 'deleted' | 'restored' | 'purged' | 'enrolled' | 'unenrolled';
+
+export type AuditEntityType = 'student' | 'teacher' | 'subject' | 'strand' | 'grade_level' | 'section' | 'teaching_assignment' | 'term' | 'user';
+
+// One recorded change. Actor and entity names are as they were at the time.
+export interface AuditLog {
+  id: number;
+  user_id: number | null;
+  actor_name: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: number | null;
+  entity_name: string | null;
+  // `{ old, new }` per changed field, or the action's details (e.g. the
+  // students enrolled)
+  changes: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export type NotificationCategory = 'grade' | 'schedule' | 'enrollment' | 'general';
+
+// One of the signed-in user's notifications. `data` holds the ids the
+// notification is about, e.g. `subject_id`.
+export interface AppNotification {
+  id: string;
+  category: NotificationCategory;
+  title: string;
+  message: string;
+  data: Record<string, unknown>;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface StudentSchedule {
+  section: Pick<Section, 'id' | 'name'> | null;
+  schedules: Schedule[];
+}
+
+// A teacher handling a subject in a section, with the hours per week the
+// class is scheduled for
+export interface TeachingAssignment {
+  id: number;
+  teacher_id: number;
+  subject_id: number;
+  section_id: number;
+  teacher: NamedRef | null;
+  subject: Pick<Subject, 'id' | 'name' | 'code'> | null;
+  section: NamedRef | null;
+  weekly_hours: number;
+}
+
+export type TeachingAssignmentInput = Pick<TeachingAssignment, 'teacher_id' | 'subject_id' | 'section_id'>;
+
+// A subject and section pair a teacher is assigned to
+export interface TeacherClass {
+  subject: SubjectSummary;
+  section: Pick<Section, 'id' | 'name'>;
+  schedules: Pick<Schedule, 'id' | 'day_of_week' | 'day' | 'start_time' | 'end_time' | 'room'>[];
+  students_count: number;
+}
+
+export interface ClassRoster {
+  subject: Pick<Subject, 'id' | 'name' | 'code'>;
+  section: Pick<Section, 'id' | 'name'>;
+  students: (Pick<Student, 'id' | 'name' | 'gender' | 'email' | 'phone' | 'avatar_url'> & PlacementNames)[];
+}
+
+export type Quarter = 1 | 2 | 3 | 4;
+
+// Quarterly scores and the final grade computed from them by the server.
+// `final` and `passed` stay null until the final can be computed.
+export interface QuarterGrades {
+  q1: number | null;
+  q2: number | null;
+  q3: number | null;
+  q4: number | null;
+  final: number | null;
+  passed: boolean | null;
+}
+
+export interface GradingSettings {
+  final_method: 'average' | 'weighted';
+  passing_grade: number;
+}
+
+export interface GradebookStudent extends QuarterGrades, PlacementNames {
+  id: number;
+  name: string;
+}
+
+export interface Gradebook {
+  subject: SubjectSummary;
+  students: GradebookStudent[];
+  settings: GradingSettings;
+}
+
+export interface ReportCardSubject extends QuarterGrades {
+  subject_id: number;
+  name: string;
+  code: string;
+}
+
+export interface ReportCard {
+  grades: ReportCardSubject[];
+  general_average: number | null;
+  settings: GradingSettings;
+}
+
+export interface StudentReportCard extends Omit<ReportCard, 'settings'> {
+  student: Pick<Student, 'id' | 'name'> & PlacementNames;
+}
+
+export interface SectionReportCards {
+  section: Pick<Section, 'id' | 'name'>;
+  report_cards: StudentReportCard[];
+  settings: GradingSettings;
+}
+
+export interface GradeEntry {
+  student_id: number;
+  // null clears the student's grade for the quarter
+  score: number | null;
+  remarks?: string | null;
+}
+
+export type AttendanceStatus = 'present' | 'absent' | 'late' | 'excused';
+
+// Marks counted by status. `rate` is the percentage of sessions attended
+// (present or late) leaving excused ones out, null until one is marked.
+export interface AttendanceSummary extends Record<AttendanceStatus, number> {
+  total: number;
+  rate: number | null;
+}
+
+export interface AttendanceSheetStudent extends PlacementNames {
+  id: number;
+  name: string;
+  // null until the student is marked for the session
+  status: AttendanceStatus | null;
+  remarks: string | null;
+}
+
+// One section's session of a subject on one day (date as YYYY-MM-DD)
+export interface AttendanceSheet {
+  session: {
+    subject: SubjectSummary;
+    section: Pick<Section, 'id' | 'name'>;
+    date: string;
+  };
+  students: AttendanceSheetStudent[];
+  summary: AttendanceSummary;
+}
+
+export interface AttendanceEntry {
+  student_id: number;
+  // null clears the student's mark for the day
+  status: AttendanceStatus | null;
+  remarks?: string | null;
+}
+
+export interface AttendanceRecord {
+  id: number;
+  date: string;
+  status: AttendanceStatus;
+  remarks: string | null;
+  subject: Pick<Subject, 'id' | 'name' | 'code'> | null;
+}
+
+export interface StudentAttendance {
+  summary: AttendanceSummary;
+  subjects: (AttendanceSummary & { subject_id: number; name: string; code: string })[];
+  // Sessions missed, late to or excused from, newest first
+  records: AttendanceRecord[];
+}
+
+export interface SectionAttendance {
+  section: Pick<Section, 'id' | 'name'>;
+  students: { id: number; name: string; summary: AttendanceSummary }[];
+}
+
+// Optional date range, as YYYY-MM-DD
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+// Error thrown for any non-successful API response
+export class ApiError extends Error {
+  status: number;
+  errors: Record<string, string[]> | null;
+
+  constructor(message: string, status: number, errors: Record<string, string[]> | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+// Thrown when the server could not be reached at all (no connection or timeout)
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Thrown by create/update/remove when the change was queued to be sent once the
+// server is reachable again, instead of being applied right away
+export class OfflineQueuedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OfflineQueuedError';
+  }
+}
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired. Please log in again.';
+
+type SessionExpiredListener = () => void;
+
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+// Subscribe to expired or revoked tokens; returns the unsubscribe function
+export const onSessionExpired = (listener: SessionExpiredListener) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+// Drop the stored credentials and let the app send the user back to /login
+const expireSession = async () => {
+  await AsyncStorage.multiRemove(['auth-token', 'user']);
+  sessionExpiredListeners.forEach(listener => listener());
+};
+
+// The term the admin screens work in, sent with every request. Without it
+// the servers fall back to the current term.
+let activeTermId: number | null = null;
+
+export const setActiveTermId = (termId: number | null) => {
+  activeTermId = termId;
+};
 
 // Common fetch configuration
 export const fetchWithTimeout = async (url: string, options: RequestInit, timeout = 30000) => {
@@ -13,10 +571,10 @@ export const fetchWithTimeout = async (url: string, options: RequestInit, timeou
   try {
     // Get the auth token from AsyncStorage
     const token = await AsyncStorage.getItem('auth-token');
-    
+
     // Check if the request body is FormData
     const isFormData = options.body instanceof FormData;
-    
+
     const headers: Record<string, string> = {
       'Accept': 'application/json',
     };
@@ -31,23 +589,601 @@ export const fetchWithTimeout = async (url: string, options: RequestInit, timeou
       headers['Authorization'] = `Bearer ${token}`;
     }
 
+    // A request can name its own term, e.g. a queued change replayed into
+    // the term it was made in; an empty value sends none
+    const requestedTerm = (options.headers as Record<string, string> | undefined)?.['X-Term-Id'];
+    const termId = requestedTerm ?? (activeTermId !== null ? String(activeTermId) : '');
+    if (termId) {
+      headers['X-Term-Id'] = termId;
+    }
+
     const response = await fetch(url, {
       ...options,
       signal: controller.signal,
       headers,
     });
     clearTimeout(id);
+    markOnline();
+
+    // The server rejected the token we sent because it expired or was revoked.
+    // Skip the logout when the user has signed in again since the request left.
+    if (response.status === 401 && token && await AsyncStorage.getItem('auth-token') === token) {
+      await expireSession();
+      throw new ApiError(SESSION_EXPIRED_MESSAGE, 401);
+    }
+
     return response;
   } catch (error: unknown) {
     clearTimeout(id);
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
-        throw new Error('Request timed out. Please try again.');
+        markOffline();
+        throw new NetworkError('Request timed out. Please try again.');
       }
-      if (error.message.includes('Failed to fetch')) {
-        throw new Error('Could not connect to the server. Please check if the server is running and accessible.');
+      if (error.message.includes('Failed to fetch') || error.message === 'Network request failed') {
+        markOffline();
+        throw new NetworkError('Could not connect to the server. Please check if the server is running and accessible.');
       }
     }
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+// While offline the health check is polled so queued changes are sent as soon
+// as the server can be reached again
+const PROBE_INTERVAL = 15000;
+const PROBE_TIMEOUT = 5000;
+
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+const markOffline = () => {
+  if (getOfflineStatus().online) {
+    updateOfflineStatus({ online: false });
+  }
+  if (!probeTimer) {
+    probeTimer = setInterval(() => {
+      fetchWithTimeout(`${API_URL}/up`, { method: 'GET' }, PROBE_TIMEOUT).catch(() => undefined);
+    }, PROBE_INTERVAL);
+  }
+};
+
+const markOnline = () => {
+  if (probeTimer) {
+    clearInterval(probeTimer);
+    probeTimer = null;
+  }
+  if (!getOfflineStatus().online) {
+    updateOfflineStatus({ online: true });
+    syncOfflineQueue();
+  }
+};
+
+// Turn any error thrown by the client into a message fit for a toast
+export const getErrorMessage = (error: unknown) => {
+  if (error instanceof ApiError && error.errors) {
+    return Object.entries(error.errors)
+      .map(([field, messages]) => {
+        const fieldName = field.split('_').map(word =>
+          word.charAt(0).toUpperCase() + word.slice(1)
+        ).join(' ');
+        return `${fieldName}: ${messages.join(', ')}`;
+      })
+      .join('\n');
+  }
+  if (error instanceof Error && error.message) {
+    return error.message;
+  }
+  return 'An unexpected error occurred.';
+};
+
+const buildQuery = (params: ListParams = {}) => {
+  const query = Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+  return query ? `?${query}` : '';
+};
+
+const request = async <T = any>(path: string, options: RequestInit = {}): Promise<T> => {
+  const response = await fetchWithTimeout(`${API_URL}${path}`, options);
+  const text = await response.text();
+
+  let data: any = null;
+  if (text) {
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      throw new ApiError('Invalid response from server', response.status);
+    }
+  }
+
+  if (!response.ok || data?.success === false) {
+    throw new ApiError(
+      data?.message || `Server error: ${response.status} ${response.statusText}`,
+      response.status,
+      data?.errors || null
+    );
+  }
+
+  return data as T;
+};
+
+// GET that falls back to the last cached response while the server is unreachable.
+// Responses are cached per term, since the same path lists another term's records.
+const cachedGet = async (path: string) => {
+  const key = activeTermId === null ? path : `${path}#term=${activeTermId}`;
+  try {
+    const data = await request(path, { method: 'GET' });
+    writeCache(key, data);
+    return data;
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+    const cached = await readCache<any>(key);
+    if (!cached) throw error;
+    return cached.data;
+  }
+};
+
+// Sends a change to the server, or queues it when the server is unreachable.
+// Once anything is queued, later changes queue behind it so they replay in order.
+const mutate = async (path: string, options: RequestInit & { method: string }, label: string) => {
+  const { online, pending } = getOfflineStatus();
+  if (online && pending === 0) {
+    try {
+      return await request(path, options);
+    } catch (error) {
+      if (!(error instanceof NetworkError)) throw error;
+    }
+  }
+
+  const body = options.body ? serializeBody(options.body) : null;
+  if (options.body && !body) {
+    throw new NetworkError('Files can only be uploaded while online. Please try again once the connection is back.');
+  }
+
+  await enqueue({ method: options.method, path, body, label, term_id: activeTermId });
+  if (getOfflineStatus().online) {
+    syncOfflineQueue();
+  }
+  throw new OfflineQueuedError(`Saved offline: ${label}. It will be sent when the connection is back.`);
+};
+
+// Replays queued changes oldest first. Changes the server refuses (validation
+// errors, records deleted meanwhile) are dropped from the queue and reported as
+// conflicts; connection and server errors stop the replay until the next try.
+const replayQueue = async () => {
+  const conflicts: SyncConflict[] = [];
+  updateOfflineStatus({ syncing: true });
+
+  try {
+    let queue = await loadQueue();
+    while (queue.length > 0) {
+      const [mutation] = queue;
+      try {
+        // Into the term the change was made in, not the one picked now
+        const headers = mutation.term_id === undefined
+          ? undefined
+          : { 'X-Term-Id': mutation.term_id === null ? '' : String(mutation.term_id) };
+        await request(mutation.path, { method: mutation.method, body: deserializeBody(mutation.body), headers });
+      } catch (error) {
+        if (!(error instanceof ApiError) || error.status === 401 || error.status >= 500) break;
+        conflicts.push({ mutation, message: getErrorMessage(error), status: error.status });
+      }
+      // Re-read so changes queued during the replay are kept
+      queue = (await loadQueue()).filter(item => item.id !== mutation.id);
+      await saveQueue(queue);
+    }
+    updateOfflineStatus({ pending: queue.length });
+  } finally {
+    updateOfflineStatus({
+      syncing: false,
+      conflicts: [...getOfflineStatus().conflicts, ...conflicts],
+    });
+  }
+};
+
+let syncing: Promise<void> | null = null;
+
+export const syncOfflineQueue = () => {
+  if (!syncing) {
+    syncing = replayQueue().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+};
+
+const toBody = (body: object | FormData) => (
+  body instanceof FormData ? body : JSON.stringify(body)
+);
+
+// Builds the standard list/get/create/update/remove methods for a resource.
+// `listKey` and `itemKey` name the envelope keys the server wraps records in.
+const createResource = <T, TInput extends object = Partial<T>>(
+  path: string,
+  listKey: string,
+  itemKey: string
+) => {
+  // Singular record name for queued changes, e.g. "/grade-levels" -> "grade level"
+  const noun = path.slice(1).replace(/s$/, '').replace(/-/g, ' ');
+
+  return {
+    async list(params: ListParams = {}): Promise<Paginated<T>> {
+      const data = await cachedGet(`${path}${buildQuery(params)}`);
+      const items: T[] = data[listKey] || [];
+      return {
+        items,
+        pagination: data.pagination || {
+          total: items.length,
+          per_page: params.limit || items.length,
+          current_page: params.page || 1,
+          last_page: params.page || 1,
+        },
+      };
+    },
+
+    async get(id: number | string): Promise<T> {
+      const data = await cachedGet(`${path}/${id}`);
+      return data[itemKey];
+    },
+
+    async create(body: TInput | FormData): Promise<T> {
+      const data = await mutate(path, { method: 'POST', body: toBody(body) }, `New ${noun}`);
+      return data[itemKey];
+    },
+
+    async update(id: number | string, body: TInput | FormData): Promise<T> {
+      const label = `Changes to ${noun} #${id}`;
+      // Laravel only parses multipart bodies on POST, so spoof the PUT
+      if (body instanceof FormData) {
+        body.append('_method', 'PUT');
+        const data = await mutate(`${path}/${id}`, { method: 'POST', body }, label);
+        return data[itemKey];
+      }
+      const data = await mutate(`${path}/${id}`, { method: 'PUT', body: toBody(body) }, label);
+      return data[itemKey];
+    },
+
+    async remove(id: number | string): Promise<void> {
+      await mutate(`${path}/${id}`, { method: 'DELETE' }, `Deletion of ${noun} #${id}`);
+    },
+  };
+};
+
+// Trash endpoints for resources that soft-delete: remove() moves a record
+// to the trash, from where it can be restored or purged for good
+const createTrash = <T>(path: string) => ({
+  async trash(params: ListParams = {}): Promise<Paginated<T>> {
+    const data = await request(`${path}/trash${buildQuery(params)}`, { method: 'GET' });
+    return { items: data.data || [], pagination: data.pagination };
+  },
+
+  async restore(id: number): Promise<T> {
+    const data = await request(`${path}/${id}/restore`, { method: 'POST' });
+    return data.data;
+  },
+
+  async purge(id: number): Promise<void> {
+    await request(`${path}/${id}/purge`, { method: 'DELETE' });
+  },
+});
+
+export type TrashApi<T> = ReturnType<typeof createTrash<T>>;
+
+export const api = {
+  request,
+
+  auth: {
+    async me(): Promise<{
+      id: number;
+      name: string;
+      email: string;
+      role: string;
+      student_id?: number | null;
+      teacher_id?: number | null;
+    }> {
+      const data = await request('/auth/me', { method: 'GET' });
+      return data.user;
+    },
+
+    // Trade the stored token for a fresh one before it expires
+    async refresh(): Promise<{ token: string; expires_at: string | null }> {
+      const data = await request('/auth/refresh', { method: 'POST' });
+      await AsyncStorage.setItem('auth-token', data.token);
+      return { token: data.token, expires_at: data.expires_at };
+    },
+  },
+
+  students: {
+    ...createResource<Student, Record<string, unknown>>('/students', 'students', 'student'),
+
+    // Lists students with facet counts. Besides `search`, params take a value
+    // per facet field and `sort`, e.g. "grade_level,-name" (- for descending).
+    async browse(params: ListParams = {}): Promise<Paginated<Student> & { facets: StudentFacets | null }> {
+      const data = await cachedGet(`/students${buildQuery({ ...params, facets: 1 })}`);
+      return { items: data.students || [], pagination: data.pagination, facets: data.facets || null };
+    },
+
+    // Validates (dryRun) or creates students from CSV rows, all or nothing.
+    // Row errors come back as a 422 keyed "students.<index>.<field>".
+    async import(rows: StudentImportRow[], dryRun = false): Promise<{ count: number; students: Student[] }> {
+      const data = await request('/students/import', {
+        method: 'POST',
+        body: JSON.stringify({ students: rows, dry_run: dryRun }),
+      });
+      return { count: data.count, students: data.students || [] };
+    },
+
+    // Spreads unsectioned students across sections; with dryRun only
+    // previews where each would go
+    async place(params: PlacementParams, dryRun = false): Promise<StudentPlacement> {
+      const data = await request('/students/placement', {
+        method: 'POST',
+        body: JSON.stringify({ ...params, dry_run: dryRun }),
+      });
+      return {
+        message: data.message,
+        balance_by: data.balance_by || [],
+        summary: data.summary,
+        sections: data.sections || [],
+        unplaced: data.unplaced || [],
+      };
+    },
+
+    // Links the student to the Student account that signs in for it, or
+    // unlinks it with null
+    async linkAccount(id: number, userId: number | null): Promise<Student> {
+      const data = await request(`/students/${id}/account`, {
+        method: 'PUT',
+        body: JSON.stringify({ user_id: userId }),
+      });
+      return data.student;
+    },
+  },
+
+  teachers: {
+    ...createResource<Teacher, Record<string, unknown>>('/teachers', 'teachers', 'teacher'),
+
+    // Links the teacher to the Teacher account that signs in for it, or
+    // unlinks it with null
+    async linkAccount(id: number, userId: number | null): Promise<Teacher> {
+      const data = await request(`/teachers/${id}/account`, {
+        method: 'PUT',
+        body: JSON.stringify({ user_id: userId }),
+      });
+      return data.teacher;
+    },
+  },
+
+  dashboard: {
+    async stats(): Promise<DashboardStats> {
+      const data = await cachedGet('/admin/dashboard');
+      return data.stats;
+    },
+  },
+
+  // The signed-in user's own notifications; the mark methods return the
+  // unread count left
+  notifications: {
+    async list(params: ListParams = {}): Promise<Paginated<AppNotification> & { unreadCount: number }> {
+      const data = await cachedGet(`/notifications${buildQuery(params)}`);
+      return { items: data.notifications || [], pagination: data.pagination, unreadCount: data.unread_count ?? 0 };
+    },
+
+    async unreadCount(): Promise<number> {
+      const data = await request('/notifications/unread-count', { method: 'GET' });
+      return data.unread_count ?? 0;
+    },
+
+    async markRead(id: string): Promise<number> {
+      const data = await request(`/notifications/${id}/read`, { method: 'POST' });
+      return data.unread_count ?? 0;
+    },
+
+    async markAllRead(): Promise<number> {
+      const data = await request('/notifications/read-all', { method: 'POST' });
+      return data.unread_count ?? 0;
+    },
+  },
+
+  auditLogs: {
+    // Newest first; filter by action, entity_type, entity_id, user_id, from and to
+    async list(params: ListParams = {}): Promise<Paginated<AuditLog>> {
+      const data = await cachedGet(`/audit-logs${buildQuery(params)}`);
+      return { items: data.audit_logs || [], pagination: data.pagination };
+    },
+  },
+
+  subjects: {
+    ...createResource<Subject, Record<string, unknown>>('/subjects', 'subjects', 'subject'),
+
+    // The subject with its roster, teachers, class slots and grade distribution
+    async detail(id: number): Promise<SubjectDetail> {
+      const data = await request(`/subjects/${id}`, { method: 'GET' });
+      const { students, ...subject } = data.subject;
+      return {
+        subject,
+        teachers: data.teachers || [],
+        schedules: data.schedules || [],
+        grade_distribution: data.grade_distribution,
+        settings: data.settings,
+      };
+    },
+
+    // Students enrolled in the subject, by name
+    async enrolled(id: number): Promise<EnrolledStudent[]> {
+      const data = await request(`/subjects/${id}`, { method: 'GET' });
+      return data.subject?.students || [];
+    },
+
+    // Both return the subject with its updated `students_count`
+    async enroll(id: number, studentIds: number[]): Promise<Subject> {
+      const data = await request(`/subjects/${id}/enroll`, {
+        method: 'POST',
+        body: JSON.stringify({ student_ids: studentIds }),
+      });
+      return data.subject;
+    },
+
+    async unenroll(id: number, studentIds: number[]): Promise<Subject> {
+      const data = await request(`/subjects/${id}/unenroll`, {
+        method: 'POST',
+        body: JSON.stringify({ student_ids: studentIds }),
+      });
+      return data.subject;
+    },
+  },
+
+  grades: {
+    // `sectionId` narrows the roster to one class
+    async forSubject(subjectId: number, sectionId?: number): Promise<Gradebook> {
+      const data = await request(`/subjects/${subjectId}/grades${buildQuery({ section_id: sectionId })}`, { method: 'GET' });
+      return { subject: data.subject, students: data.students, settings: data.settings };
+    },
+
+    async save(subjectId: number, quarter: Quarter, grades: GradeEntry[], sectionId?: number): Promise<Gradebook> {
+      const data = await request(`/subjects/${subjectId}/grades`, {
+        method: 'POST',
+        body: JSON.stringify({ quarter, grades, section_id: sectionId }),
+      });
+      return { subject: data.subject, students: data.students, settings: data.settings };
+    },
+
+    async forStudent(studentId: number): Promise<ReportCard> {
+      const data = await request(`/students/${studentId}/grades`, { method: 'GET' });
+      return { grades: data.grades, general_average: data.general_average, settings: data.settings };
+    },
+
+    async forSection(sectionId: number): Promise<SectionReportCards> {
+      const data = await request(`/report-cards${buildQuery({ section_id: sectionId })}`, { method: 'GET' });
+      return { section: data.section, report_cards: data.report_cards, settings: data.settings };
+    },
+  },
+
+  attendance: {
+    async sheet(subjectId: number, sectionId: number, date: string): Promise<AttendanceSheet> {
+      const data = await request(`/attendance${buildQuery({ subject_id: subjectId, section_id: sectionId, date })}`, { method: 'GET' });
+      return { session: data.session, students: data.students, summary: data.summary };
+    },
+
+    async save(subjectId: number, sectionId: number, date: string, records: AttendanceEntry[]): Promise<AttendanceSheet> {
+      const data = await request('/attendance', {
+        method: 'POST',
+        body: JSON.stringify({ subject_id: subjectId, section_id: sectionId, date, records }),
+      });
+      return { session: data.session, students: data.students, summary: data.summary };
+    },
+
+    async forStudent(studentId: number, range: DateRange = {}): Promise<StudentAttendance> {
+      const data = await request(`/students/${studentId}/attendance${buildQuery({ ...range })}`, { method: 'GET' });
+      return { summary: data.summary, subjects: data.subjects, records: data.records };
+    },
+
+    // `subjectId` narrows the rates to one subject
+    async forSection(sectionId: number, subjectId?: number, range: DateRange = {}): Promise<SectionAttendance> {
+      const data = await request(
+        `/attendance/summary${buildQuery({ section_id: sectionId, subject_id: subjectId, ...range })}`,
+        { method: 'GET' }
+      );
+      return { section: data.section, students: data.students };
+    },
+  },
+
+  schedules: {
+    ...createResource<Schedule, ScheduleInput>('/schedules', 'schedules', 'schedule'),
+
+    async forStudent(studentId: number): Promise<StudentSchedule> {
+      const data = await request(`/students/${studentId}/schedule`, { method: 'GET' });
+      return { section: data.section, schedules: data.schedules };
+    },
+  },
+
+  // Which teacher handles which subject in which section. Listing by
+  // teacher also returns their weekly load; changes return the new load.
+  teachingAssignments: {
+    async list(params: { teacher_id?: number; subject_id?: number }): Promise<{
+      assignments: TeachingAssignment[];
+      load: TeachingLoad | null;
+    }> {
+      const data = await cachedGet(`/teaching-assignments${buildQuery(params)}`);
+      return { assignments: data.assignments || [], load: data.load ?? null };
+    },
+
+    async create(body: TeachingAssignmentInput): Promise<{ assignment: TeachingAssignment; load: TeachingLoad }> {
+      const data = await request('/teaching-assignments', { method: 'POST', body: JSON.stringify(body) });
+      return { assignment: data.assignment, load: data.load };
+    },
+
+    async remove(id: number): Promise<TeachingLoad> {
+      const data = await request(`/teaching-assignments/${id}`, { method: 'DELETE' });
+      return data.load;
+    },
+  },
+
+  // Endpoints for the signed-in teacher's own classes
+  teacherPortal: {
+    async classes(): Promise<{
+      teacher: Pick<Teacher, 'id' | 'name' | 'email' | 'subject'>;
+      classes: TeacherClass[];
+      load: TeachingLoad | null;
+    }> {
+      const data = await request('/teacher/classes', { method: 'GET' });
+      return { teacher: data.teacher, classes: data.classes, load: data.load ?? null };
+    },
+
+    async roster(subjectId: number, sectionId: number): Promise<ClassRoster> {
+      const data = await request(`/teacher/classes/${subjectId}/${sectionId}/students`, { method: 'GET' });
+      return { subject: data.subject, section: data.section, students: data.students };
+    },
+  },
+
+  // School years and their terms. Only one term is current; archiving a past
+  // term makes its records read-only for good.
+  terms: {
+    async list(): Promise<{ terms: Term[]; currentTermId: number | null }> {
+      const data = await cachedGet('/terms');
+      return { terms: data.terms || [], currentTermId: data.current_term_id ?? null };
+    },
+
+    async create(body: TermInput): Promise<Term> {
+      const data = await request('/terms', { method: 'POST', body: JSON.stringify(body) });
+      return data.term;
+    },
+
+    async update(id: number, body: Omit<TermInput, 'is_current' | 'copy_subjects_from'>): Promise<Term> {
+      const data = await request(`/terms/${id}`, { method: 'PUT', body: JSON.stringify(body) });
+      return data.term;
+    },
+
+    async remove(id: number): Promise<void> {
+      await request(`/terms/${id}`, { method: 'DELETE' });
+    },
+
+    async makeCurrent(id: number): Promise<Term> {
+      const data = await request(`/terms/${id}/current`, { method: 'POST' });
+      return data.term;
+    },
+
+    async archive(id: number): Promise<Term> {
+      const data = await request(`/terms/${id}/archive`, { method: 'POST' });
+      return data.term;
+    },
+  },
+
+  strands: {
+    ...createResource<Strand, Pick<Strand, 'name' | 'description'>>('/strands', 'data', 'data'),
+    ...createTrash<Strand>('/strands'),
+  },
+
+  gradeLevels: createResource<GradeLevel, Pick<GradeLevel, 'name' | 'description' | 'is_active'>>('/grade-levels', 'data', 'data'),
+
+  sections: {
+    ...createResource<Section, SectionInput>('/sections', 'data', 'data'),
+    ...createTrash<Section>('/sections'),
+  },
+
+  users: {
+    ...createResource<User, { name: string; email: string; password?: string; role: string }>('/users', 'data', 'data'),
+    ...createTrash<User>('/users'),
+  },
+};
@@ -12,7 +12,7 @@ const pool = new Pool({
 });
 
 // Test database connection
-pool.connect((err: Error | null, client: PoolClient, release: () => void) => {
+pool.connect((err: Error | undefined, client: PoolClient | undefined, release: () => void) => {
   if (err) {
     console.error('Error connecting to the database:', err.stack);
   } else {
@@ -16,8 +16,13 @@ const ENV = {
 
 // Get the current environment
 const getEnvVars = () => {
+  // An explicit URL from the Expo build environment wins over everything else
+  if (process.env.EXPO_PUBLIC_API_URL) {
+    return { ...ENV.dev, API_URL: process.env.EXPO_PUBLIC_API_URL };
+  }
+
   // Try to get environment from localStorage first (for web)
-  if (typeof window !== 'undefined') {
+  if (typeof localStorage !== 'undefined') {
     const storedEnv = localStorage.getItem('APP_ENV');
     if (storedEnv && ENV[storedEnv as keyof typeof ENV]) {
       return ENV[storedEnv as keyof typeof ENV];
@@ -34,7 +39,7 @@ export const env = getEnvVars();
 
 // Export a function to change environment (useful for development)
 export const setEnvironment = (envName: keyof typeof ENV) => {
-  if (typeof window !== 'undefined') {
+  if (typeof localStorage !== 'undefined') {
     localStorage.setItem('APP_ENV', envName);
   }
   return ENV[envName];
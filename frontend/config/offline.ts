@@ -0,0 +1,166 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Offline support for the API client: a persisted cache of the last response
+// for each GET, and a queue of mutations made while the server was unreachable.
+// The API client in ./api decides when to read and write them.
+
+const CACHE_PREFIX = 'offline-cache:';
+const QUEUE_KEY = 'offline-queue';
+
+// A file part is kept as the React Native `{ uri, name, type }` descriptor
+type FormPart = [string, string | { uri: string; name?: string; type?: string }];
+
+export type QueuedBody = { json: string } | { form: FormPart[] };
+
+export interface QueuedMutation {
+  id: string;
+  method: string;
+  path: string;
+  body: QueuedBody | null;
+  // Human readable summary, e.g. "Update student #12"
+  label: string;
+  // The term the change was made in (null for the current term), so it is
+  // replayed into that term even if another one is picked meanwhile.
+  // Missing on changes queued before records were term-scoped.
+  term_id?: number | null;
+  queued_at: string;
+}
+
+// A queued mutation the server refused when it was replayed
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  message: string;
+  status: number;
+}
+
+export interface OfflineStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: SyncConflict[];
+}
+
+export interface CacheEntry<T> {
+  data: T;
+  cached_at: string;
+}
+
+type StatusListener = (status: OfflineStatus) => void;
+
+let status: OfflineStatus = { online: true, syncing: false, pending: 0, conflicts: [] };
+const listeners = new Set<StatusListener>();
+
+export const getOfflineStatus = () => status;
+
+export const updateOfflineStatus = (changes: Partial<OfflineStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener(status));
+};
+
+// Subscribe to connectivity, queue and conflict changes; returns the unsubscribe function
+export const subscribeOfflineStatus = (listener: StatusListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const dismissConflict = (id: string) => {
+  updateOfflineStatus({ conflicts: status.conflicts.filter(conflict => conflict.mutation.id !== id) });
+};
+
+export const readCache = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_PREFIX + key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    console.error('Error reading offline cache:', error);
+    return null;
+  }
+};
+
+export const writeCache = async <T>(key: string, data: T) => {
+  try {
+    const entry: CacheEntry<T> = { data, cached_at: new Date().toISOString() };
+    await AsyncStorage.setItem(CACHE_PREFIX + key, JSON.stringify(entry));
+  } catch (error) {
+    console.error('Error writing offline cache:', error);
+  }
+};
+
+export const loadQueue = async (): Promise<QueuedMutation[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(QUEUE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error reading offline queue:', error);
+    return [];
+  }
+};
+
+export const saveQueue = async (queue: QueuedMutation[]) => {
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  updateOfflineStatus({ pending: queue.length });
+};
+
+export const enqueue = async (mutation: Omit<QueuedMutation, 'id' | 'queued_at'>) => {
+  const queue = await loadQueue();
+  queue.push({
+    ...mutation,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    queued_at: new Date().toISOString(),
+  });
+  await saveQueue(queue);
+};
+
+// Forget everything cached or queued for the signed-in user, e.g. on logout
+export const clearOfflineData = async () => {
+  const keys = await AsyncStorage.getAllKeys();
+  await AsyncStorage.multiRemove([QUEUE_KEY, ...keys.filter(key => key.startsWith(CACHE_PREFIX))]);
+  updateOfflineStatus({ pending: 0, conflicts: [] });
+};
+
+// Turn a request body into something that survives JSON.stringify. Returns
+// null for bodies that cannot be stored, e.g. a FormData holding a Blob.
+export const serializeBody = (body: BodyInit): QueuedBody | null => {
+  if (typeof body === 'string') return { json: body };
+  if (!(body instanceof FormData)) return null;
+
+  // React Native's FormData only exposes its parts through getParts()
+  const native = body as unknown as {
+    getParts?: () => { fieldName: string; string?: string; uri?: string; name?: string; type?: string }[];
+  };
+  const parts: FormPart[] = [];
+  let storable = true;
+
+  if (typeof native.getParts === 'function') {
+    native.getParts().forEach(part => {
+      if (part.string !== undefined) {
+        parts.push([part.fieldName, part.string]);
+      } else if (part.uri) {
+        parts.push([part.fieldName, { uri: part.uri, name: part.name, type: part.type }]);
+      } else {
+        storable = false;
+      }
+    });
+  } else {
+    body.forEach((value, key) => {
+      if (typeof value === 'string') {
+        parts.push([key, value]);
+      } else {
+        storable = false;
+      }
+    });
+  }
+
+  return storable ? { form: parts } : null;
+};
+
+export const deserializeBody = (body: QueuedBody | null): BodyInit | undefined => {
+  if (!body) return undefined;
+  if ('json' in body) return body.json;
+
+  const form = new FormData();
+  body.form.forEach(([key, value]) => form.append(key, value as any));
+  return form;
+};
@@ -0,0 +1,15 @@
+import { AttendanceStatus } from '../config/api';
+
+export const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; color: string }[] = [
+  { value: 'present', label: 'Present', color: '#4CAF50' },
+  { value: 'absent', label: 'Absent', color: '#F44336' },
+  { value: 'late', label: 'Late', color: '#FF9800' },
+  { value: 'excused', label: 'Excused', color: '#1a73e8' },
+];
+
+export const attendanceStatus = (status: AttendanceStatus) => (
+  ATTENDANCE_STATUSES.find(option => option.value === status) ?? ATTENDANCE_STATUSES[0]
+);
+
+// 92.5 -> "92.5%", null -> "—"
+export const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`);
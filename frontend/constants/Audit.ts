@@ -0,0 +1,66 @@
+import { MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { AuditAction, AuditEntityType, AuditLog } from '../config/api';
+
+type IconName = React.ComponentProps<typeof MaterialIcons>['name'];
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string; icon: IconName; color: string }[] = [
+  { value: 'created', label: 'Created', icon: 'add-circle-outline', color: '#4CAF50' },
+  { value: 'updated', label: 'Updated', icon: 'edit', color: '#1a73e8' },
+  { value: 'deleted', label: 'Deleted', icon: 'delete-outline', color: '#F44336' },
+  { value: 'restored', label: 'Restored', icon: 'restore', color: '#009688' },
+  { value: 'purged', label: 'Purged', icon: 'delete-forever', color: '#B71C1C' },
+  { value: 'enrolled', label: 'Enrolled', icon: 'group-add', color: '#9C27B0' },
+  { value: 'unenrolled', label: 'Unenrolled', icon: 'group-remove', color: '#FF9800' },
+];
+
+export const AUDIT_ENTITY_TYPES: { value: AuditEntityType; label: string }[] = [
+  { value: 'student', label: 'Student' },
+  { value: 'teacher', label: 'Teacher' },
+  { value: 'subject', label: 'Subject' },
+  { value: 'strand', label: 'Strand' },
+  { value: 'grade_level', label: 'Grade Level' },
+  { value: 'section', label: 'Section' },
+  { value: 'teaching_assignment', label: 'Teaching Assignment' },
+  { value: 'term', label: 'Term' },
+  { value: 'user', label: 'User' },
+];
+
+export const auditAction = (action: AuditAction) => (
+  AUDIT_ACTIONS.find(option => option.value === action) ?? AUDIT_ACTIONS[1]
+);
+
+// e.g. "Maria Santos updated grade level Grade 11"
+export const describeAuditLog = (log: AuditLog) => {
+  const actor = log.actor_name || 'Someone';
+  const entity = (AUDIT_ENTITY_TYPES.find(type => type.value === log.entity_type)?.label ?? log.entity_type).toLowerCase();
+  const name = log.entity_name || (log.entity_id ? `#${log.entity_id}` : '');
+
+  if (log.action === 'enrolled' || log.action === 'unenrolled') {
+    const count = Array.isArray(log.changes?.student_ids) ? log.changes.student_ids.length : 0;
+    const students = `${count} student${count === 1 ? '' : 's'}`;
+    return log.action === 'enrolled'
+      ? `${actor} enrolled ${students} in ${name}`
+      : `${actor} unenrolled ${students} from ${name}`;
+  }
+
+  return `${actor} ${log.action} ${entity} ${name}`.trim();
+};
+
+// One line per changed field, e.g. "name: Grade 11 → Grade 11 (STEM)"
+export const describeAuditChanges = (log: AuditLog): string[] => {
+  if (!log.changes) return [];
+  if (Array.isArray(log.changes.students)) {
+    return [`Students: ${log.changes.students.join(', ')}`];
+  }
+
+  const show = (value: unknown) => (
+    value === null || value === undefined || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  );
+  return Object.entries(log.changes).map(([field, change]) => {
+    const { old: oldValue, new: newValue } = (change ?? {}) as { old?: unknown; new?: unknown };
+    return log.action === 'created'
+      ? `${field}: ${show(newValue)}`
+      : `${field}: ${show(oldValue)} → ${show(newValue)}`;
+  });
+};
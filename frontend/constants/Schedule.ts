@@ -0,0 +1,25 @@
+import { DayOfWeek, TeachingLoad } from '../config/api';
+
+export const WEEKDAYS: { value: DayOfWeek; label: string }[] = [
+  { value: 1, label: 'Monday' },
+  { value: 2, label: 'Tuesday' },
+  { value: 3, label: 'Wednesday' },
+  { value: 4, label: 'Thursday' },
+  { value: 5, label: 'Friday' },
+  { value: 6, label: 'Saturday' },
+  { value: 7, label: 'Sunday' },
+];
+
+// "13:05" -> "1:05 PM"
+export const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+export const formatTimeRange = (start: string, end: string) => `${formatTime(start)} - ${formatTime(end)}`;
+
+// Weekly teaching load, e.g. "24.5 / 30 hrs per week"
+export const formatLoad = ({ weekly_hours, max_weekly_hours }: Pick<TeachingLoad, 'weekly_hours' | 'max_weekly_hours'>) => (
+  `${weekly_hours} / ${max_weekly_hours} hrs per week`
+);
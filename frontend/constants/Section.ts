@@ -0,0 +1,12 @@
+import { Section } from '../config/api';
+
+type Enrollment = Pick<Section, 'students_count' | 'capacity'>;
+
+// "12 / 40 students", or just "12 students" when the section has no capacity
+export const formatEnrollment = ({ students_count, capacity }: Enrollment) => (
+  capacity ? `${students_count ?? 0} / ${capacity} students` : `${students_count ?? 0} students`
+);
+
+export const isOverCapacity = ({ students_count, capacity }: Enrollment) => (
+  capacity !== null && (students_count ?? 0) > capacity
+);
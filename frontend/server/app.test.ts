@@ -0,0 +1,284 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { AuditEntry } from '../services/auditLogs';
+import { AuthUser } from '../services/auth';
+import { GradeLevel, GradeLevelInput } from '../services/gradeLevels';
+import { createMemoryService } from '../services/memory';
+import { Section, SectionInput } from '../services/sections';
+import { Strand, StrandInput } from '../services/strands';
+import { User, UserInput } from '../services/users';
+import { createApp } from './app';
+
+// Exercises the REST routes end to end over HTTP, served from the in-memory
+// stand-ins so no database is needed
+
+const TOKENS: Record<string, AuthUser> = {
+  admin: { id: 1, name: 'Admin', email: 'admin@example.com', role: 'Admin' },
+  teacher: { id: 2, name: 'Teacher', email: 'teacher@example.com', role: 'Teacher' },
+};
+
+let baseUrl = '';
+let server: ReturnType<typeof createApp>;
+let audits: AuditEntry[] = [];
+
+const createServices = () => {
+  const sections = createMemoryService<Section, SectionInput>({
+    searchFields: ['name'],
+    defaults: { is_active: true, description: '', strand_id: null, term_id: null },
+  });
+
+  return {
+    sections,
+    strands: createMemoryService<Strand, StrandInput>({
+      searchFields: ['name'],
+      defaults: { description: '' },
+      references: { sections: async id => (await sections.count('', { strand_id: id })) > 0 },
+    }),
+    gradeLevels: createMemoryService<GradeLevel, GradeLevelInput>({
+      searchFields: ['name'],
+      defaults: { is_active: true, description: '' },
+    }),
+    users: createMemoryService<User, UserInput>({ searchFields: ['name', 'email'], hiddenFields: ['password'] }),
+  };
+};
+
+const api = async (
+  method: string,
+  path: string,
+  { body, token = 'admin', headers = {} }: { body?: unknown; token?: string | null; headers?: Record<string, string> } = {}
+) => {
+  const response = await fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, body: text ? JSON.parse(text) : null };
+};
+
+const startServer = async () => {
+  audits = [];
+  server = createApp({
+    services: createServices(),
+    authenticate: async token => TOKENS[token],
+    audit: async entry => {
+      audits.push(entry);
+    },
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const stopServer = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+describe('REST server', () => {
+  before(startServer);
+  after(stopServer);
+
+  // A fresh, empty server for every test
+  beforeEach(async () => {
+    await stopServer();
+    await startServer();
+  });
+
+  describe('CRUD', () => {
+    it('creates, lists, reads, updates and deletes a record', async () => {
+      const created = await api('POST', '/strands', { body: { name: '  STEM ', description: 'Science' } });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.message, 'Strand created successfully');
+      assert.equal(created.body.data.name, 'STEM');
+      const id = created.body.data.id;
+
+      await api('POST', '/strands', { body: { name: 'ABM' } });
+
+      const list = await api('GET', '/strands?limit=1');
+      assert.equal(list.status, 200);
+      assert.equal(list.body.data.length, 1);
+      assert.deepEqual(list.body.pagination, { total: 2, per_page: 1, current_page: 1, last_page: 2 });
+
+      const search = await api('GET', '/strands?search=stem');
+      assert.deepEqual(search.body.data.map((strand: Strand) => strand.name), ['STEM']);
+
+      const read = await api('GET', `/strands/${id}`);
+      assert.equal(read.status, 200);
+      assert.equal(read.body.data.description, 'Science');
+
+      const updated = await api('PUT', `/strands/${id}`, { body: { name: 'STEM Plus' } });
+      assert.equal(updated.status, 200);
+      assert.equal(updated.body.data.name, 'STEM Plus');
+      assert.equal(updated.body.data.description, 'Science');
+
+      const deleted = await api('DELETE', `/strands/${id}`);
+      assert.equal(deleted.status, 200);
+      assert.equal(deleted.body.message, 'Strand moved to trash');
+
+      const gone = await api('GET', `/strands/${id}`);
+      assert.equal(gone.status, 404);
+      assert.equal(gone.body.message, 'Strand not found');
+    });
+
+    it('audits each change with the fields it touched', async () => {
+      const created = await api('POST', '/strands', { body: { name: 'STEM' } });
+      await api('PUT', `/strands/${created.body.data.id}`, { body: { name: 'STEM', description: 'Science' } });
+
+      assert.deepEqual(audits.map(entry => entry.action), ['created', 'updated']);
+      assert.equal(audits[0].entity_type, 'strand');
+      assert.equal(audits[0].actor_name, 'Admin');
+      assert.deepEqual(audits[1].changes, { description: { old: '', new: 'Science' } });
+    });
+
+    it('keeps passwords out of responses and the audit log', async () => {
+      const created = await api('POST', '/users', {
+        body: { name: 'Ana', email: 'ana@example.com', password: 'secret1', role: 'Student' },
+      });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.data.password, undefined);
+      assert.deepEqual(audits[0].changes?.password, { old: '[hidden]', new: '[hidden]' });
+    });
+
+    it('answers 404 for unknown records and routes, and 405 for unsupported methods', async () => {
+      assert.equal((await api('GET', '/strands/99')).status, 404);
+      assert.equal((await api('GET', '/strands/abc')).status, 404);
+      assert.equal((await api('GET', '/unknown')).status, 404);
+      assert.equal((await api('PUT', '/strands')).status, 405);
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects a create without the required fields', async () => {
+      const response = await api('POST', '/strands', { body: { description: 'No name' } });
+      assert.equal(response.status, 422);
+      assert.equal(response.body.message, 'Validation failed');
+      assert.ok(response.body.errors.name);
+    });
+
+    it('applies create-only rules on create but not on update', async () => {
+      const missingPassword = await api('POST', '/users', {
+        body: { name: 'Ana', email: 'ana@example.com', role: 'Student' },
+      });
+      assert.equal(missingPassword.status, 422);
+      assert.ok(missingPassword.body.errors.password);
+
+      const created = await api('POST', '/users', {
+        body: { name: 'Ana', email: 'ana@example.com', password: 'secret1', role: 'Student' },
+      });
+      const updated = await api('PUT', `/users/${created.body.data.id}`, {
+        body: { name: 'Ana Cruz', email: 'ana@example.com', role: 'Student' },
+      });
+      assert.equal(updated.status, 200);
+    });
+
+    it('rejects values of the wrong type or outside the allowed set', async () => {
+      const response = await api('POST', '/users', {
+        body: { name: 'Ana', email: 'not-an-email', password: 'secret1', role: 'Janitor' },
+      });
+      assert.equal(response.status, 422);
+      assert.ok(response.body.errors.email);
+      assert.ok(response.body.errors.role);
+    });
+
+    it('rejects a body that is not JSON', async () => {
+      const response = await fetch(`${baseUrl}/api/strands`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer admin', 'Content-Type': 'application/json' },
+        body: '{name',
+      });
+      assert.equal(response.status, 400);
+    });
+  });
+
+  describe('authentication', () => {
+    it('answers 401 without a token or with an unknown one', async () => {
+      const missing = await api('GET', '/strands', { token: null });
+      assert.equal(missing.status, 401);
+      assert.equal(missing.body.message, 'Unauthenticated.');
+
+      assert.equal((await api('GET', '/strands', { token: 'forged' })).status, 401);
+    });
+
+    it('answers 403 for signed-in users who are not admins', async () => {
+      const response = await api('POST', '/strands', { token: 'teacher', body: { name: 'STEM' } });
+      assert.equal(response.status, 403);
+      assert.equal(response.body.message, 'Unauthorized. Insufficient permissions.');
+      assert.equal((await api('GET', '/strands')).body.data.length, 0);
+    });
+
+    it('lets CORS preflight requests through without a token', async () => {
+      const response = await fetch(`${baseUrl}/api/sections`, { method: 'OPTIONS' });
+      assert.equal(response.status, 204);
+      assert.match(response.headers.get('access-control-allow-headers') || '', /X-Term-Id/);
+    });
+  });
+
+  describe('trash', () => {
+    it('lists, restores and purges deleted records', async () => {
+      const first = (await api('POST', '/strands', { body: { name: 'STEM' } })).body.data;
+      const second = (await api('POST', '/strands', { body: { name: 'ABM' } })).body.data;
+      await api('DELETE', `/strands/${first.id}`);
+      await api('DELETE', `/strands/${second.id}`);
+
+      const trash = await api('GET', '/strands/trash');
+      assert.equal(trash.status, 200);
+      assert.deepEqual(trash.body.data.map((strand: Strand) => strand.name).sort(), ['ABM', 'STEM']);
+      assert.equal((await api('GET', '/strands')).body.pagination.total, 0);
+
+      const restored = await api('POST', `/strands/${first.id}/restore`);
+      assert.equal(restored.status, 200);
+      assert.equal(restored.body.message, 'Strand restored successfully');
+      assert.equal((await api('GET', `/strands/${first.id}`)).status, 200);
+
+      const purged = await api('DELETE', `/strands/${second.id}/purge`);
+      assert.equal(purged.status, 200);
+      assert.equal(purged.body.message, 'Strand permanently deleted');
+      assert.equal((await api('GET', '/strands/trash')).body.data.length, 0);
+
+      assert.deepEqual(audits.map(entry => entry.action), ['created', 'created', 'deleted', 'deleted', 'restored', 'purged']);
+    });
+
+    it('only restores or purges records that are in the trash', async () => {
+      const strand = (await api('POST', '/strands', { body: { name: 'STEM' } })).body.data;
+
+      const restore = await api('POST', `/strands/${strand.id}/restore`);
+      assert.equal(restore.status, 404);
+      assert.equal(restore.body.message, 'Strand not found in trash');
+      assert.equal((await api('DELETE', `/strands/${strand.id}/purge`)).status, 404);
+      assert.equal((await api('GET', `/strands/${strand.id}`)).status, 200);
+    });
+
+    it('refuses to purge a record that is still in use', async () => {
+      const strand = (await api('POST', '/strands', { body: { name: 'STEM' } })).body.data;
+      const section = (await api('POST', '/sections', { body: { name: 'Rizal', strand_id: strand.id } })).body.data;
+      await api('DELETE', `/strands/${strand.id}`);
+
+      const refused = await api('DELETE', `/strands/${strand.id}/purge`);
+      assert.equal(refused.status, 422);
+      assert.equal(refused.body.message, 'Strand is still in use by sections and cannot be permanently deleted.');
+      assert.equal((await api('GET', '/strands/trash')).body.data.length, 1);
+
+      // Sections in the trash no longer count
+      await api('DELETE', `/sections/${section.id}`);
+      assert.equal((await api('DELETE', `/strands/${strand.id}/purge`)).status, 200);
+    });
+
+    it('has no trash routes for resources that delete for good', async () => {
+      assert.equal((await api('GET', '/grade-levels/trash')).status, 404);
+    });
+  });
+
+  describe('terms', () => {
+    it('lists and creates sections in the term named by the X-Term-Id header', async () => {
+      await api('POST', '/sections', { body: { name: 'Rizal' }, headers: { 'X-Term-Id': '1' } });
+      await api('POST', '/sections', { body: { name: 'Bonifacio' }, headers: { 'X-Term-Id': '2' } });
+
+      const firstTerm = await api('GET', '/sections', { headers: { 'X-Term-Id': '1' } });
+      assert.deepEqual(firstTerm.body.data.map((section: Section) => section.name), ['Rizal']);
+      assert.equal(firstTerm.body.data[0].term_id, 1);
+      assert.equal(firstTerm.body.pagination.total, 1);
+    });
+  });
+});
@@ -0,0 +1,422 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import https from 'https';
+import { AuditChanges, AuditEntry } from '../services/auditLogs';
+import { AuthUser } from '../services/auth';
+import { CrudService, Filters, InUseError, ReadOnlyError, TrashableService } from '../services/types';
+import { createResources, Resource, Services } from './resources';
+import { validate, ValidationErrors } from './validation';
+
+export interface AppOptions {
+  services: Services;
+  // Resolves a bearer token to a user. When omitted every request is let through.
+  authenticate?: (token: string) => Promise<AuthUser | undefined>;
+  // Base URL (e.g. http://127.0.0.1:8000) that any other /api route is forwarded to,
+  // so the app can keep a single API_URL for both servers
+  upstream?: string;
+  // Records every change made through the resource routes. When omitted nothing is logged.
+  audit?: (entry: AuditEntry) => Promise<void>;
+}
+
+// Logs a change to one record of the resource being served
+type Audit = (action: AuditEntry['action'], record: Record<string, any>, changes?: AuditChanges | null) => Promise<void>;
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 100;
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class HttpError extends Error {
+  status: number;
+  errors: ValidationErrors | null;
+
+  constructor(status: number, message: string, errors: ValidationErrors | null = null) {
+    super(message);
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept, X-Term-Id',
+};
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage) => new Promise<Record<string, unknown>>((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (!text) {
+      resolve({});
+      return;
+    }
+    try {
+      const body = JSON.parse(text);
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new Error('Body must be a JSON object');
+      }
+      resolve(body);
+    } catch (e) {
+      reject(new HttpError(400, 'Request body must be valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const pick = (body: Record<string, unknown>, fields: string[]) => {
+  const input: Record<string, unknown> = {};
+  fields.forEach(field => {
+    if (field in body) {
+      input[field] = typeof body[field] === 'string' ? (body[field] as string).trim() : body[field];
+    }
+  });
+  return input;
+};
+
+const checkInput = (resource: Resource, body: Record<string, unknown>, isUpdate: boolean) => {
+  const errors = validate(body, resource.rules, isUpdate);
+  if (!isUpdate && resource.createRules) {
+    Object.entries(validate(body, resource.createRules)).forEach(([field, messages]) => {
+      errors[field] = [...messages, ...(errors[field] || [])];
+    });
+  }
+  if (Object.keys(errors).length > 0) {
+    throw new HttpError(422, 'Validation failed', errors);
+  }
+};
+
+// Old and new value of each input field the change actually touched.
+// Fields in `auditHidden` (e.g. passwords) are noted without their values.
+const diffFields = (
+  resource: Resource,
+  input: Record<string, unknown>,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown>
+): AuditChanges | null => {
+  const changes: AuditChanges = {};
+  Object.keys(input).forEach(field => {
+    if (resource.auditHidden?.includes(field)) {
+      changes[field] = { old: '[hidden]', new: '[hidden]' };
+      return;
+    }
+    const oldValue = before?.[field] ?? null;
+    const newValue = after[field] ?? null;
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = { old: oldValue, new: newValue };
+    }
+  });
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+const parsePositiveInt = (value: string | null, fallback: number) => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isNaN(parsed) || parsed < 1 ? fallback : parsed;
+};
+
+// Postgres unique_violation, e.g. a duplicate user email
+const isUniqueViolation = (error: unknown): error is { constraint?: string; detail?: string } => (
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505'
+);
+
+// Postgres foreign_key_violation, e.g. a section pointed at a missing strand
+const isForeignKeyViolation = (error: unknown): error is { constraint?: string; detail?: string } => (
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23503'
+);
+
+// Narrows a term-scoped resource to the term the X-Term-Id header names.
+// Without the header the service falls back to the current term.
+const scopeOf = (resource: Resource, req: IncomingMessage): Filters => {
+  const termId = parsePositiveInt(String(req.headers['x-term-id'] ?? ''), 0);
+  return resource.termScoped && termId > 0 ? { term_id: termId } : {};
+};
+
+const isTrashable = (service: CrudService<any, any>): service is TrashableService<any, any> => (
+  'restore' in service && 'purge' in service
+);
+
+const sendPage = async (
+  res: ServerResponse,
+  url: URL,
+  fetchPage: (page: number, limit: number, search: string, filters: Filters) => Promise<unknown[]>,
+  count: (search: string, filters: Filters) => Promise<number>,
+  filters: Filters
+) => {
+  const page = parsePositiveInt(url.searchParams.get('page'), 1);
+  const limit = Math.min(parsePositiveInt(url.searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
+  const search = url.searchParams.get('search') || '';
+  const [data, total] = await Promise.all([fetchPage(page, limit, search, filters), count(search, filters)]);
+
+  send(res, 200, {
+    success: true,
+    data,
+    pagination: {
+      total,
+      per_page: limit,
+      current_page: page,
+      last_page: Math.max(1, Math.ceil(total / limit)),
+    },
+  });
+};
+
+// Trash routes: GET /trash, POST /{id}/restore and DELETE /{id}/purge
+const handleTrash = async (
+  resource: Resource,
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  id: number | null,
+  action: string,
+  filters: Filters,
+  audit: Audit | null
+) => {
+  const { service, label } = resource;
+  if (!resource.trashable || !isTrashable(service)) throw new HttpError(404, 'Not found');
+
+  if (id === null && action === 'trash' && req.method === 'GET') {
+    await sendPage(res, url, service.getTrashed, service.countTrashed, filters);
+    return;
+  }
+
+  if (id !== null && action === 'restore' && req.method === 'POST') {
+    const data = await service.restore(id);
+    if (!data) throw new HttpError(404, `${label} not found in trash`);
+    await audit?.('restored', data);
+    send(res, 200, { success: true, message: `${label} restored successfully`, data });
+    return;
+  }
+
+  if (id !== null && action === 'purge' && req.method === 'DELETE') {
+    // Rows that still point at this one (e.g. sections in a strand) keep it
+    // from being deleted for good
+    const data = await service.purge(id).catch((error: unknown) => {
+      if (error instanceof InUseError) {
+        throw new HttpError(422, `${label} is still in use by ${error.usedBy} and cannot be permanently deleted.`);
+      }
+      throw error;
+    });
+    if (!data) throw new HttpError(404, `${label} not found in trash`);
+    await audit?.('purged', data);
+    send(res, 200, { success: true, message: `${label} permanently deleted` });
+    return;
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const handleResource = async (
+  resource: Resource,
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+  id: number | null,
+  filters: Filters,
+  audit: Audit | null
+) => {
+  const { service, label } = resource;
+
+  if (id === null) {
+    if (req.method === 'GET') {
+      await sendPage(res, url, service.getAll, service.count, filters);
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const body = await readBody(req);
+      checkInput(resource, body, false);
+      const input = pick(body, resource.fields);
+      const data = await service.create({ ...input, ...filters });
+      await audit?.('created', data, diffFields(resource, input, undefined, data));
+      send(res, 201, { success: true, message: `${label} created successfully`, data });
+      return;
+    }
+
+    throw new HttpError(405, 'Method not allowed.');
+  }
+
+  if (req.method === 'GET') {
+    const data = await service.getById(id);
+    if (!data) throw new HttpError(404, `${label} not found`);
+    send(res, 200, { success: true, data });
+    return;
+  }
+
+  if (req.method === 'PUT' || req.method === 'PATCH') {
+    const body = await readBody(req);
+    checkInput(resource, body, true);
+    const input = pick(body, resource.fields);
+    const before = audit ? await service.getById(id) : undefined;
+    const data = await service.update(id, input);
+    if (!data) throw new HttpError(404, `${label} not found`);
+    const changes = diffFields(resource, input, before, data);
+    if (changes) await audit?.('updated', data, changes);
+    send(res, 200, { success: true, message: `${label} updated successfully`, data });
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    const data = await service.delete(id);
+    if (!data) throw new HttpError(404, `${label} not found`);
+    await audit?.('deleted', data);
+    send(res, 200, { success: true, message: `${label} moved to trash` });
+    return;
+  }
+
+  throw new HttpError(405, 'Method not allowed.');
+};
+
+// Checks the bearer token the same way the Laravel API's `auth:sanctum` and
+// `role:Admin` middleware would, returning the signed-in user
+const authorize = async (req: IncomingMessage, options: AppOptions) => {
+  if (!options.authenticate) return undefined;
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  const user = token ? await options.authenticate(token) : undefined;
+
+  if (!user) {
+    throw new HttpError(401, 'Unauthenticated.');
+  }
+  if (user.role !== 'Admin') {
+    throw new HttpError(403, 'Unauthorized. Insufficient permissions.');
+  }
+  return user;
+};
+
+// Audit logging failures are reported but never fail the change itself
+const createAudit = (options: AppOptions, resource: Resource, actor: AuthUser | undefined): Audit | null => {
+  const { audit } = options;
+  if (!audit) return null;
+
+  return async (action, record, changes = null) => {
+    try {
+      await audit({
+        user_id: actor?.id ?? null,
+        actor_name: actor?.name ?? null,
+        action,
+        entity_type: resource.auditType,
+        entity_id: record.id,
+        entity_name: record.name ?? null,
+        changes,
+      });
+    } catch (error) {
+      console.error(`Error auditing ${action} ${resource.auditType} #${record.id}:`, error);
+    }
+  };
+};
+
+const proxy = (req: IncomingMessage, res: ServerResponse, upstream: string) => {
+  const target = new URL(req.url || '/', upstream);
+  const client = target.protocol === 'https:' ? https : http;
+  const forward = client.request(target, {
+    method: req.method,
+    headers: { ...req.headers, host: target.host },
+  }, upstreamRes => {
+    res.writeHead(upstreamRes.statusCode || 502, upstreamRes.headers);
+    upstreamRes.pipe(res);
+  });
+
+  forward.on('error', error => {
+    console.error('Error forwarding request upstream:', error);
+    if (!res.headersSent) {
+      send(res, 502, { success: false, message: 'Upstream server is not responding.' });
+    } else {
+      res.end();
+    }
+  });
+  req.pipe(forward);
+};
+
+export const createApp = (options: AppOptions) => {
+  const resources = createResources(options.services);
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const [prefix, name, rawId, rawAction, ...rest] = url.pathname.split('/').filter(Boolean);
+    const resource = prefix === 'api' && name ? resources[name] : undefined;
+
+    if (!resource || rest.length > 0) {
+      if (options.upstream && prefix === 'api') {
+        proxy(req, res, options.upstream);
+        return;
+      }
+      send(res, 404, { success: false, message: 'Not found' });
+      return;
+    }
+
+    if (req.method === 'OPTIONS') {
+      send(res, 204);
+      return;
+    }
+
+    try {
+      const audit = createAudit(options, resource, await authorize(req, options));
+      const filters = scopeOf(resource, req);
+
+      if (rawId === 'trash' && rawAction === undefined) {
+        await handleTrash(resource, req, res, url, null, rawId, filters, audit);
+        return;
+      }
+
+      let id: number | null = null;
+      if (rawId !== undefined) {
+        if (!/^\d+$/.test(rawId)) throw new HttpError(404, `${resource.label} not found`);
+        id = parseInt(rawId, 10);
+      }
+
+      if (rawAction !== undefined) {
+        await handleTrash(resource, req, res, url, id, rawAction, filters, audit);
+        return;
+      }
+
+      await handleResource(resource, req, res, url, id, filters, audit);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(res, error.status, {
+          success: false,
+          message: error.message,
+          ...(error.errors ? { errors: error.errors } : {}),
+        });
+        return;
+      }
+      if (error instanceof ReadOnlyError) {
+        send(res, 422, { success: false, message: error.message });
+        return;
+      }
+      if (isUniqueViolation(error)) {
+        const field = error.detail?.match(/^Key \((\w+)\)/)?.[1] || 'name';
+        send(res, 422, {
+          success: false,
+          message: 'Validation failed',
+          errors: { [field]: [`The ${field} has already been taken.`] },
+        });
+        return;
+      }
+      if (isForeignKeyViolation(error)) {
+        const field = error.detail?.match(/^Key \((\w+)\)/)?.[1] || 'id';
+        send(res, 422, {
+          success: false,
+          message: 'Validation failed',
+          errors: { [field]: [`The selected ${field.replace(/_/g, ' ')} is invalid.`] },
+        });
+        return;
+      }
+      console.error(`Error handling ${req.method} ${url.pathname}:`, error);
+      send(res, 500, { success: false, message: 'Server error. Please try again later.' });
+    }
+  });
+};
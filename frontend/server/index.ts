@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+import { auditLogsService } from '../services/auditLogs';
+import { authService } from '../services/auth';
+import { gradeLevelsService } from '../services/gradeLevels';
+import { sectionsService } from '../services/sections';
+import { strandsService } from '../services/strands';
+import { usersService } from '../services/users';
+import { listen } from './listen';
+
+dotenv.config();
+
+listen({
+  services: {
+    sections: sectionsService,
+    strands: strandsService,
+    gradeLevels: gradeLevelsService,
+    users: usersService,
+  },
+  authenticate: authService.findUserByToken,
+  audit: auditLogsService.record,
+  upstream: process.env.UPSTREAM_API_URL || undefined,
+});
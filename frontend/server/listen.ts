@@ -0,0 +1,12 @@
+import { createApp, AppOptions } from './app';
+
+export const listen = (options: AppOptions) => {
+  const port = parseInt(process.env.PORT || '3001');
+
+  createApp(options).listen(port, () => {
+    console.log(`API server listening on port ${port}`);
+    if (options.upstream) {
+      console.log(`Forwarding other /api routes to ${options.upstream}`);
+    }
+  });
+};
@@ -0,0 +1,36 @@
+import dotenv from 'dotenv';
+import { createMemoryService } from '../services/memory';
+import { Section, SectionInput } from '../services/sections';
+import { listen } from './listen';
+
+dotenv.config();
+
+const sections = createMemoryService<Section, SectionInput>({
+  searchFields: ['name'],
+  defaults: {
+    is_active: true,
+    description: '',
+    grade_level_id: null,
+    strand_id: null,
+    adviser_id: null,
+    room: null,
+    capacity: null,
+    term_id: null,
+  },
+});
+
+// Serves the same routes from in-memory stand-ins instead of Postgres, with
+// authentication turned off. Data is lost when the process exits.
+listen({
+  services: {
+    sections,
+    strands: createMemoryService({
+      searchFields: ['name'],
+      defaults: { description: '' },
+      references: { sections: async id => (await sections.count('', { strand_id: id })) > 0 },
+    }),
+    gradeLevels: createMemoryService({ searchFields: ['name'], defaults: { is_active: true, description: '' } }),
+    users: createMemoryService({ searchFields: ['name', 'email'], hiddenFields: ['password'] }),
+  },
+  upstream: process.env.UPSTREAM_API_URL || undefined,
+});
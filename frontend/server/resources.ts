@@ -0,0 +1,99 @@
+import { GradeLevel, GradeLevelInput } from '../services/gradeLevels';
+import { Section, SectionInput } from '../services/sections';
+import { Strand, StrandInput } from '../services/strands';
+import { CrudService, TrashableService } from '../services/types';
+import { User, UserInput } from '../services/users';
+import { boolean, email, integer, min, oneOf, required, Rules, string } from './validation';
+
+export const USER_ROLES = ['Admin', 'Student', 'Teacher'];
+
+export interface Services {
+  sections: TrashableService<Section, SectionInput>;
+  strands: TrashableService<Strand, StrandInput>;
+  gradeLevels: CrudService<GradeLevel, GradeLevelInput>;
+  users: TrashableService<User, UserInput>;
+}
+
+export interface Resource {
+  // Singular name used in messages, e.g. "Section not found"
+  label: string;
+  service: CrudService<any, any>;
+  rules: Rules;
+  // Rules applied on create only (on top of `rules`)
+  createRules?: Rules;
+  // Keys copied from the request body into the service input
+  fields: string[];
+  // Whether the trash routes (list, restore, purge) are exposed
+  trashable?: boolean;
+  // Whether rows belong to a term: lists are narrowed to, and creates land
+  // in, the term named by the X-Term-Id header (the current term without it)
+  termScoped?: boolean;
+  // Entity type changes are audit logged under, e.g. "grade_level"
+  auditType: string;
+  // Fields whose values are kept out of the audit log
+  auditHidden?: string[];
+}
+
+// Maps each URL segment under /api to the service and rules that serve it
+export const createResources = (services: Services): Record<string, Resource> => ({
+  sections: {
+    label: 'Section',
+    service: services.sections,
+    rules: {
+      name: [required, string()],
+      description: [string(1000)],
+      is_active: [boolean],
+      grade_level_id: [integer()],
+      strand_id: [integer()],
+      adviser_id: [integer()],
+      room: [string()],
+      capacity: [integer()],
+    },
+    fields: ['name', 'description', 'is_active', 'grade_level_id', 'strand_id', 'adviser_id', 'room', 'capacity'],
+    trashable: true,
+    termScoped: true,
+    auditType: 'section',
+  },
+
+  strands: {
+    label: 'Strand',
+    service: services.strands,
+    rules: {
+      name: [required, string()],
+      description: [string(1000)],
+    },
+    fields: ['name', 'description'],
+    trashable: true,
+    auditType: 'strand',
+  },
+
+  'grade-levels': {
+    label: 'Grade level',
+    service: services.gradeLevels,
+    rules: {
+      name: [required, string()],
+      description: [string(1000)],
+      is_active: [boolean],
+    },
+    fields: ['name', 'description', 'is_active'],
+    auditType: 'grade_level',
+  },
+
+  users: {
+    label: 'User',
+    service: services.users,
+    rules: {
+      name: [required, string()],
+      email: [required, string(), email],
+      password: [string(), min(6)],
+      role: [required, oneOf(USER_ROLES)],
+    },
+    createRules: {
+      password: [required],
+    },
+    fields: ['name', 'email', 'password', 'role'],
+    trashable: true,
+    auditType: 'user',
+    auditHidden: ['password'],
+  },
+});
@@ -0,0 +1,62 @@
+-- Tables served by the TypeScript API server (server/index.ts).
+-- `users`, `personal_access_tokens` and `audit_logs` are owned by the Laravel
+-- migrations in backend/database/migrations and shared with this server.
+
+CREATE TABLE IF NOT EXISTS sections (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMP NULL
+);
+
+CREATE TABLE IF NOT EXISTS strands (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  description TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMP NULL
+);
+
+CREATE TABLE IF NOT EXISTS grade_levels (
+  id BIGSERIAL PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  description TEXT NOT NULL DEFAULT '',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- grade_levels predates this server and may have been created without these
+ALTER TABLE grade_levels ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE grade_levels ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+-- Soft deletes (trash) for sections and strands
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP NULL;
+ALTER TABLE strands ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP NULL;
+
+-- Placement, adviser, room and size of each section. `adviser_id` points into
+-- the Laravel-owned `teachers` table. The Laravel migrations run first, so the
+-- table exists by now, but it gets no foreign key: one would keep those
+-- migrations from rolling back and dropping `teachers` on their own.
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS grade_level_id BIGINT NULL REFERENCES grade_levels(id) ON DELETE SET NULL;
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS strand_id BIGINT NULL REFERENCES strands(id) ON DELETE SET NULL;
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS adviser_id BIGINT NULL;
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS room VARCHAR(255) NULL;
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS capacity INTEGER NULL CHECK (capacity > 0);
+
+-- The term (school year and semester) each section belongs to. `terms` is
+-- owned by the Laravel migrations too, so this gets no foreign key either.
+-- Sections made before terms existed are moved into the current term.
+ALTER TABLE sections ADD COLUMN IF NOT EXISTS term_id BIGINT NULL;
+
+DO $$
+BEGIN
+  IF to_regclass('terms') IS NOT NULL THEN
+    UPDATE sections SET term_id = (SELECT id FROM terms WHERE is_current LIMIT 1) WHERE term_id IS NULL;
+  END IF;
+END
+$$;
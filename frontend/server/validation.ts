@@ -0,0 +1,69 @@
+export type ValidationErrors = Record<string, string[]>;
+
+type Rule = (value: unknown, field: string) => string | null;
+
+const label = (field: string) => field.replace(/_/g, ' ');
+
+export const required: Rule = (value, field) => (
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+    ? `The ${label(field)} field is required.`
+    : null
+);
+
+export const string = (max = 255): Rule => (value, field) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') return `The ${label(field)} field must be a string.`;
+  if (value.length > max) return `The ${label(field)} field must not be greater than ${max} characters.`;
+  return null;
+};
+
+export const boolean: Rule = (value, field) => (
+  value === undefined || value === null || typeof value === 'boolean'
+    ? null
+    : `The ${label(field)} field must be true or false.`
+);
+
+export const email: Rule = (value, field) => (
+  typeof value === 'string' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+    ? `The ${label(field)} field must be a valid email address.`
+    : null
+);
+
+export const min = (length: number): Rule => (value, field) => (
+  typeof value === 'string' && value.length < length
+    ? `The ${label(field)} field must be at least ${length} characters.`
+    : null
+);
+
+export const integer = (minimum = 1): Rule => (value, field) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isInteger(value)) return `The ${label(field)} field must be an integer.`;
+  if (value < minimum) return `The ${label(field)} field must be at least ${minimum}.`;
+  return null;
+};
+
+export const oneOf = (options: string[]): Rule => (value, field) => (
+  value !== undefined && value !== null && !options.includes(String(value))
+    ? `The selected ${label(field)} is invalid.`
+    : null
+);
+
+export type Rules = Record<string, Rule[]>;
+
+// Runs every rule against the body, mirroring Laravel's validator. On update
+// ("sometimes" semantics) fields that were left out of the body are skipped.
+export const validate = (body: Record<string, unknown>, rules: Rules, isUpdate = false) => {
+  const errors: ValidationErrors = {};
+
+  Object.entries(rules).forEach(([field, fieldRules]) => {
+    if (isUpdate && !(field in body)) return;
+    const messages = fieldRules
+      .map(rule => rule(body[field], field))
+      .filter((message): message is string => message !== null);
+    if (messages.length > 0) {
+      errors[field] = messages;
+    }
+  });
+
+  return errors;
+};
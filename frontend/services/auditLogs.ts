@@ -0,0 +1,42 @@
+import pool from '../config/database';
+
+// Each changed field's value before and after, or the action's details
+export type AuditChanges = Record<string, unknown>;
+
+export interface AuditEntry {
+  user_id: number | null;
+  actor_name: string | null;
+  action: 'created' | 'updated' | 'deleted' | 'restored' | 'purged';
+  // e.g. "section" or "grade_level"
+  entity_type: string;
+  entity_id: number;
+  entity_name: string | null;
+  changes: AuditChanges | null;
+}
+
+// Writes to the `audit_logs` table owned by the Laravel migrations, which the
+// Laravel API reads back for the admin audit log screen
+export const auditLogsService = {
+  async record(entry: AuditEntry) {
+    const query = `
+      INSERT INTO audit_logs (user_id, actor_name, action, entity_type, entity_id, entity_name, changes, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+    `;
+    const values = [
+      entry.user_id,
+      entry.actor_name,
+      entry.action,
+      entry.entity_type,
+      entry.entity_id,
+      entry.entity_name,
+      entry.changes ? JSON.stringify(entry.changes) : null,
+    ];
+
+    try {
+      await pool.query(query, values);
+    } catch (error) {
+      console.error('Error writing audit log:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,37 @@
+import crypto from 'crypto';
+import pool from '../config/database';
+
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+}
+
+export const authService = {
+  // Resolve a Sanctum bearer token ("<id>|<plain text>") to its user.
+  // Sanctum stores only the SHA-256 of the plain text part.
+  async findUserByToken(bearer: string): Promise<AuthUser | undefined> {
+    const [id, plainText] = bearer.includes('|') ? bearer.split('|', 2) : [null, bearer];
+    if (id !== null && !/^\d+$/.test(id)) return undefined;
+    const hash = crypto.createHash('sha256').update(plainText).digest('hex');
+    const query = `
+      SELECT users.id, users.name, users.email, users.role
+      FROM personal_access_tokens
+      JOIN users ON users.id = personal_access_tokens.tokenable_id
+      WHERE personal_access_tokens.token = $1
+        AND personal_access_tokens.tokenable_type = 'App\\Models\\User'
+        AND users.deleted_at IS NULL
+        AND ($2::bigint IS NULL OR personal_access_tokens.id = $2::bigint)
+        AND (personal_access_tokens.expires_at IS NULL OR personal_access_tokens.expires_at > NOW())
+    `;
+
+    try {
+      const result = await pool.query(query, [hash, id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error resolving access token:', error);
+      throw error;
+    }
+  }
+};
@@ -1,14 +1,18 @@
 import pool from '../config/database';
+import { CrudService } from './types';
 
-interface GradeLevel {
+export interface GradeLevel {
   id: number;
   name: string;
   description: string;
+  is_active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
-export const gradeLevelsService = {
+export type GradeLevelInput = Pick<GradeLevel, 'name' | 'description' | 'is_active'>;
+
+export const gradeLevelsService: CrudService<GradeLevel, GradeLevelInput> = {
   // Get all grade levels with pagination
   async getAll(page: number = 1, limit: number = 10, search: string = '') {
     const offset = (page - 1) * limit;
@@ -43,13 +47,13 @@ export const gradeLevelsService = {
   },
 
   // Create a new grade level
-  async create(gradeLevel: Omit<GradeLevel, 'id' | 'created_at' | 'updated_at'>) {
+  async create(gradeLevel: GradeLevelInput) {
     const query = `
-      INSERT INTO grade_levels (name, description) 
-      VALUES ($1, $2) 
+      INSERT INTO grade_levels (name, description, is_active) 
+      VALUES ($1, $2, $3) 
       RETURNING *
     `;
-    const values = [gradeLevel.name, gradeLevel.description];
+    const values = [gradeLevel.name, gradeLevel.description ?? '', gradeLevel.is_active ?? true];
     
     try {
       const result = await pool.query(query, values);
@@ -61,14 +65,17 @@ export const gradeLevelsService = {
   },
 
   // Update a grade level
-  async update(id: number, gradeLevel: Partial<GradeLevel>) {
+  async update(id: number, gradeLevel: Partial<GradeLevelInput>) {
     const query = `
       UPDATE grade_levels 
-      SET name = $1, description = $2 
-      WHERE id = $3 
+      SET name = COALESCE($1, name), 
+          description = COALESCE($2, description), 
+          is_active = COALESCE($3, is_active), 
+          updated_at = NOW() 
+      WHERE id = $4 
       RETURNING *
     `;
-    const values = [gradeLevel.name, gradeLevel.description, id];
+    const values = [gradeLevel.name, gradeLevel.description, gradeLevel.is_active, id];
     
     try {
       const result = await pool.query(query, values);
@@ -0,0 +1,130 @@
+import { Filters, InUseError, TrashableService } from './types';
+
+interface MemoryOptions<TInput> {
+  // Fields matched (case-insensitively) by the search string
+  searchFields: string[];
+  // Values filled in when a create call leaves them out
+  defaults?: Partial<TInput>;
+  // Fields accepted on create/update but never stored or returned (e.g. password)
+  hiddenFields?: string[];
+  // Whether rows elsewhere still point at a row, keyed by what they are
+  // (e.g. sections). Like the Postgres services, purging such a row is refused.
+  references?: Record<string, (id: number) => Promise<boolean>>;
+}
+
+type Row = {
+  id: number;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+  [key: string]: any;
+};
+
+// In-memory stand-in for a Postgres-backed service. Used to run the REST
+// server without a database, e.g. in development or when exercising routes.
+export const createMemoryService = <T, TInput extends object>(
+  options: MemoryOptions<TInput>
+): TrashableService<T, TInput> => {
+  const rows: Row[] = [];
+  let nextId = 1;
+
+  const strip = (input: Partial<TInput>) => {
+    const values: Record<string, any> = {};
+    Object.entries(input).forEach(([key, value]) => {
+      if (value !== undefined && !(options.hiddenFields || []).includes(key)) {
+        values[key] = value;
+      }
+    });
+    return values;
+  };
+
+  const matching = (search: string, trashed: boolean, filters: Filters = {}) => {
+    const needle = search.toLowerCase();
+    return rows
+      .filter(row => (row.deleted_at !== null) === trashed)
+      .filter(row => Object.entries(filters).every(([field, value]) => row[field] === value))
+      .filter(row => options.searchFields.some(field =>
+        String(row[field] ?? '').toLowerCase().includes(needle)
+      ))
+      // Newest first, like ORDER BY created_at DESC / deleted_at DESC
+      .sort((a, b) => trashed
+        ? b.deleted_at!.getTime() - a.deleted_at!.getTime() || b.id - a.id
+        : b.id - a.id);
+  };
+
+  const find = (id: number, trashed: boolean) => (
+    rows.find(r => r.id === id && (r.deleted_at !== null) === trashed)
+  );
+
+  const page = (list: Row[], pageNumber: number, limit: number) => {
+    const offset = (pageNumber - 1) * limit;
+    return list.slice(offset, offset + limit).map(row => ({ ...row }) as T);
+  };
+
+  return {
+    async getAll(pageNumber: number = 1, limit: number = 10, search: string = '', filters: Filters = {}) {
+      return page(matching(search, false, filters), pageNumber, limit);
+    },
+
+    async getById(id: number) {
+      const row = find(id, false);
+      return row ? ({ ...row } as T) : undefined;
+    },
+
+    async create(input: TInput) {
+      const now = new Date();
+      const row: Row = {
+        ...strip({ ...options.defaults, ...input }),
+        id: nextId++,
+        created_at: now,
+        updated_at: now,
+        deleted_at: null,
+      };
+      rows.push(row);
+      return { ...row } as T;
+    },
+
+    async update(id: number, input: Partial<TInput>) {
+      const row = find(id, false);
+      if (!row) return undefined;
+      Object.assign(row, strip(input), { updated_at: new Date() });
+      return { ...row } as T;
+    },
+
+    async delete(id: number) {
+      const row = find(id, false);
+      if (!row) return undefined;
+      row.deleted_at = new Date();
+      return { ...row } as T;
+    },
+
+    async count(search: string = '', filters: Filters = {}) {
+      return matching(search, false, filters).length;
+    },
+
+    async getTrashed(pageNumber: number = 1, limit: number = 10, search: string = '', filters: Filters = {}) {
+      return page(matching(search, true, filters), pageNumber, limit);
+    },
+
+    async countTrashed(search: string = '', filters: Filters = {}) {
+      return matching(search, true, filters).length;
+    },
+
+    async restore(id: number) {
+      const row = find(id, true);
+      if (!row) return undefined;
+      Object.assign(row, { deleted_at: null, updated_at: new Date() });
+      return { ...row } as T;
+    },
+
+    async purge(id: number) {
+      const row = find(id, true);
+      if (!row) return undefined;
+      for (const [usedBy, isUsed] of Object.entries(options.references || {})) {
+        if (await isUsed(id)) throw new InUseError(usedBy);
+      }
+      rows.splice(rows.indexOf(row), 1);
+      return row as T;
+    },
+  };
+};
@@ -0,0 +1,29 @@
+import pool from '../config/database';
+import { InUseError } from './types';
+
+// A column of another table that points at rows of this one, e.g. the
+// section_id of students. `name` says what those rows are in messages.
+export interface Reference {
+  name: string;
+  table: string;
+  column: string;
+  // Leave out rows sitting in that table's own trash
+  softDeletes?: boolean;
+}
+
+// Refuses to purge a row that other rows still point at. Most of these
+// columns belong to Laravel-owned tables and carry no foreign key, so the
+// database would let the purge through and leave them dangling.
+export const assertUnreferenced = async (id: number, references: Reference[]) => {
+  for (const { name, table, column, softDeletes } of references) {
+    const query = `
+      SELECT EXISTS (
+        SELECT 1 FROM ${table} WHERE ${column} = $1${softDeletes ? ' AND deleted_at IS NULL' : ''}
+      ) AS used
+    `;
+    const result = await pool.query(query, [id]);
+    if (result.rows[0].used) {
+      throw new InUseError(name);
+    }
+  }
+};
@@ -0,0 +1,292 @@
+import pool from '../config/database';
+import { assertUnreferenced, Reference } from './references';
+import { Filters, ReadOnlyError, TrashableService } from './types';
+
+// A record a section points at, with the name to show for it
+export interface SectionRef {
+  id: number;
+  name: string;
+}
+
+export interface Section {
+  id: number;
+  name: string;
+  description: string;
+  is_active: boolean;
+  grade_level_id: number | null;
+  strand_id: number | null;
+  // A row of the Laravel-owned `teachers` table
+  adviser_id: number | null;
+  room: string | null;
+  // Most students the section takes; null for no limit
+  capacity: number | null;
+  // A row of the Laravel-owned `terms` table. Set on create only: a section
+  // stays in the term it was made in.
+  term_id: number | null;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+  // Joined in for display
+  grade_level: SectionRef | null;
+  strand: SectionRef | null;
+  adviser: SectionRef | null;
+  // Students currently assigned to the section
+  students_count: number;
+}
+
+export type SectionInput = Pick<
+  Section,
+  'name' | 'description' | 'is_active' | 'grade_level_id' | 'strand_id' | 'adviser_id' | 'room' | 'capacity' | 'term_id'
+>;
+
+// Columns an update can set, and those of them that can be cleared with null
+const FIELDS: (keyof SectionInput)[] = [
+  'name', 'description', 'is_active', 'grade_level_id', 'strand_id', 'adviser_id', 'room', 'capacity',
+];
+const NULLABLE_FIELDS: (keyof SectionInput)[] = ['grade_level_id', 'strand_id', 'adviser_id', 'room', 'capacity'];
+
+// Sections with the names of what they point at and their live student count.
+// `teachers` and `students` are owned by the Laravel migrations.
+const SELECT_SECTIONS = `
+  SELECT sections.*,
+    CASE WHEN grade_levels.id IS NULL THEN NULL
+      ELSE json_build_object('id', grade_levels.id, 'name', grade_levels.name) END AS grade_level,
+    CASE WHEN strands.id IS NULL THEN NULL
+      ELSE json_build_object('id', strands.id, 'name', strands.name) END AS strand,
+    CASE WHEN teachers.id IS NULL THEN NULL
+      ELSE json_build_object('id', teachers.id, 'name', teachers.name) END AS adviser,
+    (
+      SELECT COUNT(*)::int FROM students
+      WHERE students.section_id = sections.id AND students.deleted_at IS NULL
+    ) AS students_count
+  FROM sections
+  LEFT JOIN grade_levels ON grade_levels.id = sections.grade_level_id
+  LEFT JOIN strands ON strands.id = sections.strand_id
+  LEFT JOIN teachers ON teachers.id = sections.adviser_id
+`;
+
+// Reads back a section just written, joined like every other read
+const findSection = async (id: number) => {
+  const result = await pool.query(`${SELECT_SECTIONS} WHERE sections.id = $1`, [id]);
+  return result.rows[0];
+};
+
+// The term a listing is narrowed to: the one asked for, or else the current
+// term. Sections made before any term existed have none, and are listed
+// while there is no current term.
+const inTerm = (param: number) => (
+  `sections.term_id IS NOT DISTINCT FROM COALESCE($${param}::bigint, (SELECT id FROM terms WHERE is_current LIMIT 1))`
+);
+
+// Refuses changes to the sections of an archived term, by the term's id or,
+// when `sectionId` is given, by the section's own term
+const assertTermOpen = async (termId: number | null, sectionId?: number) => {
+  const query = sectionId === undefined
+    ? `SELECT school_year, name FROM terms
+      WHERE id = COALESCE($1::bigint, (SELECT id FROM terms WHERE is_current LIMIT 1)) AND archived_at IS NOT NULL`
+    : `SELECT terms.school_year, terms.name FROM sections
+      JOIN terms ON terms.id = sections.term_id
+      WHERE sections.id = $1 AND terms.archived_at IS NOT NULL`;
+  const result = await pool.query(query, [sectionId ?? termId]);
+  const term = result.rows[0];
+  if (term) {
+    throw new ReadOnlyError(`${term.school_year} ${term.name} is archived and can no longer be changed.`);
+  }
+};
+
+// Rows that keep a section from being purged
+const REFERENCES: Reference[] = [
+  { name: 'students', table: 'students', column: 'section_id', softDeletes: true },
+  { name: 'schedules', table: 'schedules', column: 'section_id' },
+  { name: 'attendance records', table: 'attendances', column: 'section_id' },
+  { name: 'teaching assignments', table: 'teaching_assignments', column: 'section_id' },
+];
+
+export const sectionsService: TrashableService<Section, SectionInput> = {
+  // Get a term's sections with pagination (the current term's by default)
+  async getAll(page: number = 1, limit: number = 10, search: string = '', filters: Filters = {}) {
+    const offset = (page - 1) * limit;
+    const query = `
+      ${SELECT_SECTIONS}
+      WHERE sections.deleted_at IS NULL AND sections.name ILIKE $1 AND ${inTerm(4)} 
+      ORDER BY sections.created_at DESC 
+      LIMIT $2 OFFSET $3
+    `;
+    const values = [`%${search}%`, limit, offset, filters.term_id ?? null];
+    
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching sections:', error);
+      throw error;
+    }
+  },
+
+  // Get a single section by ID
+  async getById(id: number) {
+    const query = `${SELECT_SECTIONS} WHERE sections.id = $1 AND sections.deleted_at IS NULL`;
+    
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error fetching section:', error);
+      throw error;
+    }
+  },
+
+  // Create a new section, in the current term unless another is given
+  async create(section: SectionInput) {
+    const query = `
+      INSERT INTO sections (name, description, is_active, grade_level_id, strand_id, adviser_id, room, capacity, term_id) 
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, COALESCE($9::bigint, (SELECT id FROM terms WHERE is_current LIMIT 1))) 
+      RETURNING id
+    `;
+    const values = [
+      section.name,
+      section.description ?? '',
+      section.is_active ?? true,
+      section.grade_level_id ?? null,
+      section.strand_id ?? null,
+      section.adviser_id ?? null,
+      section.room || null,
+      section.capacity ?? null,
+      section.term_id ?? null,
+    ];
+    
+    await assertTermOpen(section.term_id ?? null);
+    try {
+      const result = await pool.query(query, values);
+      return await findSection(result.rows[0].id);
+    } catch (error) {
+      console.error('Error creating section:', error);
+      throw error;
+    }
+  },
+
+  // Update a section. Only the fields sent are changed; sending null clears
+  // the grade level, strand, adviser, room or capacity.
+  async update(id: number, section: Partial<SectionInput>) {
+    const fields = FIELDS.filter(field => (
+      section[field] !== undefined && (section[field] !== null || NULLABLE_FIELDS.includes(field))
+    ));
+    const assignments = fields.map((field, index) => `${field} = $${index + 1}`);
+    const query = `
+      UPDATE sections 
+      SET ${[...assignments, 'updated_at = NOW()'].join(', ')} 
+      WHERE id = $${fields.length + 1} AND deleted_at IS NULL 
+      RETURNING id
+    `;
+    const values = [...fields.map(field => (field === 'room' ? section.room || null : section[field])), id];
+    
+    await assertTermOpen(null, id);
+    try {
+      const result = await pool.query(query, values);
+      return result.rows[0] ? await findSection(result.rows[0].id) : undefined;
+    } catch (error) {
+      console.error('Error updating section:', error);
+      throw error;
+    }
+  },
+
+  // Move a section to the trash
+  async delete(id: number) {
+    const query = `
+      UPDATE sections 
+      SET deleted_at = NOW() 
+      WHERE id = $1 AND deleted_at IS NULL 
+      RETURNING *
+    `;
+    
+    await assertTermOpen(null, id);
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      throw error;
+    }
+  },
+
+  // Count a term's sections (for pagination)
+  async count(search: string = '', filters: Filters = {}) {
+    const query = `SELECT COUNT(*) FROM sections WHERE deleted_at IS NULL AND name ILIKE $1 AND ${inTerm(2)}`;
+    
+    try {
+      const result = await pool.query(query, [`%${search}%`, filters.term_id ?? null]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting sections:', error);
+      throw error;
+    }
+  },
+
+  // Get a term's trashed sections, most recently deleted first
+  async getTrashed(page: number = 1, limit: number = 10, search: string = '', filters: Filters = {}) {
+    const offset = (page - 1) * limit;
+    const query = `
+      ${SELECT_SECTIONS}
+      WHERE sections.deleted_at IS NOT NULL AND sections.name ILIKE $1 AND ${inTerm(4)} 
+      ORDER BY sections.deleted_at DESC 
+      LIMIT $2 OFFSET $3
+    `;
+    const values = [`%${search}%`, limit, offset, filters.term_id ?? null];
+    
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching trashed sections:', error);
+      throw error;
+    }
+  },
+
+  // Count a term's trashed sections (for pagination)
+  async countTrashed(search: string = '', filters: Filters = {}) {
+    const query = `SELECT COUNT(*) FROM sections WHERE deleted_at IS NOT NULL AND name ILIKE $1 AND ${inTerm(2)}`;
+    
+    try {
+      const result = await pool.query(query, [`%${search}%`, filters.term_id ?? null]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting trashed sections:', error);
+      throw error;
+    }
+  },
+
+  // Take a section back out of the trash
+  async restore(id: number) {
+    const query = `
+      UPDATE sections 
+      SET deleted_at = NULL, updated_at = NOW() 
+      WHERE id = $1 AND deleted_at IS NOT NULL 
+      RETURNING id
+    `;
+    
+    await assertTermOpen(null, id);
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0] ? await findSection(result.rows[0].id) : undefined;
+    } catch (error) {
+      console.error('Error restoring section:', error);
+      throw error;
+    }
+  },
+
+  // Permanently delete a section. Only rows already in the trash can be purged,
+  // and only once nothing points at them.
+  async purge(id: number) {
+    const query = 'DELETE FROM sections WHERE id = $1 AND deleted_at IS NOT NULL RETURNING *';
+    
+    await assertTermOpen(null, id);
+    await assertUnreferenced(id, REFERENCES);
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error purging section:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,192 @@
+import pool from '../config/database';
+import { assertUnreferenced, Reference } from './references';
+import { TrashableService } from './types';
+
+export interface Strand {
+  id: number;
+  name: string;
+  description: string;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+export type StrandInput = Pick<Strand, 'name' | 'description'>;
+
+// Rows that keep a strand from being purged
+const REFERENCES: Reference[] = [
+  { name: 'sections', table: 'sections', column: 'strand_id', softDeletes: true },
+  { name: 'students', table: 'students', column: 'strand_id', softDeletes: true },
+  { name: 'subjects', table: 'subjects', column: 'strand_id', softDeletes: true },
+];
+
+export const strandsService: TrashableService<Strand, StrandInput> = {
+  // Get all strands with pagination
+  async getAll(page: number = 1, limit: number = 10, search: string = '') {
+    const offset = (page - 1) * limit;
+    const query = `
+      SELECT * FROM strands 
+      WHERE deleted_at IS NULL AND name ILIKE $1 
+      ORDER BY created_at DESC 
+      LIMIT $2 OFFSET $3
+    `;
+    const values = [`%${search}%`, limit, offset];
+    
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching strands:', error);
+      throw error;
+    }
+  },
+
+  // Get a single strand by ID
+  async getById(id: number) {
+    const query = 'SELECT * FROM strands WHERE id = $1 AND deleted_at IS NULL';
+    
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error fetching strand:', error);
+      throw error;
+    }
+  },
+
+  // Create a new strand
+  async create(strand: StrandInput) {
+    const query = `
+      INSERT INTO strands (name, description) 
+      VALUES ($1, $2) 
+      RETURNING *
+    `;
+    const values = [strand.name, strand.description ?? ''];
+    
+    try {
+      const result = await pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating strand:', error);
+      throw error;
+    }
+  },
+
+  // Update a strand
+  async update(id: number, strand: Partial<StrandInput>) {
+    const query = `
+      UPDATE strands 
+      SET name = COALESCE($1, name), 
+          description = COALESCE($2, description), 
+          updated_at = NOW() 
+      WHERE id = $3 AND deleted_at IS NULL 
+      RETURNING *
+    `;
+    const values = [strand.name, strand.description, id];
+    
+    try {
+      const result = await pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error updating strand:', error);
+      throw error;
+    }
+  },
+
+  // Move a strand to the trash
+  async delete(id: number) {
+    const query = `
+      UPDATE strands 
+      SET deleted_at = NOW() 
+      WHERE id = $1 AND deleted_at IS NULL 
+      RETURNING *
+    `;
+    
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error deleting strand:', error);
+      throw error;
+    }
+  },
+
+  // Count total strands (for pagination)
+  async count(search: string = '') {
+    const query = 'SELECT COUNT(*) FROM strands WHERE deleted_at IS NULL AND name ILIKE $1';
+    
+    try {
+      const result = await pool.query(query, [`%${search}%`]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting strands:', error);
+      throw error;
+    }
+  },
+
+  // Get trashed strands, most recently deleted first
+  async getTrashed(page: number = 1, limit: number = 10, search: string = '') {
+    const offset = (page - 1) * limit;
+    const query = `
+      SELECT * FROM strands 
+      WHERE deleted_at IS NOT NULL AND name ILIKE $1 
+      ORDER BY deleted_at DESC 
+      LIMIT $2 OFFSET $3
+    `;
+    const values = [`%${search}%`, limit, offset];
+    
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching trashed strands:', error);
+      throw error;
+    }
+  },
+
+  // Count trashed strands (for pagination)
+  async countTrashed(search: string = '') {
+    const query = 'SELECT COUNT(*) FROM strands WHERE deleted_at IS NOT NULL AND name ILIKE $1';
+    
+    try {
+      const result = await pool.query(query, [`%${search}%`]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting trashed strands:', error);
+      throw error;
+    }
+  },
+
+  // Take a strand back out of the trash
+  async restore(id: number) {
+    const query = `
+      UPDATE strands 
+      SET deleted_at = NULL, updated_at = NOW() 
+      WHERE id = $1 AND deleted_at IS NOT NULL 
+      RETURNING *
+    `;
+    
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error restoring strand:', error);
+      throw error;
+    }
+  },
+
+  // Permanently delete a strand. Only rows already in the trash can be purged,
+  // and only once nothing points at them.
+  async purge(id: number) {
+    const query = 'DELETE FROM strands WHERE id = $1 AND deleted_at IS NOT NULL RETURNING *';
+    
+    await assertUnreferenced(id, REFERENCES);
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error purging strand:', error);
+      throw error;
+    }
+  }
+};
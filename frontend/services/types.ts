@@ -0,0 +1,35 @@
+// Narrows a listing to the rows whose column holds the given value, e.g. the
+// sections of one term: { term_id: 3 }
+export type Filters = Record<string, number>;
+
+// Shape shared by every table-backed service, so the REST server can serve
+// a Postgres-backed service and its in-memory stand-in interchangeably.
+export interface CrudService<T, TInput> {
+  getAll(page?: number, limit?: number, search?: string, filters?: Filters): Promise<T[]>;
+  getById(id: number): Promise<T | undefined>;
+  create(input: TInput): Promise<T>;
+  update(id: number, input: Partial<TInput>): Promise<T | undefined>;
+  delete(id: number): Promise<T | undefined>;
+  count(search?: string, filters?: Filters): Promise<number>;
+}
+
+// A service whose delete() only moves rows to the trash (sets deleted_at),
+// from where they can be restored or purged for good
+export interface TrashableService<T, TInput> extends CrudService<T, TInput> {
+  getTrashed(page?: number, limit?: number, search?: string, filters?: Filters): Promise<T[]>;
+  countTrashed(search?: string, filters?: Filters): Promise<number>;
+  restore(id: number): Promise<T | undefined>;
+  purge(id: number): Promise<T | undefined>;
+}
+
+// Thrown when a change is refused because the record can no longer be
+// changed, e.g. a section of an archived term
+export class ReadOnlyError extends Error {}
+
+// Thrown when a record cannot be purged because other records still point
+// at it, e.g. a strand that still has sections. `usedBy` names them.
+export class InUseError extends Error {
+  constructor(readonly usedBy: string) {
+    super(`Still in use by ${usedBy}`);
+  }
+}
@@ -0,0 +1,222 @@
+import bcrypt from 'bcryptjs';
+import pool from '../config/database';
+import { assertUnreferenced, Reference } from './references';
+import { TrashableService } from './types';
+
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  created_at: Date;
+  updated_at: Date;
+  deleted_at: Date | null;
+}
+
+export interface UserInput {
+  name: string;
+  email: string;
+  password?: string;
+  role: string;
+}
+
+// Never select the password hash back out of the table
+const COLUMNS = 'id, name, email, role, created_at, updated_at, deleted_at';
+
+// Laravel's Hash::check only accepts the $2y$ bcrypt prefix, which is the
+// same algorithm bcryptjs writes as $2a$/$2b$
+export const hashPassword = async (password: string) => {
+  const hash = await bcrypt.hash(password, 12);
+  return hash.replace(/^\$2[ab]\$/, '$2y$');
+};
+
+// Sanctum tokens live in a polymorphic table with no foreign key to users
+const revokeTokens = async (userId: number) => {
+  await pool.query(
+    `DELETE FROM personal_access_tokens WHERE tokenable_type = 'App\\Models\\User' AND tokenable_id = $1`,
+    [userId]
+  );
+};
+
+// Records that sign in with a user; purging the user would unlink them
+const REFERENCES: Reference[] = [
+  { name: 'a student record', table: 'students', column: 'user_id', softDeletes: true },
+  { name: 'a teacher record', table: 'teachers', column: 'user_id' },
+];
+
+export const usersService: TrashableService<User, UserInput> = {
+  // Get all users with pagination
+  async getAll(page: number = 1, limit: number = 10, search: string = '') {
+    const offset = (page - 1) * limit;
+    const query = `
+      SELECT ${COLUMNS} FROM users
+      WHERE deleted_at IS NULL AND (name ILIKE $1 OR email ILIKE $1)
+      ORDER BY created_at DESC
+      LIMIT $2 OFFSET $3
+    `;
+    const values = [`%${search}%`, limit, offset];
+
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      throw error;
+    }
+  },
+
+  // Get a single user by ID
+  async getById(id: number) {
+    const query = `SELECT ${COLUMNS} FROM users WHERE id = $1 AND deleted_at IS NULL`;
+
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      throw error;
+    }
+  },
+
+  // Create a new user
+  async create(user: UserInput) {
+    const query = `
+      INSERT INTO users (name, email, password, role, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, NOW(), NOW())
+      RETURNING ${COLUMNS}
+    `;
+    const values = [user.name, user.email, await hashPassword(user.password || ''), user.role];
+
+    try {
+      const result = await pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error creating user:', error);
+      throw error;
+    }
+  },
+
+  // Update a user, re-hashing the password only when a new one is given
+  async update(id: number, user: Partial<UserInput>) {
+    const query = `
+      UPDATE users
+      SET name = COALESCE($1, name),
+          email = COALESCE($2, email),
+          password = COALESCE($3, password),
+          role = COALESCE($4, role),
+          updated_at = NOW()
+      WHERE id = $5 AND deleted_at IS NULL
+      RETURNING ${COLUMNS}
+    `;
+    const password = user.password ? await hashPassword(user.password) : null;
+    const values = [user.name, user.email, password, user.role, id];
+
+    try {
+      const result = await pool.query(query, values);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error updating user:', error);
+      throw error;
+    }
+  },
+
+  // Move a user to the trash and sign them out everywhere
+  async delete(id: number) {
+    const query = `
+      UPDATE users
+      SET deleted_at = NOW()
+      WHERE id = $1 AND deleted_at IS NULL
+      RETURNING ${COLUMNS}
+    `;
+
+    try {
+      const result = await pool.query(query, [id]);
+      if (result.rows[0]) {
+        await revokeTokens(id);
+      }
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw error;
+    }
+  },
+
+  // Count total users (for pagination)
+  async count(search: string = '') {
+    const query = 'SELECT COUNT(*) FROM users WHERE deleted_at IS NULL AND (name ILIKE $1 OR email ILIKE $1)';
+
+    try {
+      const result = await pool.query(query, [`%${search}%`]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting users:', error);
+      throw error;
+    }
+  },
+
+  // Get trashed users, most recently deleted first
+  async getTrashed(page: number = 1, limit: number = 10, search: string = '') {
+    const offset = (page - 1) * limit;
+    const query = `
+      SELECT ${COLUMNS} FROM users
+      WHERE deleted_at IS NOT NULL AND (name ILIKE $1 OR email ILIKE $1)
+      ORDER BY deleted_at DESC
+      LIMIT $2 OFFSET $3
+    `;
+    const values = [`%${search}%`, limit, offset];
+
+    try {
+      const result = await pool.query(query, values);
+      return result.rows;
+    } catch (error) {
+      console.error('Error fetching trashed users:', error);
+      throw error;
+    }
+  },
+
+  // Count trashed users (for pagination)
+  async countTrashed(search: string = '') {
+    const query = 'SELECT COUNT(*) FROM users WHERE deleted_at IS NOT NULL AND (name ILIKE $1 OR email ILIKE $1)';
+
+    try {
+      const result = await pool.query(query, [`%${search}%`]);
+      return parseInt(result.rows[0].count);
+    } catch (error) {
+      console.error('Error counting trashed users:', error);
+      throw error;
+    }
+  },
+
+  // Take a user back out of the trash
+  async restore(id: number) {
+    const query = `
+      UPDATE users
+      SET deleted_at = NULL, updated_at = NOW()
+      WHERE id = $1 AND deleted_at IS NOT NULL
+      RETURNING ${COLUMNS}
+    `;
+
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error restoring user:', error);
+      throw error;
+    }
+  },
+
+  // Permanently delete a user. Only users already in the trash can be purged,
+  // and only once no student or teacher record signs in with them.
+  async purge(id: number) {
+    const query = `DELETE FROM users WHERE id = $1 AND deleted_at IS NOT NULL RETURNING ${COLUMNS}`;
+
+    await assertUnreferenced(id, REFERENCES);
+    try {
+      const result = await pool.query(query, [id]);
+      return result.rows[0];
+    } catch (error) {
+      console.error('Error purging user:', error);
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,103 @@
+// Splits CSV text into rows of cells (RFC 4180: quoted cells may hold commas,
+// line breaks and "" for a literal quote). Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    cell = '';
+  };
+
+  // Strip the byte order mark spreadsheet apps put in front of UTF-8 exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// "Grade Level", "grade-level" and "GRADE_LEVEL" all become "grade_level"
+export const normalizeHeader = (header: string) => header
+  .trim()
+  .toLowerCase()
+  .replace(/[^a-z0-9]+/g, '_')
+  .replace(/^_|_$/g, '');
+
+export interface CsvMapping<TField extends string> {
+  // One object per data row, keyed by field; unmapped columns are left out
+  records: Partial<Record<TField, string>>[];
+  // Headers that did not match any field
+  unknownColumns: string[];
+  // Required fields with no column in the file
+  missingColumns: TField[];
+}
+
+// Maps the header row onto known fields. `aliases` lists extra header names
+// accepted for a field, in normalized form.
+export const mapCsvColumns = <TField extends string>(
+  rows: string[][],
+  fields: readonly TField[],
+  required: readonly TField[],
+  aliases: Partial<Record<TField, string[]>> = {}
+): CsvMapping<TField> => {
+  const [header = [], ...data] = rows;
+  const columns = header.map(name => {
+    const normalized = normalizeHeader(name);
+    return fields.find(field => field === normalized || aliases[field]?.includes(normalized)) ?? null;
+  });
+
+  return {
+    records: data.map(cells => {
+      const record: Partial<Record<TField, string>> = {};
+      columns.forEach((field, index) => {
+        if (field) record[field] = (cells[index] ?? '').trim();
+      });
+      return record;
+    }),
+    unknownColumns: header.filter((name, index) => columns[index] === null && name.trim() !== ''),
+    missingColumns: required.filter(field => !columns.includes(field)),
+  };
+};
+
+// Quotes a cell when it holds a comma, quote or line break
+const escapeCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The reverse of parseCsv: one line per row, CRLF line endings as spreadsheet apps expect
+export const toCsv = (rows: unknown[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
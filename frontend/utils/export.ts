@@ -0,0 +1,75 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import { Paginated } from '../config/api';
+import { toCsv } from './csv';
+import { sharePdf, tableHtml } from './pdf';
+
+export type ExportFormat = 'csv' | 'pdf';
+
+export interface ExportColumn<T> {
+  label: string;
+  value: (item: T) => unknown;
+}
+
+// Largest page both API servers accept
+const EXPORT_PAGE_SIZE = 100;
+
+// Walks every page of a list, not just the ones the screen has loaded
+export const fetchAllPages = async <T>(
+  fetchPage: (page: number, limit: number) => Promise<Paginated<T>>,
+  onProgress?: (page: number, lastPage: number) => void
+): Promise<T[]> => {
+  const items: T[] = [];
+  let page = 1;
+  let lastPage = 1;
+
+  do {
+    const result = await fetchPage(page, EXPORT_PAGE_SIZE);
+    items.push(...result.items);
+    lastPage = result.pagination.last_page;
+    onProgress?.(page, lastPage);
+    page++;
+  } while (page <= lastPage);
+
+  return items;
+};
+
+// Downloads the file on web; elsewhere writes it to the cache and opens the share sheet
+export const shareCsv = async (csv: string, fileName: string, dialogTitle: string) => {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, csv, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle });
+};
+
+// e.g. "students-2025-06-14.csv"
+const exportFileName = (title: string, format: ExportFormat) => (
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().slice(0, 10)}.${format}`
+);
+
+export const exportList = async <T>(
+  format: ExportFormat,
+  title: string,
+  columns: ExportColumn<T>[],
+  items: T[],
+  subtitle?: string
+) => {
+  const headers = columns.map(column => column.label);
+  const rows = items.map(item => columns.map(column => column.value(item)));
+
+  if (format === 'csv') {
+    await shareCsv(toCsv([headers, ...rows]), exportFileName(title, format), `Share ${title}`);
+  } else {
+    await sharePdf(tableHtml(title, headers, rows, subtitle), `Share ${title}`);
+  }
+};
@@ -0,0 +1,158 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Platform } from 'react-native';
+import {
+  GradingSettings,
+  ReportCard,
+  Schedule,
+  StudentReportCard,
+} from '../config/api';
+import { formatTimeRange, WEEKDAYS } from '../constants/Schedule';
+
+const SCHOOL_NAME = 'Surigao City National High School';
+
+export interface PdfStudent {
+  name: string;
+  grade_level?: string | null;
+  strand?: string | null;
+  section?: string | null;
+}
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatGrade = (grade: number | null) => (grade === null ? '—' : escapeHtml(grade));
+
+const STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 32px; font-size: 12px; }
+  .page { page-break-after: always; }
+  .page:last-child { page-break-after: auto; }
+  .school { text-align: center; font-size: 16px; font-weight: bold; }
+  .title { text-align: center; font-size: 14px; color: #2563EB; margin: 4px 0 20px; }
+  .info { margin-bottom: 16px; }
+  .info td { padding: 2px 12px 2px 0; }
+  .info .label { color: #6B7280; }
+  table.grid { width: 100%; border-collapse: collapse; }
+  table.grid th, table.grid td { border: 1px solid #D1D5DB; padding: 6px 8px; }
+  table.grid th { background: #F3F4F6; text-align: left; }
+  table.grid td.num, table.grid th.num { text-align: center; }
+  .day { background: #DBEAFE; font-weight: bold; }
+  .failed { color: #DC2626; }
+  .summary { margin-top: 16px; text-align: right; font-size: 14px; }
+  .note { margin-top: 24px; color: #6B7280; font-size: 10px; }
+`;
+
+const wrapDocument = (title: string, pages: string[]) => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(title)}</title>
+    <style>${STYLES}</style>
+  </head>
+  <body>${pages.map(page => `<div class="page">${page}</div>`).join('')}</body>
+</html>`;
+
+const studentHeader = (title: string, student: PdfStudent) => `
+  <div class="school">${escapeHtml(SCHOOL_NAME)}</div>
+  <div class="title">${escapeHtml(title)}</div>
+  <table class="info">
+    <tr><td class="label">Name:</td><td>${escapeHtml(student.name)}</td>
+        <td class="label">Grade Level:</td><td>${escapeHtml(student.grade_level || '—')}</td></tr>
+    <tr><td class="label">Section:</td><td>${escapeHtml(student.section || '—')}</td>
+        <td class="label">Strand:</td><td>${escapeHtml(student.strand || '—')}</td></tr>
+  </table>`;
+
+// Weekly timetable, one block of rows per weekday
+export const scheduleHtml = (student: PdfStudent, schedules: Schedule[]) => {
+  const rows = WEEKDAYS.map(day => {
+    const classes = schedules.filter(slot => slot.day_of_week === day.value);
+    if (classes.length === 0) return '';
+    return `<tr><td class="day" colspan="4">${day.label}</td></tr>${classes.map(slot => `
+      <tr>
+        <td>${escapeHtml(formatTimeRange(slot.start_time, slot.end_time))}</td>
+        <td>${escapeHtml(slot.subject ? `${slot.subject.code} — ${slot.subject.name}` : '')}</td>
+        <td>${escapeHtml(slot.teacher?.name || 'TBA')}</td>
+        <td>${escapeHtml(slot.room || '—')}</td>
+      </tr>`).join('')}`;
+  }).join('');
+
+  return wrapDocument(`Class Schedule - ${student.name}`, [`
+    ${studentHeader('Class Schedule', student)}
+    <table class="grid">
+      <tr><th>Time</th><th>Subject</th><th>Teacher</th><th>Room</th></tr>
+      ${rows || '<tr><td colspan="4">No classes scheduled.</td></tr>'}
+    </table>`]);
+};
+
+const reportCardPage = (
+  student: PdfStudent,
+  card: Pick<ReportCard, 'grades' | 'general_average'>,
+  settings: GradingSettings
+) => {
+  const rows = card.grades.map(subject => `
+    <tr>
+      <td>${escapeHtml(subject.code)} — ${escapeHtml(subject.name)}</td>
+      <td class="num">${formatGrade(subject.q1)}</td>
+      <td class="num">${formatGrade(subject.q2)}</td>
+      <td class="num">${formatGrade(subject.q3)}</td>
+      <td class="num">${formatGrade(subject.q4)}</td>
+      <td class="num${subject.passed === false ? ' failed' : ''}">${formatGrade(subject.final)}</td>
+      <td class="num">${subject.passed === null ? '—' : subject.passed ? 'Passed' : 'Failed'}</td>
+    </tr>`).join('');
+
+  return `
+    ${studentHeader('Report Card', student)}
+    <table class="grid">
+      <tr>
+        <th>Subject</th><th class="num">Q1</th><th class="num">Q2</th><th class="num">Q3</th>
+        <th class="num">Q4</th><th class="num">Final</th><th class="num">Remarks</th>
+      </tr>
+      ${rows || '<tr><td colspan="7">No grades recorded.</td></tr>'}
+    </table>
+    <div class="summary">General Average: <b>${formatGrade(card.general_average)}</b></div>
+    <div class="note">
+      Final grades are the ${settings.final_method === 'weighted' ? 'weighted average' : 'average'} of the
+      quarterly grades. Passing grade: ${escapeHtml(settings.passing_grade)}.
+    </div>`;
+};
+
+export const reportCardHtml = (student: PdfStudent, card: ReportCard) => (
+  wrapDocument(`Report Card - ${student.name}`, [reportCardPage(student, card, card.settings)])
+);
+
+// One page per student, for printing a whole section at once
+export const reportCardsHtml = (title: string, cards: StudentReportCard[], settings: GradingSettings) => (
+  wrapDocument(title, cards.map(card => reportCardPage(card.student, card, settings)))
+);
+
+// Renders the HTML to a PDF and opens the share sheet. The web has no PDF
+// file API, so the browser's print dialog (with "Save as PDF") is used there.
+// Plain table of records for list exports, e.g. every student matching a search
+export const tableHtml = (title: string, headers: string[], rows: unknown[][], subtitle?: string) => wrapDocument(title, [`
+  <div class="school">${escapeHtml(SCHOOL_NAME)}</div>
+  <div class="title">${escapeHtml(title)}</div>
+  ${subtitle ? `<div class="info">${escapeHtml(subtitle)}</div>` : ''}
+  <table class="grid">
+    <tr>${headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr>
+    ${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+  </table>
+  <div class="note">${rows.length} records · Generated ${escapeHtml(new Date().toLocaleString())}</div>`]);
+
+export const sharePdf = async (html: string, dialogTitle: string) => {
+  if (Platform.OS === 'web') {
+    await Print.printAsync({ html });
+    return;
+  }
+
+  const { uri } = await Print.printToFileAsync({ html });
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(uri, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle });
+  } else {
+    await Print.printAsync({ uri });
+  }
+};
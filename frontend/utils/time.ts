@@ -0,0 +1,44 @@
+const UNITS: [string, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+];
+
+// e.g. "2 minutes ago", "3 days ago", "just now". Hermes has no
+// Intl.RelativeTimeFormat, so the wording is built here.
+export const timeAgo = (date: string | Date, now: Date = new Date()) => {
+  const seconds = Math.max(0, Math.round((now.getTime() - new Date(date).getTime()) / 1000));
+
+  for (const [unit, size] of UNITS) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size);
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+};
+
+// A local date as YYYY-MM-DD, the format the API takes dates in
+export const toDateString = (date: Date = new Date()) => (
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+);
+
+// Shifts a YYYY-MM-DD date by whole days
+export const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+};
+
+// "2025-06-09" -> "Mon, Jun 9, 2025"
+export const formatDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};